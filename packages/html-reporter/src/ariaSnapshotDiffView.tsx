@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { clsx } from '@web/uiUtils';
+import { AutoChip } from './chip';
+import { TreeItem } from './treeItem';
+import type { AriaDiffNode, AriaSnapshotDiff } from './types';
+import './ariaSnapshotDiffView.css';
+
+export const AriaSnapshotDiffView: React.FC<{
+  diff: AriaSnapshotDiff,
+}> = ({ diff }) => {
+  return <AutoChip header='Aria snapshot mismatch' dataTestId='test-results-aria-diff' noInsets={true}>
+    <div className='aria-diff' role='tree'>
+      {diff.diff.map((node, index) => <AriaDiffNodeView key={index} node={node} depth={0} />)}
+    </div>
+  </AutoChip>;
+};
+
+const AriaDiffNodeView: React.FC<{
+  node: AriaDiffNode,
+  depth: number,
+}> = ({ node, depth }) => {
+  const title = <span className={clsx('aria-diff-node', 'aria-diff-' + node.status)} data-testid='aria-diff-node'>
+    {node.status !== 'unchanged' && <span className='aria-diff-status'>{node.status}</span>}
+    <span className='aria-diff-label'>{node.received ?? node.expected}</span>
+    {node.changes?.map((change, index) => <span key={index} className='aria-diff-change'>
+      {change.attribute}: <span className='aria-diff-expected'>{change.expected}</span> → <span className='aria-diff-received'>{change.received}</span>
+    </span>)}
+  </span>;
+  const children = node.children;
+  return <TreeItem
+    title={title}
+    depth={depth}
+    expandByDefault={hasChanges(children)}
+    loadChildren={children?.length ? () => children.map((child, index) => <AriaDiffNodeView key={index} node={child} depth={depth + 1} />) : undefined}
+  />;
+};
+
+function hasChanges(nodes: AriaDiffNode[] | undefined): boolean {
+  return !!nodes?.some(node => node.status !== 'unchanged' || hasChanges(node.children));
+}
@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { AutoChip } from './chip';
+import type { CoverageCounts, CoverageSummary } from './types';
+import './coverageView.css';
+
+export const CoverageView: React.FC<{
+  coverage: CoverageSummary,
+}> = ({ coverage }) => {
+  return <AutoChip header={`Coverage: ${formatPercent(coverage.lines)} lines, ${formatPercent(coverage.functions)} functions`} noInsets={true} dataTestId='coverage'>
+    <table className='coverage-table'>
+      <thead>
+        <tr>
+          <th>File</th>
+          <th>Lines</th>
+          <th>Functions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {coverage.files.map(file => <tr key={file.fileName}>
+          <td className='coverage-file'>{file.fileName}</td>
+          <CoverageCell counts={file.lines} />
+          <CoverageCell counts={file.functions} />
+        </tr>)}
+      </tbody>
+    </table>
+  </AutoChip>;
+};
+
+const CoverageCell: React.FC<{
+  counts: CoverageCounts,
+}> = ({ counts }) => {
+  return <td className='coverage-cell' title={`${counts.covered} of ${counts.total}`}>{formatPercent(counts)}</td>;
+};
+
+export function formatPercent(counts: CoverageCounts): string {
+  if (!counts.total)
+    return '-';
+  return (Math.floor(counts.covered * 1000 / counts.total) / 10) + '%';
+}
@@ -174,7 +174,7 @@ export class Filter {
 type SearchValues = {
   text: string;
   project: string;
-  status: 'passed' | 'failed' | 'flaky' | 'skipped';
+  status: 'passed' | 'failed' | 'flaky' | 'quarantined' | 'skipped';
   file: string;
   line: string;
   column: string;
@@ -196,6 +196,8 @@ function cacheSearchValues(test: TestCaseSummary & { [searchValuesSymbol]?: Sear
     status = 'flaky';
   if (test.outcome === 'skipped')
     status = 'skipped';
+  if ((status === 'failed' || status === 'flaky') && test.annotations.some(a => a.type === 'quarantine'))
+    status = 'quarantined';
   const searchValues: SearchValues = {
     text: (status + ' ' + test.projectName + ' ' + test.tags.join(' ') + ' ' + test.location.file + ' ' + test.path.join(' ') + ' ' + test.title).toLowerCase(),
     project: test.projectName.toLowerCase(),
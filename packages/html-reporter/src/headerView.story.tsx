@@ -22,6 +22,7 @@ const stats = {
   expected: 42,
   unexpected: 31,
   flaky: 17,
+  quarantined: 0,
   skipped: 10,
   ok: false,
 };
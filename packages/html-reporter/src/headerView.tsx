@@ -14,7 +14,7 @@
   limitations under the License.
 */
 
-import type { Stats } from './types';
+import type { CoverageSummary, Stats } from './types';
 import * as React from 'react';
 import './colors.css';
 import './common.css';
@@ -23,6 +23,7 @@ import * as icons from './icons';
 import { Link, navigate, useSearchParams } from './links';
 import { statusIcon } from './statusIcon';
 import { filterWithQuery } from './filter';
+import { formatPercent } from './coverageView';
 import { linkifyText } from '@web/renderUtils';
 import { Dialog } from '@web/shared/dialog';
 import { kThemeOptions, type Theme, useThemeSetting } from '@web/theme';
@@ -44,9 +45,10 @@ export const HeaderView: React.FC<{
 
 export const GlobalFilterView: React.FC<{
   stats: Stats,
+  coverage?: CoverageSummary,
   filterText: string,
   setFilterText: (filterText: string) => void,
-}> = ({ stats, filterText, setFilterText }) => {
+}> = ({ stats, coverage, filterText, setFilterText }) => {
   const query = useSearchParams().get('q');
   React.useEffect(() => {
     // Add an extra space such that users can easily add to query
@@ -56,7 +58,7 @@ export const GlobalFilterView: React.FC<{
   return (<>
     <div className='pt-3'>
       <div className='header-view-status-container ml-2 pl-2 d-flex'>
-        <StatsNavView stats={stats}></StatsNavView>
+        <StatsNavView stats={stats} coverage={coverage}></StatsNavView>
       </div>
       <form className='subnav-search' onSubmit={
         event => {
@@ -85,9 +87,12 @@ export const GlobalFilterView: React.FC<{
 };
 
 const StatsNavView: React.FC<{
-  stats: Stats
-}> = ({ stats }) => {
-  const isSpeedboard = useSearchParams().has('speedboard');
+  stats: Stats,
+  coverage?: CoverageSummary,
+}> = ({ stats, coverage }) => {
+  const searchParams = useSearchParams();
+  const isSpeedboard = searchParams.has('speedboard');
+  const isCoverage = searchParams.has('coverage');
 
   return <nav>
     <Link className='subnav-item' href='#?'>
@@ -97,10 +102,15 @@ const StatsNavView: React.FC<{
     <NavLink token='passed' count={stats.expected} />
     <NavLink token='failed' count={stats.unexpected} />
     <NavLink token='flaky' count={stats.flaky} />
+    {!!stats.quarantined && <NavLink token='quarantined' count={stats.quarantined} />}
     <NavLink token='skipped' count={stats.skipped} />
     <Link className='subnav-item' href='#?speedboard' title='Speedboard' aria-selected={isSpeedboard}>
       {icons.clock()}
     </Link>
+    {coverage && <Link className='subnav-item' href='#?coverage' title='Coverage' aria-selected={isCoverage}>
+      <span className='subnav-item-label'>Coverage</span>
+      <span className='d-inline counter'>{formatPercent(coverage.lines)}</span>
+    </Link>}
     <SettingsButton />
   </nav>;
 };
@@ -111,6 +121,7 @@ const NavLink: React.FC<{
 }> = ({ token, count }) => {
   const searchParams = new URLSearchParams(useSearchParams());
   searchParams.delete('speedboard');
+  searchParams.delete('coverage');
   searchParams.delete('testId');
 
   const queryToken = `s:${token}`;
@@ -0,0 +1,88 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { msToString } from '@isomorphic/formatUtils';
+import { clsx } from '@web/uiUtils';
+import { AutoChip } from './chip';
+import type { HistoryCommit, TestHistoryEntry } from './types';
+import './historyView.css';
+
+const kTrendWidth = 240;
+const kTrendHeight = 32;
+
+export const HistoryView: React.FC<{
+  history: TestHistoryEntry[],
+}> = ({ history }) => {
+  const firstFailed = firstFailedEntry(history);
+  return <AutoChip header='History' dataTestId='test-history'>
+    <div className='history-row'>
+      <div className='history-label'>Outcome</div>
+      <div className='history-sparkline'>
+        {history.map((entry, index) => <span
+          key={index}
+          className={clsx('history-outcome', 'history-outcome-' + entry.outcome)}
+          title={entryTitle(entry)}
+          data-testid='test-history-outcome'
+        />)}
+      </div>
+    </div>
+    <div className='history-row'>
+      <div className='history-label'>Duration</div>
+      <DurationTrend history={history} />
+      <div className='history-duration-range'>{durationRange(history)}</div>
+    </div>
+    {firstFailed && <div className='history-row' data-testid='test-history-first-failed'>
+      <div className='history-label'>Failing since</div>
+      <div>{firstFailed.commit ? <CommitView commit={firstFailed.commit} /> : new Date(firstFailed.startTime).toLocaleString()}</div>
+    </div>}
+  </AutoChip>;
+};
+
+const DurationTrend: React.FC<{ history: TestHistoryEntry[] }> = ({ history }) => {
+  const max = Math.max(...history.map(entry => entry.duration), 1);
+  const step = history.length > 1 ? kTrendWidth / (history.length - 1) : 0;
+  const points = history.map((entry, index) => [index * step, kTrendHeight - 2 - (entry.duration / max) * (kTrendHeight - 4)]);
+  return <svg className='history-trend' width={kTrendWidth} height={kTrendHeight} viewBox={`-2 0 ${kTrendWidth + 4} ${kTrendHeight}`}>
+    <polyline points={points.map(([x, y]) => `${x},${y}`).join(' ')} />
+    {points.map(([x, y], index) => <circle key={index} cx={x} cy={y} r={2}>
+      <title>{entryTitle(history[index])}</title>
+    </circle>)}
+  </svg>;
+};
+
+const CommitView: React.FC<{ commit: HistoryCommit }> = ({ commit }) => {
+  const hash = commit.href ? <a href={commit.href} target='_blank' rel='noopener noreferrer'>{commit.shortHash}</a> : commit.shortHash;
+  return <span className='history-commit'>{hash}{commit.subject && <span className='history-commit-subject'>{commit.subject}</span>}</span>;
+};
+
+function firstFailedEntry(history: TestHistoryEntry[]): TestHistoryEntry | undefined {
+  // The earliest run of the failure streak that ends with the current run.
+  let result: TestHistoryEntry | undefined;
+  for (let i = history.length - 1; i >= 0 && history[i].outcome === 'unexpected'; --i)
+    result = history[i];
+  return result;
+}
+
+function entryTitle(entry: TestHistoryEntry): string {
+  const commit = entry.commit ? ` at ${entry.commit.shortHash}` : '';
+  return `${new Date(entry.startTime).toLocaleString()}${commit}: ${entry.outcome}, ${msToString(entry.duration)}`;
+}
+
+function durationRange(history: TestHistoryEntry[]): string {
+  const durations = history.map(entry => entry.duration);
+  return `${msToString(Math.min(...durations))} – ${msToString(Math.max(...durations))}`;
+}
@@ -0,0 +1,52 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { bytesToString, msToString } from '@isomorphic/formatUtils';
+import { AutoChip } from './chip';
+import type { PerformanceMetrics } from './types';
+import './performanceView.css';
+
+export const PerformanceView: React.FC<{
+  performance: PerformanceMetrics[],
+}> = ({ performance }) => {
+  return <AutoChip header='Performance' noInsets={true} dataTestId='performance'>
+    <table className='performance-table'>
+      <thead>
+        <tr>
+          <th>URL</th>
+          <th title='Largest Contentful Paint'>LCP</th>
+          <th title='Cumulative Layout Shift'>CLS</th>
+          <th title='Total Blocking Time'>TBT</th>
+          <th>Transferred</th>
+        </tr>
+      </thead>
+      <tbody>
+        {performance.map((metrics, index) => <tr key={index}>
+          <td className='performance-url'>{metrics.url}</td>
+          <td className='performance-cell'>{formatMetric(metrics.LCP, msToString)}</td>
+          <td className='performance-cell'>{formatMetric(metrics.CLS, String)}</td>
+          <td className='performance-cell'>{formatMetric(metrics.TBT, msToString)}</td>
+          <td className='performance-cell'>{formatMetric(metrics.transferSize, bytesToString)}</td>
+        </tr>)}
+      </tbody>
+    </table>
+  </AutoChip>;
+};
+
+function formatMetric(value: number | undefined, format: (value: number) => string): string {
+  return value === undefined ? '-' : format(value);
+}
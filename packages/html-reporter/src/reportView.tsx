@@ -27,6 +27,7 @@ import { TestCaseView } from './testCaseView';
 import { TestFilesHeader, TestFilesView } from './testFilesView';
 import './theme.css';
 import { Speedboard } from './speedboard';
+import { CoverageView } from './coverageView';
 
 declare global {
   interface Window {
@@ -35,9 +36,10 @@ declare global {
 }
 
 // These are extracted to preserve the function identity between renders to avoid re-triggering effects.
-const testFilesRoutePredicate = (params: URLSearchParams) => !params.has('testId') && !params.has('speedboard');
+const testFilesRoutePredicate = (params: URLSearchParams) => !params.has('testId') && !params.has('speedboard') && !params.has('coverage');
 const testCaseRoutePredicate = (params: URLSearchParams) => params.has('testId');
 const speedboardRoutePredicate = (params: URLSearchParams) => params.has('speedboard') && !params.has('testId');
+const coverageRoutePredicate = (params: URLSearchParams) => params.has('coverage') && !params.has('testId');
 
 type TestModelSummary = {
   files: TestFileSummary[];
@@ -100,12 +102,14 @@ export const ReportView: React.FC<{
           event.preventDefault();
           params.delete('testId');
           params.delete('speedboard');
+          params.delete('coverage');
           navigate(filterWithQuery(params, 's:passed', false));
           break;
         case 'f':
           event.preventDefault();
           params.delete('testId');
           params.delete('speedboard');
+          params.delete('coverage');
           navigate(filterWithQuery(params, 's:failed', false));
           break;
         case 'ArrowLeft':
@@ -138,7 +142,7 @@ export const ReportView: React.FC<{
 
   return <div className='htmlreport vbox px-4 pb-4'>
     <main>
-      {report && <GlobalFilterView stats={report.json().stats} filterText={filterText} setFilterText={setFilterText} />}
+      {report && <GlobalFilterView stats={report.json().stats} coverage={report.json().coverage} filterText={filterText} setFilterText={setFilterText} />}
       <Route predicate={testFilesRoutePredicate}>
         <TestFilesHeader
           report={report?.json()}
@@ -164,6 +168,9 @@ export const ReportView: React.FC<{
           setErrorsVisible={setErrorsVisible}/>
         {report && <Speedboard report={report} tests={testModel.tests} />}
       </Route>
+      <Route predicate={coverageRoutePredicate}>
+        {report?.json().coverage && <CoverageView coverage={report.json().coverage!} />}
+      </Route>
       <Route predicate={testCaseRoutePredicate}>
         {report && <TestCaseViewLoader report={report} next={next} prev={prev} testId={testId} testIdToFileIdMap={testIdToFileIdMap} />}
       </Route>
@@ -255,7 +262,7 @@ function createMergedFilesModel(report: LoadedReport | undefined, filter: Filter
           fileId: describe,
           fileName: describe,
           tests: [],
-          stats: { total: 0, expected: 0, unexpected: 0, flaky: 0, skipped: 0, ok: true }
+          stats: { total: 0, expected: 0, unexpected: 0, flaky: 0, quarantined: 0, skipped: 0, ok: true }
         };
         groupMap.set(describe, group);
         groups.push(group);
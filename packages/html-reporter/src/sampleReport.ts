@@ -149,7 +149,7 @@ export const testFile: TestFileSummary = {
   fileId: 'file-id',
   fileName: 'test.spec.ts',
   tests: [basicTest, annotationLinksTest, attachmentLinksTest, nextTest, twoAttemptsTest, webkitTest],
-  stats: { total: 6, expected: 4, unexpected: 1, flaky: 1, skipped: 0, ok: false },
+  stats: { total: 6, expected: 4, unexpected: 1, flaky: 1, quarantined: 0, skipped: 0, ok: false },
 };
 
 export const report: HTMLReport = {
@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { AutoChip } from './chip';
+import * as icons from './icons';
+import { Link, testResultHref, useSearchParams } from './links';
+import type { ScreenshotMatrix, TestCase, TestResult } from './types';
+import './screenshotMatrixView.css';
+
+export const ScreenshotMatrixView: React.FC<{
+  matrix: ScreenshotMatrix,
+  test: TestCase,
+  result: TestResult,
+}> = ({ matrix, test, result }) => {
+  const searchParams = useSearchParams();
+  const rows = matrix.viewports ?? [undefined];
+  const columns = matrix.colorSchemes ?? [undefined];
+  const failed = matrix.cells.filter(cell => cell.status === 'failed').length;
+
+  return <AutoChip header={`Screenshot matrix: ${failed} of ${matrix.cells.length} failed`} dataTestId='screenshot-matrix'>
+    <table className='screenshot-matrix'>
+      {matrix.colorSchemes && <thead>
+        <tr>
+          {matrix.viewports && <th></th>}
+          {columns.map(column => <th key={column}>{column}</th>)}
+        </tr>
+      </thead>}
+      <tbody>
+        {rows.map(row => <tr key={row ?? ''}>
+          {row && <th>{row}</th>}
+          {columns.map(column => {
+            const cell = matrix.cells.find(cell => cell.viewport === row && cell.colorScheme === column);
+            if (!cell)
+              return <td key={column ?? ''}></td>;
+            // Image diffs are anchored by the snapshot name without extension.
+            const anchor = `attachment-${cell.snapshot.replace(/\.[^.]+$/, '')}`;
+            return <td key={column ?? ''} className={'screenshot-matrix-' + cell.status} data-testid='screenshot-matrix-cell' title={cell.snapshot}>
+              {cell.status === 'failed'
+                ? <Link href={testResultHref({ test, result, anchor }, searchParams)}>{icons.cross()} failed</Link>
+                : cell.status === 'missing' ? <>{icons.warning()} written</> : <>{icons.check()} passed</>}
+            </td>;
+          })}
+        </tr>)}
+      </tbody>
+    </table>
+  </AutoChip>;
+};
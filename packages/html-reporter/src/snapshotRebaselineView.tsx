@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as React from 'react';
+import { AutoChip } from './chip';
+import type { SnapshotRebaseline } from './types';
+import './snapshotRebaselineView.css';
+
+type RebaselineStatuses = Record<string, 'pending' | 'accepted' | 'rejected'>;
+
+const rebaselineTokenHeader = 'x-playwright-rebaseline-token';
+
+export const SnapshotRebaselineView: React.FC<{
+  rebaselines: SnapshotRebaseline[],
+}> = ({ rebaselines }) => {
+  const [statuses, setStatuses] = React.useState<RebaselineStatuses>();
+  const [token, setToken] = React.useState<string>();
+  const [error, setError] = React.useState<string>();
+
+  React.useEffect(() => {
+    // Snapshots can only be updated when the report is served with `show-report`.
+    fetch('rebaselines').then(async response => {
+      if (!response.ok)
+        return;
+      setToken(response.headers.get(rebaselineTokenHeader) ?? undefined);
+      setStatuses(await response.json());
+    }).catch(() => {});
+  }, []);
+
+  const update = React.useCallback(async (id: string, action: 'accept' | 'reject') => {
+    const response = await fetch('rebaselines', { method: 'POST', headers: { 'Content-Type': 'application/json', [rebaselineTokenHeader]: token ?? '' }, body: JSON.stringify({ id, action }) });
+    if (response.ok) {
+      setStatuses(await response.json());
+      setError(undefined);
+    } else {
+      setError(await response.text());
+    }
+  }, [token]);
+
+  if (!statuses)
+    return null;
+
+  return <AutoChip header='Snapshot changes' dataTestId='snapshot-rebaselines'>
+    {rebaselines.map(rebaseline => {
+      const status = statuses[rebaseline.id];
+      return <div key={rebaseline.id} className='snapshot-rebaseline' data-testid='snapshot-rebaseline'>
+        <span className='snapshot-rebaseline-title'>{rebaseline.title}</span>
+        {status === 'pending' ? <>
+          <button className='button' onClick={() => update(rebaseline.id, 'accept')}>Accept</button>
+          <button className='button' onClick={() => update(rebaseline.id, 'reject')}>Reject</button>
+        </> : <span className='snapshot-rebaseline-status'>{status === 'accepted' ? 'Accepted' : status === 'rejected' ? 'Rejected' : 'Not available'}</span>}
+      </div>;
+    })}
+    {error && <div className='snapshot-rebaseline-error'>{error}</div>}
+  </AutoChip>;
+};
@@ -18,7 +18,7 @@ import * as icons from './icons';
 import './colors.css';
 import './common.css';
 
-export function statusIcon(status: 'failed' | 'timedOut' | 'skipped' | 'passed' | 'expected' | 'unexpected' | 'flaky' | 'interrupted'): React.JSX.Element {
+export function statusIcon(status: 'failed' | 'timedOut' | 'skipped' | 'passed' | 'expected' | 'unexpected' | 'flaky' | 'quarantined' | 'interrupted'): React.JSX.Element {
   switch (status) {
     case 'failed':
     case 'unexpected':
@@ -29,6 +29,7 @@ export function statusIcon(status: 'failed' | 'timedOut' | 'skipped' | 'passed'
     case 'timedOut':
       return icons.clock();
     case 'flaky':
+    case 'quarantined':
       return icons.warning();
     case 'skipped':
     case 'interrupted':
@@ -15,10 +15,12 @@
 */
 
 import { ansi2html } from '@web/ansi2html';
+import { stripAnsiEscapes } from '@isomorphic/stringUtils';
 import * as React from 'react';
 import './testErrorView.css';
 import type { ImageDiff } from '@web/shared/imageDiffView';
 import { ImageDiffView } from '@web/shared/imageDiffView';
+import type { SoftErrorGroup } from './types';
 
 export const CodeSnippet = ({ code, children, testId }: React.PropsWithChildren<{ code: string; testId?: string; }>) => {
   const html = React.useMemo(() => ansiErrorToHtml(code), [code]);
@@ -54,6 +56,23 @@ export const TestScreenshotErrorView: React.FC<{
   </div>;
 };
 
+export const SoftErrorGroupsView: React.FC<{
+  groups: SoftErrorGroup[],
+}> = ({ groups }) => {
+  return <table className='soft-error-groups' data-testid='soft-error-groups'>
+    <thead>
+      <tr><th>Group</th><th>Failures</th><th>First failure</th></tr>
+    </thead>
+    <tbody>
+      {groups.map((group, index) => <tr key={index}>
+        <td>{group.title}</td>
+        <td className='soft-error-groups-count'>{group.errors.length}</td>
+        <td className='soft-error-groups-message'>{stripAnsiEscapes(group.errors[0] || '').split('\n')[0]}</td>
+      </tr>)}
+    </tbody>
+  </table>;
+};
+
 function ansiErrorToHtml(text?: string): string {
   const defaultColors = {
     bg: 'var(--color-canvas-subtle)',
@@ -25,12 +25,16 @@ import { Anchor, AttachmentLink, generateTraceUrl, testResultHref, useSearchPara
 import { statusIcon } from './statusIcon';
 import type { ImageDiff } from '@web/shared/imageDiffView';
 import { ImageDiffView } from '@web/shared/imageDiffView';
-import { CodeSnippet, PromptButton, TestScreenshotErrorView } from './testErrorView';
+import { CodeSnippet, PromptButton, SoftErrorGroupsView, TestScreenshotErrorView } from './testErrorView';
 import * as icons from './icons';
 import './testResultView.css';
 import { useAsyncMemo } from '@web/uiUtils';
 import type { LoadedReport } from './loadedReport';
 import { TestCaseListView } from './testFileView';
+import { PerformanceView } from './performanceView';
+import { AriaSnapshotDiffView } from './ariaSnapshotDiffView';
+import { ScreenshotMatrixView } from './screenshotMatrixView';
+import { SnapshotRebaselineView } from './snapshotRebaselineView';
 import { stripAnsiEscapes } from '@isomorphic/stringUtils';
 
 interface ImageDiffWithAnchors extends ImageDiff {
@@ -88,7 +92,7 @@ export const TestResultView: React.FC<{
     [...screenshots, ...videos, ...traces].forEach(a => otherAttachments.delete(a));
     const otherAttachmentAnchors = [...otherAttachments].map(a => `attachment-${attachments.indexOf(a)}`);
     const diffs = groupImageDiffs(screenshots, result);
-    const errors = result.errors.map(e => e.message);
+    const errors = result.errors;
     return { screenshots: [...screenshots], videos, traces, otherAttachments, diffs, errors, otherAttachmentAnchors, screenshotAnchors, errorContext };
   }, [result]);
 
@@ -129,9 +133,10 @@ export const TestResultView: React.FC<{
         </div>
       )}
       {errors.map((error, index) => {
-        const diff = pickDiffForError(error, diffs);
+        const diff = pickDiffForError(error.message, diffs);
         return <>
-          <CodeSnippet key={'test-result-error-message-' + index} code={error}/>
+          <CodeSnippet key={'test-result-error-message-' + index} code={error.message}/>
+          {error.groups && <SoftErrorGroupsView groups={error.groups}></SoftErrorGroupsView>}
           {diff && <TestScreenshotErrorView diff={diff}></TestScreenshotErrorView>}
         </>;
       })}
@@ -144,6 +149,8 @@ export const TestResultView: React.FC<{
       {result.steps.map((step, i) => <StepTreeItem key={`step-${i}`} step={step} result={result} test={test} depth={0} filterText={stepFilterText}/>)}
     </AutoChip>}
 
+    {result.screenshotMatrices?.map((matrix, index) => <ScreenshotMatrixView key={`screenshot-matrix-${index}`} matrix={matrix} test={test} result={result} />)}
+
     {diffs.map((diff, index) =>
       <Anchor key={`diff-${index}`} id={diff.anchors}>
         <AutoChip dataTestId='test-results-image-diff' header={`Image mismatch: ${diff.name}`} revealOnAnchorId={diff.anchors}>
@@ -152,6 +159,10 @@ export const TestResultView: React.FC<{
       </Anchor>
     )}
 
+    {result.ariaSnapshotDiffs?.map((diff, index) => <AriaSnapshotDiffView key={`aria-diff-${index}`} diff={diff} />)}
+
+    {!!result.snapshotRebaselines?.length && <SnapshotRebaselineView rebaselines={result.snapshotRebaselines} />}
+
     {!!screenshots.length && <AutoChip header='Screenshots' revealOnAnchorId={screenshotAnchors}>
       {screenshots.map((a, i) => {
         return <Anchor key={`screenshot-${i}`} id={`attachment-${result.attachments.indexOf(a)}`}>
@@ -181,6 +192,8 @@ export const TestResultView: React.FC<{
       </div>)}
     </AutoChip></Anchor>}
 
+    {!!result.performance?.length && <PerformanceView performance={result.performance} />}
+
     {!!otherAttachments.size && <AutoChip header='Attachments' revealOnAnchorId={otherAttachmentAnchors} dataTestId='attachments'>
       {[...otherAttachments].map((a, i) =>
         <Anchor key={`attachment-link-${i}`} id={`attachment-${result.attachments.indexOf(a)}`}>
@@ -21,6 +21,7 @@ export type Stats = {
   expected: number;
   unexpected: number;
   flaky: number;
+  quarantined: number;
   skipped: number;
   ok: boolean;
 };
@@ -58,6 +59,22 @@ export type HTMLReport = {
   }[];
   errors: string[];  // Top-level errors that are not attributed to any test.
   options: HTMLReportOptions;
+  coverage?: CoverageSummary;
+};
+
+export type CoverageCounts = {
+  covered: number;
+  total: number;
+};
+
+export type CoverageSummary = {
+  lines: CoverageCounts;
+  functions: CoverageCounts;
+  files: {
+    fileName: string;
+    lines: CoverageCounts;
+    functions: CoverageCounts;
+  }[];
 };
 
 export type TestFile = {
@@ -96,6 +113,21 @@ export type TestResultSummary = {
 
 export type TestCase = Omit<TestCaseSummary, 'results'> & {
   results: TestResult[];
+  history?: TestHistoryEntry[];  // Oldest first, ends with the current run.
+};
+
+export type TestHistoryEntry = {
+  startTime: number;
+  outcome: TestCaseSummary['outcome'];
+  duration: number;
+  commit?: HistoryCommit;
+};
+
+export type HistoryCommit = {
+  hash: string;
+  shortHash: string;
+  subject?: string;
+  href?: string;
 };
 
 export type TestAttachment = {
@@ -110,11 +142,58 @@ export type TestResult = {
   startTime: string;
   duration: number;
   steps: TestStep[];
-  errors: { message: string, codeframe?: string }[];
+  errors: { message: string, codeframe?: string, groups?: SoftErrorGroup[] }[];
   attachments: TestAttachment[];
   status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
   annotations: TestAnnotation[];
   workerIndex: number;
+  performance?: PerformanceMetrics[];
+  ariaSnapshotDiffs?: AriaSnapshotDiff[];
+  screenshotMatrices?: ScreenshotMatrix[];
+  snapshotRebaselines?: SnapshotRebaseline[];
+};
+
+export type SoftErrorGroup = {
+  title: string;
+  errors: string[];
+};
+
+export type ScreenshotMatrix = {
+  viewports?: string[];
+  colorSchemes?: string[];
+  cells: {
+    viewport?: string;
+    colorScheme?: string;
+    snapshot: string;
+    status: 'passed' | 'failed' | 'missing';
+  }[];
+};
+
+export type SnapshotRebaseline = {
+  id: string;
+  title: string;
+};
+
+export type AriaSnapshotDiff = {
+  expected: string;
+  received: string;
+  diff: AriaDiffNode[];
+};
+
+export type AriaDiffNode = {
+  status: 'unchanged' | 'added' | 'removed' | 'moved' | 'changed';
+  expected?: string;
+  received?: string;
+  changes?: { attribute: string, expected: string, received: string }[];
+  children?: AriaDiffNode[];
+};
+
+export type PerformanceMetrics = {
+  url: string;
+  LCP?: number;
+  CLS?: number;
+  TBT?: number;
+  transferSize?: number;
 };
 
 export type TestStep = {
@@ -0,0 +1,197 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getElementComputedStyle, isElementVisible, isInsideScope, parentElementOrShadowHost } from './domUtils';
+import * as roleUtils from './roleUtils';
+
+export type AccessibilityViolation = {
+  rule: AccessibilityRule;
+  message: string;
+  element: Element;
+};
+
+export type AccessibilityAuditOptions = {
+  // Must be a subset of kAccessibilityRules.
+  rules?: string[];
+  exclude?: Element[];
+};
+
+type AccessibilityRule = keyof typeof kRules;
+
+const kRules = {
+  'accessible-name': checkAccessibleName,
+  'duplicate-id-aria': checkDuplicateIdAria,
+  'aria-allowed-attr': checkAriaAllowedAttr,
+  'color-contrast': checkColorContrast,
+};
+
+export const kAccessibilityRules = Object.keys(kRules) as AccessibilityRule[];
+
+const kInteractiveRoles = ['button', 'checkbox', 'combobox', 'link', 'listbox', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem'];
+
+const kIdReferenceAttributes = ['aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details', 'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns'];
+
+const kRoleSpecificAttributes: [string, string[]][] = [
+  ['aria-checked', roleUtils.kAriaCheckedRoles],
+  ['aria-expanded', roleUtils.kAriaExpandedRoles],
+  ['aria-level', roleUtils.kAriaLevelRoles],
+  ['aria-pressed', roleUtils.kAriaPressedRoles],
+  ['aria-readonly', roleUtils.kAriaReadonlyRoles],
+  ['aria-selected', roleUtils.kAriaSelectedRoles],
+];
+
+export function auditAccessibility(root: Element, options: AccessibilityAuditOptions): AccessibilityViolation[] {
+  const rules = (options.rules ?? kAccessibilityRules) as AccessibilityRule[];
+  const exclude = options.exclude ?? [];
+  const elements = collectElements(root).filter(element => !exclude.some(scope => isInsideScope(scope, element)));
+  const violations: AccessibilityViolation[] = [];
+  roleUtils.beginAriaCaches();
+  try {
+    for (const rule of rules)
+      kRules[rule](elements, (element, message) => violations.push({ rule, message, element }));
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+  return violations;
+}
+
+type Report = (element: Element, message: string) => void;
+
+function checkAccessibleName(elements: Element[], report: Report) {
+  for (const element of elements) {
+    const role = roleUtils.getAriaRole(element);
+    if (!role || !kInteractiveRoles.includes(role) || roleUtils.isElementHiddenForAria(element))
+      continue;
+    if (!roleUtils.getElementAccessibleNameText(element, false /* includeHidden */))
+      report(element, `${role} has no accessible name`);
+  }
+}
+
+function checkDuplicateIdAria(elements: Element[], report: Report) {
+  const idCounts = new Map<string, number>();
+  for (const element of elements) {
+    if (element.id)
+      idCounts.set(element.id, (idCounts.get(element.id) ?? 0) + 1);
+  }
+  for (const element of elements) {
+    for (const attribute of kIdReferenceAttributes) {
+      const ids = element.getAttribute(attribute)?.split(/\s+/).filter(Boolean) ?? [];
+      for (const id of ids) {
+        const count = idCounts.get(id) ?? 0;
+        if (count > 1)
+          report(element, `${attribute} references id "${id}" that is used by ${count} elements`);
+      }
+    }
+  }
+}
+
+function checkAriaAllowedAttr(elements: Element[], report: Report) {
+  for (const element of elements) {
+    const role = roleUtils.getAriaRole(element);
+    for (const [attribute, roles] of kRoleSpecificAttributes) {
+      if (element.hasAttribute(attribute) && (!role || !roles.includes(role)))
+        report(element, `${attribute} is not supported ${role ? `on role "${role}"` : 'on an element without a role'}`);
+    }
+  }
+}
+
+function checkColorContrast(elements: Element[], report: Report) {
+  for (const element of elements) {
+    const hasText = [...element.childNodes].some(node => node.nodeType === 3 /* Node.TEXT_NODE */ && node.nodeValue?.trim());
+    if (!hasText || !isElementVisible(element) || roleUtils.getAriaDisabled(element))
+      continue;
+    const style = getElementComputedStyle(element);
+    const foreground = parseColor(style?.color);
+    const background = computeBackgroundColor(element);
+    if (!style || !foreground || !background)
+      continue;
+    const color = blend(foreground, background);
+    const ratio = contrastRatio(color, background);
+    const fontSize = parseFloat(style.fontSize);
+    const isLargeText = fontSize >= 24 || (fontSize >= 18.66 && +style.fontWeight >= 700);
+    const expected = isLargeText ? 3 : 4.5;
+    if (ratio < expected)
+      report(element, `text contrast ratio ${ratio.toFixed(2)}:1 is below ${expected}:1 (${formatColor(color)} on ${formatColor(background)})`);
+  }
+}
+
+function collectElements(root: Element): Element[] {
+  const result: Element[] = [];
+  const visit = (element: Element) => {
+    if (roleUtils.isElementIgnoredForAria(element))
+      return;
+    result.push(element);
+    for (const child of element.shadowRoot ? element.shadowRoot.children : [])
+      visit(child);
+    for (const child of element.children)
+      visit(child);
+  };
+  visit(root);
+  return result;
+}
+
+type RGBA = [number, number, number, number];
+
+function computeBackgroundColor(element: Element): RGBA | undefined {
+  // Layers from the element up to the first opaque background, composed over white.
+  const layers: RGBA[] = [];
+  for (let e: Element | undefined = element; e; e = parentElementOrShadowHost(e)) {
+    const style = getElementComputedStyle(e);
+    // Text over images cannot be checked.
+    if (style?.backgroundImage && style.backgroundImage !== 'none')
+      return;
+    const color = parseColor(style?.backgroundColor);
+    if (!color || !color[3])
+      continue;
+    layers.push(color);
+    if (color[3] === 1)
+      break;
+  }
+  return layers.reduceRight<RGBA>((background, layer) => blend(layer, background), [255, 255, 255, 1]);
+}
+
+function parseColor(color: string | undefined): RGBA | undefined {
+  const match = color?.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/);
+  if (!match)
+    return;
+  const alpha = match[4] === undefined ? 1 : +match[4] / (match[5] ? 100 : 1);
+  return [+match[1], +match[2], +match[3], alpha];
+}
+
+function blend(color: RGBA, background: RGBA): RGBA {
+  const alpha = color[3];
+  return [0, 1, 2].map(i => color[i] * alpha + background[i] * (1 - alpha)).concat(1) as RGBA;
+}
+
+// https://www.w3.org/TR/WCAG21/#dfn-relative-luminance
+function relativeLuminance(color: RGBA): number {
+  const [r, g, b] = color.slice(0, 3).map(c => {
+    const s = c / 255;
+    return s <= 0.04045 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio
+function contrastRatio(color1: RGBA, color2: RGBA): number {
+  const l1 = relativeLuminance(color1);
+  const l2 = relativeLuminance(color2);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+function formatColor(color: RGBA): string {
+  return '#' + color.slice(0, 3).map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
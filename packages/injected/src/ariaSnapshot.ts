@@ -22,6 +22,8 @@ import { distillAriaSnapshot } from './ariaSnapshotDistiller';
 import { computeBox, getElementComputedStyle, isElementVisible } from './domUtils';
 import * as roleUtils from './roleUtils';
 
+import type { AriaDiffNode } from './ariaSnapshotDiff';
+
 export type AriaSnapshot = {
   root: aria.AriaNode;
   info: Map<string, { element: Element, nameFromContentRefs: string[] }>;
@@ -303,7 +305,7 @@ function toAriaNode(element: Element, options: InternalOptions, nameSourceElemen
   return result;
 }
 
-function matchesStringOrRegex(text: string, template: aria.AriaRegex | string | undefined): boolean {
+export function matchesStringOrRegex(text: string, template: aria.AriaRegex | string | undefined): boolean {
   if (!template)
     return true;
   if (!text)
@@ -313,7 +315,7 @@ function matchesStringOrRegex(text: string, template: aria.AriaRegex | string |
   return !!text.match(new RegExp(template.pattern));
 }
 
-function matchesTextValue(text: string, template: aria.AriaTextValue | undefined) {
+export function matchesTextValue(text: string, template: aria.AriaTextValue | undefined) {
   if (!template?.normalized)
     return true;
   if (!text)
@@ -351,6 +353,8 @@ function cachedRegex(template: aria.AriaTextValue): RegExp | null {
 export type MatcherReceived = {
   raw: string;
   regex: string;
+  // Only set for the final failure of the expect.
+  diff?: AriaDiffNode[];
 };
 
 export function matchesExpectAriaTemplate(rootElement: Element, template: aria.AriaTemplateNode): { matches: aria.AriaNode[], received: MatcherReceived } {
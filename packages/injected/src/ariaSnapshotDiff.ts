@@ -0,0 +1,210 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { matchesStringOrRegex, matchesTextValue } from './ariaSnapshot';
+
+import type * as aria from '@isomorphic/ariaSnapshot';
+
+export type AriaDiffNode = {
+  status: 'unchanged' | 'added' | 'removed' | 'moved' | 'changed';
+  // Rendered template node, absent for added nodes.
+  expected?: string;
+  // Rendered snapshot node, absent for removed nodes.
+  received?: string;
+  changes?: { attribute: string, expected: string, received: string }[];
+  children?: AriaDiffNode[];
+};
+
+type ContainerMode = NonNullable<aria.AriaTemplateRoleNode['containerMode']>;
+type Child = aria.AriaNode | string;
+
+const kAttributes = ['checked', 'disabled', 'expanded', 'invalid', 'level', 'pressed', 'selected'] as const;
+
+export function diffAriaTemplate(root: aria.AriaNode, template: aria.AriaTemplateNode): AriaDiffNode[] {
+  const templateChildren = template.kind === 'role' && template.role === 'fragment' ? template.children || [] : [template];
+  // Templates match anywhere in the tree, anchor the diff at the container that matches most of the template.
+  let anchorPath = [root];
+  let bestScore = 0;
+  const visit = (path: aria.AriaNode[]) => {
+    const node = path[path.length - 1];
+    const score = templateChildren.filter(t => node.children.some(c => isSameNode(c, t))).length;
+    if (score > bestScore) {
+      anchorPath = path;
+      bestScore = score;
+    }
+    for (const child of node.children) {
+      if (typeof child !== 'string')
+        visit([...path, child]);
+    }
+  };
+  visit([root]);
+  const mode = template.kind === 'role' && template.role === 'fragment' ? template.containerMode ?? 'contain' : 'contain';
+  let result = diffChildren(anchorPath[anchorPath.length - 1].children, templateChildren, mode);
+  // Ancestors of the anchor provide the context, the root fragment is not rendered.
+  for (const ancestor of anchorPath.slice(1).reverse())
+    result = [{ status: 'unchanged', received: renderNode(ancestor), children: result }];
+  return result;
+}
+
+function diffChildren(children: Child[], templates: aria.AriaTemplateNode[], mode: ContainerMode): AriaDiffNode[] {
+  const pairs = new Map<number, { child: number, moved: boolean }>();
+  const pairedChildren = new Set<number>();
+  const pair = (t: number, c: number, moved: boolean) => {
+    pairs.set(t, { child: c, moved });
+    pairedChildren.add(c);
+  };
+
+  // Nodes that kept their relative order.
+  for (const [t, c] of longestCommonSubsequence(templates, children))
+    pair(t, c, false);
+  // Nodes that are present, but in a different position.
+  for (let t = 0; t < templates.length; ++t) {
+    if (pairs.has(t))
+      continue;
+    const c = children.findIndex((child, c) => !pairedChildren.has(c) && isSameNode(child, templates[t]));
+    if (c !== -1)
+      pair(t, c, true);
+  }
+  // Nodes of the same kind that were renamed.
+  for (let t = 0; t < templates.length; ++t) {
+    if (pairs.has(t))
+      continue;
+    const c = children.findIndex((child, c) => !pairedChildren.has(c) && isSameKind(child, templates[t]));
+    if (c !== -1)
+      pair(t, c, false);
+  }
+
+  // Removed nodes go after the node that preceded them in the template.
+  const result: { order: number, node: AriaDiffNode }[] = [];
+  let order = -0.5;
+  for (let t = 0; t < templates.length; ++t) {
+    const paired = pairs.get(t);
+    if (paired) {
+      order = paired.child;
+      result.push({ order, node: diffNode(children[paired.child], templates[t], paired.moved, mode) });
+    } else {
+      result.push({ order: order + 0.5, node: { status: 'removed', expected: renderTemplate(templates[t]) } });
+    }
+  }
+  // Extra nodes only matter when the template lists all children.
+  if (mode !== 'contain') {
+    for (let c = 0; c < children.length; ++c) {
+      if (!pairedChildren.has(c))
+        result.push({ order: c, node: { status: 'added', received: renderNode(children[c]) } });
+    }
+  }
+  return result.sort((a, b) => a.order - b.order).map(r => r.node);
+}
+
+function diffNode(child: Child, template: aria.AriaTemplateNode, moved: boolean, mode: ContainerMode): AriaDiffNode {
+  const node: AriaDiffNode = { status: moved ? 'moved' : 'unchanged', expected: renderTemplate(template), received: renderNode(child) };
+  const changes: NonNullable<AriaDiffNode['changes']> = [];
+  if (template.kind === 'text') {
+    if (!matchesTextValue(childText(child), template.text))
+      changes.push({ attribute: 'text', expected: template.text.raw, received: childText(child) });
+  } else if (typeof child !== 'string') {
+    if (!matchesStringOrRegex(child.name, template.name))
+      changes.push({ attribute: 'name', expected: renderName(template.name), received: JSON.stringify(child.name) });
+    for (const attribute of kAttributes) {
+      if (template[attribute] !== undefined && template[attribute] !== child[attribute])
+        changes.push({ attribute, expected: String(template[attribute]), received: String(child[attribute] ?? false) });
+    }
+    if (!matchesTextValue(child.props.url, template.props?.url))
+      changes.push({ attribute: 'url', expected: template.props!.url.raw, received: child.props.url ?? '' });
+    const childMode = template.containerMode ?? (mode === 'deep-equal' ? 'deep-equal' : 'contain');
+    const children = diffChildren(child.children, template.children || [], childMode);
+    if (children.length)
+      node.children = children;
+  }
+  if (changes.length) {
+    node.changes = changes;
+    if (!moved)
+      node.status = 'changed';
+  }
+  return node;
+}
+
+function isSameKind(child: Child, template: aria.AriaTemplateNode): boolean {
+  if (template.kind === 'text')
+    return typeof child === 'string';
+  return typeof child !== 'string' && child.role === template.role;
+}
+
+function isSameNode(child: Child, template: aria.AriaTemplateNode): boolean {
+  if (!isSameKind(child, template))
+    return false;
+  if (template.kind === 'text')
+    return matchesTextValue(child as string, template.text);
+  const node = child as aria.AriaNode;
+  if (template.name !== undefined)
+    return matchesStringOrRegex(node.name, template.name);
+  // Unnamed nodes, like list items, are told apart by their text.
+  const texts = node.children.filter(c => typeof c === 'string');
+  return (template.children || []).every(t => t.kind !== 'text' || texts.some(text => matchesTextValue(text, t.text)));
+}
+
+function longestCommonSubsequence(templates: aria.AriaTemplateNode[], children: Child[]): [number, number][] {
+  const lengths: number[][] = Array.from({ length: templates.length + 1 }, () => new Array(children.length + 1).fill(0));
+  for (let t = templates.length - 1; t >= 0; --t) {
+    for (let c = children.length - 1; c >= 0; --c)
+      lengths[t][c] = isSameNode(children[c], templates[t]) ? lengths[t + 1][c + 1] + 1 : Math.max(lengths[t + 1][c], lengths[t][c + 1]);
+  }
+  const result: [number, number][] = [];
+  for (let t = 0, c = 0; t < templates.length && c < children.length;) {
+    if (isSameNode(children[c], templates[t]))
+      result.push([t++, c++]);
+    else if (lengths[t + 1][c] >= lengths[t][c + 1])
+      ++t;
+    else
+      ++c;
+  }
+  return result;
+}
+
+function childText(child: Child): string {
+  return typeof child === 'string' ? child : child.name;
+}
+
+function renderName(name: aria.AriaRegex | string | undefined): string {
+  if (name === undefined)
+    return '';
+  return typeof name === 'string' ? JSON.stringify(name) : `/${name.pattern}/`;
+}
+
+function renderAttributes(node: aria.AriaProps): string {
+  let result = '';
+  for (const attribute of kAttributes) {
+    const value = node[attribute];
+    if (value === true)
+      result += ` [${attribute}]`;
+    else if (value !== undefined && value !== false)
+      result += ` [${attribute}=${value}]`;
+  }
+  return result;
+}
+
+function renderTemplate(template: aria.AriaTemplateNode): string {
+  if (template.kind === 'text')
+    return `text: ${template.text.raw}`;
+  const name = renderName(template.name);
+  return template.role + (name ? ' ' + name : '') + renderAttributes(template);
+}
+
+function renderNode(child: Child): string {
+  if (typeof child === 'string')
+    return `text: ${child}`;
+  return child.role + (child.name ? ' ' + JSON.stringify(child.name) : '') + renderAttributes(child);
+}
@@ -21,7 +21,9 @@ import { splitTestIdAttributeNames } from '@isomorphic/locatorUtils';
 import { parseAttributeSelector, parseSelector, stringifySelector, visitAllSelectorParts } from '@isomorphic/selectorParser';
 import { cacheNormalizedWhitespaces, normalizeWhiteSpace, trimStringWithEllipsis } from '@isomorphic/stringUtils';
 
+import { auditAccessibility, kAccessibilityRules } from './accessibilityAudit';
 import { generateAriaTree, getAllElementsMatchingExpectAriaTemplate, matchesExpectAriaTemplate, renderAriaTreeAsJSON, findNewElement } from './ariaSnapshot';
+import { diffAriaTemplate } from './ariaSnapshotDiff';
 import { beginDOMCaches, enclosingShadowRootOrDocument, endDOMCaches, isElementVisible, isInsideScope, parentElementOrShadowHost, setGlobalOptions } from './domUtils';
 import { Highlight } from './highlight';
 import { kLayoutSelectorNames, layoutSelectorScore } from './layoutSelectorUtils';
@@ -39,6 +41,7 @@ import type { CSSComplexSelectorList } from '@isomorphic/cssParser';
 import type { Language } from '@isomorphic/locatorGenerators';
 import type { AttributeSelectorPart, NestedSelectorBody, ParsedSelector, ParsedSelectorPart } from '@isomorphic/selectorParser';
 import type { AriaSnapshot, AriaTreeOptions } from './ariaSnapshot';
+import type { AriaDiffNode } from './ariaSnapshotDiff';
 import type { LayoutSelectorName } from './layoutSelectorUtils';
 import type { SelectorEngine, SelectorRoot } from './selectorEngine';
 import type { GenerateSelectorOptions } from './selectorGenerator';
@@ -343,6 +346,10 @@ export class InjectedScript {
     return renderAriaSnapshotAsYaml(json);
   }
 
+  ariaSnapshotDiff(element: Element, template: AriaTemplateNode): AriaDiffNode[] {
+    return diffAriaTemplate(generateAriaTree(element, { mode: 'default' }).root, template);
+  }
+
   getAllElementsMatchingExpectAriaTemplate(document: Document, template: AriaTemplateNode): Element[] {
     return getAllElementsMatchingExpectAriaTemplate(document.documentElement, template);
   }
@@ -1460,7 +1467,7 @@ export class InjectedScript {
 
   private _ariaSnapshotForExpect(element: Element, options: FrameExpectParams): string | undefined {
     const expression = options.expression;
-    if (expression === 'to.have.count' || expression.endsWith('.array') || expression === 'to.match.aria')
+    if (expression === 'to.have.count' || expression.endsWith('.array') || expression === 'to.match.aria' || expression === 'to.pass.accessibility.audit')
       return undefined;
     if (isElementVisible(element) && expression !== 'to.have.title' && expression !== 'to.have.url') {
       // Element-scoped snapshot. Containment matchers want the full subtree;
@@ -1589,6 +1596,25 @@ export class InjectedScript {
       }
     }
 
+    {
+      if (expression === 'to.pass.accessibility.audit') {
+        const { rules, exclude } = options.expectedValue as { rules?: string[], exclude: string[] };
+        const unknownRule = rules?.find(rule => !(kAccessibilityRules as string[]).includes(rule));
+        if (unknownRule)
+          throw this.createStacklessError(`Unknown accessibility rule "${unknownRule}", expected one of: ${kAccessibilityRules.join(', ')}`);
+        const excludeElements = exclude.flatMap(selector => this.querySelectorAll(this.parseSelector(selector), this.document));
+        const violations = auditAccessibility(element, { rules, exclude: excludeElements });
+        return {
+          received: violations.map(violation => ({
+            rule: violation.rule,
+            message: violation.message,
+            locator: asLocator(this._sdkLanguage, this.generateSelectorSimple(violation.element)),
+          })),
+          matches: !violations.length,
+        };
+      }
+    }
+
     {
       if (expression === 'to.match.aria') {
         const result = matchesExpectAriaTemplate(element, options.expectedValue);
@@ -18,8 +18,10 @@ export type JsonSchema = {
   type?: string;
   properties?: Record<string, JsonSchema>;
   required?: string[];
+  additionalProperties?: boolean | JsonSchema;
   items?: JsonSchema;
   oneOf?: JsonSchema[];
+  enum?: unknown[];
   pattern?: string;
   patternError?: string;
 };
@@ -45,6 +47,9 @@ export function validate(value: unknown, schema: JsonSchema, path: string): stri
     return bestErrors!;
   }
 
+  if (schema.enum && !schema.enum.some(item => item === value))
+    errors.push(`${path}: must be one of ${schema.enum.map(item => JSON.stringify(item)).join(', ')}`);
+
   if (schema.type === 'string') {
     if (typeof value !== 'string') {
       errors.push(`${path}: expected string, got ${typeof value}`);
@@ -55,6 +60,22 @@ export function validate(value: unknown, schema: JsonSchema, path: string): stri
     return errors;
   }
 
+  if (schema.type === 'number' || schema.type === 'integer') {
+    if (typeof value !== 'number') {
+      errors.push(`${path}: expected ${schema.type}, got ${typeName(value)}`);
+      return errors;
+    }
+    if (schema.type === 'integer' && !Number.isInteger(value))
+      errors.push(`${path}: expected integer, got ${value}`);
+    return errors;
+  }
+
+  if (schema.type === 'boolean' || schema.type === 'null') {
+    if (typeName(value) !== schema.type)
+      errors.push(`${path}: expected ${schema.type}, got ${typeName(value)}`);
+    return errors;
+  }
+
   if (schema.type === 'array') {
     if (!Array.isArray(value)) {
       errors.push(`${path}: expected array, got ${typeof value}`);
@@ -81,12 +102,28 @@ export function validate(value: unknown, schema: JsonSchema, path: string): stri
       if (obj[key] !== undefined)
         errors.push(...validate(obj[key], propSchema, `${path}.${key}`));
     }
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+      for (const key of Object.keys(obj)) {
+        if (schema.properties?.[key])
+          continue;
+        if (schema.additionalProperties === false)
+          errors.push(`${path}.${key}: unexpected property`);
+        else
+          errors.push(...validate(obj[key], schema.additionalProperties, `${path}.${key}`));
+      }
+    }
     return errors;
   }
 
   return errors;
 }
 
+function typeName(value: unknown): string {
+  if (value === null)
+    return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
 function cachedRegex(pattern: string): RegExp {
   let regex = regexCache.get(pattern);
   if (!regex) {
@@ -91,6 +91,7 @@ export const methodMetainfo = new Map<string, MethodMetainfo>([
   ['BrowserContext.setNetworkInterceptionPatterns', { title: 'Route requests', group: 'route', }],
   ['BrowserContext.setWebSocketInterceptionPatterns', { title: 'Route WebSockets', group: 'route', }],
   ['BrowserContext.setOffline', { title: 'Set offline mode', }],
+  ['BrowserContext.setNetworkConditions', { title: 'Set network conditions', group: 'configuration', }],
   ['BrowserContext.storageState', { title: 'Get storage state', group: 'configuration', }],
   ['BrowserContext.setStorageState', { title: 'Set storage state', group: 'configuration', }],
   ['BrowserContext.pause', { title: 'Pause', }],
@@ -221,8 +222,12 @@ export const methodMetainfo = new Map<string, MethodMetainfo>([
   ['ElementHandle.waitForSelector', { title: 'Wait for selector', snapshot: true, }],
   ['LocalUtils.zip', { internal: true, }],
   ['LocalUtils.harOpen', { internal: true, }],
+  ['LocalUtils.harEntries', { internal: true, }],
   ['LocalUtils.harLookup', { internal: true, }],
   ['LocalUtils.harClose', { internal: true, }],
+  ['LocalUtils.openAPIOpen', { internal: true, }],
+  ['LocalUtils.openAPILookup', { internal: true, }],
+  ['LocalUtils.openAPIClose', { internal: true, }],
   ['LocalUtils.harUnzip', { internal: true, }],
   ['LocalUtils.connect', { internal: true, }],
   ['LocalUtils.tracingStarted', { internal: true, }],
@@ -232,6 +237,7 @@ export const methodMetainfo = new Map<string, MethodMetainfo>([
   ['Request.response', { internal: true, }],
   ['Request.rawRequestHeaders', { internal: true, }],
   ['Route.redirectNavigationRequest', { internal: true, }],
+  ['Route.reportHarLookup', { internal: true, }],
   ['Route.abort', { title: 'Abort request', group: 'route', }],
   ['Route.continue', { title: 'Continue request', group: 'route', }],
   ['Route.fulfill', { title: 'Fulfill request', group: 'route', }],
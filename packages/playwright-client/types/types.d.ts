@@ -4545,6 +4545,26 @@ export interface Page {
    * @param options
    */
   routeFromHAR(har: string, options?: {
+    /**
+     * When set, JSON post data is compared structurally, ignoring key order, formatting and the listed fields at any
+     * depth, for example request ids. Post data that is not JSON is compared as is.
+     */
+    ignorePostDataFields?: Array<string>;
+
+    /**
+     * Query parameters to ignore when matching request URLs against HAR entries, for example cache-busting or timestamp
+     * parameters. Pass `true` to ignore the whole query string. When a list is passed, the remaining query parameters are
+     * compared regardless of their order. By default, request URLs must match exactly.
+     */
+    ignoreQueryParams?: boolean|Array<string>;
+
+    /**
+     * Custom function that decides which HAR entries match a request, instead of matching by URL, method and post data.
+     * It receives the request and the `url`, `method`, `headers` and `postData` of the recorded request, and returns
+     * whether the entry matches. Redirects recorded in the HAR are followed as usual.
+     */
+    matcher?: ((request: Request, object: { [key: string]: any; }) => boolean|Promise<boolean>);
+
     /**
      * - If set to 'abort' any request not found in the HAR file will be aborted.
      * - If set to 'fallback' missing requests will be sent to the network.
@@ -4553,6 +4573,13 @@ export interface Page {
      */
     notFound?: "abort"|"fallback";
 
+    /**
+     * When several HAR entries match the same request, serve them one after another in the recorded order, and start over
+     * after the last one. This lets polling requests replay the recorded sequence of responses. By default, the entry
+     * with the most matching headers is served every time.
+     */
+    roundRobin?: boolean;
+
     /**
      * If specified, updates the given HAR with the actual network information instead of serving from file. The file is
      * written to disk when
@@ -10518,6 +10545,26 @@ export interface BrowserContext {
    * @param options
    */
   routeFromHAR(har: string, options?: {
+    /**
+     * When set, JSON post data is compared structurally, ignoring key order, formatting and the listed fields at any
+     * depth, for example request ids. Post data that is not JSON is compared as is.
+     */
+    ignorePostDataFields?: Array<string>;
+
+    /**
+     * Query parameters to ignore when matching request URLs against HAR entries, for example cache-busting or timestamp
+     * parameters. Pass `true` to ignore the whole query string. When a list is passed, the remaining query parameters are
+     * compared regardless of their order. By default, request URLs must match exactly.
+     */
+    ignoreQueryParams?: boolean|Array<string>;
+
+    /**
+     * Custom function that decides which HAR entries match a request, instead of matching by URL, method and post data.
+     * It receives the request and the `url`, `method`, `headers` and `postData` of the recorded request, and returns
+     * whether the entry matches. Redirects recorded in the HAR are followed as usual.
+     */
+    matcher?: ((request: Request, object: { [key: string]: any; }) => boolean|Promise<boolean>);
+
     /**
      * - If set to 'abort' any request not found in the HAR file will be aborted.
      * - If set to 'fallback' falls through to the next route handler in the handler chain.
@@ -10526,6 +10573,13 @@ export interface BrowserContext {
      */
     notFound?: "abort"|"fallback";
 
+    /**
+     * When several HAR entries match the same request, serve them one after another in the recorded order, and start over
+     * after the last one. This lets polling requests replay the recorded sequence of responses. By default, the entry
+     * with the most matching headers is served every time.
+     */
+    roundRobin?: boolean;
+
     /**
      * If specified, updates the given HAR with the actual network information instead of serving from file. The file is
      * written to disk when
@@ -10554,6 +10608,72 @@ export interface BrowserContext {
     url?: string|RegExp;
   }): Promise<void>;
 
+  /**
+   * Serves the network requests that are made in the context from an [OpenAPI](https://spec.openapis.org/oas/v3.1.0)
+   * spec. Read more about [mocking with OpenAPI](https://playwright.dev/docs/mock#mocking-with-openapi).
+   *
+   * Playwright validates the path, method, parameters and JSON body of every request to the API against the spec.
+   * Requests that match an operation are fulfilled with the example of its first successful response. When the response
+   * has no example, Playwright generates a value that conforms to the response schema.
+   *
+   * Requests to the paths of the spec that do not match its operations are fulfilled with a `400` status, and the route
+   * handler throws an error, which fails the test. Requests outside of the API base URL, and to paths that the spec
+   * does not describe, fall through to the next route handler in the handler chain.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await context.routeFromOpenAPI('./openapi.yaml', {
+   *   baseURL: 'https://api.example.com/v1',
+   *   overrides: [
+   *     { operationId: 'getPet', status: 404, json: { message: 'Not found' } },
+   *     { operationId: 'listPets', example: 'empty' },
+   *   ],
+   * });
+   * ```
+   *
+   * @param spec Path to an OpenAPI 3 spec in the YAML or JSON format. If `path` is a relative path, then it is resolved relative to
+   * the current working directory.
+   * @param options
+   */
+  routeFromOpenAPI(spec: string, options?: {
+    /**
+     * Base URL of the API. Defaults to the first URL in the `servers` list of the spec. When the base URL is a relative
+     * path, requests to any origin under that path are served.
+     */
+    baseURL?: string;
+
+    /**
+     * Responses to serve for particular operations, instead of the default successful response.
+     */
+    overrides?: Array<{
+      /**
+       * Id of the operation to override.
+       */
+      operationId: string;
+
+      /**
+       * Response status code. The response with this status code is used from the spec.
+       */
+      status?: number;
+
+      /**
+       * Additional response headers.
+       */
+      headers?: { [key: string]: string; };
+
+      /**
+       * JSON response body, used instead of the examples in the spec.
+       */
+      json?: Serializable;
+
+      /**
+       * Name of the response example to serve, from the `examples` of the response.
+       */
+      example?: string;
+    }>;
+  }): Promise<void>;
+
   /**
    * This method allows to modify websocket connections that are made by any page in the browser context.
    *
@@ -10696,6 +10816,52 @@ export interface BrowserContext {
     origin?: string;
   }>): Promise<void>;
 
+  /**
+   * Emulates slow network conditions for all pages and service workers in the browser context. Pass `null` to stop
+   * throttling.
+   *
+   * Chromium throttles requests natively. Firefox and WebKit emulate the same conditions by intercepting requests,
+   * which also disables the HTTP cache, similarly to
+   * [browserContext.route(url, handler[, options])](https://playwright.dev/docs/api/class-browsercontext#browser-context-route).
+   *
+   * When throttling `downloadThroughput`, Firefox and WebKit receive each response in full before delivering it to the
+   * page, so streaming responses such as server-sent events are not delivered incrementally.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await context.setNetworkConditions('Slow 3G');
+   * await page.goto('https://example.com');
+   *
+   * await context.setNetworkConditions({ latency: 300, downloadThroughput: 100 * 1024 });
+   * // Stop throttling.
+   * await context.setNetworkConditions(null);
+   * ```
+   *
+   * @param conditions Either one of the presets matching the Chrome DevTools profiles, or custom network conditions.
+   */
+  setNetworkConditions(conditions: null|{
+    /**
+     * Minimum time in milliseconds from sending a request to receiving the response.
+     */
+    latency?: number;
+
+    /**
+     * Maximum download throughput in bytes per second.
+     */
+    downloadThroughput?: number;
+
+    /**
+     * Maximum upload throughput in bytes per second.
+     */
+    uploadThroughput?: number;
+
+    /**
+     * Percentage of requests, from 0 to 100, that fail with a connection error.
+     */
+    packetLoss?: number;
+  }|"Slow 3G"|"Fast 3G"|"Slow 4G"): Promise<void>;
+
   /**
    * @param offline Whether to emulate network being offline for the browser context.
    */
@@ -13714,6 +13880,33 @@ export interface ElementHandle<T=Node> extends JSHandle<T> {
      */
     signal?: AbortSignal;
 
+    /**
+     * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+     * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+     * log.
+     */
+    stable?: {
+      /**
+       * Wait until there are no network requests in flight for this many milliseconds.
+       */
+      networkIdle?: number;
+
+      /**
+       * Wait until all fonts in the document are loaded.
+       */
+      fonts?: boolean;
+
+      /**
+       * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+       */
+      images?: boolean;
+
+      /**
+       * Function or expression evaluated in the page, waits until it returns a truthy value.
+       */
+      predicate?: Function|string;
+    };
+
     /**
      * Text of the stylesheet to apply while making the screenshot. This is where you can hide dynamic elements, make
      * elements invisible or change their properties to help you creating repeatable screenshots. This stylesheet pierces
@@ -26115,6 +26308,33 @@ export interface LocatorScreenshotOptions {
    */
   signal?: AbortSignal;
 
+  /**
+   * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+   * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+   * log.
+   */
+  stable?: {
+    /**
+     * Wait until there are no network requests in flight for this many milliseconds.
+     */
+    networkIdle?: number;
+
+    /**
+     * Wait until all fonts in the document are loaded.
+     */
+    fonts?: boolean;
+
+    /**
+     * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+     */
+    images?: boolean;
+
+    /**
+     * Function or expression evaluated in the page, waits until it returns a truthy value.
+     */
+    predicate?: Function|string;
+  };
+
   /**
    * Text of the stylesheet to apply while making the screenshot. This is where you can hide dynamic elements, make
    * elements invisible or change their properties to help you creating repeatable screenshots. This stylesheet pierces
@@ -26849,6 +27069,33 @@ export interface PageScreenshotOptions {
    */
   signal?: AbortSignal;
 
+  /**
+   * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+   * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+   * log.
+   */
+  stable?: {
+    /**
+     * Wait until there are no network requests in flight for this many milliseconds.
+     */
+    networkIdle?: number;
+
+    /**
+     * Wait until all fonts in the document are loaded.
+     */
+    fonts?: boolean;
+
+    /**
+     * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+     */
+    images?: boolean;
+
+    /**
+     * Function or expression evaluated in the page, waits until it returns a truthy value.
+     */
+    predicate?: Function|string;
+  };
+
   /**
    * Text of the stylesheet to apply while making the screenshot. This is where you can hide dynamic elements, make
    * elements invisible or change their properties to help you creating repeatable screenshots. This stylesheet pierces
@@ -37,6 +37,7 @@ import { Events } from './events';
 import { APIRequestContext } from './fetch';
 import { Frame } from './frame';
 import { HarRouter } from './harRouter';
+import { OpenAPIRouter } from './openAPIRouter';
 import { assertEvaluateOptions } from './jsHandle';
 import * as network from './network';
 import { BindingCall, Page, addInitScriptWithExposedFunctions } from './page';
@@ -46,9 +47,12 @@ import { WebError } from './webError';
 import { Worker } from './worker';
 import { TimeoutSettings, kNoTimeout } from './timeoutSettings';
 import { mkdirIfNeeded } from './fileUtils';
+import { kNetworkConditionsPresets } from './types';
 
+import type { HarMatchOptions, HarReport } from './harRouter';
+import type { OpenAPIOverride } from './openAPIRouter';
 import type { EvaluateOptions } from './jsHandle';
-import type { BrowserContextOptions, Headers, SetStorageState, StorageState, WaitForEventOptions } from './types';
+import type { BrowserContextOptions, Headers, NetworkConditions, NetworkConditionsPreset, SetStorageState, StorageState, WaitForEventOptions } from './types';
 import type { HttpCredentials } from '@protocol/structs';
 import type * as structs from '../../types/structs';
 import type * as api from '../../types/types';
@@ -84,6 +88,9 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
   private _closingStatus: 'none' | 'closing' | 'closed' = 'none';
   private _closeReason: string | undefined;
   private _harRouters: HarRouter[] = [];
+  // Reports of the disposed HAR routers, until they are taken. Only collected once a consumer asks for them.
+  _harReports: HarReport[] | undefined;
+  private _openAPIRouters: OpenAPIRouter[] = [];
   private _onRecorderEventSink: RecorderEventSink | undefined;
 
 
@@ -362,6 +369,18 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
     await this._channel.setOffline({ offline }, kNoTimeout);
   }
 
+  async setNetworkConditions(conditions: NetworkConditions | NetworkConditionsPreset | null): Promise<void> {
+    if (isString(conditions)) {
+      const preset = kNetworkConditionsPresets[conditions];
+      if (!preset)
+        throw new Error(`Unknown network conditions preset "${conditions}", expected one of ${Object.keys(kNetworkConditionsPresets).map(p => `"${p}"`).join(', ')}`);
+      conditions = preset;
+    }
+    if (conditions?.packetLoss !== undefined && (conditions.packetLoss < 0 || conditions.packetLoss > 100))
+      throw new Error(`packetLoss must be between 0 and 100, got ${conditions.packetLoss}`);
+    await this._channel.setNetworkConditions({ conditions: conditions || undefined }, kNoTimeout);
+  }
+
   async setHTTPCredentials(httpCredentials: HttpCredentials | HttpCredentials[] | null): Promise<void> {
     await this._channel.setHTTPCredentials({ httpCredentials: toHttpCredentialsProtocol(httpCredentials || undefined) }, kNoTimeout);
   }
@@ -404,7 +423,7 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
     await this._updateWebSocketInterceptionPatterns({ title: 'Route WebSockets' });
   }
 
-  async routeFromHAR(har: string, options: { url?: string | RegExp, notFound?: 'abort' | 'fallback', update?: boolean, updateContent?: 'attach' | 'embed', updateMode?: 'minimal' | 'full' } = {}): Promise<void> {
+  async routeFromHAR(har: string, options: { url?: string | RegExp, notFound?: 'abort' | 'fallback', update?: boolean, updateContent?: 'attach' | 'embed', updateMode?: 'minimal' | 'full' } & HarMatchOptions = {}): Promise<void> {
     const localUtils = this._connection.localUtils();
     if (!localUtils)
       throw new Error('Route from har is not supported in thin clients');
@@ -412,19 +431,44 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
       await this.tracing._recordIntoHAR(har, null, options);
       return;
     }
-    const harRouter = await HarRouter.create(localUtils, har, options.notFound || 'abort', { urlMatch: options.url });
+    const harRouter = await HarRouter.create(localUtils, har, options.notFound || 'abort', { ...options, urlMatch: options.url });
     this._harRouters.push(harRouter);
     await harRouter.addContextRoute(this);
   }
 
-  private _disposeHarRouters() {
+  async routeFromOpenAPI(spec: string, options: { baseURL?: string, overrides?: OpenAPIOverride[] } = {}): Promise<void> {
+    const localUtils = this._connection.localUtils();
+    if (!localUtils)
+      throw new Error('Route from OpenAPI is not supported in thin clients');
+    const openAPIRouter = await OpenAPIRouter.create(localUtils, spec, options);
+    this._openAPIRouters.push(openAPIRouter);
+    await openAPIRouter.addContextRoute(this);
+  }
+
+  private _disposeRouters() {
+    this._harReports?.push(...this._harRouters.map(router => router.takeReport()).filter(report => report.lookups.length));
     this._harRouters.forEach(router => router.dispose());
     this._harRouters = [];
+    this._openAPIRouters.forEach(router => router.dispose());
+    this._openAPIRouters = [];
+  }
+
+  _collectHarReports() {
+    this._harReports ??= [];
+  }
+
+  _takeHarReports(): HarReport[] {
+    if (!this._harReports)
+      return [];
+    const routers = [...this._harRouters, ...[...this._pages].flatMap(page => page._harRouters)];
+    const reports = [...this._harReports, ...routers.map(router => router.takeReport())];
+    this._harReports = [];
+    return reports.filter(report => report.lookups.length);
   }
 
   async unrouteAll(options?: { behavior?: 'wait'|'ignoreErrors'|'default' }): Promise<void> {
     await this._unrouteInternal(this._routes, [], options?.behavior);
-    this._disposeHarRouters();
+    this._disposeRouters();
   }
 
   async unroute(url: URLMatch, handler?: network.RouteHandlerCallback): Promise<void> {
@@ -511,7 +555,7 @@ export class BrowserContext extends ChannelOwner<channels.BrowserContextChannel>
     this._browser?._contexts.delete(this);
     this._browser?._browserType._contexts.delete(this);
     this._browser?._browserType._playwright.selectors._contextsForSelectors.delete(this);
-    this._disposeHarRouters();
+    this._disposeRouters();
     this.tracing._resetStackCounter();
     this.request.tracing._resetStackCounter();
     this.emit(Events.BrowserContext.Close, this);
@@ -15,8 +15,8 @@
  */
 
 // This file is generated by generate_channels.js, do not edit manually.
-import type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue } from '@protocol/structs';
-export type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue } from '@protocol/structs';
+import type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue, HarLookupCandidate } from '@protocol/structs';
+export type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue, HarLookupCandidate } from '@protocol/structs';
 
 export type TimeoutOptions = { signal: AbortSignal | undefined, timeout: number };
 
@@ -1248,6 +1248,7 @@ export interface BrowserContextChannel extends BrowserContextEventTarget, Channe
   setNetworkInterceptionPatterns(params: BrowserContextSetNetworkInterceptionPatternsParams, options: TimeoutOptions): Promise<BrowserContextSetNetworkInterceptionPatternsResult>;
   setWebSocketInterceptionPatterns(params: BrowserContextSetWebSocketInterceptionPatternsParams, options: TimeoutOptions): Promise<BrowserContextSetWebSocketInterceptionPatternsResult>;
   setOffline(params: BrowserContextSetOfflineParams, options: TimeoutOptions): Promise<BrowserContextSetOfflineResult>;
+  setNetworkConditions(params: BrowserContextSetNetworkConditionsParams, options: TimeoutOptions): Promise<BrowserContextSetNetworkConditionsResult>;
   storageState(params: BrowserContextStorageStateParams, options: TimeoutOptions): Promise<BrowserContextStorageStateResult>;
   setStorageState(params: BrowserContextSetStorageStateParams, options: TimeoutOptions): Promise<BrowserContextSetStorageStateResult>;
   pause(params: BrowserContextPauseParams, options: TimeoutOptions): Promise<BrowserContextPauseResult>;
@@ -1494,6 +1495,23 @@ export type BrowserContextSetOfflineOptions = {
 
 };
 export type BrowserContextSetOfflineResult = void;
+export type BrowserContextSetNetworkConditionsParams = {
+  conditions?: {
+    latency?: number,
+    downloadThroughput?: number,
+    uploadThroughput?: number,
+    packetLoss?: number,
+  },
+};
+export type BrowserContextSetNetworkConditionsOptions = {
+  conditions?: {
+    latency?: number,
+    downloadThroughput?: number,
+    uploadThroughput?: number,
+    packetLoss?: number,
+  },
+};
+export type BrowserContextSetNetworkConditionsResult = void;
 export type BrowserContextStorageStateParams = {
   indexedDB?: boolean,
   credentials?: boolean,
@@ -3240,6 +3258,15 @@ export type ElementHandleScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type ElementHandleScreenshotOptions = {
   type?: 'png' | 'jpeg' | 'webp',
@@ -3254,6 +3281,15 @@ export type ElementHandleScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type ElementHandleScreenshotResult = {
   binary: Binary,
@@ -3405,8 +3441,12 @@ export interface LocalUtilsChannel extends LocalUtilsEventTarget, Channel {
   _type_LocalUtils: boolean;
   zip(params: LocalUtilsZipParams, options: TimeoutOptions): Promise<LocalUtilsZipResult>;
   harOpen(params: LocalUtilsHarOpenParams, options: TimeoutOptions): Promise<LocalUtilsHarOpenResult>;
+  harEntries(params: LocalUtilsHarEntriesParams, options: TimeoutOptions): Promise<LocalUtilsHarEntriesResult>;
   harLookup(params: LocalUtilsHarLookupParams, options: TimeoutOptions): Promise<LocalUtilsHarLookupResult>;
   harClose(params: LocalUtilsHarCloseParams, options: TimeoutOptions): Promise<LocalUtilsHarCloseResult>;
+  openAPIOpen(params: LocalUtilsOpenAPIOpenParams, options: TimeoutOptions): Promise<LocalUtilsOpenAPIOpenResult>;
+  openAPILookup(params: LocalUtilsOpenAPILookupParams, options: TimeoutOptions): Promise<LocalUtilsOpenAPILookupResult>;
+  openAPIClose(params: LocalUtilsOpenAPICloseParams, options: TimeoutOptions): Promise<LocalUtilsOpenAPICloseResult>;
   harUnzip(params: LocalUtilsHarUnzipParams, options: TimeoutOptions): Promise<LocalUtilsHarUnzipResult>;
   connect(params: LocalUtilsConnectParams, options: TimeoutOptions): Promise<LocalUtilsConnectResult>;
   tracingStarted(params: LocalUtilsTracingStartedParams, options: TimeoutOptions): Promise<LocalUtilsTracingStartedResult>;
@@ -3429,14 +3469,35 @@ export type LocalUtilsZipOptions = {
 export type LocalUtilsZipResult = void;
 export type LocalUtilsHarOpenParams = {
   file: string,
+  ignoreQuery?: boolean,
+  ignoreQueryParams?: string[],
+  ignorePostDataFields?: string[],
+  roundRobin?: boolean,
 };
 export type LocalUtilsHarOpenOptions = {
-
+  ignoreQuery?: boolean,
+  ignoreQueryParams?: string[],
+  ignorePostDataFields?: string[],
+  roundRobin?: boolean,
 };
 export type LocalUtilsHarOpenResult = {
   harId?: string,
   error?: string,
 };
+export type LocalUtilsHarEntriesParams = {
+  harId: string,
+};
+export type LocalUtilsHarEntriesOptions = {
+
+};
+export type LocalUtilsHarEntriesResult = {
+  entries: {
+    url: string,
+    method: string,
+    headers: NameValue[],
+    postData?: Binary,
+  }[],
+};
 export type LocalUtilsHarLookupParams = {
   harId: string,
   url: string,
@@ -3444,9 +3505,11 @@ export type LocalUtilsHarLookupParams = {
   headers: NameValue[],
   postData?: Binary,
   isNavigationRequest: boolean,
+  candidates?: number[],
 };
 export type LocalUtilsHarLookupOptions = {
   postData?: Binary,
+  candidates?: number[],
 };
 export type LocalUtilsHarLookupResult = {
   action: 'error' | 'redirect' | 'fulfill' | 'noentry',
@@ -3455,6 +3518,7 @@ export type LocalUtilsHarLookupResult = {
   status?: number,
   headers?: NameValue[],
   body?: Binary,
+  closest?: HarLookupCandidate[],
 };
 export type LocalUtilsHarCloseParams = {
   harId: string,
@@ -3463,6 +3527,56 @@ export type LocalUtilsHarCloseOptions = {
 
 };
 export type LocalUtilsHarCloseResult = void;
+export type LocalUtilsOpenAPIOpenParams = {
+  file: string,
+  baseURL?: string,
+  overrides?: {
+    operationId: string,
+    status?: number,
+    headers?: NameValue[],
+    json?: any,
+    example?: string,
+  }[],
+};
+export type LocalUtilsOpenAPIOpenOptions = {
+  baseURL?: string,
+  overrides?: {
+    operationId: string,
+    status?: number,
+    headers?: NameValue[],
+    json?: any,
+    example?: string,
+  }[],
+};
+export type LocalUtilsOpenAPIOpenResult = {
+  openAPIId?: string,
+  error?: string,
+};
+export type LocalUtilsOpenAPILookupParams = {
+  openAPIId: string,
+  url: string,
+  method: string,
+  headers: NameValue[],
+  postData?: Binary,
+};
+export type LocalUtilsOpenAPILookupOptions = {
+  postData?: Binary,
+};
+export type LocalUtilsOpenAPILookupResult = {
+  action: 'fulfill' | 'violation' | 'noentry',
+  operationId?: string,
+  message?: string,
+  status?: number,
+  headers?: NameValue[],
+  body?: Binary,
+};
+export type LocalUtilsOpenAPICloseParams = {
+  openAPIId: string,
+};
+export type LocalUtilsOpenAPICloseOptions = {
+
+};
+export type LocalUtilsOpenAPICloseResult = void;
 export type LocalUtilsHarUnzipParams = {
   zipFile: string,
   harFile: string,
@@ -3573,6 +3687,7 @@ export interface RouteEventTarget {
 export interface RouteChannel extends RouteEventTarget, Channel {
   _type_Route: boolean;
   redirectNavigationRequest(params: RouteRedirectNavigationRequestParams, options: TimeoutOptions): Promise<RouteRedirectNavigationRequestResult>;
+  reportHarLookup(params: RouteReportHarLookupParams, options: TimeoutOptions): Promise<RouteReportHarLookupResult>;
   abort(params: RouteAbortParams, options: TimeoutOptions): Promise<RouteAbortResult>;
   continue(params: RouteContinueParams, options: TimeoutOptions): Promise<RouteContinueResult>;
   fulfill(params: RouteFulfillParams, options: TimeoutOptions): Promise<RouteFulfillResult>;
@@ -3584,6 +3699,17 @@ export type RouteRedirectNavigationRequestOptions = {
 
 };
 export type RouteRedirectNavigationRequestResult = void;
+export type RouteReportHarLookupParams = {
+  har: string,
+  outcome: 'notFound' | 'error',
+  message?: string,
+  closest?: HarLookupCandidate[],
+};
+export type RouteReportHarLookupOptions = {
+  message?: string,
+  closest?: HarLookupCandidate[],
+};
+export type RouteReportHarLookupResult = void;
 export type RouteAbortParams = {
   errorCode?: string,
 };
@@ -4072,6 +4198,15 @@ export type PageExpectScreenshotParams = {
   maxDiffPixels?: number,
   maxDiffPixelRatio?: number,
   threshold?: number,
+  regions?: {
+    frame?: FrameChannel,
+    selector?: string,
+    rect?: Rect,
+    threshold?: number,
+    maxDiffPixels?: number,
+    maxDiffPixelRatio?: number,
+    ignore?: boolean,
+  }[],
   fullPage?: boolean,
   clip?: Rect,
   type?: 'png' | 'webp',
@@ -4085,6 +4220,15 @@ export type PageExpectScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageExpectScreenshotOptions = {
   expected?: Binary,
@@ -4096,6 +4240,15 @@ export type PageExpectScreenshotOptions = {
   maxDiffPixels?: number,
   maxDiffPixelRatio?: number,
   threshold?: number,
+  regions?: {
+    frame?: FrameChannel,
+    selector?: string,
+    rect?: Rect,
+    threshold?: number,
+    maxDiffPixels?: number,
+    maxDiffPixelRatio?: number,
+    ignore?: boolean,
+  }[],
   fullPage?: boolean,
   clip?: Rect,
   type?: 'png' | 'webp',
@@ -4109,6 +4262,15 @@ export type PageExpectScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageExpectScreenshotResult = {
   actual?: Binary,
@@ -4136,6 +4298,15 @@ export type PageScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageScreenshotOptions = {
   type?: 'png' | 'jpeg' | 'webp',
@@ -4152,6 +4323,15 @@ export type PageScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageScreenshotResult = {
   binary: Binary,
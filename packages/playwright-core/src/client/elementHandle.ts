@@ -30,7 +30,7 @@ import { kNoTimeout } from './timeoutSettings';
 import type { BrowserContext } from './browserContext';
 import type { ChannelOwner } from './channelOwner';
 import type { Locator } from './locator';
-import type { FilePayload, Rect, SelectOption, SelectOptionOptions, TimeoutOptions } from './types';
+import type { FilePayload, Rect, ScreenshotStableOptions, SelectOption, SelectOptionOptions, TimeoutOptions } from './types';
 import type * as structs from '../../types/structs';
 import type * as api from '../../types/types';
 import type * as channels from './channels';
@@ -188,9 +188,9 @@ export class ElementHandle<T extends Node = Node> extends JSHandle<T> implements
     return value === undefined ? null : value;
   }
 
-  async screenshot(options: Omit<channels.ElementHandleScreenshotOptions, 'mask'> & TimeoutOptions & { path?: string, mask?: api.Locator[] } = {}): Promise<Buffer> {
+  async screenshot(options: Omit<channels.ElementHandleScreenshotOptions, 'mask' | 'stable'> & TimeoutOptions & { path?: string, mask?: api.Locator[], stable?: ScreenshotStableOptions } = {}): Promise<Buffer> {
     const mask = options.mask as Locator[] | undefined;
-    const copy: channels.ElementHandleScreenshotParams = { ...options, mask: undefined };
+    const copy: channels.ElementHandleScreenshotParams = { ...options, mask: undefined, stable: serializeScreenshotStable(options.stable) };
     if (!copy.type)
       copy.type = determineScreenshotType(options);
     if (mask) {
@@ -334,3 +334,12 @@ export function determineScreenshotType(options: { path?: string, type?: 'png' |
   }
   return options.type;
 }
+
+export function serializeScreenshotStable(stable: ScreenshotStableOptions | undefined): channels.PageScreenshotOptions['stable'] {
+  if (!stable)
+    return undefined;
+  const { predicate, ...rest } = stable;
+  if (predicate === undefined)
+    return rest;
+  return { ...rest, predicate: { expression: String(predicate), isFunction: typeof predicate === 'function' } };
+}
@@ -18,32 +18,83 @@ import { debugLogger } from '@utils/debugLogger';
 
 import type { BrowserContext } from './browserContext';
 import type { LocalUtils } from './localUtils';
-import type { Route } from './network';
+import type { Request, Route } from './network';
 import type { Page } from './page';
 import type { URLMatch } from '@isomorphic/urlMatch';
+import type * as channels from './channels';
 
 type HarNotFoundAction = 'abort' | 'fallback';
+type HarEntryRequest = channels.LocalUtilsHarEntriesResult['entries'][number];
+
+export type HarMatchOptions = {
+  ignoreQueryParams?: boolean | string[];
+  ignorePostDataFields?: string[];
+  roundRobin?: boolean;
+  matcher?: (request: Request, entry: HarEntryRequest) => boolean | Promise<boolean>;
+};
+
+export type HarLookupRecord = {
+  url: string;
+  method: string;
+  outcome: 'notFound' | 'error';
+  message?: string;
+  closest?: channels.HarLookupCandidate[];
+};
+
+export type HarReport = {
+  har: string;
+  lookups: HarLookupRecord[];
+};
+
+// Caps the misses kept per router, a single report is not useful beyond that.
+const kMaxLookups = 100;
 
 export class HarRouter {
   private _localUtils: LocalUtils;
   private _harId: string;
+  private _har: string;
+  private _context: BrowserContext | undefined;
+  // Lookups that missed the HAR, only recorded while the context collects HAR reports.
+  private _lookups: HarLookupRecord[] = [];
   private _notFoundAction: HarNotFoundAction;
-  private _options: { urlMatch?: URLMatch; baseURL?: string; };
-
-  static async create(localUtils: LocalUtils, file: string, notFoundAction: HarNotFoundAction, options: { urlMatch?: URLMatch }): Promise<HarRouter> {
-    const { harId, error } = await localUtils.harOpen({ file });
+  private _options: { urlMatch?: URLMatch; matcher?: HarMatchOptions['matcher'] };
+  private _entriesPromise: Promise<HarEntryRequest[]> | undefined;
+
+  static async create(localUtils: LocalUtils, file: string, notFoundAction: HarNotFoundAction, options: { urlMatch?: URLMatch } & HarMatchOptions): Promise<HarRouter> {
+    const { harId, error } = await localUtils.harOpen({
+      file,
+      ignoreQuery: options.ignoreQueryParams === true ? true : undefined,
+      ignoreQueryParams: Array.isArray(options.ignoreQueryParams) ? options.ignoreQueryParams : undefined,
+      ignorePostDataFields: options.ignorePostDataFields,
+      roundRobin: options.roundRobin,
+    });
     if (error)
       throw new Error(error);
-    return new HarRouter(localUtils, harId!, notFoundAction, options);
+    return new HarRouter(localUtils, harId!, file, notFoundAction, options);
   }
 
-  private constructor(localUtils: LocalUtils, harId: string, notFoundAction: HarNotFoundAction, options: { urlMatch?: URLMatch }) {
+  private constructor(localUtils: LocalUtils, harId: string, har: string, notFoundAction: HarNotFoundAction, options: { urlMatch?: URLMatch, matcher?: HarMatchOptions['matcher'] }) {
     this._localUtils = localUtils;
     this._harId = harId;
+    this._har = har;
     this._options = options;
     this._notFoundAction = notFoundAction;
   }
 
+  private async _candidates(request: Request): Promise<number[] | undefined> {
+    const matcher = this._options.matcher;
+    if (!matcher)
+      return;
+    this._entriesPromise ??= this._localUtils.harEntries({ harId: this._harId }).then(result => result.entries);
+    const entries = await this._entriesPromise;
+    const candidates: number[] = [];
+    for (let i = 0; i < entries.length; ++i) {
+      if (await matcher(request, entries[i]))
+        candidates.push(i);
+    }
+    return candidates;
+  }
+
   private async _handle(route: Route) {
     const request = route.request();
 
@@ -53,7 +104,8 @@ export class HarRouter {
       method: request.method(),
       headers: (await request.headersArray()),
       postData: request.postDataBuffer() || undefined,
-      isNavigationRequest: request.isNavigationRequest()
+      isNavigationRequest: request.isNavigationRequest(),
+      candidates: await this._candidates(request),
     });
 
     if (response.action === 'redirect') {
@@ -101,6 +153,11 @@ export class HarRouter {
       debugLogger.log('api', 'HAR: ' + response.message!);
     // Report the error, but fall through to the default handler.
 
+    const lookup: HarLookupRecord = { url: request.url(), method: request.method(), outcome: response.action === 'error' ? 'error' : 'notFound', message: response.message, closest: response.closest };
+    if (this._context?._harReports && this._lookups.length < kMaxLookups)
+      this._lookups.push(lookup);
+    await route._reportHarLookup({ har: this._har, outcome: lookup.outcome, message: lookup.message, closest: lookup.closest });
+
     if (this._notFoundAction === 'abort') {
       await route.abort();
       return;
@@ -110,13 +167,21 @@ export class HarRouter {
   }
 
   async addContextRoute(context: BrowserContext) {
+    this._context = context;
     await context.route(this._options.urlMatch || '**/*', route => this._handle(route));
   }
 
   async addPageRoute(page: Page) {
+    this._context = page.context();
     await page.route(this._options.urlMatch || '**/*', route => this._handle(route));
   }
 
+  takeReport(): HarReport {
+    const lookups = this._lookups;
+    this._lookups = [];
+    return { har: this._har, lookups };
+  }
+
   async [Symbol.asyncDispose]() {
     await this.dispose();
   }
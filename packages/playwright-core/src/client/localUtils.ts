@@ -52,10 +52,26 @@ export class LocalUtils extends ChannelOwner<channels.LocalUtilsChannel> {
     return await this._channel.harLookup(params, kNoTimeout);
   }
 
+  async harEntries(params: channels.LocalUtilsHarEntriesParams): Promise<channels.LocalUtilsHarEntriesResult> {
+    return await this._channel.harEntries(params, kNoTimeout);
+  }
+
   async harClose(params: channels.LocalUtilsHarCloseParams): Promise<void> {
     return await this._channel.harClose(params, kNoTimeout);
   }
 
+  async openAPIOpen(params: channels.LocalUtilsOpenAPIOpenParams): Promise<channels.LocalUtilsOpenAPIOpenResult> {
+    return await this._channel.openAPIOpen(params, kNoTimeout);
+  }
+
+  async openAPILookup(params: channels.LocalUtilsOpenAPILookupParams): Promise<channels.LocalUtilsOpenAPILookupResult> {
+    return await this._channel.openAPILookup(params, kNoTimeout);
+  }
+
+  async openAPIClose(params: channels.LocalUtilsOpenAPICloseParams): Promise<void> {
+    await this._channel.openAPIClose(params, kNoTimeout);
+  }
+
   async harUnzip(params: channels.LocalUtilsHarUnzipParams): Promise<void> {
     return await this._channel.harUnzip(params, kNoTimeout);
   }
@@ -29,7 +29,7 @@ import { kNoTimeout } from './timeoutSettings';
 
 import type { ExpectResult, Frame } from './frame';
 import type { EvaluateOptions } from './jsHandle';
-import type { DropPayload, FilePayload, FrameExpectParams, Rect, SelectOption, SelectOptionOptions, TimeoutOptions } from './types';
+import type { DropPayload, FilePayload, FrameExpectParams, Rect, ScreenshotStableOptions, SelectOption, SelectOptionOptions, TimeoutOptions } from './types';
 import type * as structs from '../../types/structs';
 import type * as api from '../../types/types';
 import type { AriaSnapshotJSON } from '@isomorphic/ariaSnapshot';
@@ -330,7 +330,7 @@ export class Locator implements api.Locator {
     return await this._frame.press(this._selector, key, { strict: true, ...options });
   }
 
-  async screenshot(options: Omit<channels.ElementHandleScreenshotOptions, 'mask'> & TimeoutOptions & { path?: string, mask?: api.Locator[] } = {}): Promise<Buffer> {
+  async screenshot(options: Omit<channels.ElementHandleScreenshotOptions, 'mask' | 'stable'> & TimeoutOptions & { path?: string, mask?: api.Locator[], stable?: ScreenshotStableOptions } = {}): Promise<Buffer> {
     const mask = options.mask as Locator[] | undefined;
     return await this._withElement((h, timeout) => h.screenshot({ ...options, mask, timeout }), { title: 'Screenshot', timeout: options.timeout, signal: options.signal });
   }
@@ -347,6 +347,10 @@ export class Route extends ChannelOwner<channels.RouteChannel> implements api.Ro
     });
   }
 
+  async _reportHarLookup(params: channels.RouteReportHarLookupParams) {
+    await this._raceWithTargetClose(this._channel.reportHarLookup(params, kNoTimeout));
+  }
+
   async fetch(options: FallbackOverrides & { maxRedirects?: number, maxRetries?: number, timeout?: number, signal?: AbortSignal } = {}): Promise<APIResponse> {
     return await this._wrapApiCall(async () => {
       return await this._context.request._innerFetch({ request: this.request(), data: options.postData, ...options });
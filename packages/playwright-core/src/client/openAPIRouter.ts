@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { headersArrayToObject, headersObjectToArray } from '@isomorphic/headers';
+import { debugLogger } from '@utils/debugLogger';
+
+import type { BrowserContext } from './browserContext';
+import type { LocalUtils } from './localUtils';
+import type { Route } from './network';
+import type { Headers } from './types';
+
+export type OpenAPIOverride = {
+  operationId: string;
+  status?: number;
+  headers?: Headers;
+  json?: any;
+  example?: string;
+};
+
+export class OpenAPIRouter {
+  private _localUtils: LocalUtils;
+  private _openAPIId: string;
+
+  static async create(localUtils: LocalUtils, file: string, options: { baseURL?: string, overrides?: OpenAPIOverride[] }): Promise<OpenAPIRouter> {
+    const { openAPIId, error } = await localUtils.openAPIOpen({
+      file,
+      baseURL: options.baseURL,
+      overrides: options.overrides?.map(override => ({
+        ...override,
+        headers: override.headers ? headersObjectToArray(override.headers) : undefined,
+      })),
+    });
+    if (error)
+      throw new Error(error);
+    return new OpenAPIRouter(localUtils, openAPIId!);
+  }
+
+  private constructor(localUtils: LocalUtils, openAPIId: string) {
+    this._localUtils = localUtils;
+    this._openAPIId = openAPIId;
+  }
+
+  private async _handle(route: Route) {
+    const request = route.request();
+    const response = await this._localUtils.openAPILookup({
+      openAPIId: this._openAPIId,
+      url: request.url(),
+      method: request.method(),
+      headers: await request.headersArray(),
+      postData: request.postDataBuffer() || undefined,
+    });
+
+    if (response.action === 'noentry') {
+      await route.fallback();
+      return;
+    }
+
+    if (response.action === 'violation') {
+      await route.fulfill({ status: 400, json: { error: response.message } });
+      // Throwing from the route handler fails the test that made the request.
+      throw new Error(`Request does not match the OpenAPI spec: ${response.message}`);
+    }
+
+    debugLogger.log('api', `OpenAPI: ${request.method()} ${request.url()} fulfilled by operation "${response.operationId}"`);
+    await route.fulfill({
+      status: response.status,
+      headers: headersArrayToObject(response.headers!, false),
+      body: response.body,
+    });
+  }
+
+  async addContextRoute(context: BrowserContext) {
+    await context.route('**/*', route => this._handle(route));
+  }
+
+  dispose() {
+    this._localUtils.openAPIClose({ openAPIId: this._openAPIId }).catch(() => {});
+  }
+}
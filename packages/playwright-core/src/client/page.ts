@@ -32,7 +32,7 @@ import { evaluationScript, initScriptSourceWithExposedFunctions } from './client
 import { Coverage } from './coverage';
 import { DisposableObject, DisposableStub } from './disposable';
 import { Download } from './download';
-import { ElementHandle, determineScreenshotType } from './elementHandle';
+import { ElementHandle, determineScreenshotType, serializeScreenshotStable } from './elementHandle';
 import { AbortError, PlaywrightError, TargetClosedError, isTargetClosedError, parseError, serializeError } from './errors';
 import { Events } from './events';
 import { FileChooser } from './fileChooser';
@@ -54,9 +54,10 @@ import type { EvaluateOptions } from './jsHandle';
 import type { Clock } from './clock';
 import type { APIRequestContext } from './fetch';
 import type { WaitForNavigationOptions } from './frame';
+import type { HarMatchOptions } from './harRouter';
 import type { FrameLocator, Locator, LocatorOptions } from './locator';
 import type { RouteHandlerCallback, WebSocketRouteHandlerCallback } from './network';
-import type { FilePayload, Headers, LifecycleEvent, SelectOption, SelectOptionOptions, Size, TimeoutOptions, WaitForEventOptions, WaitForFunctionOptions } from './types';
+import type { FilePayload, Headers, LifecycleEvent, ScreenshotStableOptions, SelectOption, SelectOptionOptions, Size, TimeoutOptions, WaitForEventOptions, WaitForFunctionOptions } from './types';
 import type * as structs from '../../types/structs';
 import type * as api from '../../types/types';
 import type { AriaSnapshotJSON } from '@isomorphic/ariaSnapshot';
@@ -77,13 +78,15 @@ type PDFOptions = Omit<channels.PagePdfParams, 'width' | 'height' | 'margin'> &
   path?: string,
 };
 
-export type ExpectScreenshotOptions = Omit<channels.PageExpectScreenshotOptions, 'locator' | 'expected' | 'mask'> & {
+export type ExpectScreenshotOptions = Omit<channels.PageExpectScreenshotOptions, 'locator' | 'expected' | 'mask' | 'regions' | 'stable'> & {
   expected?: Buffer,
   locator?: api.Locator,
   timeout: number,
   signal?: AbortSignal,
   isNot: boolean,
   mask?: api.Locator[],
+  regions?: (Omit<NonNullable<channels.PageExpectScreenshotOptions['regions']>[number], 'frame' | 'selector'> & { locator?: api.Locator })[],
+  stable?: ScreenshotStableOptions,
 };
 
 export class Page extends ChannelOwner<channels.PageChannel> implements api.Page {
@@ -117,7 +120,7 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
   readonly _opener: Page | null;
   private _closeReason: string | undefined;
   _closeWasCalled: boolean = false;
-  private _harRouters: HarRouter[] = [];
+  _harRouters: HarRouter[] = [];
 
   private _locatorHandlers = new Map<number, { locator: Locator, handler: (locator: Locator) => any, times: number | undefined }>();
   private _evaluateCallbacks: { name: string, disposable: DisposableObject }[] = [];
@@ -571,7 +574,7 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
     return new DisposableStub(() => this.unroute(url, handler));
   }
 
-  async routeFromHAR(har: string, options: { url?: string | RegExp, notFound?: 'abort' | 'fallback', update?: boolean, updateContent?: 'attach' | 'embed', updateMode?: 'minimal' | 'full'} = {}): Promise<void> {
+  async routeFromHAR(har: string, options: { url?: string | RegExp, notFound?: 'abort' | 'fallback', update?: boolean, updateContent?: 'attach' | 'embed', updateMode?: 'minimal' | 'full' } & HarMatchOptions = {}): Promise<void> {
     const localUtils = this._connection.localUtils();
     if (!localUtils)
       throw new Error('Route from har is not supported in thin clients');
@@ -579,7 +582,7 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
       await this._browserContext.tracing._recordIntoHAR(har, this, options);
       return;
     }
-    const harRouter = await HarRouter.create(localUtils, har, options.notFound || 'abort', { urlMatch: options.url });
+    const harRouter = await HarRouter.create(localUtils, har, options.notFound || 'abort', { ...options, urlMatch: options.url });
     this._harRouters.push(harRouter);
     await harRouter.addPageRoute(this);
   }
@@ -590,6 +593,7 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
   }
 
   private _disposeHarRouters() {
+    this._browserContext._harReports?.push(...this._harRouters.map(router => router.takeReport()).filter(report => report.lookups.length));
     this._harRouters.forEach(router => router.dispose());
     this._harRouters = [];
   }
@@ -630,9 +634,9 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
     await this._wrapApiCall(() => this._channel.setWebSocketInterceptionPatterns({ patterns }, kNoTimeout), options);
   }
 
-  async screenshot(options: Omit<channels.PageScreenshotOptions, 'mask'> & TimeoutOptions & { path?: string, mask?: api.Locator[] } = {}): Promise<Buffer> {
+  async screenshot(options: Omit<channels.PageScreenshotOptions, 'mask' | 'stable'> & TimeoutOptions & { path?: string, mask?: api.Locator[], stable?: ScreenshotStableOptions } = {}): Promise<Buffer> {
     const mask = options.mask as Locator[] | undefined;
-    const copy: channels.PageScreenshotParams = { ...options, mask: undefined };
+    const copy: channels.PageScreenshotParams = { ...options, mask: undefined, stable: serializeScreenshotStable(options.stable) };
     if (!copy.type)
       copy.type = determineScreenshotType(options);
     if (mask) {
@@ -659,12 +663,19 @@ export class Page extends ChannelOwner<channels.PageChannel> implements api.Page
       frame: (options.locator as Locator)._frame._channel,
       selector: (options.locator as Locator)._selector,
     } : undefined;
+    const regions = options.regions?.map(({ locator, ...region }) => ({
+      ...region,
+      frame: locator ? (locator as Locator)._frame._channel : undefined,
+      selector: locator ? (locator as Locator)._selector : undefined,
+    }));
     try {
       const result = await this._channel.expectScreenshot({
         ...optionsWithoutTimeout,
         isNot: !!options.isNot,
         locator,
         mask,
+        regions,
+        stable: serializeScreenshotStable(options.stable),
       }, { timeout, signal });
       return { actual: result.actual };
     } catch (e) {
@@ -53,6 +53,15 @@ export type SetStorageState = {
 export type LifecycleEvent = channels.LifecycleEvent;
 export const kLifecycleEvents: Set<LifecycleEvent> = new Set(['load', 'domcontentloaded', 'networkidle', 'commit']);
 
+export type NetworkConditions = NonNullable<channels.BrowserContextSetNetworkConditionsParams['conditions']>;
+export type NetworkConditionsPreset = 'Slow 3G' | 'Fast 3G' | 'Slow 4G';
+// Same profiles as in Chrome DevTools, throughput is in bytes per second.
+export const kNetworkConditionsPresets: { [preset in NetworkConditionsPreset]: NetworkConditions } = {
+  'Slow 3G': { latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 },
+  'Fast 3G': { latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 },
+  'Slow 4G': { latency: 165, downloadThroughput: 1012500, uploadThroughput: 1012500 },
+};
+
 export type ClientCertificate = {
   origin: string;
   cert?: Buffer;
@@ -149,4 +158,6 @@ export type AnnotateOptions = { duration?: number, position?: AnnotatePosition,
 export type RemoteAddr = channels.RemoteAddr;
 export type SecurityDetails = channels.SecurityDetails;
 
+export type ScreenshotStableOptions = { networkIdle?: number, fonts?: boolean, images?: boolean, predicate?: string | Function };
+
 export type FrameExpectParams = Omit<channels.FrameExpectParams, 'selector'|'expression'|'expectedValue'> & { expectedValue?: any, timeout: number, signal?: AbortSignal };
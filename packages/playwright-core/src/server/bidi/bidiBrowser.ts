@@ -413,6 +413,10 @@ export class BidiBrowserContext extends BrowserContext {
     });
   }
 
+  async doUpdateNetworkConditions(): Promise<void> {
+    await this.updateNetworkConditionsInterceptor(this.networkConditions());
+  }
+
   async doSetHTTPCredentials(httpCredentials?: HttpCredentials[]): Promise<void> {
     this._options.httpCredentials = httpCredentials;
     for (const page of this.pages())
@@ -27,6 +27,7 @@ import { BrowserContextAPIRequestContext } from './fetch';
 import { helper } from './helper';
 import { EventMap, SdkObject } from './instrumentation';
 import * as network from './network';
+import { createNetworkConditionsInterceptor } from './networkConditions';
 import { InitScript } from './page';
 import { Page, PageBinding } from './page';
 import { RecorderApp } from './recorder/recorderApp';
@@ -121,6 +122,8 @@ export abstract class BrowserContext<EM extends EventMap = EventMap> extends Sdk
   private _playwrightBindingExposed?: Promise<void>;
   readonly dialogManager: DialogManager;
   private _consoleApiExposed = false;
+  private _networkConditions: types.NetworkConditions | undefined;
+  private _networkConditionsInterceptor: network.RouteHandler | undefined;
 
   constructor(browser: Browser, options: types.BrowserContextOptions, browserContextId: string | undefined) {
     super(browser, 'browser-context');
@@ -250,6 +253,7 @@ export abstract class BrowserContext<EM extends EventMap = EventMap> extends Sdk
     await progress.race(this.setUserAgent(this._options.userAgent));
     await progress.race(this.doUpdateDefaultEmulatedMedia());
     await progress.race(this.doUpdateDefaultViewport());
+    await this.setNetworkConditions(progress, undefined);
     await this.setStorageState(progress, this._options.storageState, 'resetForReuse');
 
     await page?.resetForReuse(progress);
@@ -296,6 +300,7 @@ export abstract class BrowserContext<EM extends EventMap = EventMap> extends Sdk
   protected abstract doRemoveInitScripts(initScripts: InitScript[]): Promise<void>;
   protected abstract doUpdateExtraHTTPHeaders(): Promise<void>;
   protected abstract doUpdateOffline(): Promise<void>;
+  protected abstract doUpdateNetworkConditions(): Promise<void>;
   protected abstract doUpdateRequestInterception(): Promise<void>;
   protected abstract doUpdateDefaultViewport(): Promise<void>;
   protected abstract doUpdateDefaultEmulatedMedia(): Promise<void>;
@@ -448,6 +453,35 @@ export abstract class BrowserContext<EM extends EventMap = EventMap> extends Sdk
     }
   }
 
+  networkConditions(): types.NetworkConditions | undefined {
+    return this._networkConditions;
+  }
+
+  async setNetworkConditions(progress: Progress, conditions: types.NetworkConditions | undefined) {
+    const oldConditions = this._networkConditions;
+    this._networkConditions = conditions;
+    try {
+      await progress.race(this.doUpdateNetworkConditions());
+    } catch (error) {
+      this._networkConditions = oldConditions;
+      // Note: no await, network conditions will be reset in the background as soon as possible.
+      this.doUpdateNetworkConditions().catch(() => {});
+      throw error;
+    }
+  }
+
+  // Emulates the given network conditions by intercepting requests, for the parts
+  // that the browser cannot apply natively.
+  protected async updateNetworkConditionsInterceptor(conditions: types.NetworkConditions | undefined) {
+    if (this._networkConditionsInterceptor)
+      await this.removeRequestInterceptor(this._networkConditionsInterceptor);
+    this._networkConditionsInterceptor = conditions ? createNetworkConditionsInterceptor(this, conditions) : undefined;
+    if (this._networkConditionsInterceptor) {
+      this.requestInterceptors.push(this._networkConditionsInterceptor);
+      await this.doUpdateRequestInterception();
+    }
+  }
+
   async loadDefaultContextAsIs(progress: Progress): Promise<Page | undefined> {
     if (!this.possiblyUninitializedPages().length) {
       const waitForEvent = helper.waitForEvent(progress, this, BrowserContext.Events.Page);
@@ -525,6 +559,11 @@ export abstract class BrowserContext<EM extends EventMap = EventMap> extends Sdk
   async addRequestInterceptor(progress: Progress, handler: network.RouteHandler): Promise<void> {
     // Note: progress is intentionally ignored, because this operation is not cancellable and should not block in the browser anyway.
     this.requestInterceptors.push(handler);
+    // Network conditions apply to the requests that reach the network, so they are emulated after all other handlers.
+    if (this._networkConditionsInterceptor) {
+      this.requestInterceptors.splice(this.requestInterceptors.indexOf(this._networkConditionsInterceptor), 1);
+      this.requestInterceptors.push(this._networkConditionsInterceptor);
+    }
     await progress.race(this.doUpdateRequestInterception());
   }
 
@@ -18,8 +18,8 @@
 
 import type { Progress } from './progress';
 
-import type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue } from '@protocol/structs';
-export type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue } from '@protocol/structs';
+import type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue, HarLookupCandidate } from '@protocol/structs';
+export type { Binary, Channel, AndroidWebView, AndroidSelector, AndroidElementInfo, APIResponse, Metadata, ClientSideCallMetadata, SDKLanguage, WaitInfo, HttpCredentials, SetNetworkCookie, NetworkCookie, ResourceTiming, SecurityDetails, RequestSizes, RemoteAddr, ExpectedTextValue, SelectorEngine, FormField, LifecycleEvent, ConsoleMessagesFilter, RecorderSource, IndexedDBDatabase, SetOriginStorage, OriginStorage, RecordHarOptions, SerializedValue, SerializedArgument, SerializedError, StackFrame, VirtualCredential, Point, Rect, URLPattern, NameValue, HarLookupCandidate } from '@protocol/structs';
 
 // ----------- Initializer Traits -----------
 export type InitializerTraits<T> =
@@ -1249,6 +1249,7 @@ export interface BrowserContextChannel extends BrowserContextEventTarget, Channe
   setNetworkInterceptionPatterns(params: BrowserContextSetNetworkInterceptionPatternsParams, progress: Progress): Promise<BrowserContextSetNetworkInterceptionPatternsResult>;
   setWebSocketInterceptionPatterns(params: BrowserContextSetWebSocketInterceptionPatternsParams, progress: Progress): Promise<BrowserContextSetWebSocketInterceptionPatternsResult>;
   setOffline(params: BrowserContextSetOfflineParams, progress: Progress): Promise<BrowserContextSetOfflineResult>;
+  setNetworkConditions(params: BrowserContextSetNetworkConditionsParams, progress: Progress): Promise<BrowserContextSetNetworkConditionsResult>;
   storageState(params: BrowserContextStorageStateParams, progress: Progress): Promise<BrowserContextStorageStateResult>;
   setStorageState(params: BrowserContextSetStorageStateParams, progress: Progress): Promise<BrowserContextSetStorageStateResult>;
   pause(params: BrowserContextPauseParams, progress: Progress): Promise<BrowserContextPauseResult>;
@@ -1495,6 +1496,23 @@ export type BrowserContextSetOfflineOptions = {
 
 };
 export type BrowserContextSetOfflineResult = void;
+export type BrowserContextSetNetworkConditionsParams = {
+  conditions?: {
+    latency?: number,
+    downloadThroughput?: number,
+    uploadThroughput?: number,
+    packetLoss?: number,
+  },
+};
+export type BrowserContextSetNetworkConditionsOptions = {
+  conditions?: {
+    latency?: number,
+    downloadThroughput?: number,
+    uploadThroughput?: number,
+    packetLoss?: number,
+  },
+};
+export type BrowserContextSetNetworkConditionsResult = void;
 export type BrowserContextStorageStateParams = {
   indexedDB?: boolean,
   credentials?: boolean,
@@ -3241,6 +3259,15 @@ export type ElementHandleScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type ElementHandleScreenshotOptions = {
   type?: 'png' | 'jpeg' | 'webp',
@@ -3255,6 +3282,15 @@ export type ElementHandleScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type ElementHandleScreenshotResult = {
   binary: Binary,
@@ -3406,8 +3442,12 @@ export interface LocalUtilsChannel extends LocalUtilsEventTarget, Channel {
   _type_LocalUtils: boolean;
   zip(params: LocalUtilsZipParams, progress: Progress): Promise<LocalUtilsZipResult>;
   harOpen(params: LocalUtilsHarOpenParams, progress: Progress): Promise<LocalUtilsHarOpenResult>;
+  harEntries(params: LocalUtilsHarEntriesParams, progress: Progress): Promise<LocalUtilsHarEntriesResult>;
   harLookup(params: LocalUtilsHarLookupParams, progress: Progress): Promise<LocalUtilsHarLookupResult>;
   harClose(params: LocalUtilsHarCloseParams, progress: Progress): Promise<LocalUtilsHarCloseResult>;
+  openAPIOpen(params: LocalUtilsOpenAPIOpenParams, progress: Progress): Promise<LocalUtilsOpenAPIOpenResult>;
+  openAPILookup(params: LocalUtilsOpenAPILookupParams, progress: Progress): Promise<LocalUtilsOpenAPILookupResult>;
+  openAPIClose(params: LocalUtilsOpenAPICloseParams, progress: Progress): Promise<LocalUtilsOpenAPICloseResult>;
   harUnzip(params: LocalUtilsHarUnzipParams, progress: Progress): Promise<LocalUtilsHarUnzipResult>;
   connect(params: LocalUtilsConnectParams, progress: Progress): Promise<LocalUtilsConnectResult>;
   tracingStarted(params: LocalUtilsTracingStartedParams, progress: Progress): Promise<LocalUtilsTracingStartedResult>;
@@ -3430,14 +3470,35 @@ export type LocalUtilsZipOptions = {
 export type LocalUtilsZipResult = void;
 export type LocalUtilsHarOpenParams = {
   file: string,
+  ignoreQuery?: boolean,
+  ignoreQueryParams?: string[],
+  ignorePostDataFields?: string[],
+  roundRobin?: boolean,
 };
 export type LocalUtilsHarOpenOptions = {
-
+  ignoreQuery?: boolean,
+  ignoreQueryParams?: string[],
+  ignorePostDataFields?: string[],
+  roundRobin?: boolean,
 };
 export type LocalUtilsHarOpenResult = {
   harId?: string,
   error?: string,
 };
+export type LocalUtilsHarEntriesParams = {
+  harId: string,
+};
+export type LocalUtilsHarEntriesOptions = {
+
+};
+export type LocalUtilsHarEntriesResult = {
+  entries: {
+    url: string,
+    method: string,
+    headers: NameValue[],
+    postData?: Binary,
+  }[],
+};
 export type LocalUtilsHarLookupParams = {
   harId: string,
   url: string,
@@ -3445,9 +3506,11 @@ export type LocalUtilsHarLookupParams = {
   headers: NameValue[],
   postData?: Binary,
   isNavigationRequest: boolean,
+  candidates?: number[],
 };
 export type LocalUtilsHarLookupOptions = {
   postData?: Binary,
+  candidates?: number[],
 };
 export type LocalUtilsHarLookupResult = {
   action: 'error' | 'redirect' | 'fulfill' | 'noentry',
@@ -3456,6 +3519,7 @@ export type LocalUtilsHarLookupResult = {
   status?: number,
   headers?: NameValue[],
   body?: Binary,
+  closest?: HarLookupCandidate[],
 };
 export type LocalUtilsHarCloseParams = {
   harId: string,
@@ -3464,6 +3528,56 @@ export type LocalUtilsHarCloseOptions = {
 
 };
 export type LocalUtilsHarCloseResult = void;
+export type LocalUtilsOpenAPIOpenParams = {
+  file: string,
+  baseURL?: string,
+  overrides?: {
+    operationId: string,
+    status?: number,
+    headers?: NameValue[],
+    json?: any,
+    example?: string,
+  }[],
+};
+export type LocalUtilsOpenAPIOpenOptions = {
+  baseURL?: string,
+  overrides?: {
+    operationId: string,
+    status?: number,
+    headers?: NameValue[],
+    json?: any,
+    example?: string,
+  }[],
+};
+export type LocalUtilsOpenAPIOpenResult = {
+  openAPIId?: string,
+  error?: string,
+};
+export type LocalUtilsOpenAPILookupParams = {
+  openAPIId: string,
+  url: string,
+  method: string,
+  headers: NameValue[],
+  postData?: Binary,
+};
+export type LocalUtilsOpenAPILookupOptions = {
+  postData?: Binary,
+};
+export type LocalUtilsOpenAPILookupResult = {
+  action: 'fulfill' | 'violation' | 'noentry',
+  operationId?: string,
+  message?: string,
+  status?: number,
+  headers?: NameValue[],
+  body?: Binary,
+};
+export type LocalUtilsOpenAPICloseParams = {
+  openAPIId: string,
+};
+export type LocalUtilsOpenAPICloseOptions = {
+
+};
+export type LocalUtilsOpenAPICloseResult = void;
 export type LocalUtilsHarUnzipParams = {
   zipFile: string,
   harFile: string,
@@ -3574,6 +3688,7 @@ export interface RouteEventTarget {
 export interface RouteChannel extends RouteEventTarget, Channel {
   _type_Route: boolean;
   redirectNavigationRequest(params: RouteRedirectNavigationRequestParams, progress: Progress): Promise<RouteRedirectNavigationRequestResult>;
+  reportHarLookup(params: RouteReportHarLookupParams, progress: Progress): Promise<RouteReportHarLookupResult>;
   abort(params: RouteAbortParams, progress: Progress): Promise<RouteAbortResult>;
   continue(params: RouteContinueParams, progress: Progress): Promise<RouteContinueResult>;
   fulfill(params: RouteFulfillParams, progress: Progress): Promise<RouteFulfillResult>;
@@ -3585,6 +3700,17 @@ export type RouteRedirectNavigationRequestOptions = {
 
 };
 export type RouteRedirectNavigationRequestResult = void;
+export type RouteReportHarLookupParams = {
+  har: string,
+  outcome: 'notFound' | 'error',
+  message?: string,
+  closest?: HarLookupCandidate[],
+};
+export type RouteReportHarLookupOptions = {
+  message?: string,
+  closest?: HarLookupCandidate[],
+};
+export type RouteReportHarLookupResult = void;
 export type RouteAbortParams = {
   errorCode?: string,
 };
@@ -4073,6 +4199,15 @@ export type PageExpectScreenshotParams = {
   maxDiffPixels?: number,
   maxDiffPixelRatio?: number,
   threshold?: number,
+  regions?: {
+    frame?: FrameChannel,
+    selector?: string,
+    rect?: Rect,
+    threshold?: number,
+    maxDiffPixels?: number,
+    maxDiffPixelRatio?: number,
+    ignore?: boolean,
+  }[],
   fullPage?: boolean,
   clip?: Rect,
   type?: 'png' | 'webp',
@@ -4086,6 +4221,15 @@ export type PageExpectScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageExpectScreenshotOptions = {
   expected?: Binary,
@@ -4097,6 +4241,15 @@ export type PageExpectScreenshotOptions = {
   maxDiffPixels?: number,
   maxDiffPixelRatio?: number,
   threshold?: number,
+  regions?: {
+    frame?: FrameChannel,
+    selector?: string,
+    rect?: Rect,
+    threshold?: number,
+    maxDiffPixels?: number,
+    maxDiffPixelRatio?: number,
+    ignore?: boolean,
+  }[],
   fullPage?: boolean,
   clip?: Rect,
   type?: 'png' | 'webp',
@@ -4110,6 +4263,15 @@ export type PageExpectScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageExpectScreenshotResult = {
   actual?: Binary,
@@ -4137,6 +4299,15 @@ export type PageScreenshotParams = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageScreenshotOptions = {
   type?: 'png' | 'jpeg' | 'webp',
@@ -4153,6 +4324,15 @@ export type PageScreenshotOptions = {
   }[],
   maskColor?: string,
   style?: string,
+  stable?: {
+    networkIdle?: number,
+    fonts?: boolean,
+    images?: boolean,
+    predicate?: {
+      expression: string,
+      isFunction?: boolean,
+    },
+  },
 };
 export type PageScreenshotResult = {
   binary: Binary,
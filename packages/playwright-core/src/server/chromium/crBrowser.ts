@@ -510,6 +510,15 @@ export class CRBrowserContext extends BrowserContext<CREventsMap> {
       await (sw as CRServiceWorker).updateOffline();
   }
 
+  async doUpdateNetworkConditions(): Promise<void> {
+    for (const page of this.pages())
+      await (page.delegate as CRPage).updateNetworkConditions();
+    for (const sw of this.serviceWorkers())
+      await (sw as CRServiceWorker).updateNetworkConditions();
+    const packetLoss = this.networkConditions()?.packetLoss;
+    await this.updateNetworkConditionsInterceptor(packetLoss ? { packetLoss } : undefined);
+  }
+
   async doSetHTTPCredentials(httpCredentials?: HttpCredentials[]): Promise<void> {
     this._options.httpCredentials = httpCredentials;
     for (const page of this.pages())
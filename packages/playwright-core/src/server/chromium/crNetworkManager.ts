@@ -52,6 +52,7 @@ export class CRNetworkManager {
   private _userRequestInterceptionEnabled = false;
   private _protocolRequestInterceptionEnabled = false;
   private _offline = false;
+  private _networkConditions: types.NetworkConditions | undefined;
   private _extraHTTPHeaders: types.HeadersArray = [];
   private _requestIdToRequestPausedEvent = new Map<string, { sessionInfo: SessionInfo, event: Protocol.Fetch.requestPausedPayload }>();
   private _responseExtraInfoTracker = new ResponseExtraInfoTracker();
@@ -95,7 +96,7 @@ export class CRNetworkManager {
     await Promise.all([
       session.send('Network.enable'),
       this._updateProtocolRequestInterceptionForSession(sessionInfo, true /* initial */),
-      this._setOfflineForSession(sessionInfo, true /* initial */),
+      this._updateNetworkConditionsForSession(sessionInfo, true /* initial */),
       this._setExtraHTTPHeadersForSession(sessionInfo, true /* initial */),
     ]);
   }
@@ -131,21 +132,27 @@ export class CRNetworkManager {
     if (offline === this._offline)
       return;
     this._offline = offline;
-    await this._forEachSession(info => this._setOfflineForSession(info));
+    await this._forEachSession(info => this._updateNetworkConditionsForSession(info));
   }
 
-  private async _setOfflineForSession(info: SessionInfo, initial?: boolean) {
-    if (initial && !this._offline)
+  async setNetworkConditions(conditions: types.NetworkConditions | undefined) {
+    this._networkConditions = conditions;
+    await this._forEachSession(info => this._updateNetworkConditionsForSession(info));
+  }
+
+  private async _updateNetworkConditionsForSession(info: SessionInfo, initial?: boolean) {
+    if (initial && !this._offline && !this._networkConditions)
       return;
     // Workers are affected by the owner frame's Network.emulateNetworkConditions.
     if (info.workerFrame)
       return;
+    // Packet loss is emulated for all requests by the browser context, CDP only applies it to WebRTC.
     await info.session.send('Network.emulateNetworkConditions', {
       offline: this._offline,
       // values of 0 remove any active throttling. crbug.com/456324#c9
-      latency: 0,
-      downloadThroughput: -1,
-      uploadThroughput: -1
+      latency: this._networkConditions?.latency || 0,
+      downloadThroughput: this._networkConditions?.downloadThroughput || -1,
+      uploadThroughput: this._networkConditions?.uploadThroughput || -1,
     });
   }
 
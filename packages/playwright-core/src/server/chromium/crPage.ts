@@ -110,6 +110,7 @@ export class CRPage implements PageDelegate {
     // Sync any browser context state to the network manager. This does not talk over CDP because
     // we have not connected any sessions to the network manager yet.
     this.updateOffline();
+    this.updateNetworkConditions();
     this.updateExtraHTTPHeaders();
     this.updateHttpCredentials();
     this.updateRequestInterception();
@@ -196,6 +197,10 @@ export class CRPage implements PageDelegate {
     await this._networkManager.setOffline(!!this._browserContext._options.offline);
   }
 
+  async updateNetworkConditions(): Promise<void> {
+    await this._networkManager.setNetworkConditions(this._browserContext.networkConditions());
+  }
+
   async updateHttpCredentials(): Promise<void> {
     await this._networkManager.authenticate(this._browserContext._options.httpCredentials || null);
   }
@@ -54,6 +54,7 @@ export class CRServiceWorker extends Worker {
       this.updateExtraHTTPHeaders();
       this.updateHttpCredentials();
       this.updateOffline();
+      this.updateNetworkConditions();
       this.updateUserAgent();
       this._networkManager.addSession(session, undefined, true /* isMain */).catch(() => {});
     }
@@ -86,6 +87,12 @@ export class CRServiceWorker extends Worker {
     await this._networkManager?.setOffline(!!this.browserContext._options.offline).catch(() => {});
   }
 
+  async updateNetworkConditions(): Promise<void> {
+    if (!this._isNetworkInspectionEnabled())
+      return;
+    await this._networkManager?.setNetworkConditions(this.browserContext.networkConditions()).catch(() => {});
+  }
+
   async updateHttpCredentials(): Promise<void> {
     if (!this._isNetworkInspectionEnabled())
       return;
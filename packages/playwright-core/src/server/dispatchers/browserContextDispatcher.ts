@@ -311,6 +311,10 @@ export class BrowserContextDispatcher extends Dispatcher<BrowserContext, channel
     await this._context.setOffline(progress, params.offline);
   }
 
+  async setNetworkConditions(params: channels.BrowserContextSetNetworkConditionsParams, progress: Progress): Promise<void> {
+    await this._context.setNetworkConditions(progress, params.conditions);
+  }
+
   async setHTTPCredentials(params: channels.BrowserContextSetHTTPCredentialsParams, progress: Progress): Promise<void> {
     // Note: this operation is deprecated, so we do not properly cleanup.
     await this._context.setHTTPCredentials(progress, params.httpCredentials);
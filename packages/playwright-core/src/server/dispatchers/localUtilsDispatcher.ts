@@ -29,6 +29,7 @@ import { SocksInterceptor } from '../socksInterceptor';
 import { WebSocketTransport } from '../transport';
 
 import type { HarBackend } from '../harBackend';
+import type { OpenAPIBackend } from '../openAPIBackend';
 import type { Playwright } from '../playwright';
 import type { RootDispatcher } from './dispatcher';
 import type * as channels from '../channels';
@@ -38,6 +39,7 @@ import type { HTTPRequestParams } from '@utils/network';
 export class LocalUtilsDispatcher extends Dispatcher<SdkObject, channels.LocalUtilsChannel, RootDispatcher> implements channels.LocalUtilsChannel {
   _type_LocalUtils: boolean;
   private _harBackends = new Map<string, HarBackend>();
+  private _openAPIBackends = new Map<string, OpenAPIBackend>();
   private _stackSessions = new Map<string, localUtils.StackSession>();
 
   constructor(scope: RootDispatcher, playwright: Playwright) {
@@ -63,10 +65,26 @@ export class LocalUtilsDispatcher extends Dispatcher<SdkObject, channels.LocalUt
     return await localUtils.harLookup(progress, this._harBackends, params);
   }
 
+  async harEntries(params: channels.LocalUtilsHarEntriesParams, progress: Progress): Promise<channels.LocalUtilsHarEntriesResult> {
+    return await localUtils.harEntries(progress, this._harBackends, params);
+  }
+
   async harClose(params: channels.LocalUtilsHarCloseParams, progress: Progress): Promise<void> {
     localUtils.harClose(this._harBackends, params);
   }
 
+  async openAPIOpen(params: channels.LocalUtilsOpenAPIOpenParams, progress: Progress): Promise<channels.LocalUtilsOpenAPIOpenResult> {
+    return await localUtils.openAPIOpen(progress, this._openAPIBackends, params);
+  }
+
+  async openAPILookup(params: channels.LocalUtilsOpenAPILookupParams, progress: Progress): Promise<channels.LocalUtilsOpenAPILookupResult> {
+    return localUtils.openAPILookup(this._openAPIBackends, params);
+  }
+
+  async openAPIClose(params: channels.LocalUtilsOpenAPICloseParams, progress: Progress): Promise<void> {
+    localUtils.openAPIClose(this._openAPIBackends, params);
+  }
+
   async harUnzip(params: channels.LocalUtilsHarUnzipParams, progress: Progress): Promise<void> {
     return await localUtils.harUnzip(progress, params);
   }
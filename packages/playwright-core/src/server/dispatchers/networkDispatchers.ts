@@ -172,6 +172,10 @@ export class RouteDispatcher extends Dispatcher<Route, channels.RouteChannel, Re
     this._checkNotHandled();
     this._object.redirectNavigationRequest(params.url);
   }
+
+  async reportHarLookup(params: channels.RouteReportHarLookupParams, progress: Progress): Promise<void> {
+    this._object.request()._harLookup = params;
+  }
 }
 
 export class WebSocketDispatcher extends Dispatcher<WebSocket, channels.WebSocketChannel, PageDispatcher> implements channels.WebSocketChannel {
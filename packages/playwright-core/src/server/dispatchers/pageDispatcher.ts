@@ -52,6 +52,7 @@ import type { Progress } from '../progress';
 import type { URLMatch } from '@isomorphic/urlMatch';
 import type { ScreencastFrame } from '../types';
 import type { ScreencastClient } from '../screencast';
+import type { ScreenshotRegion } from '../screenshotter';
 
 export class PageDispatcher extends Dispatcher<Page, channels.PageChannel, BrowserContextDispatcher> implements channels.PageChannel {
   _type_Page = true;
@@ -236,11 +237,16 @@ export class PageDispatcher extends Dispatcher<Page, channels.PageChannel, Brows
       frame: (params.locator.frame as FrameDispatcher)._object,
       selector: params.locator.selector,
     } : undefined;
+    const regions: ScreenshotRegion[] | undefined = params.regions?.map(({ frame, ...region }) => ({
+      ...region,
+      frame: frame ? (frame as FrameDispatcher)._object : undefined,
+    }));
     progress.log(`${renderTitleForCall(progress.metadata)}${progress.timeout ? ` with timeout ${progress.timeout}ms` : ''}`);
     return await this._page.expectScreenshot(progress, {
       ...params,
       locator,
       mask,
+      regions,
     });
   }
 
@@ -318,6 +318,10 @@ export class FFBrowserContext extends BrowserContext {
     await this._browser.session.send('Browser.setOnlineOverride', { browserContextId: this._browserContextId, override: this._options.offline ? 'offline' : 'online' });
   }
 
+  async doUpdateNetworkConditions(): Promise<void> {
+    await this.updateNetworkConditionsInterceptor(this.networkConditions());
+  }
+
   async doSetHTTPCredentials(httpCredentials?: HttpCredentials[]): Promise<void> {
     this._options.httpCredentials = httpCredentials;
     const credentials = httpCredentials ? httpCredentials.map(({ username, password, origin }) => ({ username, password, origin })) : null;
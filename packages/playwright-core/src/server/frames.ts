@@ -1545,6 +1545,9 @@ export class Frame extends SdkObject<FrameEventMap> {
       } else if (lastIntermediateResult.isSet) {
         details.received = lastIntermediateResult.received;
         details.customErrorMessage = lastIntermediateResult.errorMessage;
+        // The expect progress is over by now, same as the one-shot check the diff always finishes.
+        if (options.expression === 'to.match.aria' && !options.isNot && details.received?.value)
+          details.received = { ...details.received, value: { ...details.received.value, diff: await this._ariaSnapshotDiff(nullProgress, selector, options) } };
       }
       if (isTargetClosedError(e) || isSessionClosedError(e))
         progress.log(e.message);
@@ -1554,6 +1557,17 @@ export class Frame extends SdkObject<FrameEventMap> {
     }
   }
 
+  private async _ariaSnapshotDiff(progress: Progress, selector: string | undefined, options: FrameExpectParams) {
+    // Polling only checks whether the snapshot matches, the diff is computed once for the final failure.
+    try {
+      const resolved = await progress.race(this.selectors.callOnSelector(selector ?? 'body', { strict: true, noDefaultPierce: !selector }, ({ injected, elements }, template) => injected.ariaSnapshotDiff(elements[0], template), options.expectedValue));
+      return resolved?.result;
+    } catch {
+      // The page might have navigated or closed since the last poll.
+      return undefined;
+    }
+  }
+
   private async _expectInternal(progress: Progress, selector: string | undefined, options: FrameExpectParams, lastIntermediateResult: { received?: ExpectReceived, isSet: boolean, errorMessage?: string }, noAbort: boolean) {
     const progressLog = (text: string) => progress.log(text);
     // The first expect check, a.k.a. one-shot, always finishes - even when progress is aborted.
@@ -413,6 +413,8 @@ export class HarTracer {
     if (harEntry._monotonicTime && harEntry.time === -1)
       harEntry.time = monotonicTime() - harEntry._monotonicTime;
     this._recordRequestOverrides(harEntry, request);
+    if (request._harLookup)
+      harEntry._harLookup = request._harLookup;
     if (this._started)
       this._delegate.onEntryFinished(harEntry);
   }
@@ -616,6 +618,8 @@ export class HarTracer {
     }
 
     this._recordRequestOverrides(harEntry, request);
+    if (request._harLookup)
+      harEntry._harLookup = request._harLookup;
     this._addBarrier(page || request.serviceWorker(), request.internalRawRequestHeaders().then(headers => {
       this._recordRequestHeadersAndCookies(harEntry, headers);
     }));
@@ -22,43 +22,67 @@ import { isPathInside } from '@utils/fileUtils';
 import { ZipFile } from '@utils/zipFile';
 
 import type { HeadersArray } from '@isomorphic/types';
+import type { HarLookupCandidate } from '@protocol/structs';
 import type * as har from '@trace/har';
 
 const redirectStatus = [301, 302, 303, 307, 308];
+const kClosestEntriesCount = 3;
+
+export type HarMatchOptions = {
+  ignoreQuery?: boolean;
+  ignoreQueryParams?: string[];
+  ignorePostDataFields?: string[];
+  roundRobin?: boolean;
+};
 
 export class HarBackend {
   readonly id: string;
   private _harFile: har.HARFile;
   private _zipFile: ZipFile | null;
   private _baseDir: string | null;
+  private _options: HarMatchOptions;
+  // Number of times each set of matching entries has been served, for round-robin replay.
+  private _servedCounts = new Map<string, number>();
 
-  constructor(harFile: har.HARFile, baseDir: string | null, zipFile: ZipFile | null) {
+  constructor(harFile: har.HARFile, baseDir: string | null, zipFile: ZipFile | null, options: HarMatchOptions = {}) {
     this.id = createGuid();
     this._harFile = harFile;
     this._baseDir = baseDir;
     this._zipFile = zipFile;
+    this._options = options;
+  }
+
+  async entries(): Promise<{ url: string, method: string, headers: HeadersArray, postData?: Buffer }[]> {
+    return await Promise.all(this._harFile.log.entries.map(async entry => ({
+      url: entry.request.url,
+      method: entry.request.method,
+      headers: entry.request.headers,
+      postData: entry.request.postData ? await this._loadContent(entry.request.postData) : undefined,
+    })));
   }
 
-  async lookup(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined, isNavigationRequest: boolean): Promise<{
+  async lookup(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined, isNavigationRequest: boolean, candidates?: number[]): Promise<{
     action: 'error' | 'redirect' | 'fulfill' | 'noentry',
     message?: string,
     redirectURL?: string,
     status?: number,
     headers?: HeadersArray,
-    body?: Buffer
+    body?: Buffer,
+    closest?: HarLookupCandidate[],
   }> {
-    let entry;
+    let found;
     try {
-      entry = await this._harFindResponse(url, method, headers, postData);
+      found = await this._harFindResponse(url, method, headers, postData, candidates);
     } catch (e) {
       return { action: 'error', message: 'HAR error: ' + e.message };
     }
 
-    if (!entry)
-      return { action: 'noentry' };
+    if (!found)
+      return { action: 'noentry', closest: await this._closestEntries(url, method, headers, postData) };
 
+    const { entry, redirected } = found;
     // If navigation is being redirected, restart it with the final url to ensure the document's url changes.
-    if (entry.request.url !== url && isNavigationRequest)
+    if (redirected && !this._urlMatches(entry.request.url, url) && isNavigationRequest)
       return { action: 'redirect', redirectURL: entry.request.url };
 
     const response = entry.response;
@@ -93,38 +117,26 @@ export class HarBackend {
     return buffer;
   }
 
-  private async _harFindResponse(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined): Promise<har.Entry | undefined> {
+  private async _harFindResponse(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined, candidates: number[] | undefined): Promise<{ entry: har.Entry, redirected: boolean } | undefined> {
     const harLog = this._harFile.log;
     const visited = new Set<har.Entry>();
     while (true) {
-      const entries: har.Entry[] = [];
-      for (const candidate of harLog.entries) {
-        if (candidate.request.url !== url || candidate.request.method !== method)
-          continue;
-        if (method === 'POST' && postData && candidate.request.postData) {
-          const buffer = await this._loadContent(candidate.request.postData);
-          if (!buffer.equals(postData)) {
-            const boundary = multipartBoundary(headers);
-            if (!boundary)
-              continue;
-            const candidataBoundary = multipartBoundary(candidate.request.headers);
-            if (!candidataBoundary)
-              continue;
-            // Try to match multipart/form-data ignoring boundary as it changes between requests.
-            if (postData.toString().replaceAll(boundary, '') !== buffer.toString().replaceAll(candidataBoundary, ''))
-              continue;
-          }
-        }
-        entries.push(candidate);
-      }
-
+      // Candidates picked by a custom matcher replace the built-in matching of the original request,
+      // redirects are followed as usual.
+      const entries = candidates && !visited.size ? candidates.map(index => harLog.entries[index]).filter(Boolean) : await this._matchingEntries(url, method, headers, postData);
       if (!entries.length)
         return;
 
       let entry = entries[0];
 
-      // Disambiguate using headers - then one with most matching headers wins.
-      if (entries.length > 1) {
+      if (entries.length > 1 && this._options.roundRobin) {
+        // Serve matching entries in the recorded order, starting over after the last one.
+        const key = entries.map(entry => harLog.entries.indexOf(entry)).join(',');
+        const count = this._servedCounts.get(key) ?? 0;
+        this._servedCounts.set(key, count + 1);
+        entry = entries[count % entries.length];
+      } else if (entries.length > 1) {
+        // Disambiguate using headers - then one with most matching headers wins.
         const list: { candidate: har.Entry, matchingHeaders: number }[] = [];
         for (const candidate of entries) {
           const matchingHeaders = countMatchingHeaders(candidate.request.headers, headers);
@@ -152,7 +164,91 @@ export class HarBackend {
         continue;
       }
 
-      return entry;
+      return { entry, redirected: visited.size > 1 };
+    }
+  }
+
+  private async _matchingEntries(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined): Promise<har.Entry[]> {
+    const entries: har.Entry[] = [];
+    for (const candidate of this._harFile.log.entries) {
+      if (!this._urlMatches(candidate.request.url, url) || candidate.request.method !== method)
+        continue;
+      if (!await this._postDataMatches(candidate, method, headers, postData))
+        continue;
+      entries.push(candidate);
+    }
+    return entries;
+  }
+
+  private async _postDataMatches(candidate: har.Entry, method: string, headers: HeadersArray, postData: Buffer | undefined): Promise<boolean> {
+    if (method !== 'POST' || !postData || !candidate.request.postData)
+      return true;
+    const buffer = await this._loadContent(candidate.request.postData);
+    if (buffer.equals(postData) || this._jsonPostDataMatches(buffer, postData))
+      return true;
+    const boundary = multipartBoundary(headers);
+    if (!boundary)
+      return false;
+    const candidataBoundary = multipartBoundary(candidate.request.headers);
+    if (!candidataBoundary)
+      return false;
+    // Try to match multipart/form-data ignoring boundary as it changes between requests.
+    return postData.toString().replaceAll(boundary, '') === buffer.toString().replaceAll(candidataBoundary, '');
+  }
+
+  // Lists the entries that come closest to matching a request, along with the fields that differ.
+  private async _closestEntries(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined): Promise<HarLookupCandidate[]> {
+    const list: { candidate: HarLookupCandidate, failing: number, prefix: number }[] = [];
+    for (const entry of this._harFile.log.entries) {
+      const mismatches: HarLookupCandidate['mismatches'] = [];
+      if (!this._urlMatches(entry.request.url, url))
+        mismatches.push('url');
+      if (entry.request.method !== method)
+        mismatches.push('method');
+      // Loading the post data is expensive, so it is only compared for entries that match otherwise.
+      if (!mismatches.length && !await this._postDataMatches(entry, method, headers, postData).catch(() => false))
+        mismatches.push('postData');
+      // Headers do not fail the lookup, so they only break ties after the url similarity.
+      const failing = mismatches.length;
+      if (countMatchingHeaders(entry.request.headers, headers) < entry.request.headers.length)
+        mismatches.push('headers');
+      list.push({ candidate: { url: entry.request.url, method: entry.request.method, mismatches }, failing, prefix: commonPrefixLength(entry.request.url, url) });
+    }
+    list.sort((a, b) => a.failing - b.failing || b.prefix - a.prefix || a.candidate.mismatches.length - b.candidate.mismatches.length);
+    return list.slice(0, kClosestEntriesCount).map(item => item.candidate);
+  }
+
+  private _urlMatches(harURL: string, url: string): boolean {
+    if (harURL === url)
+      return true;
+    if (!this._options.ignoreQuery && !this._options.ignoreQueryParams)
+      return false;
+    const normalize = (value: string) => {
+      const parsed = new URL(value);
+      if (this._options.ignoreQuery) {
+        parsed.search = '';
+      } else {
+        for (const name of this._options.ignoreQueryParams!)
+          parsed.searchParams.delete(name);
+        parsed.searchParams.sort();
+      }
+      return parsed.toString();
+    };
+    try {
+      return normalize(harURL) === normalize(url);
+    } catch {
+      return false;
+    }
+  }
+
+  private _jsonPostDataMatches(harPostData: Buffer, postData: Buffer): boolean {
+    if (!this._options.ignorePostDataFields)
+      return false;
+    try {
+      const ignored = new Set(this._options.ignorePostDataFields);
+      return jsonEquals(JSON.parse(harPostData.toString()), JSON.parse(postData.toString()), ignored);
+    } catch {
+      return false;
     }
   }
 
@@ -161,6 +257,28 @@ export class HarBackend {
   }
 }
 
+function jsonEquals(a: any, b: any, ignoredFields: Set<string>): boolean {
+  if (a === b)
+    return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b || Array.isArray(a) !== Array.isArray(b))
+    return false;
+  if (Array.isArray(a))
+    return a.length === b.length && a.every((value, index) => jsonEquals(value, b[index], ignoredFields));
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)].filter(key => !ignoredFields.has(key)));
+  for (const key of keys) {
+    if (!jsonEquals(a[key], b[key], ignoredFields))
+      return false;
+  }
+  return true;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i])
+    ++i;
+  return i;
+}
+
 function countMatchingHeaders(harHeaders: har.Header[], headers: HeadersArray): number {
   const set = new Set(headers.map(h => h.name.toLowerCase() + ':' + h.value));
   let matches = 0;
@@ -19,6 +19,7 @@ import os from 'os';
 import path from 'path';
 
 import * as yauzl from 'yauzl';
+import yaml from 'yaml';
 import * as yazl from 'yazl';
 import { ManualPromise } from '@isomorphic/manualPromise';
 import { serializeClientSideCallMetadata } from '@isomorphic/trace/traceUtils';
@@ -27,6 +28,7 @@ import { calculateSha1 } from '@utils/crypto';
 import { ZipFile } from '@utils/zipFile';
 import { removeFolders, resolveWithinRoot } from '@utils/fileUtils';
 import { HarBackend } from './harBackend';
+import { OpenAPIBackend } from './openAPIBackend';
 import type * as channels from './channels';
 import type * as har from '@trace/har';
 import type EventEmitter from 'events';
@@ -148,9 +150,10 @@ async function deleteStackSession(progress: Progress, stackSessions: Map<string,
 }
 
 export async function harOpen(progress: Progress, harBackends: Map<string, HarBackend>, params: channels.LocalUtilsHarOpenParams): Promise<channels.LocalUtilsHarOpenResult> {
+  const { file, ...options } = params;
   let harBackend: HarBackend;
-  if (params.file.endsWith('.zip')) {
-    const zipFile = new ZipFile(params.file);
+  if (file.endsWith('.zip')) {
+    const zipFile = new ZipFile(file);
     try {
       const entryNames = await progress.race(zipFile.entries());
       const harEntryName = entryNames.find(e => e.endsWith('.har'));
@@ -158,14 +161,14 @@ export async function harOpen(progress: Progress, harBackends: Map<string, HarBa
         return { error: 'Specified archive does not have a .har file' };
       const har = await progress.race(zipFile.read(harEntryName));
       const harFile = JSON.parse(har.toString()) as har.HARFile;
-      harBackend = new HarBackend(harFile, null, zipFile);
+      harBackend = new HarBackend(harFile, null, zipFile, options);
     } catch (error) {
       zipFile.close();
       throw error;
     }
   } else {
-    const harFile = JSON.parse(await progress.race(fs.promises.readFile(params.file, 'utf-8'))) as har.HARFile;
-    harBackend = new HarBackend(harFile, path.dirname(params.file), null);
+    const harFile = JSON.parse(await progress.race(fs.promises.readFile(file, 'utf-8'))) as har.HARFile;
+    harBackend = new HarBackend(harFile, path.dirname(file), null, options);
   }
   harBackends.set(harBackend.id, harBackend);
   return { harId: harBackend.id };
@@ -175,7 +178,14 @@ export async function harLookup(progress: Progress, harBackends: Map<string, Har
   const harBackend = harBackends.get(params.harId);
   if (!harBackend)
     return { action: 'error', message: `Internal error: har was not opened` };
-  return await progress.race(harBackend.lookup(params.url, params.method, params.headers, params.postData, params.isNavigationRequest));
+  return await progress.race(harBackend.lookup(params.url, params.method, params.headers, params.postData, params.isNavigationRequest, params.candidates));
+}
+
+export async function harEntries(progress: Progress, harBackends: Map<string, HarBackend>, params: channels.LocalUtilsHarEntriesParams): Promise<channels.LocalUtilsHarEntriesResult> {
+  const harBackend = harBackends.get(params.harId);
+  if (!harBackend)
+    throw new Error(`Internal error: har was not opened`);
+  return { entries: await progress.race(harBackend.entries()) };
 }
 
 export function harClose(harBackends: Map<string, HarBackend>, params: channels.LocalUtilsHarCloseParams) {
@@ -186,6 +196,33 @@ export function harClose(harBackends: Map<string, HarBackend>, params: channels.
   }
 }
 
+export async function openAPIOpen(progress: Progress, openAPIBackends: Map<string, OpenAPIBackend>, params: channels.LocalUtilsOpenAPIOpenParams): Promise<channels.LocalUtilsOpenAPIOpenResult> {
+  const { file, ...options } = params;
+  let openAPIBackend: OpenAPIBackend;
+  try {
+    const text = await progress.race(fs.promises.readFile(file, 'utf-8'));
+    const spec = file.endsWith('.json') ? JSON.parse(text) : yaml.parse(text);
+    if (!spec?.paths)
+      return { error: `Specified file is not an OpenAPI spec` };
+    openAPIBackend = new OpenAPIBackend(spec, options);
+  } catch (error) {
+    return { error: error.message };
+  }
+  openAPIBackends.set(openAPIBackend.id, openAPIBackend);
+  return { openAPIId: openAPIBackend.id };
+}
+
+export function openAPILookup(openAPIBackends: Map<string, OpenAPIBackend>, params: channels.LocalUtilsOpenAPILookupParams): channels.LocalUtilsOpenAPILookupResult {
+  const openAPIBackend = openAPIBackends.get(params.openAPIId);
+  if (!openAPIBackend)
+    throw new Error(`Internal error: OpenAPI spec was not opened`);
+  return openAPIBackend.lookup(params.url, params.method, params.headers, params.postData);
+}
+
+export function openAPIClose(openAPIBackends: Map<string, OpenAPIBackend>, params: channels.LocalUtilsOpenAPICloseParams) {
+  openAPIBackends.delete(params.openAPIId);
+}
+
 export async function harUnzip(progress: Progress, params: channels.LocalUtilsHarUnzipParams): Promise<void> {
   const resourcesDir = params.resourcesDir ?? path.dirname(params.zipFile);
   const zipFile = new ZipFile(params.zipFile);
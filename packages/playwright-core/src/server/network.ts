@@ -193,6 +193,7 @@ export class Request extends SdkObject {
   private _bodySize: number | undefined;
   private _wallTimeMs: number | undefined;
   _responseBodyOverride: { body: string; isBase64: boolean; } | undefined;
+  _harLookup: channels.RouteReportHarLookupParams | undefined;
 
   static Events = {
     Response: 'response',
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ProgressController } from './progress';
+
+import type { BrowserContext } from './browserContext';
+import type * as network from './network';
+import type * as types from './types';
+
+// Emulates network conditions for browsers that cannot throttle natively:
+// requests are delayed by latency and upload time, responses are fetched
+// and held back by download time, and dropped packets fail the request.
+// Throttled responses are buffered in full before they are delivered, so
+// streaming responses only reach the page once the server has finished them.
+export function createNetworkConditionsInterceptor(context: BrowserContext, conditions: types.NetworkConditions): network.RouteHandler | undefined {
+  if (!conditions.latency && !isThrottled(conditions.uploadThroughput) && !isThrottled(conditions.downloadThroughput) && !conditions.packetLoss)
+    return;
+  return (route, request) => {
+    throttleRoute(context, conditions, route, request).catch(() => route.abort('failed').catch(() => {}));
+  };
+}
+
+const kThrottledFetchTimeout = 30000;
+
+async function throttleRoute(context: BrowserContext, conditions: types.NetworkConditions, route: network.Route, request: network.Request) {
+  if (conditions.packetLoss && Math.random() * 100 < conditions.packetLoss) {
+    await route.abort('connectionfailed');
+    return;
+  }
+
+  const postData = request.postDataBuffer();
+  let delay = conditions.latency || 0;
+  if (postData && isThrottled(conditions.uploadThroughput))
+    delay += transferTime(postData.length, conditions.uploadThroughput!);
+  await sleep(delay);
+
+  if (!isThrottled(conditions.downloadThroughput)) {
+    await route.continue({ isFallback: true });
+    return;
+  }
+
+  const fetchRequest = context.fetchRequest;
+  const controller = new ProgressController();
+  const fetchPromise = controller.run(progress => fetchRequest.fetch(progress, {
+    url: request.url(),
+    method: request.method(),
+    headers: request.headers(),
+    postData: postData || undefined,
+    // Redirects are fulfilled as is, so that the browser follows them through its own network stack.
+    maxRedirects: 0,
+  }), kThrottledFetchTimeout);
+  const page = request.frame()?._page;
+  const response = await (page ? page.openScope.race(fetchPromise) : fetchPromise).catch(async error => {
+    // Do not leave the request running after the page has gone.
+    await controller.abort(error);
+    fetchPromise.then(response => fetchRequest._disposeResponse(response.fetchUid), () => {});
+    throw error;
+  });
+  try {
+    const body = fetchRequest.fetchResponses.get(response.fetchUid);
+    await sleep(transferTime(body?.length || 0, conditions.downloadThroughput!));
+    // The fetch has already stored the response cookies in the context.
+    const headers = response.headers.filter(header => header.name.toLowerCase() !== 'set-cookie');
+    await route.fulfill({ status: response.status, headers, fetchResponseUid: response.fetchUid });
+  } finally {
+    fetchRequest._disposeResponse(response.fetchUid);
+  }
+}
+
+function isThrottled(throughput: number | undefined) {
+  return !!throughput && throughput > 0;
+}
+
+function transferTime(bytes: number, throughput: number) {
+  return bytes / throughput * 1000;
+}
+
+async function sleep(ms: number) {
+  if (ms > 0)
+    await new Promise(f => setTimeout(f, ms));
+}
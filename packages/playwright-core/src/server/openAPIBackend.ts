@@ -0,0 +1,454 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validate } from '@isomorphic/jsonSchema';
+import { createGuid } from '@utils/crypto';
+
+import type { JsonSchema } from '@isomorphic/jsonSchema';
+import type { HeadersArray } from '@isomorphic/types';
+import type * as channels from './channels';
+
+type SchemaObject = {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  nullable?: boolean;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  enum?: unknown[];
+  pattern?: string;
+  minimum?: number;
+  example?: unknown;
+  default?: unknown;
+};
+
+type MediaTypeObject = {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, { $ref?: string, value?: unknown }>;
+};
+
+type ParameterObject = {
+  $ref?: string;
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: SchemaObject;
+};
+
+type OperationObject = {
+  operationId?: string;
+  parameters?: ParameterObject[];
+  requestBody?: { $ref?: string, required?: boolean, content?: Record<string, MediaTypeObject> };
+  responses?: Record<string, { $ref?: string, content?: Record<string, MediaTypeObject> }>;
+};
+
+export type OpenAPISpec = {
+  openapi?: string;
+  servers?: { url: string }[];
+  paths?: Record<string, Record<string, OperationObject> & { parameters?: ParameterObject[] }>;
+  components?: Record<string, Record<string, unknown>>;
+};
+
+type Operation = {
+  id: string;
+  method: string;
+  path: string;
+  segments: string[];
+  parameters: ParameterObject[];
+  operation: OperationObject;
+};
+
+type Override = NonNullable<channels.LocalUtilsOpenAPIOpenParams['overrides']>[number];
+
+type LookupResult = channels.LocalUtilsOpenAPILookupResult;
+
+const httpMethods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+// These headers are described by the spec outside of the parameters, see https://spec.openapis.org/oas/v3.0.3#fixed-fields-10.
+const reservedHeaders = ['accept', 'content-type', 'authorization'];
+const kMaxGeneratedDepth = 8;
+
+export class OpenAPIBackend {
+  readonly id: string;
+  private _spec: OpenAPISpec;
+  private _origin: string | undefined;
+  private _basePath: string;
+  private _operations: Operation[] = [];
+  private _overrides = new Map<string, Override>();
+
+  constructor(spec: OpenAPISpec, options: { baseURL?: string, overrides?: Override[] }) {
+    this.id = createGuid();
+    this._spec = spec;
+    const baseURL = options.baseURL ?? spec.servers?.[0]?.url ?? '/';
+    let basePath = baseURL;
+    try {
+      const url = new URL(baseURL);
+      this._origin = url.origin;
+      basePath = url.pathname;
+    } catch {
+      // Relative server urls match requests to any origin.
+    }
+    this._basePath = basePath.replace(/\/+$/, '');
+
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+      for (const method of httpMethods) {
+        const operation = pathItem[method] as OperationObject | undefined;
+        if (!operation)
+          continue;
+        this._operations.push({
+          id: operation.operationId ?? `${method.toUpperCase()} ${path}`,
+          method,
+          path,
+          segments: path.split('/'),
+          parameters: mergeParameters((pathItem.parameters || []).map(p => this._resolve(p)), (operation.parameters || []).map(p => this._resolve(p))),
+          operation,
+        });
+      }
+    }
+    // Literal path segments take precedence over templated ones, for example /pets/mine over /pets/{id}.
+    this._operations.sort((a, b) => templateCount(a.segments) - templateCount(b.segments));
+
+    for (const override of options.overrides || []) {
+      const operation = this._operations.find(operation => operation.id === override.operationId);
+      if (!operation)
+        throw new Error(`Operation "${override.operationId}" is not defined in the spec`);
+      if (override.example !== undefined && !this._response(operation, override.status).media?.examples?.[override.example])
+        throw new Error(`Example "${override.example}" is not defined for the response of operation "${override.operationId}"`);
+      this._overrides.set(override.operationId, override);
+    }
+  }
+
+  lookup(url: string, method: string, headers: HeadersArray, postData: Buffer | undefined): LookupResult {
+    let parsedURL: URL;
+    try {
+      parsedURL = new URL(url);
+    } catch {
+      return { action: 'noentry' };
+    }
+    if (this._origin && parsedURL.origin !== this._origin)
+      return { action: 'noentry' };
+    const pathname = parsedURL.pathname;
+    if (pathname !== this._basePath && !pathname.startsWith(this._basePath + '/'))
+      return { action: 'noentry' };
+
+    const path = pathname.substring(this._basePath.length) || '/';
+    const title = `${method} ${path}`;
+    const byPath = this._operations.map(operation => ({ operation, pathParams: matchPath(operation.segments, path.split('/')) })).filter(m => !!m.pathParams);
+    // Paths that are not described by the spec, for example pages and assets next to a relative base URL, are not API calls.
+    if (!byPath.length)
+      return { action: 'noentry' };
+    const match = byPath.find(m => m.operation.method === method.toLowerCase());
+    if (!match) {
+      const allowed = [...new Set(byPath.map(m => m.operation.method.toUpperCase()))];
+      return { action: 'violation', message: `${title}: method is not allowed, expected ${allowed.join(' or ')}` };
+    }
+
+    const { operation, pathParams } = match;
+    const errors = this._validateRequest(operation, pathParams!, parsedURL.searchParams, headers, postData);
+    if (errors.length)
+      return { action: 'violation', operationId: operation.id, message: `${title} does not match operation "${operation.id}":\n` + errors.map(e => `  - ${e}`).join('\n') };
+    return { action: 'fulfill', operationId: operation.id, ...this._fulfill(operation) };
+  }
+
+  private _validateRequest(operation: Operation, pathParams: Map<string, string>, searchParams: URLSearchParams, headers: HeadersArray, postData: Buffer | undefined): string[] {
+    const errors: string[] = [];
+    for (const parameter of operation.parameters) {
+      const location = `${parameter.in}.${parameter.name}`;
+      let values: string[] = [];
+      if (parameter.in === 'path') {
+        const value = pathParams.get(parameter.name);
+        if (value !== undefined) {
+          try {
+            values = [decodeURIComponent(value)];
+          } catch {
+            errors.push(`${location}: malformed percent-encoding "${value}"`);
+            continue;
+          }
+        }
+      } else if (parameter.in === 'query') {
+        values = searchParams.getAll(parameter.name);
+      } else if (parameter.in === 'header') {
+        if (reservedHeaders.includes(parameter.name.toLowerCase()))
+          continue;
+        values = headers.filter(h => h.name.toLowerCase() === parameter.name.toLowerCase()).map(h => h.value);
+      } else {
+        continue;
+      }
+      if (!values.length) {
+        if (parameter.required || parameter.in === 'path')
+          errors.push(`${location}: required`);
+        continue;
+      }
+      if (!parameter.schema)
+        continue;
+      const schema = this._toJsonSchema(parameter.schema);
+      const value = schema.type === 'array' ? values.map(v => coerce(v, schema.items)) : coerce(values[0], schema);
+      errors.push(...validate(value, schema, location));
+    }
+
+    const requestBody = operation.operation.requestBody ? this._resolve(operation.operation.requestBody) : undefined;
+    if (!requestBody)
+      return errors;
+    if (!postData?.length) {
+      if (requestBody.required)
+        errors.push(`body: required`);
+      return errors;
+    }
+    const contentTypes = Object.keys(requestBody.content || {});
+    const contentType = headers.find(h => h.name.toLowerCase() === 'content-type')?.value.split(';')[0].trim().toLowerCase();
+    const mediaKey = contentTypes.find(type => mediaTypeMatches(type, contentType));
+    if (!mediaKey) {
+      errors.push(`body: unexpected content type ${contentType ? `"${contentType}"` : 'without a content-type header'}, expected ${contentTypes.map(t => `"${t}"`).join(' or ')}`);
+      return errors;
+    }
+    const schema = requestBody.content![mediaKey].schema;
+    if (!schema || !isJsonMediaType(contentType))
+      return errors;
+    let body: unknown;
+    try {
+      body = JSON.parse(postData.toString('utf-8'));
+    } catch {
+      errors.push(`body: invalid JSON`);
+      return errors;
+    }
+    errors.push(...validate(body, this._toJsonSchema(schema), 'body'));
+    return errors;
+  }
+
+  private _fulfill(operation: Operation): Pick<LookupResult, 'status' | 'headers' | 'body'> {
+    const override = this._overrides.get(operation.id);
+    const { status, media, mediaType } = this._response(operation, override?.status);
+    const headers: HeadersArray = [];
+    let body: Buffer | undefined;
+    if (override?.json !== undefined) {
+      headers.push({ name: 'content-type', value: 'application/json' });
+      body = Buffer.from(JSON.stringify(override.json));
+    } else if (media) {
+      let value: unknown;
+      if (override?.example !== undefined)
+        value = this._resolve(media.examples![override.example]).value;
+      else if (media.example !== undefined)
+        value = media.example;
+      else if (media.examples && Object.keys(media.examples).length)
+        value = this._resolve(Object.values(media.examples)[0]).value;
+      else
+        value = this._generate(media.schema || {}, 0);
+      headers.push({ name: 'content-type', value: mediaType! });
+      body = Buffer.from(isJsonMediaType(mediaType) ? JSON.stringify(value) : String(value ?? ''));
+    }
+    headers.push(...(override?.headers || []));
+    return { status, headers, body };
+  }
+
+  private _response(operation: Operation, status: number | undefined): { status: number, media?: MediaTypeObject, mediaType?: string } {
+    const responses = operation.operation.responses || {};
+    let key: string | undefined;
+    if (status !== undefined) {
+      key = [String(status), `${String(status)[0]}XX`, 'default'].find(k => responses[k]);
+    } else {
+      const success = Object.keys(responses).filter(k => /^2(\d\d|XX)$/i.test(k)).sort();
+      key = success[0] ?? (responses.default ? 'default' : undefined);
+      status = key && /^\d+$/.test(key) ? +key : 200;
+    }
+    const response = key ? this._resolve(responses[key]) : undefined;
+    const content = response?.content || {};
+    const mediaType = Object.keys(content).find(type => isJsonMediaType(type)) ?? Object.keys(content)[0];
+    return { status, media: mediaType ? content[mediaType] : undefined, mediaType };
+  }
+
+  private _generate(schema: SchemaObject, depth: number): unknown {
+    schema = this._resolve(schema);
+    if (schema.example !== undefined)
+      return schema.example;
+    if (schema.default !== undefined)
+      return schema.default;
+    if (schema.enum?.length)
+      return schema.enum[0];
+    if (schema.allOf) {
+      const parts = schema.allOf.map(part => this._generate(part, depth));
+      if (parts.every(part => part && typeof part === 'object' && !Array.isArray(part)))
+        return Object.assign({}, ...parts);
+      return parts[0];
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants?.length)
+      return this._generate(variants[0], depth);
+    const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+    if (type === 'object' || (!type && schema.properties)) {
+      const result: Record<string, unknown> = {};
+      if (depth < kMaxGeneratedDepth) {
+        for (const [name, property] of Object.entries(schema.properties || {}))
+          result[name] = this._generate(property, depth + 1);
+      }
+      return result;
+    }
+    if (type === 'array')
+      return schema.items && depth < kMaxGeneratedDepth ? [this._generate(schema.items, depth + 1)] : [];
+    if (type === 'integer' || type === 'number')
+      return schema.minimum ?? 0;
+    if (type === 'boolean')
+      return true;
+    if (type === 'string')
+      return exampleStringForFormat(schema.format);
+    return null;
+  }
+
+  private _toJsonSchema(schema: SchemaObject, refs = new Set<string>()): JsonSchema {
+    if (schema.$ref) {
+      // Recursive schemas are only validated up to the first repetition.
+      if (refs.has(schema.$ref))
+        return {};
+      refs = new Set([...refs, schema.$ref]);
+      return this._toJsonSchema(this._resolve(schema), refs);
+    }
+    const result: JsonSchema = {};
+    if (schema.allOf) {
+      const parts = schema.allOf.map(part => this._toJsonSchema(part, refs));
+      for (const part of parts) {
+        result.type ??= part.type;
+        result.properties = { ...result.properties, ...part.properties };
+        result.required = [...(result.required || []), ...(part.required || [])];
+      }
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (variants)
+      result.oneOf = variants.map(variant => this._toJsonSchema(variant, refs));
+    if (schema.enum)
+      result.enum = schema.enum;
+    if (schema.pattern)
+      result.pattern = schema.pattern;
+    if (schema.properties) {
+      result.properties = { ...result.properties };
+      for (const [name, property] of Object.entries(schema.properties))
+        result.properties[name] = this._toJsonSchema(property, refs);
+    }
+    if (schema.required)
+      result.required = [...(result.required || []), ...schema.required];
+    if (typeof schema.additionalProperties === 'object')
+      result.additionalProperties = this._toJsonSchema(schema.additionalProperties, refs);
+    else if (schema.additionalProperties !== undefined)
+      result.additionalProperties = schema.additionalProperties;
+    if (schema.items)
+      result.items = this._toJsonSchema(schema.items, refs);
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (schema.nullable && types.length)
+      types.push('null');
+    if (result.oneOf) {
+      if (types.includes('null'))
+        result.oneOf.push({ type: 'null' });
+      return result;
+    }
+    // The validator checks a single type per schema, so several types become variants.
+    if (types.length > 1)
+      return { oneOf: types.map(type => type === 'null' ? { type } : { ...result, type }) };
+    if (types.length)
+      result.type = types[0];
+    return result;
+  }
+
+  private _resolve<T extends { $ref?: string }>(value: T): T {
+    const seen = new Set<string>();
+    while (value?.$ref) {
+      const ref = value.$ref;
+      if (seen.has(ref) || !ref.startsWith('#/'))
+        throw new Error(`Cannot resolve "${ref}" in the spec`);
+      seen.add(ref);
+      let target: unknown = this._spec;
+      for (const token of ref.substring(2).split('/'))
+        target = target && typeof target === 'object' ? (target as Record<string, unknown>)[token.replace(/~1/g, '/').replace(/~0/g, '~')] : undefined;
+      if (!target || typeof target !== 'object')
+        throw new Error(`Cannot resolve "${ref}" in the spec`);
+      value = target as T;
+    }
+    return value;
+  }
+}
+
+function mergeParameters(pathLevel: ParameterObject[], operationLevel: ParameterObject[]): ParameterObject[] {
+  const key = (parameter: ParameterObject) => parameter.in + ':' + parameter.name;
+  const overridden = new Set(operationLevel.map(key));
+  return [...pathLevel.filter(parameter => !overridden.has(key(parameter))), ...operationLevel];
+}
+
+function templateCount(segments: string[]): number {
+  return segments.filter(segment => segment.includes('{')).length;
+}
+
+function matchPath(templateSegments: string[], segments: string[]): Map<string, string> | undefined {
+  if (templateSegments.length !== segments.length)
+    return;
+  const params = new Map<string, string>();
+  for (let i = 0; i < segments.length; i++) {
+    const template = templateSegments[i];
+    if (!template.includes('{')) {
+      if (template !== segments[i])
+        return;
+      continue;
+    }
+    const names: string[] = [];
+    const source = template.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{([^}]+)\}/g, (_, name) => {
+      names.push(name);
+      return '([^/]+)';
+    });
+    const match = segments[i].match(new RegExp(`^${source}$`));
+    if (!match)
+      return;
+    names.forEach((name, index) => params.set(name, match[index + 1]));
+  }
+  return params;
+}
+
+function coerce(value: string, schema: JsonSchema | undefined): unknown {
+  const type = schema?.type;
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !isNaN(+value))
+    return +value;
+  if (type === 'boolean' && (value === 'true' || value === 'false'))
+    return value === 'true';
+  return value;
+}
+
+function isJsonMediaType(mediaType: string | undefined): boolean {
+  return !!mediaType && /^application\/(.+\+)?json$/.test(mediaType.split(';')[0].trim().toLowerCase());
+}
+
+function mediaTypeMatches(pattern: string, contentType: string | undefined): boolean {
+  pattern = pattern.toLowerCase();
+  if (pattern === '*/*')
+    return true;
+  if (!contentType)
+    return false;
+  if (pattern.endsWith('/*'))
+    return contentType.startsWith(pattern.slice(0, -1));
+  return pattern === contentType;
+}
+
+function exampleStringForFormat(format: string | undefined): string {
+  switch (format) {
+    case 'date-time': return '1970-01-01T00:00:00.000Z';
+    case 'date': return '1970-01-01';
+    case 'email': return 'user@example.com';
+    case 'uuid': return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url': return 'https://example.com';
+    default: return 'string';
+  }
+}
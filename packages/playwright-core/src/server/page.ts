@@ -48,9 +48,9 @@ import type { Download } from './download';
 import type * as dom from './dom';
 import type * as network from './network';
 import type { Progress } from './progress';
-import type { ScreenshotOptions } from './screenshotter';
+import type { ScreenshotOptions, ScreenshotRegion } from './screenshotter';
 import type * as types from './types';
-import type { ImageComparatorOptions } from '@utils/comparators';
+import type { ImageComparatorOptions, ImageRegion } from '@utils/comparators';
 import type * as channels from './channels';
 import type { BindingPayload } from '@injected/bindingsController';
 import type { AriaNodeJSON, AriaSnapshotJSON } from '@isomorphic/ariaSnapshot';
@@ -122,6 +122,7 @@ type EmulatedMedia = {
 
 type ExpectScreenshotOptions = ImageComparatorOptions & ScreenshotOptions & {
   expected?: Buffer,
+  regions?: ScreenshotRegion[],
   isNot?: boolean,
   locator?: {
     frame: frames.Frame,
@@ -733,8 +734,9 @@ export class Page extends SdkObject<PageEventMap> {
         throw new Error('"not" matcher requires expected result');
       const format = validateScreenshotOptions(options || {});
       const comparator = getComparator(`image/${format}`);
+      let regions: ImageRegion[] | undefined;
       const areEqualScreenshots = (actual: Buffer | undefined, expected: Buffer | undefined, previous: Buffer | undefined) => {
-        const comparatorResult = actual && expected ? comparator(actual, expected, options) : undefined;
+        const comparatorResult = actual && expected ? comparator(actual, expected, { ...options, regions }) : undefined;
         if (comparatorResult !== undefined && !!comparatorResult === !!options.isNot)
           return true;
         if (comparatorResult)
@@ -764,6 +766,16 @@ export class Page extends SdkObject<PageEventMap> {
         });
         if (!actual)
           continue;
+        if (options.regions?.length) {
+          regions = await this.screenshotter.resolveRegions(progress, options.regions, options, locator).catch(e => {
+            if (this.mainFrame().isNonRetriableError(e))
+              throw e;
+            progress.log(`failed to resolve screenshot regions - ` + e.message);
+            return undefined;
+          });
+          if (!regions)
+            continue;
+        }
         // Compare against expectation for the first iteration.
         const expectation = options.expected && isFirstIteration ? options.expected : previous;
         if (areEqualScreenshots(actual, expectation, previous))
@@ -16,6 +16,7 @@
  */
 
 import { assert } from '@isomorphic/assert';
+import { monotonicTime } from '@isomorphic/time';
 import { helper } from './helper';
 
 import type * as dom from './dom';
@@ -24,6 +25,7 @@ import type { Page } from './page';
 import type { Progress } from './progress';
 import type * as types from './types';
 import type { Rect } from '@isomorphic/types';
+import type { ImageRegion } from '@utils/comparators';
 
 
 declare global {
@@ -44,6 +46,26 @@ export type ScreenshotOptions = {
   scale?: 'css' | 'device';
   caret?: 'hide' | 'initial';
   style?: string;
+  stable?: ScreenshotStableOptions;
+};
+
+export type ScreenshotStableOptions = {
+  // Milliseconds without in-flight requests.
+  networkIdle?: number;
+  fonts?: boolean;
+  images?: boolean;
+  predicate?: { expression: string, isFunction?: boolean };
+};
+
+export type ScreenshotRegion = {
+  frame?: Frame;
+  selector?: string;
+  // Relative to the top-left corner of the screenshot, in CSS pixels.
+  rect?: Rect;
+  threshold?: number;
+  maxDiffPixels?: number;
+  maxDiffPixelRatio?: number;
+  ignore?: boolean;
 };
 
 function inPagePrepareForScreenshots(screenshotStyle: string, hideCaret: boolean, disableAnimations: boolean, syncAnimations: boolean) {
@@ -205,6 +227,7 @@ export class Screenshotter {
       const viewportSize = await this._originalViewportSize(progress);
       await this._preparePageForScreenshot(progress, this._page.mainFrame(), options.style, options.caret !== 'initial', options.animations === 'disabled');
       try {
+        await this._waitForStable(progress, this._page.mainFrame(), options.stable);
         if (options.fullPage) {
           const fullPageSize = await this._fullPageSize(progress);
           let documentRect = { x: 0, y: 0, width: fullPageSize.width, height: fullPageSize.height };
@@ -229,6 +252,7 @@ export class Screenshotter {
 
       await this._preparePageForScreenshot(progress, handle._frame, options.style, options.caret !== 'initial', options.animations === 'disabled');
       try {
+        await this._waitForStable(progress, handle._frame, options.stable);
         await handle._waitAndScrollIntoViewIfNeeded(progress, true /* waitForVisible */);
 
         const boundingBox = await handle.boundingBox(progress);
@@ -248,6 +272,43 @@ export class Screenshotter {
     });
   }
 
+  async resolveRegions(progress: Progress, regions: ScreenshotRegion[], options: ScreenshotOptions, element?: { frame: Frame, selector: string }): Promise<ImageRegion[]> {
+    const mainFrame = this._page.mainFrame();
+    // Top-left corner of the screenshot in viewport coordinates.
+    const origin = { x: Math.max(0, options.clip?.x ?? 0), y: Math.max(0, options.clip?.y ?? 0) };
+    if (element) {
+      const boxes = await this._boundingBoxes(progress, element.frame, element.selector);
+      assert(boxes.length, 'Node is either not visible or not an HTMLElement');
+      origin.x = Math.floor(boxes[0].x);
+      origin.y = Math.floor(boxes[0].y);
+    } else if (options.fullPage) {
+      const scrollOffset = await mainFrame.waitForFunctionValueInUtility(progress, () => ({ x: window.scrollX, y: window.scrollY }));
+      origin.x -= scrollOffset.x;
+      origin.y -= scrollOffset.y;
+    }
+    const scale = options.scale === 'device' ? await mainFrame.waitForFunctionValueInUtility(progress, () => window.devicePixelRatio) : 1;
+
+    const result: ImageRegion[] = [];
+    for (const { frame, selector, rect, ...tolerance } of regions) {
+      const rects = frame && selector ? (await this._boundingBoxes(progress, frame, selector)).map(box => ({ ...box, x: box.x - origin.x, y: box.y - origin.y })) : [];
+      if (rect)
+        rects.push(rect);
+      for (const { x, y, width, height } of rects)
+        result.push({ x: x * scale, y: y * scale, width: width * scale, height: height * scale, ...tolerance });
+    }
+    return result;
+  }
+
+  private async _boundingBoxes(progress: Progress, frame: Frame, selector: string): Promise<Rect[]> {
+    const handles = await progress.race(frame.selectors.queryAll(selector));
+    try {
+      const boxes = await Promise.all(handles.map(handle => handle.boundingBox(progress)));
+      return boxes.filter(box => !!box);
+    } finally {
+      handles.forEach(handle => handle.dispose());
+    }
+  }
+
   private async _preparePageForScreenshot(progress: Progress, frame: Frame, screenshotStyle: string | undefined, hideCaret: boolean, disableAnimations: boolean) {
     if (disableAnimations)
       progress.log('  disabled all CSS animations');
@@ -265,6 +326,52 @@ export class Screenshotter {
     }
   }
 
+  private async _waitForStable(progress: Progress, frame: Frame, stable: ScreenshotStableOptions | undefined) {
+    if (!stable)
+      return;
+    if (stable.networkIdle !== undefined) {
+      progress.log(`waiting for no network requests for ${stable.networkIdle}ms...`);
+      let idleSince: number | undefined;
+      let lastInflight = 0;
+      while (true) {
+        const inflight = this._page.frames().reduce((count, frame) => count + frame._inflightRequests.size, 0);
+        if (inflight && inflight !== lastInflight)
+          progress.log(`  ${inflight} request${inflight === 1 ? '' : 's'} in flight`);
+        lastInflight = inflight;
+        if (inflight) {
+          idleSince = undefined;
+        } else {
+          idleSince ??= monotonicTime();
+          if (monotonicTime() - idleSince >= stable.networkIdle)
+            break;
+        }
+        await progress.wait(Math.min(100, stable.networkIdle || 100));
+      }
+      progress.log('network is idle');
+    }
+    if (stable.fonts) {
+      progress.log('waiting for all fonts to load...');
+      await frame.waitForFunctionValueInUtility(progress, () => document.fonts.status === 'loaded');
+      progress.log('all fonts loaded');
+    }
+    if (stable.images) {
+      progress.log('waiting for images to decode...');
+      const count = await progress.race(frame.nonStallingEvaluateInExistingContext(`(async () => {
+        // Lazy images outside of the viewport never load, do not wait for them.
+        const images = Array.from(document.images).filter(image => image.complete || image.loading !== 'lazy');
+        await Promise.all(images.map(image => image.decode().catch(() => {})));
+        return images.length;
+      })()`, 'utility'));
+      progress.log(`  decoded ${count} image${count === 1 ? '' : 's'}`);
+    }
+    if (stable.predicate) {
+      progress.log('waiting for stable predicate to return truthy value...');
+      const handle = await frame.waitForFunctionExpression(progress, stable.predicate.expression, stable.predicate.isFunction, undefined, {});
+      handle.dispose();
+      progress.log('stable predicate returned truthy value');
+    }
+  }
+
   private async _restorePageAfterScreenshot() {
     await this._page.safeNonStallingEvaluateInAllFrames('window.__pwCleanupScreenshot && window.__pwCleanupScreenshot()', 'utility');
   }
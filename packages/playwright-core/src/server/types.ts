@@ -64,6 +64,13 @@ export type Geolocation = {
   accuracy?: number;
 };
 
+export type NetworkConditions = {
+  latency?: number;
+  downloadThroughput?: number;
+  uploadThroughput?: number;
+  packetLoss?: number;
+};
+
 export type SelectOption = {
   value?: string;
   label?: string;
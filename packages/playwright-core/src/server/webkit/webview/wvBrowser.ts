@@ -414,4 +414,5 @@ export class WVBrowserContext extends BrowserContext {
   override async cancelDownload(uuid: string) { throw new Error('Method not implemented.'); }
   protected override async doSetHTTPCredentials(httpCredentials?: HttpCredentials[]): Promise<void> { throw new Error('Method not implemented.'); }
   protected override async doUpdateOffline(): Promise<void> { throw new Error('Method not implemented.'); }
+  protected override async doUpdateNetworkConditions(): Promise<void> { await this.updateNetworkConditionsInterceptor(this.networkConditions()); }
 }
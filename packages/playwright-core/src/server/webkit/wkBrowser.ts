@@ -325,6 +325,10 @@ export class WKBrowserContext extends BrowserContext {
       await (page.delegate as WKPage).updateOffline();
   }
 
+  async doUpdateNetworkConditions(): Promise<void> {
+    await this.updateNetworkConditionsInterceptor(this.networkConditions());
+  }
+
   async doSetHTTPCredentials(httpCredentials?: HttpCredentials[]): Promise<void> {
     this._options.httpCredentials = httpCredentials;
     for (const page of this.pages())
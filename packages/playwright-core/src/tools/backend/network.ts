@@ -268,9 +268,10 @@ const networkStateSet = defineTool({
   schema: {
     name: 'browser_network_state_set',
     title: 'Set network state',
-    description: 'Sets the browser network state to online or offline. When offline, all network requests will fail.',
+    description: 'Sets the browser network state to online or offline, optionally throttled. When offline, all network requests will fail.',
     inputSchema: z.object({
       state: z.enum(['online', 'offline']).describe('Set to "offline" to simulate offline mode, "online" to restore network connectivity'),
+      throttling: z.enum(['none', 'Slow 3G', 'Fast 3G', 'Slow 4G']).optional().describe('Network throttling profile to emulate, "none" to stop throttling'),
     }),
     type: 'action',
   },
@@ -281,6 +282,12 @@ const networkStateSet = defineTool({
     await browserContext.setOffline(offline);
     response.addTextResult(`Network is now ${params.state}`);
     response.addCode(`await page.context().setOffline(${offline});`);
+    if (params.throttling) {
+      const conditions = params.throttling === 'none' ? null : params.throttling;
+      await browserContext.setNetworkConditions(conditions);
+      response.addTextResult(conditions ? `Network is throttled to ${conditions}` : 'Network is not throttled');
+      response.addCode(`await page.context().setNetworkConditions(${conditions ? `'${conditions}'` : 'null'});`);
+    }
   },
 });
 
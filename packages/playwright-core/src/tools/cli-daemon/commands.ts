@@ -786,13 +786,16 @@ const unroute = declareCommand({
 
 const networkStateSet = declareCommand({
   name: 'network-state-set',
-  description: 'Set the browser network state to online or offline',
+  description: 'Set the browser network state to online or offline, optionally throttled',
   category: 'network',
   args: z.object({
     state: z.enum(['online', 'offline']).describe('Set to "offline" to simulate offline mode, "online" to restore network connectivity'),
   }),
+  options: z.object({
+    throttling: z.enum(['none', 'Slow 3G', 'Fast 3G', 'Slow 4G']).optional().describe('Network throttling profile to emulate, "none" to stop throttling'),
+  }),
   toolName: 'browser_network_state_set',
-  toolParams: ({ state }) => ({ state }),
+  toolParams: ({ state, throttling }) => ({ state, throttling }),
 });
 
 // Export
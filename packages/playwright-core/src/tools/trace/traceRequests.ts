@@ -183,7 +183,9 @@ function bytesToString(bytes: number): string {
   return gb.toFixed(1) + 'G';
 }
 
-function formatRouteStatus(r: { _wasAborted?: boolean, _wasContinued?: boolean, _wasFulfilled?: boolean, _apiRequest?: boolean }): string {
+function formatRouteStatus(r: { _wasAborted?: boolean, _wasContinued?: boolean, _wasFulfilled?: boolean, _apiRequest?: boolean, _harLookup?: object }): string {
+  if (r._harLookup)
+    return 'HAR miss';
   if (r._wasAborted)
     return 'aborted';
   if (r._wasContinued)
@@ -44,6 +44,9 @@ export async function runTests(args: string[], opts: { [key: string]: any }) {
     testList: opts.testList ? path.resolve(process.cwd(), opts.testList) : undefined,
     testListInvert: opts.testListInvert ? path.resolve(process.cwd(), opts.testListInvert) : undefined,
     shardWeights: resolveShardWeightsOption(),
+    shardTimingsFile: opts.shardTimings ? path.resolve(process.cwd(), opts.shardTimings) : undefined,
+    updateQuarantine: !!opts.updateQuarantine,
+    bisect: opts.bisect,
   };
 
   // Evaluate project filters against config before starting execution. This enables a consistent error message across run modes
@@ -123,6 +126,7 @@ function overridesFromOptions(options: { [key: string]: any }): ipc.ConfigCLIOve
     outputDir: options.output ? path.resolve(process.cwd(), options.output) : undefined,
     pause: !!process.env.PWPAUSE,
     quiet: options.quiet ? options.quiet : undefined,
+    recordImpact: options.recordImpact ? true : undefined,
     repeatEach: options.repeatEach ? parseInt(options.repeatEach, 10) : undefined,
     retries: options.retries ? parseInt(options.retries, 10) : undefined,
     reporter: resolveReporterOption(options.reporter),
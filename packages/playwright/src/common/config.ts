@@ -21,6 +21,7 @@ import path from 'path';
 import { packageJSON } from '../package';
 import { getPackageJsonPath, mergeObjects, takeFirst } from '../util';
 
+import type { SnapshotStoreOptions } from '@utils/snapshotStore';
 import type { Config, Fixtures, Metadata, PlaywrightWorkerOptions, Project, ReporterDescription } from '../../types/test';
 import type { TestRunnerPluginRegistration } from '../plugins';
 import type { ConfigCLIOverrides } from './ipc';
@@ -49,6 +50,19 @@ export class FullConfigInternal {
   readonly singleTSConfigPath?: string;
   readonly captureGitInfo: Config['captureGitInfo'];
   readonly retryStrategy: 'immediate' | 'isolated';
+  readonly quarantine: { file: string, flakyRuns: number, lastRuns: number } | undefined;
+  readonly impactMap: string | undefined;
+  readonly snapshotStore: SnapshotStoreOptions | undefined;
+  readonly locks: { [lock: string]: number };
+  readonly autoscale: { minWorkers: number, maxWorkers: number } | undefined;
+  readonly coverage: {
+    js: boolean,
+    css: boolean,
+    include: string | RegExp | (string | RegExp)[] | undefined,
+    exclude: string | RegExp | (string | RegExp)[],
+    outputDir: string,
+    formats: ('lcov' | 'json')[],
+  } | undefined;
   defineConfigWasUsed = false;
 
   globalSetups: string[] = [];
@@ -69,6 +83,24 @@ export class FullConfigInternal {
     this.singleTSConfigPath = pathResolve(configDir, userConfig.tsconfig);
     this.captureGitInfo = userConfig.captureGitInfo;
     this.retryStrategy = takeFirst(userConfig.retryStrategy, 'immediate');
+    this.quarantine = userConfig.quarantine ? {
+      file: path.resolve(configDir, userConfig.quarantine.file),
+      flakyRuns: takeFirst(userConfig.quarantine.flakyRuns, 2),
+      lastRuns: takeFirst(userConfig.quarantine.lastRuns, 10),
+    } : undefined;
+    this.impactMap = pathResolve(configDir, userConfig.impactMap);
+    this.snapshotStore = resolveSnapshotStore(userConfig.snapshotStore, configDir);
+    this.locks = takeFirst(userConfig.locks, {});
+    const workers = takeFirst((configCLIOverrides.debug || configCLIOverrides.pause) ? 1 : undefined, configCLIOverrides.workers, userConfig.workers, '50%');
+    this.autoscale = workers === 'auto' ? resolveAutoscale(userConfig.autoscale) : undefined;
+    this.coverage = userConfig.coverage ? {
+      js: takeFirst(userConfig.coverage.js, true),
+      css: takeFirst(userConfig.coverage.css, false),
+      include: userConfig.coverage.include,
+      exclude: takeFirst(userConfig.coverage.exclude, '**/node_modules/**'),
+      outputDir: path.resolve(configDir, takeFirst(userConfig.coverage.outputDir, 'coverage')),
+      formats: takeFirst(userConfig.coverage.formats, ['lcov', 'json']),
+    } : undefined;
 
     this.globalSetups = (Array.isArray(userConfig.globalSetup) ? userConfig.globalSetup : [userConfig.globalSetup]).map(s => resolveScript(s, configDir)).filter(script => script !== undefined);
     this.globalTeardowns = (Array.isArray(userConfig.globalTeardown) ? userConfig.globalTeardown : [userConfig.globalTeardown]).map(s => resolveScript(s, configDir)).filter(script => script !== undefined);
@@ -107,7 +139,7 @@ export class FullConfigInternal {
       updateSnapshots: takeFirst(configCLIOverrides.updateSnapshots, userConfig.updateSnapshots, 'missing'),
       updateSourceMethod: takeFirst(configCLIOverrides.updateSourceMethod, userConfig.updateSourceMethod, 'patch'),
       version: packageJSON.version,
-      workers: resolveWorkers(takeFirst((configCLIOverrides.debug || configCLIOverrides.pause) ? 1 : undefined, configCLIOverrides.workers, userConfig.workers, '50%')),
+      workers: this.autoscale ? this.autoscale.maxWorkers : resolveWorkers(workers),
       webServer: null,
     };
     for (const key in userConfig) {
@@ -162,6 +194,7 @@ export class FullProjectInternal {
   readonly respectGitIgnore: boolean;
   readonly snapshotPathTemplate: string | undefined;
   readonly workers: number | undefined;
+  readonly retryPolicy: Project['retryPolicy'];
   id = '';
   deps: FullProjectInternal[] = [];
   teardown: FullProjectInternal | undefined;
@@ -203,7 +236,10 @@ export class FullProjectInternal {
       const stylePaths = Array.isArray(this.expect.toHaveScreenshot.stylePath) ? this.expect.toHaveScreenshot.stylePath : [this.expect.toHaveScreenshot.stylePath];
       this.expect.toHaveScreenshot.stylePath = stylePaths.map(stylePath => path.resolve(configDir, stylePath));
     }
+    if (this.expect.comparators)
+      this.expect.comparators = Object.fromEntries(Object.entries(this.expect.comparators).map(([name, file]) => [name, resolveComparator(name, file, configDir)]));
     this.respectGitIgnore = takeFirst(projectConfig.respectGitIgnore, config.respectGitIgnore, !projectConfig.testDir && !config.testDir);
+    this.retryPolicy = takeFirst(projectConfig.retryPolicy, config.retryPolicy);
     this.workers = projectConfig.workers ? resolveWorkers(projectConfig.workers) : undefined;
     if (configCLIOverrides.debug && this.workers)
       this.workers = 1;
@@ -216,6 +252,16 @@ function pathResolve(baseDir: string, relative: string | undefined): string | un
   return path.resolve(baseDir, relative);
 }
 
+function resolveSnapshotStore(snapshotStore: Config['snapshotStore'], configDir: string): SnapshotStoreOptions | undefined {
+  if (!snapshotStore)
+    return undefined;
+  if (snapshotStore.type === 'fs')
+    return { type: 'fs', directory: path.resolve(configDir, snapshotStore.directory!) };
+  if (snapshotStore.type === 'custom')
+    return { type: 'custom', store: { get: async hash => (await snapshotStore.get!(hash)) || undefined, put: snapshotStore.put! }, id: configDir };
+  return { type: 'http', url: snapshotStore.url!, headers: snapshotStore.headers };
+}
+
 function resolveReporters(reporters: Config['reporter'], rootDir: string): ReporterDescription[] | undefined {
   return toReporters(reporters as any)?.map(([id, arg]) => {
     if (builtInReporters.includes(id as any))
@@ -247,6 +293,14 @@ function resolveWorkers(workers: string | number): number {
   return workers;
 }
 
+function resolveAutoscale(autoscale: Config['autoscale']): { minWorkers: number, maxWorkers: number } {
+  const minWorkers = resolveWorkers(takeFirst(autoscale?.minWorkers, 1));
+  const maxWorkers = resolveWorkers(takeFirst(autoscale?.maxWorkers, '100%'));
+  if (minWorkers > maxWorkers)
+    throw new Error(`Autoscale minWorkers ${minWorkers} must not exceed maxWorkers ${maxWorkers}.`);
+  return { minWorkers, maxWorkers };
+}
+
 function resolveProjectDependencies(projects: FullProjectInternal[]) {
   const teardownSet = new Set<FullProjectInternal>();
   for (const project of projects) {
@@ -294,6 +348,17 @@ export type BuiltInReporter = typeof builtInReporters[number];
 
 export type ContextReuseMode = 'none' | 'when-possible';
 
+function resolveComparator(name: string, file: string, rootDir: string): string {
+  let resolved: string | undefined;
+  try {
+    resolved = resolveScript(file, rootDir);
+  } catch {
+  }
+  if (!resolved)
+    throw new Error(`Comparator "${name}" not found: cannot resolve "${file}" from ${rootDir}`);
+  return resolved;
+}
+
 function resolveScript(id: string | undefined, rootDir: string): string | undefined {
   if (!id)
     return undefined;
@@ -129,7 +129,8 @@ function validateConfig(file: string, config: Config) {
   if (typeof config !== 'object' || !config)
     throw errorWithFile(file, `Configuration file must export a single object`);
 
-  validateProject(file, config, 'config');
+  // Unlike in projects, workers may be 'auto' at the top level.
+  validateProject(file, config.workers === 'auto' ? { ...config, workers: undefined } : config, 'config');
 
   if ('forbidOnly' in config && config.forbidOnly !== undefined) {
     if (typeof config.forbidOnly !== 'boolean')
@@ -247,6 +248,81 @@ function validateConfig(file: string, config: Config) {
       throw errorWithFile(file, `config.retryStrategy must be one of "immediate" or "isolated"`);
   }
 
+  if ('quarantine' in config && config.quarantine !== undefined) {
+    if (!config.quarantine || typeof config.quarantine !== 'object')
+      throw errorWithFile(file, `config.quarantine must be an object`);
+    if (typeof config.quarantine.file !== 'string')
+      throw errorWithFile(file, `config.quarantine.file must be a string`);
+    if ('flakyRuns' in config.quarantine && config.quarantine.flakyRuns !== undefined && (typeof config.quarantine.flakyRuns !== 'number' || config.quarantine.flakyRuns < 1))
+      throw errorWithFile(file, `config.quarantine.flakyRuns must be a positive number`);
+    if ('lastRuns' in config.quarantine && config.quarantine.lastRuns !== undefined && (typeof config.quarantine.lastRuns !== 'number' || config.quarantine.lastRuns < 1))
+      throw errorWithFile(file, `config.quarantine.lastRuns must be a positive number`);
+  }
+
+  if ('snapshotStore' in config && config.snapshotStore !== undefined) {
+    if (!config.snapshotStore || typeof config.snapshotStore !== 'object')
+      throw errorWithFile(file, `config.snapshotStore must be an object`);
+    if (config.snapshotStore.type === 'fs') {
+      if (typeof config.snapshotStore.directory !== 'string')
+        throw errorWithFile(file, `config.snapshotStore.directory must be a string`);
+    } else if (config.snapshotStore.type === 'http') {
+      if (typeof config.snapshotStore.url !== 'string')
+        throw errorWithFile(file, `config.snapshotStore.url must be a string`);
+      if ('headers' in config.snapshotStore && config.snapshotStore.headers !== undefined && (!config.snapshotStore.headers || typeof config.snapshotStore.headers !== 'object'))
+        throw errorWithFile(file, `config.snapshotStore.headers must be an object`);
+    } else if (config.snapshotStore.type === 'custom') {
+      if (typeof config.snapshotStore.get !== 'function')
+        throw errorWithFile(file, `config.snapshotStore.get must be a function`);
+      if (typeof config.snapshotStore.put !== 'function')
+        throw errorWithFile(file, `config.snapshotStore.put must be a function`);
+    } else {
+      throw errorWithFile(file, `config.snapshotStore.type must be one of "fs", "http" or "custom"`);
+    }
+  }
+
+  if ('coverage' in config && config.coverage !== undefined) {
+    if (!config.coverage || typeof config.coverage !== 'object')
+      throw errorWithFile(file, `config.coverage must be an object`);
+    if ('js' in config.coverage && config.coverage.js !== undefined && typeof config.coverage.js !== 'boolean')
+      throw errorWithFile(file, `config.coverage.js must be a boolean`);
+    if ('css' in config.coverage && config.coverage.css !== undefined && typeof config.coverage.css !== 'boolean')
+      throw errorWithFile(file, `config.coverage.css must be a boolean`);
+    if ('outputDir' in config.coverage && config.coverage.outputDir !== undefined && typeof config.coverage.outputDir !== 'string')
+      throw errorWithFile(file, `config.coverage.outputDir must be a string`);
+    if ('formats' in config.coverage && config.coverage.formats !== undefined) {
+      if (!Array.isArray(config.coverage.formats) || config.coverage.formats.some(format => !['lcov', 'json'].includes(format)))
+        throw errorWithFile(file, `config.coverage.formats must be an array of "lcov" or "json"`);
+    }
+  }
+
+  if ('locks' in config && config.locks !== undefined) {
+    if (!config.locks || typeof config.locks !== 'object')
+      throw errorWithFile(file, `config.locks must be an object`);
+    for (const [lock, capacity] of Object.entries(config.locks)) {
+      if (typeof capacity !== 'number' || capacity < 1 || !Number.isInteger(capacity))
+        throw errorWithFile(file, `config.locks["${lock}"] must be a positive integer`);
+    }
+  }
+
+  if ('autoscale' in config && config.autoscale !== undefined) {
+    if (!config.autoscale || typeof config.autoscale !== 'object')
+      throw errorWithFile(file, `config.autoscale must be an object`);
+    for (const key of ['minWorkers', 'maxWorkers'] as const) {
+      const value = config.autoscale[key];
+      if (value === undefined)
+        continue;
+      if (typeof value === 'number' && value <= 0)
+        throw errorWithFile(file, `config.autoscale.${key} must be a positive number`);
+      else if (typeof value === 'string' && !value.endsWith('%'))
+        throw errorWithFile(file, `config.autoscale.${key} must be a number or percentage`);
+    }
+  }
+
+  if ('impactMap' in config && config.impactMap !== undefined) {
+    if (typeof config.impactMap !== 'string')
+      throw errorWithFile(file, `config.impactMap must be a string`);
+  }
+
   if ('tsconfig' in config && config.tsconfig !== undefined) {
     if (typeof config.tsconfig !== 'string')
       throw errorWithFile(file, `config.tsconfig must be a string`);
@@ -313,9 +389,36 @@ function validateProject(file: string, project: Project, title: string) {
       throw errorWithFile(file, `${title}.ignoreSnapshots must be a boolean`);
   }
 
+  if ('retryPolicy' in project && project.retryPolicy !== undefined) {
+    const retryPolicy = project.retryPolicy;
+    if (!retryPolicy || typeof retryPolicy !== 'object')
+      throw errorWithFile(file, `${title}.retryPolicy must be an object`);
+    if ('errors' in retryPolicy && retryPolicy.errors !== undefined) {
+      if (!Array.isArray(retryPolicy.errors) || retryPolicy.errors.some(pattern => typeof pattern !== 'string' && !isRegExp(pattern)))
+        throw errorWithFile(file, `${title}.retryPolicy.errors must be an array of strings or RegExps`);
+    }
+    if ('backoff' in retryPolicy && retryPolicy.backoff !== undefined) {
+      const backoff = retryPolicy.backoff;
+      if (!backoff || typeof backoff !== 'object')
+        throw errorWithFile(file, `${title}.retryPolicy.backoff must be an object`);
+      if (typeof backoff.delay !== 'number' || backoff.delay < 0)
+        throw errorWithFile(file, `${title}.retryPolicy.backoff.delay must be a non-negative number`);
+      if ('factor' in backoff && backoff.factor !== undefined && (typeof backoff.factor !== 'number' || backoff.factor < 1))
+        throw errorWithFile(file, `${title}.retryPolicy.backoff.factor must be a number not less than 1`);
+      if ('maxDelay' in backoff && backoff.maxDelay !== undefined && (typeof backoff.maxDelay !== 'number' || backoff.maxDelay < 0))
+        throw errorWithFile(file, `${title}.retryPolicy.backoff.maxDelay must be a non-negative number`);
+    }
+    if ('worker' in retryPolicy && retryPolicy.worker !== undefined && !['fresh', 'same'].includes(retryPolicy.worker))
+      throw errorWithFile(file, `${title}.retryPolicy.worker must be one of "fresh" or "same"`);
+    if ('budget' in retryPolicy && retryPolicy.budget !== undefined && (typeof retryPolicy.budget !== 'number' || retryPolicy.budget < 0))
+      throw errorWithFile(file, `${title}.retryPolicy.budget must be a non-negative number`);
+  }
+
   if ('workers' in project && project.workers !== undefined) {
     if (typeof project.workers === 'number' && project.workers <= 0)
       throw errorWithFile(file, `${title}.workers must be a positive number`);
+    else if (project.workers === 'auto')
+      throw errorWithFile(file, `${title}.workers cannot be "auto", it is only supported in the top-level config`);
     else if (typeof project.workers === 'string' && !project.workers.endsWith('%'))
       throw errorWithFile(file, `${title}.workers must be a number or percentage`);
   }
@@ -0,0 +1,211 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SourceMapConsumer } from 'source-map';
+
+export type FunctionCoverage = {
+  name: string;
+  line: number;
+  count: number;
+};
+
+export type FileCoverage = {
+  // 1-based line number to execution count, only for lines that contain code.
+  lines: { [line: number]: number };
+  functions: { [key: string]: FunctionCoverage };
+};
+
+// Coverage per source URL, after applying source maps.
+export type CoverageData = { [url: string]: FileCoverage };
+
+export type JSCoverageEntry = {
+  url: string;
+  source?: string;
+  functions: {
+    functionName: string;
+    isBlockCoverage: boolean;
+    ranges: { startOffset: number, endOffset: number, count: number }[];
+  }[];
+};
+
+export type CSSCoverageEntry = {
+  url: string;
+  text?: string;
+  ranges: { start: number, end: number }[];
+};
+
+type Segment = {
+  generatedColumn: number;
+  source: string;
+  // 1-based line in the original source.
+  originalLine: number;
+};
+
+export type SourceMap = {
+  // Segments per generated line, sorted by the generated column.
+  lines: Segment[][];
+};
+
+export function jsCoverage(entry: JSCoverageEntry, sourceMap: SourceMap | undefined): CoverageData {
+  const text = entry.source ?? '';
+  const counts = new Uint32Array(text.length);
+  // Paint outer ranges first, so that nested blocks override the enclosing function counts.
+  const ranges = entry.functions.flatMap(f => f.ranges).sort((a, b) => a.startOffset - b.startOffset || b.endOffset - a.endOffset);
+  for (const range of ranges)
+    counts.fill(range.count, range.startOffset, Math.min(range.endOffset, text.length));
+  const functions: { name: string, offset: number, count: number }[] = [];
+  for (const f of entry.functions) {
+    const [range] = f.ranges;
+    // The first entry describes the script itself.
+    if (!range || (range.startOffset === 0 && range.endOffset >= text.length && !f.functionName))
+      continue;
+    functions.push({ name: f.functionName || '(anonymous)', offset: range.startOffset, count: range.count });
+  }
+  return computeCoverage(entry.url, text, counts, functions, sourceMap);
+}
+
+export function cssCoverage(entry: CSSCoverageEntry, sourceMap: SourceMap | undefined): CoverageData {
+  const text = entry.text ?? '';
+  const counts = new Uint32Array(text.length);
+  for (const range of entry.ranges)
+    counts.fill(1, range.start, Math.min(range.end, text.length));
+  return computeCoverage(entry.url, text, counts, [], sourceMap);
+}
+
+export function mergeCoverage(target: CoverageData, source: CoverageData) {
+  for (const [url, file] of Object.entries(source)) {
+    const targetFile = target[url] ??= { lines: {}, functions: {} };
+    for (const [line, count] of Object.entries(file.lines))
+      targetFile.lines[+line] = (targetFile.lines[+line] ?? 0) + count;
+    for (const [key, fn] of Object.entries(file.functions)) {
+      const targetFn = targetFile.functions[key];
+      if (targetFn)
+        targetFn.count += fn.count;
+      else
+        targetFile.functions[key] = { ...fn };
+    }
+  }
+}
+
+export function sourceMapURL(text: string): string | undefined {
+  const match = text.match(/[#@]\s*sourceMappingURL=([^\s'"*]+)\s*(?:\*\/\s*)?$/);
+  return match?.[1];
+}
+
+export function parseSourceMap(text: string, mapURL: string): SourceMap | undefined {
+  let consumer: SourceMapConsumer;
+  try {
+    consumer = new SourceMapConsumer(JSON.parse(text));
+  } catch {
+    return undefined;
+  }
+  const lines: Segment[][] = [];
+  const sourceURLs = new Map<string, string>();
+  consumer.eachMapping(mapping => {
+    // Mappings without an original position do not map to any source.
+    if (mapping.source === null || mapping.originalLine === null)
+      return;
+    let source = sourceURLs.get(mapping.source);
+    if (source === undefined) {
+      source = resolveSourceURL(mapping.source, mapURL);
+      sourceURLs.set(mapping.source, source);
+    }
+    (lines[mapping.generatedLine - 1] ??= []).push({ generatedColumn: mapping.generatedColumn, source, originalLine: mapping.originalLine });
+  });
+  return { lines };
+}
+
+function resolveSourceURL(source: string, mapURL: string): string {
+  try {
+    return new URL(source, mapURL).toString();
+  } catch {
+    return source;
+  }
+}
+
+function computeCoverage(url: string, text: string, counts: Uint32Array, functions: { name: string, offset: number, count: number }[], sourceMap: SourceMap | undefined): CoverageData {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; ++i) {
+    if (text[i] === '\n')
+      lineStarts.push(i + 1);
+  }
+
+  const result: CoverageData = {};
+  const fileCoverage = (url: string) => result[url] ??= { lines: {}, functions: {} };
+
+  if (!sourceMap) {
+    const file = fileCoverage(url);
+    for (let line = 0; line < lineStarts.length; ++line) {
+      const end = line + 1 < lineStarts.length ? lineStarts[line + 1] : text.length;
+      const offset = firstNonWhitespace(text, lineStarts[line], end);
+      if (offset !== -1)
+        file.lines[line + 1] = counts[offset];
+    }
+    for (const fn of functions) {
+      const line = lineForOffset(lineStarts, fn.offset) + 1;
+      file.functions[`${fn.name}:${line}`] = { name: fn.name, line, count: fn.count };
+    }
+    return result;
+  }
+
+  for (let line = 0; line < sourceMap.lines.length && line < lineStarts.length; ++line) {
+    for (const segment of sourceMap.lines[line] ?? []) {
+      const offset = Math.min(lineStarts[line] + segment.generatedColumn, text.length - 1);
+      const file = fileCoverage(segment.source);
+      file.lines[segment.originalLine] = Math.max(file.lines[segment.originalLine] ?? 0, counts[offset] ?? 0);
+    }
+  }
+  for (const fn of functions) {
+    const line = lineForOffset(lineStarts, fn.offset);
+    const segment = segmentForColumn(sourceMap.lines[line] ?? [], fn.offset - lineStarts[line]);
+    if (!segment)
+      continue;
+    const file = fileCoverage(segment.source);
+    file.functions[`${fn.name}:${segment.originalLine}`] = { name: fn.name, line: segment.originalLine, count: fn.count };
+  }
+  return result;
+}
+
+function firstNonWhitespace(text: string, start: number, end: number): number {
+  for (let i = start; i < end; ++i) {
+    if (!/\s/.test(text[i]))
+      return i;
+  }
+  return -1;
+}
+
+function lineForOffset(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset)
+      low = mid;
+    else
+      high = mid - 1;
+  }
+  return low;
+}
+
+function segmentForColumn(segments: Segment[], column: number): Segment | undefined {
+  let result = segments[0];
+  for (const segment of segments) {
+    if (segment.generatedColumn > column)
+      break;
+    result = segment;
+  }
+  return result;
+}
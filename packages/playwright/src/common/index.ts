@@ -16,6 +16,7 @@
 
 export * as cc from '../transform/compilationCache';
 export * as config from './config';
+export * as coverage from './coverage';
 export * as configLoader from './configLoader';
 export * as fixtures from './fixtures';
 export * as ipc from './ipc';
@@ -19,6 +19,7 @@ import util from 'util';
 import { serializeCompilationCache } from '../transform/compilationCache';
 
 import type { ConfigLocation, FullConfigInternal } from './config';
+import type { CoverageData } from './coverage';
 import type { ReporterDescription, TestInfoError, TestStatus, TestAnnotation } from '../../types/test';
 import type { SerializedCompilationCache  } from '../transform/compilationCache';
 
@@ -33,6 +34,7 @@ export type ConfigCLIOverrides = {
   outputDir?: string;
   pause?: boolean;
   quiet?: boolean;
+  recordImpact?: boolean;
   repeatEach?: number;
   retries?: number;
   reporter?: ReporterDescription[];
@@ -85,11 +87,17 @@ export type AttachmentPayload = {
   stepId?: string;
 };
 
+export type CoveragePayload = {
+  testId: string;
+  coverage: CoverageData;
+};
+
 export type TestInfoErrorPayload = {
   message?: string;
   stack?: string;
   value?: string;
   cause?: TestInfoErrorPayload;
+  groups?: { title: string, errors: TestInfoErrorPayload[] }[];
 };
 
 export type TestPausedPayload = {
@@ -156,6 +164,8 @@ export type DonePayload = {
   skipTestsDueToSetupFailure: string[];  // test ids
   fatalUnknownTestIds?: string[];
   stoppedDueToUnhandledErrorInTestFail?: boolean;
+  // Whether the worker can run more tests, e.g. after test failures with the "same" retry policy worker.
+  canReuseWorker?: boolean;
 };
 
 export type TestOutputPayload = {
@@ -201,5 +211,7 @@ export function toTestInfoErrorPayload(error: TestInfoError): TestInfoErrorPaylo
     result.value = error.value;
   if (error.cause !== undefined)
     result.cause = toTestInfoErrorPayload(error.cause);
+  if (error.groups !== undefined)
+    result.groups = error.groups.map(group => ({ title: group.title, errors: group.errors.map(toTestInfoErrorPayload) }));
   return result;
 }
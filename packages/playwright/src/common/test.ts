@@ -288,6 +288,8 @@ export class TestCase extends Base implements reporterTypes.TestCase {
   _tags: string[] = [];
   _locks: string[] = [];
   _planAnnotations: TestAnnotation[] = [];
+  // Describes why the upcoming retry was allowed by the project retry policy.
+  _retryAnnotation: TestAnnotation | undefined;
 
   constructor(title: string, fn: Function, testType: TestTypeImpl, location: Location) {
     super(title);
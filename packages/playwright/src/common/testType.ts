@@ -21,7 +21,7 @@ import { currentZone } from '@utils/zones';
 
 import { currentTestInfo, currentlyLoadingFileSuite, setCurrentlyLoadingFileSuite } from '../globals';
 import { Suite, TestCase } from './test';
-import { expect } from '../matchers/expect';
+import { expect, setSoftStep } from '../matchers/expect';
 import { wrapFunctionWithLocation } from '../transform/transform';
 import { validateTestDetails } from './validators';
 
@@ -62,8 +62,10 @@ export class TestTypeImpl {
     test.fail.only = wrapFunctionWithLocation(this._createTest.bind(this, 'fail.only'));
     test.slow = wrapFunctionWithLocation(this._modifier.bind(this, 'slow'));
     test.setTimeout = wrapFunctionWithLocation(this._setTimeout.bind(this));
+    test.lock = wrapFunctionWithLocation(this._lock.bind(this));
     test.step = this._step.bind(this, 'pass');
     test.step.skip = this._step.bind(this, 'skip');
+    test.step.soft = this._step.bind(this, 'soft');
     test.use = wrapFunctionWithLocation(this._use.bind(this));
     test.extend = wrapFunctionWithLocation(this._extend.bind(this));
     test.info = () => {
@@ -267,6 +269,16 @@ export class TestTypeImpl {
     testInfo.setTimeout(timeout);
   }
 
+  private _lock(location: Location, lock: string | string[]) {
+    const suite = this._currentSuite(location, `test.lock()`);
+    if (!suite)
+      return;
+    const locks = typeof lock === 'string' ? [lock] : lock;
+    if (!Array.isArray(locks) || locks.some(l => typeof l !== 'string'))
+      throw new Error(`test.lock() expects a lock name or an array of lock names`);
+    suite._locks.push(...locks);
+  }
+
   private _use(location: Location, fixtures: Fixtures) {
     const suite = this._currentSuite(location, `test.use()`);
     if (!suite)
@@ -274,12 +286,12 @@ export class TestTypeImpl {
     suite._use.push({ fixtures, location });
   }
 
-  async _step<T>(expectation: 'pass'|'skip', title: string, body: (step: TestStepInfo) => T | Promise<T>, options: {box?: boolean, location?: Location, timeout?: number } = {}): Promise<T> {
+  async _step<T>(expectation: 'pass'|'skip'|'soft', title: string, body: (step: TestStepInfo) => T | Promise<T>, options: {box?: boolean, location?: Location, timeout?: number } = {}): Promise<T> {
     const testInfo = currentTestInfo();
     if (!testInfo)
       throw new Error(`test.step() can only be called from a test`);
     await testInfo._onUserStepBegin?.(title);
-    const step = testInfo._addStep({ category: 'test.step', title, location: options.location, box: options.box });
+    const step = testInfo._addStep({ category: 'test.step', title, location: options.location, box: options.box, soft: expectation === 'soft' });
     return await currentZone().with('stepZone', step).run(async () => {
       try {
         let result: Awaited<ReturnType<typeof raceAgainstDeadline<T>>> | undefined = undefined;
@@ -299,6 +311,11 @@ export class TestTypeImpl {
         step.complete({});
         return result.result;
       } catch (error) {
+        // Skipping the test from a soft step still ends the test.
+        if (expectation === 'soft' && !testInfo._isSkipError(error)) {
+          step.complete({ softError: error });
+          return undefined as T;
+        }
         step.complete({ error });
         throw error;
       } finally {
@@ -327,6 +344,7 @@ function throwIfRunningInsideJest() {
 }
 
 export const rootTestType = new TestTypeImpl([]);
+setSoftStep((title, body) => rootTestType._step('soft', title, body));
 
 export function mergeTests(...tests: TestType<any, any>[]) {
   let result = rootTestType;
@@ -16,27 +16,34 @@
 
 import fs from 'fs';
 import path from 'path';
+import { fileURLToPath } from 'url';
 
 import * as playwrightLibrary from 'playwright-core';
 import { asLocatorDescription } from '@isomorphic/locatorGenerators';
 import { getActionGroup, renderTitleForCall } from '@isomorphic/protocolFormatter';
 import { escapeHTML } from '@isomorphic/stringUtils';
 import { jsonStringifyForceASCII } from '@utils/ascii';
-import { createGuid } from '@utils/crypto';
+import { calculateSha1, createGuid } from '@utils/crypto';
 import { debugMode } from '@utils/debug';
 import { debugLogger } from '@utils/debugLogger';
+import { eventsHelper } from '@utils/eventsHelper';
 import { currentZone } from '@utils/zones';
 import { buildErrorContext } from './errorContext';
-import { config, testType } from './common';
+import { config, coverage, testType } from './common';
 import * as globals from './globals';
+import { createFileMatcher } from './util';
+import { measurePerformance } from './matchers/expect';
 import { createCustomMessageHandler, runDaemonForContext } from './mcp/test/browserBackend';
 
-import type { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions, PlaywrightWorkerArgs, PlaywrightWorkerOptions, ScreenshotMode, TestInfo, TestType, VideoMode } from '../types/test';
+import type { Fixtures, PlaywrightTestArgs, PlaywrightTestOptions, PlaywrightWorkerArgs, PlaywrightWorkerOptions, RecordNetworkMode, ScreenshotMode, TestInfo, TestType, VideoMode } from '../types/test';
 import type { TestInfoImpl, TestStepInternal } from './worker/testInfo';
+import type { RegisteredListener } from '@utils/eventsHelper';
+import type { FullConfigInternal } from './common';
 import type { ClientInstrumentationListener } from '../../playwright-core/src/client/clientInstrumentation';
 import type { Playwright as PlaywrightImpl } from '../../playwright-core/src/client/playwright';
 import type { Browser as BrowserImpl } from '../../playwright-core/src/client/browser';
 import type { BrowserContext as BrowserContextImpl } from '../../playwright-core/src/client/browserContext';
+import type { HarReport } from '../../playwright-core/src/client/harRouter';
 import type { APIRequestContext as APIRequestContextImpl, NewContextOptions as APIRequestContextOptions } from '../../playwright-core/src/client/fetch';
 import type { ChannelOwner } from '../../playwright-core/src/client/channelOwner';
 import type { Page as PageImpl } from '../../playwright-core/src/client/page';
@@ -225,6 +232,7 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures, UtilityTestFixt
     await use(connectOptionsFromEnv() || _optionConnectOptions);
   }, { scope: 'worker', option: true, box: true }],
   video: ['off', { scope: 'worker', option: true, box: true }],
+  recordNetwork: ['off', { scope: 'worker', option: true, box: true }],
 
   _browserOptions: [async ({ playwright, headless, channel, launchOptions }, use) => {
     const options: LaunchOptions = {
@@ -405,12 +413,13 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures, UtilityTestFixt
     playwright._defaultContextNavigationTimeout = undefined;
   }, { auto: 'all-hooks-included',  title: 'context configuration', box: true } as any],
 
-  _contextFactory: [async ({ browser, video, _reuseContext, _combinedContextOptions /** mitigate dep-via-auto lack of traceability */ }, use, testInfo) => {
+  _contextFactory: [async ({ browser, video, recordNetwork, _reuseContext, _combinedContextOptions /** mitigate dep-via-auto lack of traceability */ }, use, testInfo) => {
     const testInfoImpl = testInfo as TestInfoImpl;
     const videoMode = normalizeVideoMode(video);
     const captureVideo = shouldCaptureVideo(videoMode, testInfo) && !_reuseContext;
     const contexts = new Map<BrowserContext, { close: () => Promise<void>, pagesWithVideo: Page[] }>();
     let counter = 0;
+    let networkRecordingCounter = 0;
 
     await use(async options => {
       const hook = testInfoImpl._currentHookType();
@@ -430,6 +439,10 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures, UtilityTestFixt
         }
       } : {};
       const context = await browser.newContext({ ...videoOptions, ...options }) as BrowserContextImpl;
+      const saveNetworkRecording = await installNetworkRecording(context, recordNetwork, testInfoImpl, networkRecordingCounter++).catch(async error => {
+        await context.close();
+        throw error;
+      });
 
       let closed = false;
       const close = async () => {
@@ -438,6 +451,7 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures, UtilityTestFixt
         closed = true;
         const closeReason = testInfo.status === 'timedOut' ? 'Test timeout of ' + testInfo.timeout + 'ms exceeded.' : 'Test ended.';
         await context.close({ reason: closeReason });
+        await saveNetworkRecording?.();
         const preserveVideo = captureVideo && shouldPreserveVideo(videoMode, testInfo);
         if (preserveVideo) {
           const { pagesWithVideo: pagesForVideo } = contexts.get(context)!;
@@ -470,11 +484,11 @@ const playwrightFixtures: Fixtures<TestFixtures, WorkerFixtures, UtilityTestFixt
 
   reuseContext: [false, { scope: 'worker', option: true, box: true }],
 
-  _reuseContext: [async ({ video, _optionContextReuseMode, reuseContext }, use) => {
+  _reuseContext: [async ({ video, recordNetwork, _optionContextReuseMode, reuseContext }, use) => {
     let mode = _optionContextReuseMode;
     if (process.env.PW_TEST_REUSE_CONTEXT || reuseContext)
       mode = 'when-possible';
-    const reuse = mode === 'when-possible' && normalizeVideoMode(video) === 'off';
+    const reuse = mode === 'when-possible' && normalizeVideoMode(video) === 'off' && normalizeRecordNetworkMode(recordNetwork) === 'off';
     await use(reuse);
   }, { scope: 'worker',  title: 'context', box: true }],
 
@@ -551,6 +565,38 @@ function normalizeVideoMode(video: VideoMode | 'retry-with-video' | { mode: Vide
   return videoMode;
 }
 
+function normalizeRecordNetworkMode(recordNetwork: RecordNetworkMode | { mode: RecordNetworkMode } | undefined): RecordNetworkMode {
+  if (!recordNetwork)
+    return 'off';
+  return typeof recordNetwork === 'string' ? recordNetwork : recordNetwork.mode;
+}
+
+async function installNetworkRecording(context: BrowserContext, recordNetwork: PlaywrightWorkerOptions['recordNetwork'] | undefined, testInfo: TestInfoImpl, index: number): Promise<(() => Promise<void>) | undefined> {
+  const mode = normalizeRecordNetworkMode(recordNetwork);
+  if (mode === 'off')
+    return;
+  const url = typeof recordNetwork === 'object' ? recordNetwork.url : undefined;
+  const harPath = testInfo._networkRecordingPath(index);
+  const exists = fs.existsSync(harPath);
+  const replay = mode === 'replay' || (mode === 'auto' && exists && testInfo.config.updateSnapshots !== 'all');
+  if (replay) {
+    if (!exists)
+      throw new Error(`Network recording ${harPath} does not exist, run the test with recordNetwork set to 'record' or 'auto' to create it.`);
+    await context.routeFromHAR(harPath, { url, notFound: 'abort' });
+    return;
+  }
+
+  // Record into the test output first, so that concurrent and failed runs never leave a partial recording behind.
+  const recordingPath = testInfo.outputPath(path.basename(harPath));
+  await context.routeFromHAR(recordingPath, { url, update: true, updateContent: 'embed' });
+  return async () => {
+    if (testInfo.status !== testInfo.expectedStatus || !fs.existsSync(recordingPath))
+      return;
+    await fs.promises.mkdir(path.dirname(harPath), { recursive: true });
+    await fs.promises.copyFile(recordingPath, harPath);
+  };
+}
+
 function shouldCaptureVideo(videoMode: VideoMode, testInfo: TestInfo) {
   return videoMode === 'on'
     || videoMode === 'retain-on-failure'
@@ -725,6 +771,203 @@ class SnapshotRecorder {
   }
 }
 
+type CoverageRecorderOptions = {
+  recordImpact: boolean;
+  coverage: FullConfigInternal['coverage'];
+  configDir: string;
+};
+
+const sourceMapCache = new Map<string, Promise<coverage.SourceMap | undefined>>();
+
+class CoverageRecorder {
+  private _options: CoverageRecorderOptions;
+  private _isIncluded: (url: string) => boolean;
+  private _pages = new Set<PageImpl>();
+  private _pageListeners = new Map<BrowserContextImpl, (page: PageImpl) => void>();
+  private _impactSources = new Set<string>();
+  private _coverage: coverage.CoverageData = {};
+  private _recorded = false;
+
+  constructor(options: CoverageRecorderOptions) {
+    this._options = options;
+    const include = options.coverage?.include ? createFileMatcher(options.coverage.include) : () => true;
+    const exclude = options.coverage ? createFileMatcher(options.coverage.exclude) : () => false;
+    this._isIncluded = url => include(url) && !exclude(url);
+  }
+
+  private get _js() {
+    return this._options.recordImpact || !!this._options.coverage?.js;
+  }
+
+  private get _css() {
+    return !!this._options.coverage?.css;
+  }
+
+  async didCreateBrowserContext(context: BrowserContextImpl) {
+    // Coverage is only available in Chromium.
+    if (context.browser()?.browserType().name() !== 'chromium')
+      return;
+    if (!this._pageListeners.has(context)) {
+      const listener = (page: PageImpl) => this._startCoverage(page);
+      context.on('page', listener);
+      this._pageListeners.set(context, listener);
+    }
+    await Promise.all(context.pages().map(page => this._startCoverage(page)));
+  }
+
+  async willCloseBrowserContext(context: BrowserContextImpl) {
+    const listener = this._pageListeners.get(context);
+    if (!listener)
+      return;
+    context.off('page', listener);
+    this._pageListeners.delete(context);
+    await Promise.all(context.pages().map(page => this._stopCoverage(page)));
+  }
+
+  async didFinishTest(testInfo: TestInfoImpl) {
+    await Promise.all([...this._pageListeners.keys()].map(context => this.willCloseBrowserContext(context)));
+    if (!this._recorded)
+      return;
+    if (this._options.recordImpact)
+      testInfo.attachments.push({ name: '_impact', contentType: 'application/json', body: Buffer.from(JSON.stringify({ sources: [...this._impactSources] })) });
+    if (this._options.coverage)
+      testInfo._addCoverage(this._coverage);
+  }
+
+  private async _startCoverage(page: PageImpl) {
+    if (this._pages.has(page))
+      return;
+    this._pages.add(page);
+    this._recorded = true;
+    try {
+      await page._wrapApiCall(async () => {
+        if (this._js)
+          await page.coverage.startJSCoverage({ resetOnNavigation: false });
+        if (this._css)
+          await page.coverage.startCSSCoverage({ resetOnNavigation: false });
+      }, { internal: true });
+    } catch {
+      // Page might be closed already.
+      this._pages.delete(page);
+    }
+  }
+
+  private async _stopCoverage(page: PageImpl) {
+    if (!this._pages.delete(page))
+      return;
+    try {
+      const { jsEntries, cssEntries } = await page._wrapApiCall(async () => ({
+        jsEntries: this._js ? await page.coverage.stopJSCoverage() : [],
+        cssEntries: this._css ? await page.coverage.stopCSSCoverage() : [],
+      }), { internal: true });
+      for (const entry of jsEntries) {
+        if (!entry.url)
+          continue;
+        const data = coverage.jsCoverage(entry, await this._loadSourceMap(page, entry.url, entry.source));
+        if (this._options.recordImpact)
+          this._addImpactSources(data);
+        if (this._options.coverage?.js)
+          this._addCoverage(data);
+      }
+      if (!this._options.coverage)
+        return;
+      for (const entry of cssEntries) {
+        if (entry.url)
+          this._addCoverage(coverage.cssCoverage(entry, await this._loadSourceMap(page, entry.url, entry.text)));
+      }
+    } catch (error) {
+      debugLogger.log('error', `failed to collect coverage: ${error}`);
+    }
+  }
+
+  private _addImpactSources(data: coverage.CoverageData) {
+    for (const [url, file] of Object.entries(data)) {
+      // Only the sources that have executed, bundles contain many more.
+      if (!Object.values(file.lines).some(Boolean))
+        continue;
+      const source = sourceFilePath(url, this._options.configDir);
+      if (source)
+        this._impactSources.add(source);
+    }
+  }
+
+  private _addCoverage(data: coverage.CoverageData) {
+    for (const url of Object.keys(data)) {
+      if (!this._isIncluded(url))
+        delete data[url];
+    }
+    coverage.mergeCoverage(this._coverage, data);
+  }
+
+  private async _loadSourceMap(page: PageImpl, url: string, text: string | undefined): Promise<coverage.SourceMap | undefined> {
+    const mapURL = text ? coverage.sourceMapURL(text) : undefined;
+    if (!mapURL)
+      return undefined;
+    let resolvedURL: URL;
+    try {
+      resolvedURL = new URL(mapURL, url);
+    } catch {
+      return undefined;
+    }
+    const key = resolvedURL.protocol === 'data:' ? calculateSha1(mapURL) : resolvedURL.toString();
+    let sourceMap = sourceMapCache.get(key);
+    if (!sourceMap) {
+      sourceMap = this._fetchSourceMap(page, resolvedURL).then(text => text ? coverage.parseSourceMap(text, resolvedURL.protocol === 'data:' ? url : resolvedURL.toString()) : undefined);
+      sourceMapCache.set(key, sourceMap);
+    }
+    return await sourceMap;
+  }
+
+  private async _fetchSourceMap(page: PageImpl, url: URL): Promise<string | undefined> {
+    try {
+      if (url.protocol === 'data:') {
+        const text = url.toString();
+        const header = text.substring(0, text.indexOf(','));
+        const data = text.substring(header.length + 1);
+        return header.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      }
+      if (url.protocol === 'file:')
+        return await fs.promises.readFile(url, 'utf8');
+      return await page._wrapApiCall(async () => {
+        const response = await page.context().request.get(url.toString(), { timeout: 5000 });
+        return response.ok() ? await response.text() : undefined;
+      }, { internal: true });
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+const sourceFilePathCache = new Map<string, string | undefined>();
+
+// Resolves a script or source map source URL to the file on disk: file URLs, absolute paths
+// and paths relative to the config directory, as served by most development servers.
+function sourceFilePath(url: string, configDir: string): string | undefined {
+  const key = configDir + '\n' + url;
+  if (!sourceFilePathCache.has(key))
+    sourceFilePathCache.set(key, resolveSourceFilePath(url, configDir));
+  return sourceFilePathCache.get(key);
+}
+
+function resolveSourceFilePath(url: string, configDir: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol === 'file:')
+    return fileURLToPath(parsed);
+  const pathname = decodeURIComponent(parsed.pathname);
+  for (const candidate of [pathname, path.join(configDir, pathname)]) {
+    if (fs.statSync(candidate, { throwIfNoEntry: false })?.isFile())
+      return candidate;
+  }
+  return undefined;
+}
+
+const kPerformanceMeasurementTimeout = 1000;
+
 class ArtifactsRecorder {
   _testInfo!: TestInfoImpl;
   _playwright: PlaywrightImpl;
@@ -732,7 +975,12 @@ class ArtifactsRecorder {
   private _startedCollectingArtifacts: symbol;
 
   private _screenshotRecorder: SnapshotRecorder;
+  private _coverageRecorder: CoverageRecorder | undefined;
   private _pageSnapshot: string | undefined;
+  private _harReports: HarReport[] = [];
+  private _performanceListeners = new Map<BrowserContextImpl, RegisteredListener[]>();
+  private _performanceMeasurements = new Set<Promise<void>>();
+  private _performanceFinished = false;
 
   constructor(playwright: PlaywrightImpl, artifactsDir: string, screenshot: ScreenshotOption) {
     this._playwright = playwright;
@@ -752,6 +1000,9 @@ class ArtifactsRecorder {
     testInfo._onDidFinishTestFunctionCallbacks.add(() => this.didFinishTestFunction());
 
     this._screenshotRecorder.fixOrdinal();
+    const recordImpact = !!testInfo._configInternal.configCLIOverrides.recordImpact;
+    if (recordImpact || testInfo._configInternal.coverage)
+      this._coverageRecorder = new CoverageRecorder({ recordImpact, coverage: testInfo._configInternal.coverage, configDir: testInfo._configInternal.configDir });
 
     // Process existing contexts.
     await Promise.all(this._playwright._allContexts().map(context => this.didCreateBrowserContext(context)));
@@ -760,12 +1011,61 @@ class ArtifactsRecorder {
   }
 
   async didCreateBrowserContext(context: BrowserContextImpl) {
+    context._collectHarReports();
     await this._startTraceChunkOnContextCreation(context, context.tracing);
     await this._startTraceChunkOnContextCreation(context.request, context.request.tracing);
+    await this._coverageRecorder?.didCreateBrowserContext(context);
+    if (!this._performanceListeners.has(context)) {
+      const listeners: RegisteredListener[] = [];
+      this._performanceListeners.set(context, listeners);
+      listeners.push(eventsHelper.addEventListener(context, 'page', page => this._measurePerformanceOnLoad(listeners, page)));
+      for (const page of context.pages())
+        this._measurePerformanceOnLoad(listeners, page);
+    }
+  }
+
+  private _measurePerformanceOnLoad(listeners: RegisteredListener[], page: PageImpl) {
+    listeners.push(eventsHelper.addEventListener(page, 'load', () => {
+      // Blank pages have nothing to measure.
+      if (page.url().startsWith('about:'))
+        return;
+      const measurement = measurePerformance(page).then(({ navigationId, metrics }) => {
+        if (!this._performanceFinished)
+          this._testInfo._recordPerformance(navigationId, metrics);
+      }).catch(() => {
+        // Page might navigate away or close before the measurement completes.
+      });
+      this._performanceMeasurements.add(measurement);
+      void measurement.then(() => this._performanceMeasurements.delete(measurement));
+    }));
+  }
+
+  private _stopMeasuringPerformance(context: BrowserContextImpl) {
+    const listeners = this._performanceListeners.get(context);
+    if (!listeners)
+      return;
+    eventsHelper.removeEventListeners(listeners);
+    this._performanceListeners.delete(context);
+  }
+
+  private async _finishPerformanceMeasurements() {
+    for (const context of [...this._performanceListeners.keys()])
+      this._stopMeasuringPerformance(context);
+    // Pages that hang must not stall the teardown, so pending measurements are dropped after a short while.
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(this._performanceMeasurements),
+      new Promise(f => timer = setTimeout(f, kPerformanceMeasurementTimeout)),
+    ]);
+    clearTimeout(timer);
+    this._performanceFinished = true;
   }
 
   async willCloseBrowserContext(context: BrowserContextImpl) {
+    this._stopMeasuringPerformance(context);
+    this._harReports.push(...context._takeHarReports());
     await this._stopTracing(context, context.tracing);
+    await this._coverageRecorder?.willCloseBrowserContext(context);
     await this._screenshotRecorder.captureTemporary(context);
     await this._takePageSnapshot(context);
   }
@@ -813,6 +1113,7 @@ class ArtifactsRecorder {
 
     // Collect traces/screenshots for remaining contexts.
     await Promise.all(leftoverContexts.map(async context => {
+      this._harReports.push(...context._takeHarReports());
       await this._stopTracing(context.request, context.request.tracing);
       await this._stopTracing(context, context.tracing);
     }).concat(leftoverApiRequests.map(async context => {
@@ -820,6 +1121,11 @@ class ArtifactsRecorder {
     })));
 
     await this._screenshotRecorder.persistTemporary();
+    await this._coverageRecorder?.didFinishTest(this._testInfo);
+    await this._finishPerformanceMeasurements();
+    if (this._testInfo.performance.length)
+      this._testInfo.attachments.push({ name: '_performance', contentType: 'application/json', body: Buffer.from(JSON.stringify(this._testInfo.performance)) });
+    this._attachHarReport();
 
     const context = leftoverContexts[0];
     if (context)
@@ -845,6 +1151,18 @@ class ArtifactsRecorder {
     }
   }
 
+  private _attachHarReport() {
+    const reports = this._harReports;
+    this._harReports = [];
+    if (!reports.length)
+      return;
+    this._testInfo._attach({
+      name: 'har-report',
+      contentType: 'application/json',
+      body: Buffer.from(JSON.stringify(reports, undefined, 2)),
+    }, undefined);
+  }
+
   private async _startTraceChunkOnContextCreation(channelOwner: ChannelOwner, tracing: Tracing) {
     await channelOwner._wrapApiCall(async () => {
       const options = this._testInfo._tracing.traceOptions();
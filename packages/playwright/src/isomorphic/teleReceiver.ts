@@ -17,6 +17,7 @@
 import type { Metadata, TestAnnotation } from '../../types/test';
 import type * as reporterTypes from '../../types/testReporter';
 import type { ReporterV2 } from '../reporters/reporterV2';
+import type { CoverageData } from '../common/coverage';
 
 export type StringIntern = (s: string) => string;
 export type JsonLocation = reporterTypes.Location;
@@ -134,7 +135,7 @@ export type JsonFullResult = {
 };
 
 export type JsonEvent = JsonOnConfigureEvent | JsonOnBlobReportMetadataEvent | JsonOnEndEvent | JsonOnExitEvent | JsonOnProjectEvent | JsonOnBeginEvent | JsonOnTestBeginEvent
-  | JsonOnTestEndEvent | JsonOnStepBeginEvent | JsonOnStepEndEvent | JsonOnAttachEvent | JsonOnErrorEvent | JsonOnTestPausedEvent | JsonOnStdIOEvent;
+  | JsonOnTestEndEvent | JsonOnStepBeginEvent | JsonOnStepEndEvent | JsonOnAttachEvent | JsonOnErrorEvent | JsonOnTestPausedEvent | JsonOnStdIOEvent | JsonOnCoverageEvent;
 
 export type JsonOnConfigureEvent = {
   method: 'onConfigure';
@@ -209,6 +210,13 @@ export type JsonOnAttachEvent = {
   params: JsonTestResultOnAttach;
 };
 
+export type JsonOnCoverageEvent = {
+  method: 'onCoverage';
+  params: {
+    coverage: CoverageData;
+  };
+};
+
 export type JsonOnErrorEvent = {
   method: 'onError';
   params: {
@@ -314,6 +322,10 @@ export class TeleReporterReceiver {
       this._onStepEnd(params.testId, params.resultId, params.step);
       return;
     }
+    if (method === 'onCoverage') {
+      this._reporter.onCoverage?.(params.coverage);
+      return;
+    }
     if (method === 'onError') {
       this._onError(params.error, params.workerInfo);
       return;
@@ -851,7 +863,7 @@ export function parseRegexPatterns(patterns: JsonPattern[]): (string | RegExp)[]
   });
 }
 
-export function computeTestCaseOutcome(test: reporterTypes.TestCase) {
+export function computeTestCaseOutcome(test: Pick<reporterTypes.TestCase, 'expectedStatus'> & { results: Pick<reporterTypes.TestResult, 'status'>[] }) {
   let skipped = 0;
   let didNotRun = 0;
   let expected = 0;
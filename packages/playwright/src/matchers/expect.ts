@@ -69,15 +69,21 @@ import {
   toHaveCSS,
   toHaveClass,
   toHaveCount,
+  toHaveHeader,
   toHaveId,
   toHaveJSProperty,
   toHaveRole,
+  toHaveStatus,
   toHaveText,
   toHaveTitle,
   toHaveURL,
   toHaveValue,
   toHaveValues,
-  toPass
+  toMatchJson,
+  toMatchJsonSchema,
+  toMeetPerformanceBudget,
+  toPass,
+  toPassAccessibilityAudit
 } from './matchers';
 import { toMatchAriaSnapshot } from './toMatchAriaSnapshot';
 import { toHaveScreenshot, toMatchSnapshot } from './toMatchSnapshot';
@@ -85,8 +91,10 @@ import { toHaveScreenshot, toMatchSnapshot } from './toMatchSnapshot';
 import type { MatcherContext, MatchersObject, RawMatcherFn } from './expectLibrary';
 import type { MatcherAttachment, MatcherResult } from './matcherHint';
 import type { ExpectMatcherStateInternal } from './matchers';
-import type { Expect } from '../../types/test';
+import type { Expect, TestInfo } from '../../types/test';
 import type { StackFrame } from '@utils/stackTrace';
+import type { CustomComparator } from '@utils/comparators';
+import type { SnapshotStorage } from '@utils/snapshotStore';
 
 interface ExpectStep {
   complete(result: {
@@ -100,15 +108,17 @@ interface ExpectStep {
 
 export interface ExpectTestInfo {
   _addStep(data: {
-    category: 'expect';
-    apiName: string;
+    category: 'expect' | 'test.step';
+    apiName?: string;
     title: string;
-    shortTitle: string;
+    shortTitle?: string;
     params?: Record<string, any>;
+    soft?: boolean;
   }): ExpectStep;
   _deadline(): { deadline: number; timeout: number };
   _resolveSnapshotPaths(kind: 'snapshot' | 'screenshot' | 'aria', name: string | string[] | undefined, updateSnapshotIndex: 'updateSnapshotIndex' | 'dontUpdateSnapshotIndex', anonymousExtension?: string): { absoluteSnapshotPath: string; relativeOutputPath: string };
   _getOutputPath(...pathSegments: string[]): string;
+  _recordPerformance(navigationId: string, metrics: TestInfo['performance'][number]): void;
 }
 
 export type ExpectConfig = {
@@ -117,7 +127,10 @@ export type ExpectConfig = {
   ignoreSnapshots: boolean;
   updateSnapshots: 'all' | 'changed' | 'missing' | 'none';
   timeout?: number;
+  comparators?: Map<string, CustomComparator>;
+  snapshotStorage?: SnapshotStorage;
   toHaveScreenshot?: {
+    comparator?: string;
     threshold?: number;
     maxDiffPixels?: number;
     maxDiffPixelRatio?: number;
@@ -130,6 +143,7 @@ export type ExpectConfig = {
     _comparator?: string;
   };
   toMatchSnapshot?: {
+    comparator?: string;
     threshold?: number;
     maxDiffPixels?: number;
     maxDiffPixelRatio?: number;
@@ -155,6 +169,15 @@ export function expectConfig(): ExpectConfig {
   return _expectConfig;
 }
 
+type SoftStep = <T>(title: string, body: () => T | Promise<T>) => Promise<T | undefined>;
+
+// expect.group() is an alias of test.step.soft(), which is implemented by the test type.
+let _softStep: SoftStep | undefined;
+
+export function setSoftStep(softStep: SoftStep) {
+  _softStep = softStep;
+}
+
 type ExpectMessage = string | { message?: string };
 
 type ExpectMetaInfo = {
@@ -198,9 +221,11 @@ const customAsyncMatchers = {
   toHaveClass,
   toHaveCount,
   toHaveCSS,
+  toHaveHeader,
   toHaveId,
   toHaveJSProperty,
   toHaveRole,
+  toHaveStatus,
   toHaveText,
   toHaveTitle,
   toHaveURL,
@@ -208,7 +233,11 @@ const customAsyncMatchers = {
   toHaveValues,
   toHaveScreenshot,
   toMatchAriaSnapshot,
+  toMatchJson,
+  toMatchJsonSchema,
+  toMeetPerformanceBudget,
   toPass,
+  toPassAccessibilityAudit,
 };
 
 const allBuiltinMatchers: MatchersObject = {
@@ -277,6 +306,12 @@ function createExpect(info: ExpectMetaInfo): Expect<{}> {
     return createMatchers(actual, { ...info, poll: { timeout: poll.timeout, intervals: poll.intervals } }, messageOrOptions);
   };
 
+  expectFn.group = async <T>(title: string, body: () => T | Promise<T>): Promise<T | undefined> => {
+    if (!expectConfig().testInfo || !_softStep)
+      throw new Error(`expect.group() can only be called from a test`);
+    return await _softStep(title, body);
+  };
+
   expectFn.extend = (matchers: MatchersObject) => {
     for (const [name, m] of Object.entries(matchers)) {
       if (typeof m !== 'function')
@@ -473,3 +508,6 @@ export function mergeExpects(...expects: any[]) {
   }
   return merged;
 }
+
+// Used by the artifacts recorder to measure every navigation, index.ts is built outside of this bundle.
+export { measurePerformance } from './performance';
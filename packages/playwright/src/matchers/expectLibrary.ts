@@ -17,6 +17,7 @@
 // - MatcherState has no expand, currentTestName, assertionCalls, etc.
 // - Extracted explicit buildCustomAsymmetricMatcher, createExpectedPromiseMessage,
 //   createExpectedToResolveMessage, createExpectedToRejectMessage from internals.
+// - Added matchSubset for toMatchJson.
 
 import {
   arrayBufferEquality,
@@ -164,6 +165,12 @@ export const utils = Object.freeze({
   subsetEquality,
 });
 
+// Same comparison as toMatchObject, returns the part of received that is relevant for the diff.
+export function matchSubset(received: unknown, expected: unknown): { pass: boolean, receivedSubset: unknown } {
+  const pass = equals(received, expected, [iterableEquality, subsetEquality]);
+  return { pass, receivedSubset: pass ? received : getObjectSubset(received, expected) };
+}
+
 function hasProperty(obj: object | null, property: string | symbol): boolean {
   if (!obj)
     return false;
@@ -16,6 +16,7 @@
 
 import colors from 'colors/safe';
 import { asLocatorDescription } from '@isomorphic/locatorGenerators';
+import { validate } from '@isomorphic/jsonSchema';
 import { isTextualMimeType } from '@isomorphic/mimeType';
 import { isRegExp } from '@isomorphic/rtti';
 import { isString } from '@isomorphic/stringUtils';
@@ -23,9 +24,11 @@ import { pollAgainstDeadline } from '@isomorphic/timeoutRunner';
 import { constructURLBasedOnBaseURL, isURLPattern } from '@isomorphic/urlMatch';
 import { monotonicTime } from '@isomorphic/index';
 
+import { matchSubset } from './expectLibrary';
 import { expectTypes, formatMatcherMessage, MatcherResult } from './matcherHint';
 import { toBeTruthy } from './toBeTruthy';
 import { toEqual } from './toEqual';
+import { measurePerformance } from './performance';
 import { toHaveURLWithPredicate } from './toHaveURL';
 import { toMatchText } from './toMatchText';
 import { toHaveScreenshotStepTitle } from './toMatchSnapshot';
@@ -34,10 +37,12 @@ import { expectConfig } from './expect';
 import type { ExpectMatcherState } from '../../types/test';
 import type { ExpectTestInfo } from './expect';
 import type { InternalMatcherUtils } from './matcherHint';
+import type { PerformanceMetrics } from './performance';
 import type { APIResponse, Locator, Frame, Page } from 'playwright-core';
 import type { ExpectResult } from 'playwright-core/lib/client/frame';
 import type { FrameExpectParams } from 'playwright-core/lib/client/types';
 import type { ExpectMatcherUtils } from '../../types/test';
+import type { JsonSchema } from '@isomorphic/jsonSchema';
 import type { URLPattern } from '@isomorphic/urlMatch';
 
 export type ExpectMatcherStateInternal = Omit<ExpectMatcherState, 'utils'> & {
@@ -465,16 +470,113 @@ export function toHaveURL(
   }, expected, options);
 }
 
-export async function toBeOK(
+export async function toPassAccessibilityAudit(
   this: ExpectMatcherStateInternal,
-  response: APIResponseEx
+  page: Page,
+  options: { rules?: string[], exclude?: Locator[], timeout?: number, signal?: AbortSignal } = {},
 ) {
-  const matcherName = 'toBeOK';
-  expectTypes(response, ['APIResponse'], matcherName);
+  const matcherName = 'toPassAccessibilityAudit';
+  expectTypes(page, ['Page'], matcherName);
+
+  const timeout = options.timeout ?? this.timeout;
+  const expectedValue = {
+    rules: options.rules,
+    exclude: (options.exclude ?? []).map(locator => (locator as LocatorEx)._selector),
+  };
+  const { matches: pass, received, log, timedOut, errorMessage } = await (page.mainFrame() as FrameEx)._expect('to.pass.accessibility.audit', { expectedValue, isNot: !!this.isNot, timeout, signal: options.signal });
+  const violations: { rule: string, message: string, locator: string }[] = received?.value ?? [];
+
+  const printedViolations = violations.map(violation => `  - [${violation.rule}] ${violation.message}: ${violation.locator}`).join('\n');
+  const message = () => formatMatcherMessage(this.utils, {
+    isNot: this.isNot,
+    promise: this.promise,
+    matcherName,
+    expectation: 'options',
+    timeout,
+    timedOut,
+    printedExpected: `Expected: ${this.isNot ? 'some' : 'no'} accessibility violations`,
+    printedReceived: errorMessage ? '' : `Received: ${violations.length} violation${violations.length === 1 ? '' : 's'}${violations.length ? '\n' + printedViolations : ''}`,
+    errorMessage,
+    log,
+  });
+  return {
+    name: matcherName,
+    message,
+    pass,
+    expected: expectedValue,
+    actual: violations,
+    log,
+    timeout: timedOut ? timeout : undefined,
+  };
+}
+
+type APIResponseReceiver = APIResponseEx | (() => Promise<APIResponseEx>);
+
+type APIResponseCheckResult = {
+  pass: boolean;
+  expectation: string;
+  expected?: unknown;
+  actual?: unknown;
+  printedExpected?: string;
+  printedReceived?: string;
+  printedDiff?: string;
+  errorMessage?: string;
+  printResponseText?: boolean;
+};
+
+async function checkAPIResponse(
+  this: ExpectMatcherStateInternal,
+  matcherName: string,
+  receiver: APIResponseReceiver,
+  options: { timeout?: number },
+  check: (response: APIResponseEx) => Promise<APIResponseCheckResult>,
+): Promise<MatcherResult<any, any>> {
+  let response: APIResponseEx | undefined;
+  let result: APIResponseCheckResult | undefined;
+  let timedOut = false;
+  const timeout = options.timeout ?? this.timeout;
+  let timeoutMessage = '';
+
+  if (typeof receiver === 'function') {
+    // Request factory: send the request again until the check passes.
+    const deadlineInfo = deadlineForMatcher(expectConfig().testInfo, timeout);
+    timeoutMessage = deadlineInfo.timeoutMessage;
+    ({ timedOut } = await pollAgainstDeadline(async () => {
+      const received = await receiver();
+      expectTypes(received, ['APIResponse'], matcherName);
+      response = received;
+      result = await check(received);
+      return { continuePolling: result.pass === this.isNot, result: undefined };
+    }, deadlineInfo.deadline));
+  } else {
+    expectTypes(receiver, ['APIResponse'], matcherName);
+    response = receiver;
+    result = await check(receiver);
+  }
+
+  if (!response || !result) {
+    // The very first request did not finish in time.
+    return {
+      name: matcherName,
+      pass: !!this.isNot,
+      message: () => formatMatcherMessage(this.utils, {
+        isNot: this.isNot,
+        promise: this.promise,
+        matcherName,
+        receiver: 'response',
+        expectation: '',
+        timeout,
+        timedOut,
+        errorMessage: timeoutMessage,
+      }),
+      timeout,
+    };
+  }
 
+  const { pass, expectation, printedExpected, printedReceived, printedDiff, errorMessage, printResponseText } = result;
   const contentType = response.headers()['content-type'];
-  const isTextEncoding = contentType && isTextualMimeType(contentType);
-  const [log, text] = (this.isNot === response.ok()) ? await Promise.all([
+  const isTextEncoding = printResponseText && contentType && isTextualMimeType(contentType);
+  const [log, text] = (pass === this.isNot) ? await Promise.all([
     response._fetchLog(),
     isTextEncoding ? response.text() : null
   ]) : [];
@@ -484,12 +586,196 @@ export async function toBeOK(
     promise: this.promise,
     matcherName,
     receiver: 'response',
-    expectation: '',
+    expectation,
+    timeout,
+    timedOut,
+    printedExpected,
+    printedReceived,
+    printedDiff,
+    errorMessage,
     log,
-  }) + (text === null ? '' : `\nResponse text:\n${colors.dim(text?.substring(0, 1000) || '')}`);
+  }) + (text === null || text === undefined ? '' : `\nResponse text:\n${colors.dim(text.substring(0, 1000))}`);
+
+  return {
+    name: matcherName,
+    message,
+    pass,
+    expected: result.expected,
+    actual: result.actual,
+    log,
+    timeout: timedOut ? timeout : undefined,
+  };
+}
+
+async function readResponseJson(response: APIResponseEx): Promise<{ json?: unknown, errorMessage?: string }> {
+  try {
+    return { json: await response.json() };
+  } catch (e) {
+    return { errorMessage: `Response body is not valid JSON: ${e.message}` };
+  }
+}
+
+export async function toBeOK(
+  this: ExpectMatcherStateInternal,
+  response: APIResponseReceiver,
+  options: { timeout?: number } = {},
+) {
+  return await checkAPIResponse.call(this, 'toBeOK', response, options, async response => ({
+    pass: response.ok(),
+    expectation: '',
+    printResponseText: true,
+  }));
+}
+
+export async function toHaveStatus(
+  this: ExpectMatcherStateInternal,
+  response: APIResponseReceiver,
+  expected: number | { min: number, max: number },
+  options: { timeout?: number } = {},
+) {
+  const matcherName = 'toHaveStatus';
+  const isRange = typeof expected === 'object' && expected !== null;
+  if (isRange ? typeof expected.min !== 'number' || typeof expected.max !== 'number' : typeof expected !== 'number')
+    throw new Error(`${matcherName} expects a status code or a { min, max } range, was called with ${this.utils.printReceived(expected)}`);
+  const printedRange = isRange ? this.utils.EXPECTED_COLOR(`${expected.min}..${expected.max}`) : this.utils.printExpected(expected);
+
+  return await checkAPIResponse.call(this, matcherName, response, options, async response => {
+    const status = response.status();
+    return {
+      pass: isRange ? status >= expected.min && status <= expected.max : status === expected,
+      expectation: 'expected',
+      expected,
+      actual: status,
+      printedExpected: `Expected: ${this.isNot ? 'not ' : ''}${printedRange}`,
+      printedReceived: `Received: ${this.utils.printReceived(status)} ${response.statusText()}`,
+      printResponseText: true,
+    };
+  });
+}
+
+export async function toHaveHeader(
+  this: ExpectMatcherStateInternal,
+  response: APIResponseReceiver,
+  name: string,
+  expected: string | RegExp | undefined | { timeout?: number },
+  options?: { timeout?: number },
+) {
+  if (!options) {
+    // Update params for the case toHaveHeader(name, options);
+    if (typeof expected === 'object' && !isRegExp(expected)) {
+      options = expected;
+      expected = undefined;
+    }
+  }
+  const expectedValue = expected as string | RegExp | undefined;
+
+  return await checkAPIResponse.call(this, 'toHaveHeader', response, options ?? {}, async response => {
+    const value: string | undefined = response.headers()[name.toLowerCase()];
+    let pass = value !== undefined;
+    if (pass && expectedValue !== undefined)
+      pass = isString(expectedValue) ? value === expectedValue : new RegExp(expectedValue).test(value!);
+    return {
+      pass,
+      expectation: expectedValue === undefined ? 'name' : 'name, expected',
+      expected: expectedValue,
+      actual: value,
+      printedExpected: `Expected: ${this.isNot ? 'not ' : ''}header ${this.utils.printExpected(name)}` + (expectedValue === undefined ? '' : ` with value ${this.utils.printExpected(expectedValue)}`),
+      printedReceived: value === undefined ? `Received: no ${this.utils.printReceived(name)} header` : `Received: ${this.utils.printReceived(value)}`,
+    };
+  });
+}
+
+export async function toMatchJson(
+  this: ExpectMatcherStateInternal,
+  response: APIResponseReceiver,
+  expected: unknown,
+  options: { timeout?: number } = {},
+) {
+  return await checkAPIResponse.call(this, 'toMatchJson', response, options, async response => {
+    const { json, errorMessage } = await readResponseJson(response);
+    if (errorMessage)
+      return { pass: false, expectation: 'expected', expected, errorMessage };
+    const { pass, receivedSubset } = matchSubset(json, expected);
+    return {
+      pass,
+      expectation: 'expected',
+      expected,
+      actual: json,
+      printedExpected: pass ? `Expected: not ${this.utils.printExpected(expected)}` : undefined,
+      printedReceived: pass ? `Received: ${this.utils.printReceived(json)}` : undefined,
+      printedDiff: pass ? undefined : this.utils.printDiffOrStringify(expected, receivedSubset, 'Expected', 'Received', false),
+    };
+  });
+}
+
+export async function toMatchJsonSchema(
+  this: ExpectMatcherStateInternal,
+  response: APIResponseReceiver,
+  schema: JsonSchema,
+  options: { timeout?: number } = {},
+) {
+  return await checkAPIResponse.call(this, 'toMatchJsonSchema', response, options, async response => {
+    const { json, errorMessage } = await readResponseJson(response);
+    if (errorMessage)
+      return { pass: false, expectation: 'schema', expected: schema, errorMessage };
+    const errors = validate(json, schema, '$');
+    const printedErrors = errors.map(error => `  - ${error}`).join('\n');
+    return {
+      pass: !errors.length,
+      expectation: 'schema',
+      expected: schema,
+      actual: json,
+      printedExpected: `Expected: ${this.isNot ? 'not ' : ''}to match the schema`,
+      printedReceived: errors.length ? `Received: ${errors.length} violation${errors.length === 1 ? '' : 's'}\n${printedErrors}` : `Received: ${this.utils.printReceived(json)}`,
+    };
+  });
+}
+
+type PerformanceBudget = Omit<PerformanceMetrics, 'url'>;
+
+const performanceMetricUnits: Record<keyof PerformanceBudget, string> = {
+  LCP: 'ms',
+  CLS: '',
+  TBT: 'ms',
+  transferSize: ' bytes',
+};
+
+export async function toMeetPerformanceBudget(
+  this: ExpectMatcherStateInternal,
+  page: Page,
+  budget: PerformanceBudget,
+) {
+  const matcherName = 'toMeetPerformanceBudget';
+  expectTypes(page, ['Page'], matcherName);
+
+  const { navigationId, metrics } = await measurePerformance(page);
+  expectConfig().testInfo?._recordPerformance(navigationId, metrics);
+
+  const expected: string[] = [];
+  const received: string[] = [];
+  let pass = true;
+  for (const [name, unit] of Object.entries(performanceMetricUnits) as [keyof PerformanceBudget, string][]) {
+    const limit = budget[name];
+    if (limit === undefined)
+      continue;
+    const value = metrics[name];
+    // Metrics that the browser does not report cannot meet the budget.
+    if (value === undefined || value > limit)
+      pass = false;
+    expected.push(`${name} <= ${limit}${unit}`);
+    received.push(value === undefined ? `${name} not available` : `${name} ${value}${unit}`);
+  }
 
-  const pass = response.ok();
-  return { message, pass };
+  const message = () => formatMatcherMessage(this.utils, {
+    isNot: this.isNot,
+    promise: this.promise,
+    matcherName,
+    receiver: 'page',
+    expectation: 'budget',
+    printedExpected: `Expected: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected.join(', '))}`,
+    printedReceived: `Received: ${this.utils.printReceived(received.join(', '))}`,
+  });
+  return { name: matcherName, message, pass, expected: budget, actual: metrics };
 }
 
 export async function toPass(
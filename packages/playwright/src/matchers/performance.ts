@@ -0,0 +1,84 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { TestInfo } from '../../types/test';
+import type { Page } from 'playwright-core';
+import type { Page as PageEx } from 'playwright-core/lib/client/page';
+
+export type PerformanceMetrics = TestInfo['performance'][number];
+
+export type PerformanceMeasurement = {
+  // Identifies the document, so that repeated measurements update the same navigation.
+  navigationId: string;
+  metrics: PerformanceMetrics;
+};
+
+export async function measurePerformance(page: Page): Promise<PerformanceMeasurement> {
+  // Internal call, so that the measurement is not reported as a separate step.
+  return await (page as PageEx)._wrapApiCall(() => page.evaluate(collectPerformanceMetrics), { internal: true });
+}
+
+function collectPerformanceMetrics(): PerformanceMeasurement {
+  // Entry types that are missing from the DOM typings.
+  type LayoutShift = PerformanceEntry & { value: number, hadRecentInput: boolean };
+
+  const entries = <T extends PerformanceEntry>(type: string): T[] | undefined => {
+    if (!PerformanceObserver.supportedEntryTypes.includes(type))
+      return undefined;
+    // Buffered entries are available synchronously through takeRecords().
+    const observer = new PerformanceObserver(() => {});
+    observer.observe({ type, buffered: true });
+    const records = observer.takeRecords();
+    observer.disconnect();
+    return records as T[];
+  };
+
+  const largestPaints = entries<LargestContentfulPaint>('largest-contentful-paint');
+  const LCP = largestPaints?.length ? Math.round(largestPaints[largestPaints.length - 1].startTime) : undefined;
+
+  // The largest burst of layout shifts, with less than 1s between shifts and at most 5s in total.
+  const layoutShifts = entries<LayoutShift>('layout-shift')?.filter(entry => !entry.hadRecentInput);
+  let CLS: number | undefined;
+  if (layoutShifts) {
+    CLS = 0;
+    let sessionValue = 0;
+    let sessionStart = 0;
+    let lastShift = 0;
+    for (const entry of layoutShifts) {
+      if (!sessionValue || entry.startTime - lastShift >= 1000 || entry.startTime - sessionStart >= 5000) {
+        sessionValue = 0;
+        sessionStart = entry.startTime;
+      }
+      sessionValue += entry.value;
+      lastShift = entry.startTime;
+      CLS = Math.max(CLS, sessionValue);
+    }
+    CLS = Math.round(CLS * 1000) / 1000;
+  }
+
+  // Blocking part of the long tasks that started after the first contentful paint.
+  const longTasks = entries<PerformanceEntry>('longtask');
+  const firstContentfulPaint = performance.getEntriesByName('first-contentful-paint')[0]?.startTime ?? 0;
+  const TBT = longTasks ? Math.round(longTasks.filter(task => task.startTime >= firstContentfulPaint).reduce((total, task) => total + Math.max(0, task.duration - 50), 0)) : undefined;
+
+  const resources = [...performance.getEntriesByType('navigation'), ...performance.getEntriesByType('resource')] as PerformanceResourceTiming[];
+  const transferSize = resources.reduce((total, entry) => total + (entry.transferSize || 0), 0);
+
+  return {
+    navigationId: `${performance.timeOrigin}:${location.href}`,
+    metrics: { url: location.href, LCP, CLS, TBT, transferSize },
+  };
+}
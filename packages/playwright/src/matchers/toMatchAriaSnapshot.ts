@@ -24,9 +24,10 @@ import { existsAsync } from '@utils/fileUtils';
 import { expectTypes, formatMatcherMessage, printReceivedStringContainExpectedSubstring } from './matcherHint';
 import { expectConfig } from './expect';
 
-import type { MatcherResult } from './matcherHint';
+import type { MatcherAttachment, MatcherResult } from './matcherHint';
 import type { ExpectMatcherStateInternal, FrameEx, LocatorEx } from './matchers';
 import type { MatcherReceived } from '@injected/ariaSnapshot';
+import type { AriaDiffNode } from '@injected/ariaSnapshotDiff';
 import type { Page } from 'playwright-core';
 
 
@@ -109,6 +110,9 @@ export async function toMatchAriaSnapshot(
       printedReceived = `Received: ${receivedString}`;
     } else {
       printedDiff = this.utils.printDiffOrStringify(expected, typedReceived.raw, 'Expected', 'Received', false);
+      const changes = formatAriaDiff(this.utils, typedReceived.diff || []);
+      if (changes.length)
+        printedDiff += '\n\nChanges:\n' + changes.join('\n');
     }
     return formatMatcherMessage(this.utils, {
       isNot: this.isNot,
@@ -144,7 +148,7 @@ export async function toMatchAriaSnapshot(
         console.log(message);
         return { pass: true, message: () => '', name: 'toMatchAriaSnapshot' };
       } else {
-        const suggestedRebaseline = `\`\n${escapeTemplateString(indent(typedReceived.regex, '{indent}  '))}\n{indent}\``;
+        const suggestedRebaseline = formatSuggestedRebaseline(typedReceived.regex);
         if (isMissingBaseline) {
           const message = 'A snapshot is not provided, generating new baseline.';
           return { pass: true, message: () => '', name: 'toMatchAriaSnapshot', suggestedRebaseline, softError: new Error(message), shouldNotRetryTest: true };
@@ -154,6 +158,18 @@ export async function toMatchAriaSnapshot(
     }
   }
 
+  // Structured diff for the HTML report.
+  const attachments: MatcherAttachment[] = [];
+  if (pass === this.isNot && typedReceived?.diff?.length) {
+    const body = JSON.stringify({ expected, received: typedReceived.raw, diff: typedReceived.diff });
+    attachments.push({ name: '_ariaSnapshotDiff', contentType: 'application/json', body: Buffer.from(body) });
+  }
+  // Lets the HTML report accept the received snapshot as the new baseline.
+  if (!this.isNot && !pass && typedReceived) {
+    const rebaseline = expectedPath ? { name: path.basename(expectedPath), snapshotPath: expectedPath, content: typedReceived.regex } : { code: formatSuggestedRebaseline(typedReceived.regex) };
+    attachments.push({ name: '_snapshotRebaseline', contentType: 'application/json', body: Buffer.from(JSON.stringify(rebaseline)) });
+  }
+
   return {
     name: matcherName,
     expected,
@@ -162,9 +178,35 @@ export async function toMatchAriaSnapshot(
     actual: typedReceived?.raw,
     log,
     timeout: timedOut ? timeout : undefined,
+    attachments,
   };
 }
 
+function formatAriaDiff(utils: ExpectMatcherStateInternal['utils'], nodes: AriaDiffNode[], path: string[] = []): string[] {
+  const lines: string[] = [];
+  for (const node of nodes) {
+    const nodePath = [...path, (node.received ?? node.expected)!];
+    const location = nodePath.join(' > ');
+    if (node.status === 'removed')
+      lines.push(utils.EXPECTED_COLOR(`  - ${location}`) + ' removed');
+    else if (node.status === 'added')
+      lines.push(utils.RECEIVED_COLOR(`  + ${location}`) + ' added');
+    else if (node.status === 'moved')
+      lines.push(`  ~ ${location} moved`);
+    for (const change of node.changes || []) {
+      // Text nodes are labeled with their text, which is already in the change.
+      const changeLocation = change.attribute === 'text' ? [...path, 'text'].join(' > ') : location + ' ' + change.attribute;
+      lines.push(`  ~ ${changeLocation}: ${utils.EXPECTED_COLOR(change.expected)} → ${utils.RECEIVED_COLOR(change.received)}`);
+    }
+    lines.push(...formatAriaDiff(utils, node.children || [], nodePath));
+  }
+  return lines;
+}
+
+function formatSuggestedRebaseline(regex: string): string {
+  return `\`\n${escapeTemplateString(indent(regex, '{indent}  '))}\n{indent}\``;
+}
+
 function unshift(snapshot: string): string {
   const lines = snapshot.split('\n');
   let whitespacePrefixLength = 100;
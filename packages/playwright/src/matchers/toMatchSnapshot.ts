@@ -32,9 +32,23 @@ import type { ExpectTestInfo } from './expect';
 import type { Locator, Page } from 'playwright-core';
 import type { ExpectScreenshotOptions, Page as PageEx } from 'playwright-core/lib/client/page';
 import type { Comparator, ImageComparatorOptions } from '@utils/comparators';
+import type { SnapshotStorage } from '@utils/snapshotStore';
 
 type NameOrSegments = string | string[];
 
+type ScreenshotMatrixCell = {
+  viewport?: string;
+  colorScheme?: string;
+  snapshot: string;
+  status: 'passed' | 'failed' | 'missing';
+};
+
+type ScreenshotMatrix = {
+  viewports?: string[];
+  colorSchemes?: string[];
+  cells: ScreenshotMatrixCell[];
+};
+
 type ToHaveScreenshotConfigOptions = ImageComparatorOptions & {
   animations?: 'allow' | 'disabled';
   caret?: 'hide' | 'initial';
@@ -55,9 +69,27 @@ type ToHaveScreenshotOptions = ToHaveScreenshotConfigOptions & {
   mask?: Array<Locator>;
   maskColor?: string;
   omitBackground?: boolean;
+  regions?: Array<{
+    locator?: Locator;
+    rect?: { x: number, y: number, width: number, height: number };
+    threshold?: number;
+    maxDiffPixels?: number;
+    maxDiffPixelRatio?: number;
+    ignore?: boolean;
+  }>;
   signal?: AbortSignal;
+  stable?: {
+    networkIdle?: number;
+    fonts?: boolean;
+    images?: boolean;
+    predicate?: string | Function;
+  };
+  viewports?: Array<{ width: number, height: number }>;
+  colorSchemes?: Array<ScreenshotColorScheme>;
 };
 
+type ScreenshotColorScheme = 'light' | 'dark' | 'no-preference';
+
 // Keep in sync with above (begin).
 const NonConfigProperties: (keyof ToHaveScreenshotOptions)[] = [
   'clip',
@@ -65,7 +97,11 @@ const NonConfigProperties: (keyof ToHaveScreenshotOptions)[] = [
   'mask',
   'maskColor',
   'omitBackground',
+  'regions',
   'signal',
+  'stable',
+  'viewports',
+  'colorSchemes',
 ];
 // Keep in sync with above (end).
 
@@ -76,12 +112,15 @@ class SnapshotHelper {
   readonly legacyExpectedPath: string;
   readonly previousPath: string;
   readonly expectedPath: string;
+  readonly expectedAttachmentPath: string;
   readonly actualPath: string;
   readonly diffPath: string;
   readonly mimeType: string;
   readonly kind: 'Screenshot'|'Snapshot';
   readonly updateSnapshots: 'all' | 'changed' | 'missing' | 'none';
   readonly comparator: Comparator;
+  readonly isCustomComparator: boolean;
+  readonly snapshotStorage: SnapshotStorage | undefined;
   readonly options: Omit<ToHaveScreenshotOptions, '_comparator'> & { comparator?: string };
   readonly matcherName: string;
   readonly locator: Locator | undefined;
@@ -96,6 +135,7 @@ class SnapshotHelper {
     configOptions: ToHaveScreenshotConfigOptions,
     nameOrOptions: NameOrSegments | { name?: NameOrSegments } & ToHaveScreenshotOptions,
     optOptions: ToHaveScreenshotOptions,
+    variant?: { suffix: string, isLast: boolean },
   ) {
     let name: NameOrSegments | undefined;
     if (Array.isArray(nameOrOptions) || typeof nameOrOptions === 'string') {
@@ -108,9 +148,16 @@ class SnapshotHelper {
     }
 
     this.name = Array.isArray(name) ? name.join(path.sep) : name || '';
-    const resolvedPaths = testInfo._resolveSnapshotPaths(matcherName === 'toHaveScreenshot' ? 'screenshot' : 'snapshot', name, 'updateSnapshotIndex', anonymousSnapshotExtension);
+    // All variants share the snapshot index, only the last one advances it.
+    const updateSnapshotIndex = !variant || variant.isLast ? 'updateSnapshotIndex' : 'dontUpdateSnapshotIndex';
+    const resolvedPaths = testInfo._resolveSnapshotPaths(matcherName === 'toHaveScreenshot' ? 'screenshot' : 'snapshot', name, updateSnapshotIndex, anonymousSnapshotExtension);
     this.expectedPath = resolvedPaths.absoluteSnapshotPath;
     this.attachmentBaseName = resolvedPaths.relativeOutputPath;
+    if (variant) {
+      this.name = this.name && addSuffixToFilePath(this.name, variant.suffix);
+      this.expectedPath = addSuffixToFilePath(this.expectedPath, variant.suffix);
+      this.attachmentBaseName = addSuffixToFilePath(this.attachmentBaseName, variant.suffix);
+    }
 
     const outputBasePath = testInfo._getOutputPath(resolvedPaths.relativeOutputPath);
     this.legacyExpectedPath = addSuffixToFilePath(outputBasePath, '-expected');
@@ -138,12 +185,27 @@ class SnapshotHelper {
     if (this.options.maxDiffPixelRatio !== undefined && (this.options.maxDiffPixelRatio < 0 || this.options.maxDiffPixelRatio > 1))
       throw new Error('`maxDiffPixelRatio` option value must be between 0 and 1');
 
+    for (const region of this.options.regions ?? []) {
+      if (!region.locator === !region.rect)
+        throw new Error('Each of `regions` must specify either `locator` or `rect`');
+      if (region.maxDiffPixels !== undefined && region.maxDiffPixels < 0)
+        throw new Error('`regions[].maxDiffPixels` option value must be non-negative integer');
+      if (region.maxDiffPixelRatio !== undefined && (region.maxDiffPixelRatio < 0 || region.maxDiffPixelRatio > 1))
+        throw new Error('`regions[].maxDiffPixelRatio` option value must be between 0 and 1');
+    }
+
     this.matcherName = matcherName;
     this.locator = locator;
 
     this.updateSnapshots = expectConfig().updateSnapshots;
     this.mimeType = getMimeTypeForPath(path.basename(this.expectedPath)) ?? 'application/octet-stream';
-    this.comparator = getComparator(this.mimeType);
+    const customComparator = this.mimeType.startsWith('image/') && this.options.comparator ? expectConfig().comparators?.get(this.options.comparator) : undefined;
+    this.comparator = customComparator ? (actual, expected, options) => customComparator(actual as Buffer, expected, { ...options, mimeType: this.mimeType }) : getComparator(this.mimeType);
+    this.isCustomComparator = !!customComparator;
+    // Text snapshots stay in the repository, only binary baselines go to the snapshot store.
+    this.snapshotStorage = this.mimeType.startsWith('text/') ? undefined : expectConfig().snapshotStorage;
+    // Stored baselines leave a pointer at the expected path, attach the copy in the output folder instead.
+    this.expectedAttachmentPath = this.snapshotStorage ? this.legacyExpectedPath : this.expectedPath;
 
     this.testInfo = testInfo;
     this.state = state;
@@ -164,6 +226,21 @@ class SnapshotHelper {
     return Object.fromEntries(Object.entries(unfiltered).filter(([_, v]) => v !== undefined)) as MatcherResult<string, string>;
   }
 
+  readExpected(): Buffer {
+    return this.snapshotStorage ? this.snapshotStorage.readSync(this.expectedPath) : fs.readFileSync(this.expectedPath);
+  }
+
+  async readExpectedAsync(): Promise<Buffer> {
+    return this.snapshotStorage ? await this.snapshotStorage.read(this.expectedPath) : await fs.promises.readFile(this.expectedPath);
+  }
+
+  writeExpected(content: Buffer | string) {
+    if (this.snapshotStorage)
+      this.snapshotStorage.write(this.expectedPath, Buffer.from(content));
+    else
+      writeFileSync(this.expectedPath, content);
+  }
+
   handleMissingNegated(): MatcherResult<string, string> {
     const isWriteMissingMode = this.updateSnapshots !== 'none';
     const message = `A snapshot doesn't exist at ${this.expectedPath}${isWriteMissingMode ? ', matchers using ".not" won\'t write them automatically.' : '.'}`;
@@ -190,8 +267,10 @@ class SnapshotHelper {
     const attachments: MatcherAttachment[] = [];
     const isWriteMissingMode = this.updateSnapshots !== 'none';
     if (isWriteMissingMode) {
-      writeFileSync(this.expectedPath, actual);
-      attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-expected'), contentType: this.mimeType, path: this.expectedPath });
+      this.writeExpected(actual);
+      if (this.snapshotStorage)
+        writeFileSync(this.legacyExpectedPath, actual);
+      attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-expected'), contentType: this.mimeType, path: this.expectedAttachmentPath });
     }
     writeFileSync(this.actualPath, actual);
     attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-actual'), contentType: this.mimeType, path: this.actualPath });
@@ -229,7 +308,7 @@ class SnapshotHelper {
       // Copy the expectation inside the `test-results/` folder for backwards compatibility,
       // so that one can upload `test-results/` directory and have all the data inside.
       writeFileSync(this.legacyExpectedPath, expected);
-      attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-expected'), contentType: this.mimeType, path: this.expectedPath });
+      attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-expected'), contentType: this.mimeType, path: this.expectedAttachmentPath });
     }
     if (previous !== undefined) {
       writeFileSync(this.previousPath, previous);
@@ -237,7 +316,13 @@ class SnapshotHelper {
     }
     if (actual !== undefined) {
       writeFileSync(this.actualPath, actual);
-      attachments.push({ name: addSuffixToFilePath(this.attachmentBaseName, '-actual'), contentType: this.mimeType, path: this.actualPath });
+      const actualName = addSuffixToFilePath(this.attachmentBaseName, '-actual');
+      attachments.push({ name: actualName, contentType: this.mimeType, path: this.actualPath });
+      // Lets the HTML report accept the actual as the new baseline.
+      if (expected !== undefined) {
+        const rebaseline = { name: this.attachmentBaseName, snapshotPath: this.expectedPath, actual: actualName, store: !!this.snapshotStorage };
+        attachments.push({ name: '_snapshotRebaseline', contentType: 'application/json', body: Buffer.from(JSON.stringify(rebaseline)) });
+      }
     }
     if (diff !== undefined) {
       writeFileSync(this.diffPath, diff);
@@ -280,19 +365,19 @@ export function toMatchSnapshot(
   if (this.isNot) {
     if (!fs.existsSync(helper.expectedPath))
       return helper.handleMissingNegated();
-    const isDifferent = !!helper.comparator(received, fs.readFileSync(helper.expectedPath), helper.options);
+    const isDifferent = !!helper.comparator(received, helper.readExpected(), helper.options);
     return isDifferent ? helper.handleDifferentNegated() : helper.handleMatchingNegated();
   }
 
   if (!fs.existsSync(helper.expectedPath))
     return helper.handleMissing(received);
 
-  const expected = fs.readFileSync(helper.expectedPath);
+  const expected = helper.readExpected();
 
   if (helper.updateSnapshots === 'all') {
     if (!compareBuffersOrStrings(received, expected))
       return helper.handleMatching();
-    writeFileSync(helper.expectedPath, received);
+    helper.writeExpected(received);
     /* eslint-disable no-console */
     console.log(helper.expectedPath + ' is not the same, writing actual.');
     return helper.createMatcherResult(helper.expectedPath + ' running with --update-snapshots, writing actual.', true);
@@ -302,7 +387,7 @@ export function toMatchSnapshot(
     const result = helper.comparator(received, expected, helper.options);
     if (!result)
       return helper.handleMatching();
-    writeFileSync(helper.expectedPath, received);
+    helper.writeExpected(received);
     /* eslint-disable no-console */
     console.log(helper.expectedPath + ' does not match, writing actual.');
     return helper.createMatcherResult(helper.expectedPath + ' running with --update-snapshots, writing actual.', true);
@@ -344,11 +429,120 @@ export async function toHaveScreenshot(
   expectTypes(pageOrLocator, ['Page', 'Locator'], 'toHaveScreenshot');
   const [page, locator] = (pageOrLocator as any)._apiName === 'Page' ? [(pageOrLocator as PageEx), undefined] : [(pageOrLocator as Locator).page() as PageEx, pageOrLocator as Locator];
   const configOptions = expectConfig().toHaveScreenshot || {};
-  const helper = new SnapshotHelper(this, testInfo, 'toHaveScreenshot', locator, undefined, configOptions, nameOrOptions, optOptions);
+  const createHelper = (variant?: { suffix: string, isLast: boolean }) => new SnapshotHelper(this, testInfo, 'toHaveScreenshot', locator, undefined, configOptions, nameOrOptions, optOptions, variant);
+  const { viewports, colorSchemes } = typeof nameOrOptions === 'object' && !Array.isArray(nameOrOptions) ? nameOrOptions : optOptions;
+  if (viewports || colorSchemes)
+    return await toHaveScreenshotMatrix.call(this, page, locator, createHelper, viewports, colorSchemes);
+  return await compareScreenshot.call(this, page, locator, createHelper());
+}
+
+async function toHaveScreenshotMatrix(
+  this: ExpectMatcherStateInternal,
+  page: PageEx,
+  locator: Locator | undefined,
+  createHelper: (variant: { suffix: string, isLast: boolean }) => SnapshotHelper,
+  viewports: { width: number, height: number }[] | undefined,
+  colorSchemes: ScreenshotColorScheme[] | undefined,
+): Promise<MatcherResult<NameOrSegments | { name?: NameOrSegments }, string>> {
+  for (const viewport of viewports ?? []) {
+    if (!(viewport.width > 0) || !(viewport.height > 0))
+      throw new Error('Each of `viewports` must have a positive `width` and `height`');
+  }
+  for (const colorScheme of colorSchemes ?? []) {
+    if (!['light', 'dark', 'no-preference'].includes(colorScheme))
+      throw new Error(`Unsupported color scheme "${colorScheme}", must be one of "light", "dark" or "no-preference"`);
+  }
+  if (viewports?.length === 0 || colorSchemes?.length === 0)
+    throw new Error('`viewports` and `colorSchemes` must not be empty');
+
+  const combinations: { viewport?: { width: number, height: number }, colorScheme?: ScreenshotColorScheme }[] = [];
+  for (const viewport of viewports ?? [undefined]) {
+    for (const colorScheme of colorSchemes ?? [undefined])
+      combinations.push({ viewport, colorScheme });
+  }
+
+  const originalViewport = page.viewportSize();
+  const originalColorScheme = colorSchemes ? await page.evaluate(() => {
+    if (matchMedia('(prefers-color-scheme: dark)').matches)
+      return 'dark';
+    return matchMedia('(prefers-color-scheme: light)').matches ? 'light' : 'no-preference';
+  }) : undefined;
+
+  const cells: ScreenshotMatrixCell[] = [];
+  const results: MatcherResult<any, any>[] = [];
+  try {
+    for (let i = 0; i < combinations.length; ++i) {
+      const { viewport, colorScheme } = combinations[i];
+      const viewportName = viewport ? `${viewport.width}x${viewport.height}` : undefined;
+      const suffix = (viewportName ? '-' + viewportName : '') + (colorScheme ? '-' + colorScheme : '');
+      const helper = createHelper({ suffix, isLast: i === combinations.length - 1 });
+      if (viewport)
+        await page.setViewportSize(viewport);
+      if (colorScheme)
+        await page.emulateMedia({ colorScheme });
+      const result = await compareScreenshot.call(this, page, locator, helper);
+      results.push(result);
+      cells.push({
+        viewport: viewportName,
+        colorScheme,
+        snapshot: helper.attachmentBaseName,
+        status: result.pass === !!this.isNot ? 'failed' : result.softError ? 'missing' : 'passed',
+      });
+    }
+  } finally {
+    if (originalViewport && viewports)
+      await page.setViewportSize(originalViewport);
+    if (originalColorScheme)
+      await page.emulateMedia({ colorScheme: originalColorScheme });
+  }
+
+  const failed = results.filter(result => result.pass === !!this.isNot);
+  const softErrors = results.filter(result => result.softError);
+  const matrix: ScreenshotMatrix = {
+    viewports: viewports?.map(viewport => `${viewport.width}x${viewport.height}`),
+    colorSchemes,
+    cells,
+  };
+  const attachments: MatcherAttachment[] = [
+    ...results.flatMap(result => result.attachments ?? []),
+    { name: '_screenshotMatrix', contentType: 'application/json', body: Buffer.from(JSON.stringify(matrix)) },
+  ];
+  const summary = cells.map(cell => {
+    const icon = cell.status === 'failed' ? colors.red('✘') : colors.green('✓');
+    const title = [cell.viewport, cell.colorScheme].filter(Boolean).join(', ');
+    return `  ${icon} ${title}${cell.status === 'missing' ? colors.dim(' (written)') : ''}`;
+  }).join('\n');
+  const details = failed.length ? failed.map(result => result.message()) : softErrors.map(result => (result.softError as Error).message);
+  const header = failed.length ? formatMatcherMessage(this.utils, { promise: this.promise, isNot: this.isNot, matcherName: 'toHaveScreenshot', locator: locator?.toString(), expectation: 'expected' }) : '';
+  const message = header + [
+    `${failed.length || softErrors.length} of ${cells.length} screenshot${cells.length === 1 ? '' : 's'} ${failed.length ? 'failed' : 'missing'}:`,
+    summary,
+    '',
+    ...details,
+  ].join('\n');
+
+  // NOTE: 'isNot' matcher implies inversed value.
+  const pass = failed.length ? !!this.isNot : !this.isNot;
+  return {
+    name: 'toHaveScreenshot',
+    pass,
+    message: () => failed.length ? message : '',
+    log: failed.flatMap(result => result.log ?? []),
+    attachments,
+    softError: !failed.length && softErrors.length ? new Error(message) : undefined,
+    shouldNotRetryTest: softErrors.some(result => result.shouldNotRetryTest),
+  };
+}
+
+async function compareScreenshot(
+  this: ExpectMatcherStateInternal,
+  page: PageEx,
+  locator: Locator | undefined,
+  helper: SnapshotHelper,
+): Promise<MatcherResult<NameOrSegments | { name?: NameOrSegments }, string>> {
   const screenshotType = ({ 'image/png': 'png', 'image/webp': 'webp' } as const)[helper.mimeType];
   if (!screenshotType)
     throw new Error(`Screenshot name "${path.basename(helper.expectedPath)}" must have a '.png' or '.webp' extension`);
-  expectTypes(pageOrLocator, ['Page', 'Locator'], 'toHaveScreenshot');
   const style = await loadScreenshotStyles(helper.options.stylePath);
   const timeout = helper.options.timeout ?? this.timeout;
   const expectScreenshotOptions: ExpectScreenshotOptions = {
@@ -360,18 +554,37 @@ export async function toHaveScreenshot(
     mask: helper.options.mask,
     maskColor: helper.options.maskColor,
     omitBackground: helper.options.omitBackground,
+    regions: helper.options.regions,
     scale: helper.options.scale ?? 'css',
+    stable: helper.options.stable,
     style,
     isNot: !!this.isNot,
     timeout,
     signal: helper.options.signal,
     type: screenshotType,
-    comparator: helper.options.comparator,
+    comparator: helper.isCustomComparator ? undefined : helper.options.comparator,
     maxDiffPixels: helper.options.maxDiffPixels,
     maxDiffPixelRatio: helper.options.maxDiffPixelRatio,
     threshold: helper.options.threshold,
   };
 
+  const expectScreenshot = async () => {
+    const { expected, isNot } = expectScreenshotOptions;
+    if (!helper.isCustomComparator || !expected)
+      return await page._expectScreenshot(expectScreenshotOptions);
+    // Custom comparators run in the test process, against a stable screenshot.
+    const result = await page._expectScreenshot({ ...expectScreenshotOptions, expected: undefined, isNot: false });
+    if (result.errorMessage || !result.actual)
+      return result;
+    const comparatorResult = helper.comparator(result.actual, expected, helper.options);
+    // With `.not`, the error signals matching screenshots, so that the negated matcher fails.
+    if (isNot)
+      return comparatorResult ? { actual: result.actual, log: result.log } : { ...result, errorMessage: 'Screenshot matches the expectation' };
+    if (comparatorResult)
+      return { ...result, errorMessage: comparatorResult.errorMessage, diff: comparatorResult.diff };
+    return result;
+  };
+
   const hasSnapshot = fs.existsSync(helper.expectedPath);
   if (this.isNot) {
     if (!hasSnapshot)
@@ -389,14 +602,14 @@ export async function toHaveScreenshot(
       // Having `errorMessage` means we timed out while waiting
       // for screenshots not to match, so screenshots
       // are actually the same in the end.
-      expectScreenshotOptions.expected = await fs.promises.readFile(helper.expectedPath);
-      const isDifferent = !(await page._expectScreenshot(expectScreenshotOptions)).errorMessage;
+      expectScreenshotOptions.expected = await helper.readExpectedAsync();
+      const isDifferent = !(await expectScreenshot()).errorMessage;
       return isDifferent ? helper.handleDifferentNegated() : helper.handleMatchingNegated();
     }
 
     if (!hasSnapshot) {
       // Regenerate a new screenshot by waiting until two screenshots are the same.
-      const { actual, previous, diff, errorMessage, log, timedOut } = await page._expectScreenshot(expectScreenshotOptions);
+      const { actual, previous, diff, errorMessage, log, timedOut } = await expectScreenshot();
       // We tried re-generating new snapshot but failed.
       // This can be due to e.g. spinning animation, so we want to show it as a diff.
       if (errorMessage) {
@@ -411,12 +624,12 @@ export async function toHaveScreenshot(
     // General case:
     // - snapshot exists
     // - regular matcher (i.e. not a `.not`)
-    const expected = await fs.promises.readFile(helper.expectedPath);
+    const expected = await helper.readExpectedAsync();
     expectScreenshotOptions.expected = helper.updateSnapshots === 'all' ? undefined : expected;
 
-    const { actual, previous, diff, errorMessage, log, timedOut } = await page._expectScreenshot(expectScreenshotOptions);
+    const { actual, previous, diff, errorMessage, log, timedOut } = await expectScreenshot();
     const writeFiles = (actualBuffer: Buffer) => {
-      writeFileSync(helper.expectedPath, actualBuffer);
+      helper.writeExpected(actualBuffer);
       writeFileSync(helper.actualPath, actualBuffer);
       /* eslint-disable no-console */
       console.log(helper.expectedPath + ' is re-generated, writing actual.');
@@ -24,8 +24,9 @@ import { parseErrorStack } from '@utils/stackTrace';
 import { getPackageManagerExecCommand } from '@utils/env';
 import { fitToWidth } from '@utils/stringWidth';
 
-import { resolveReporterOutputPath, stripAnsiEscapes } from '../util';
+import { isQuarantined, resolveReporterOutputPath, stripAnsiEscapes } from '../util';
 
+import type { CoverageReporter } from './coverage';
 import type { ReporterV2 } from './reporterV2';
 import type { FullConfig, FullResult, Location, Suite, TestCase, TestError, TestResult, TestStep } from '../../types/testReporter';
 import type { Colors } from '@isomorphic/colors';
@@ -36,6 +37,7 @@ export const kOutputSymbol = Symbol('output');
 type ErrorDetails = {
   message: string;
   location?: Location;
+  groups?: TestError['groups'];
 };
 
 type TestSummary = {
@@ -45,6 +47,7 @@ type TestSummary = {
   interrupted: TestCase[];
   unexpected: TestCase[];
   flaky: TestCase[];
+  quarantined: TestCase[];
   failuresToPrint: TestCase[];
   fatalErrors: TestError[];
 };
@@ -53,6 +56,7 @@ export type CommonReporterOptions = {
   configDir: string,
   _mode?: 'list' | 'test' | 'merge',
   _commandHash?: string,
+  _coverage?: CoverageReporter,
 };
 
 export type Screen = {
@@ -257,7 +261,7 @@ export class TerminalReporter implements ReporterV2 {
     return fileDurations.filter(([, duration]) => duration > threshold).slice(0, count);
   }
 
-  protected generateSummaryMessage({ didNotRun, skipped, expected, interrupted, unexpected, flaky, fatalErrors }: TestSummary) {
+  protected generateSummaryMessage({ didNotRun, skipped, expected, interrupted, unexpected, flaky, quarantined, fatalErrors }: TestSummary) {
     const tokens: string[] = [];
     if (unexpected.length) {
       tokens.push(this.screen.colors.red(`  ${unexpected.length} failed`));
@@ -274,13 +278,18 @@ export class TerminalReporter implements ReporterV2 {
       for (const test of flaky)
         tokens.push(this.screen.colors.yellow(this.formatTestHeader(test, { indent: '    ' })));
     }
+    if (quarantined.length) {
+      tokens.push(this.screen.colors.yellow(`  ${quarantined.length} quarantined`));
+      for (const test of quarantined)
+        tokens.push(this.screen.colors.yellow(this.formatTestHeader(test, { indent: '    ' })));
+    }
     if (skipped)
       tokens.push(this.screen.colors.yellow(`  ${skipped} skipped`));
     if (didNotRun)
       tokens.push(this.screen.colors.yellow(`  ${didNotRun} did not run`));
     if (expected)
       tokens.push(this.screen.colors.green(`  ${expected} passed`) + this.screen.colors.dim(` (${msToString(this.result.duration)})`));
-    if (fatalErrors.length && expected + unexpected.length + interrupted.length + flaky.length > 0)
+    if (fatalErrors.length && expected + unexpected.length + interrupted.length + flaky.length + quarantined.length > 0)
       tokens.push(this.screen.colors.red(`  ${fatalErrors.length === 1 ? '1 error was not a part of any test' : fatalErrors.length + ' errors were not a part of any test'}, see above for details`));
 
     return tokens.join('\n');
@@ -294,6 +303,7 @@ export class TerminalReporter implements ReporterV2 {
     const interruptedToPrint: TestCase[] = [];
     const unexpected: TestCase[] = [];
     const flaky: TestCase[] = [];
+    const quarantined: TestCase[] = [];
 
     this.suite.allTests().forEach(test => {
       switch (test.outcome()) {
@@ -310,12 +320,12 @@ export class TerminalReporter implements ReporterV2 {
           break;
         }
         case 'expected': ++expected; break;
-        case 'unexpected': unexpected.push(test); break;
-        case 'flaky': flaky.push(test); break;
+        case 'unexpected': (isQuarantined(test) ? quarantined : unexpected).push(test); break;
+        case 'flaky': (isQuarantined(test) ? quarantined : flaky).push(test); break;
       }
     });
 
-    const failuresToPrint = [...unexpected, ...flaky, ...interruptedToPrint];
+    const failuresToPrint = [...unexpected, ...flaky, ...quarantined, ...interruptedToPrint];
     return {
       didNotRun,
       skipped,
@@ -323,6 +333,7 @@ export class TerminalReporter implements ReporterV2 {
       interrupted,
       unexpected,
       flaky,
+      quarantined,
       failuresToPrint,
       fatalErrors: this._fatalErrors,
     };
@@ -520,6 +531,7 @@ export function formatResultFailure(screen: Screen, test: TestCase, result: Test
     errorDetails.push({
       message: indent(formattedError.message, initialIndent),
       location: formattedError.location,
+      groups: error.groups,
     });
   }
   return errorDetails;
@@ -0,0 +1,176 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import url from 'url';
+
+import { coverage } from '../common';
+
+import type { FullConfigInternal } from '../common';
+import type { ReporterV2 } from './reporterV2';
+import type { CoverageCounts, CoverageSummary } from '@html-reporter/types';
+
+type CoverageOptions = NonNullable<FullConfigInternal['coverage']>;
+
+export class CoverageReporter implements ReporterV2 {
+  private _options: CoverageOptions;
+  private _rootDir: string;
+  private _coverage: coverage.CoverageData = {};
+
+  constructor(options: CoverageOptions, rootDir: string) {
+    this._options = options;
+    this._rootDir = rootDir;
+  }
+
+  version(): 'v2' {
+    return 'v2';
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  onCoverage(data: coverage.CoverageData) {
+    coverage.mergeCoverage(this._coverage, data);
+  }
+
+  summary(): CoverageSummary | undefined {
+    const files = this._filesByPath();
+    if (!files.size)
+      return undefined;
+    const summary: CoverageSummary = { lines: { covered: 0, total: 0 }, functions: { covered: 0, total: 0 }, files: [] };
+    for (const [filePath, file] of files) {
+      const lines = countCovered(Object.values(file.lines));
+      const functions = countCovered(Object.values(file.functions).map(fn => fn.count));
+      summary.files.push({ fileName: path.isAbsolute(filePath) ? path.relative(this._rootDir, filePath) : filePath, lines, functions });
+      addCounts(summary.lines, lines);
+      addCounts(summary.functions, functions);
+    }
+    summary.files.sort((a, b) => a.fileName.localeCompare(b.fileName));
+    return summary;
+  }
+
+  async onEnd() {
+    const files = this._filesByPath();
+    if (!files.size)
+      return;
+    await fs.promises.mkdir(this._options.outputDir, { recursive: true });
+    if (this._options.formats.includes('lcov'))
+      await fs.promises.writeFile(path.join(this._options.outputDir, 'lcov.info'), toLcov(files));
+    if (this._options.formats.includes('json'))
+      await fs.promises.writeFile(path.join(this._options.outputDir, 'coverage-final.json'), JSON.stringify(toIstanbul(files)));
+  }
+
+  private _filesByPath(): Map<string, coverage.FileCoverage> {
+    // Different urls might point to the same file, for example when served from different ports.
+    const result: coverage.CoverageData = {};
+    for (const [sourceURL, file] of Object.entries(this._coverage))
+      coverage.mergeCoverage(result, { [this._filePathForURL(sourceURL)]: file });
+    return new Map(Object.entries(result).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  private _filePathForURL(sourceURL: string): string {
+    try {
+      const parsed = new URL(sourceURL);
+      if (parsed.protocol === 'file:')
+        return url.fileURLToPath(parsed);
+      // Scripts served by the dev server usually mirror the project layout.
+      const candidate = path.join(this._rootDir, decodeURIComponent(parsed.pathname));
+      if (fs.existsSync(candidate))
+        return candidate;
+    } catch {
+    }
+    return sourceURL;
+  }
+}
+
+function countCovered(counts: number[]): CoverageCounts {
+  return { covered: counts.filter(count => count > 0).length, total: counts.length };
+}
+
+function addCounts(target: CoverageCounts, counts: CoverageCounts) {
+  target.covered += counts.covered;
+  target.total += counts.total;
+}
+
+function toLcov(files: Map<string, coverage.FileCoverage>): string {
+  const lines: string[] = [];
+  for (const [filePath, file] of files) {
+    lines.push('TN:', `SF:${filePath}`);
+    const functions = Object.values(file.functions);
+    for (const fn of functions)
+      lines.push(`FN:${fn.line},${fn.name}`);
+    for (const fn of functions)
+      lines.push(`FNDA:${fn.count},${fn.name}`);
+    lines.push(`FNF:${functions.length}`, `FNH:${functions.filter(fn => fn.count > 0).length}`);
+    const lineEntries = Object.entries(file.lines);
+    for (const [line, count] of lineEntries)
+      lines.push(`DA:${line},${count}`);
+    lines.push(`LF:${lineEntries.length}`, `LH:${lineEntries.filter(([, count]) => count > 0).length}`);
+    lines.push('end_of_record');
+  }
+  return lines.join('\n') + '\n';
+}
+
+type IstanbulRange = {
+  start: { line: number, column: number };
+  end: { line: number, column: number };
+};
+
+type IstanbulFunction = {
+  name: string;
+  decl: IstanbulRange;
+  loc: IstanbulRange;
+  line: number;
+};
+
+type IstanbulFileCoverage = {
+  path: string;
+  statementMap: { [id: string]: IstanbulRange };
+  fnMap: { [id: string]: IstanbulFunction };
+  // Branches are not collected.
+  branchMap: { [id: string]: never };
+  s: { [id: string]: number };
+  f: { [id: string]: number };
+  b: { [id: string]: never };
+};
+
+function toIstanbul(files: Map<string, coverage.FileCoverage>): { [filePath: string]: IstanbulFileCoverage } {
+  const result: { [filePath: string]: IstanbulFileCoverage } = {};
+  for (const [filePath, file] of files) {
+    // Coverage is line-based, so every line is reported as a single statement.
+    const statementMap: IstanbulFileCoverage['statementMap'] = {};
+    const s: IstanbulFileCoverage['s'] = {};
+    Object.entries(file.lines).forEach(([line, count], index) => {
+      statementMap[index] = lineRange(+line);
+      s[index] = count;
+    });
+    const fnMap: IstanbulFileCoverage['fnMap'] = {};
+    const f: IstanbulFileCoverage['f'] = {};
+    Object.values(file.functions).forEach((fn, index) => {
+      const loc = lineRange(fn.line);
+      fnMap[index] = { name: fn.name, decl: loc, loc, line: fn.line };
+      f[index] = fn.count;
+    });
+    result[filePath] = { path: filePath, statementMap, fnMap, branchMap: {}, s, f, b: {} };
+  }
+  return result;
+}
+
+function lineRange(line: number): IstanbulRange {
+  return { start: { line, column: 0 }, end: { line, column: 0 } };
+}
@@ -24,11 +24,12 @@ import mime from 'mime';
 import open from 'open';
 import * as yazl from 'yazl';
 import { MultiMap } from '@isomorphic/multimap';
-import { calculateSha1 } from '@utils/crypto';
+import { calculateSha1, createGuid } from '@utils/crypto';
 import { copyFileAndMakeWritable, removeFolders, sanitizeForFilePath, toPosixPath } from '@utils/fileUtils';
 import { getPackageManagerExecCommand, isCodingAgent } from '@utils/env';
 import { HttpServer, serveFolder } from '@utils/httpServer';
 import { gracefullyProcessExitDoNotHang } from '@utils/processLauncher';
+import { SnapshotStorage } from '@utils/snapshotStore';
 import { extractZip } from '@utils/third_party/extractZip';
 
 // HMR: build-time flag — `true` in watch builds, `false` in release. esbuild's
@@ -37,13 +38,18 @@ import { extractZip } from '@utils/third_party/extractZip';
 declare const __PW_HMR__: boolean;
 
 import { CommonReporterOptions, formatError, formatResultFailure, internalScreen } from './base';
+import { commitFromMetadata, historyEntryForRun, loadHistory } from './htmlHistory';
+import { applyReplacements } from '../runner/rebase';
 import * as babel from '../transform/babelBundle';
-import { resolveReporterOutputPath, stripAnsiEscapes } from '../util';
+import { configLoader } from '../common';
+import { getContainedPath, isQuarantined, resolveReporterOutputPath, stripAnsiEscapes } from '../util';
 
+import type { HistoryRun } from './htmlHistory';
 import type { ReportConfigureParams, ReportEndParams, ReporterV2 } from './reporterV2';
 import type { HtmlReporterOptions as HtmlReporterConfigOptions, Metadata, TestAnnotation } from '../../types/test';
 import type * as api from '../../types/testReporter';
-import type { HTMLReport, HTMLReportOptions, Location, Stats, TestAttachment, TestCase, TestCaseSummary, TestFile, TestFileSummary, TestResult, TestStep } from '@html-reporter/types';
+import type { AriaSnapshotDiff, CoverageSummary, HTMLReport, HTMLReportOptions, Location, PerformanceMetrics, ScreenshotMatrix, SnapshotRebaseline, Stats, TestAttachment, TestCase, TestCaseSummary, TestFile, TestFileSummary, TestHistoryEntry, TestResult, TestStep } from '@html-reporter/types';
+import type { IncomingMessage } from 'http';
 import type { TransformCallback } from 'stream';
 import type { ZipFile } from 'yazl';
 
@@ -121,10 +127,12 @@ class HtmlReporter implements ReporterV2 {
     this.suite = suite;
   }
 
-  _resolveOptions(): { outputFolder: string, open: HtmlReportOpenOption, attachmentsBaseURL: string, host: string | undefined, port: number | undefined } {
+  _resolveOptions(): { outputFolder: string, open: HtmlReportOpenOption, attachmentsBaseURL: string, host: string | undefined, port: number | undefined, historyDir: string | undefined } {
     const outputFolder = reportFolderFromEnv() ?? resolveReporterOutputPath('playwright-report', this._options.configDir, this._options.outputFolder);
+    const historyDir = process.env.PLAYWRIGHT_HTML_HISTORY_DIR ?? this._options.historyDir;
     return {
       outputFolder,
+      historyDir: historyDir ? path.resolve(this._options.configDir, historyDir) : undefined,
       open: getHtmlReportOptionProcessEnv() || this._options.open || 'on-failure',
       attachmentsBaseURL: process.env.PLAYWRIGHT_HTML_ATTACHMENTS_BASE_URL || this._options.attachmentsBaseURL || 'data/',
       host: process.env.PLAYWRIGHT_HTML_HOST || this._options.host,
@@ -165,7 +173,9 @@ class HtmlReporter implements ReporterV2 {
       noCopyPrompt,
       mergeFiles,
     });
-    this._buildResult = await builder.build(this.config.metadata, projectSuites, result, this._topLevelErrors, this._machines);
+    const { historyDir } = this._resolveOptions();
+    const history = historyDir ? await loadHistory(historyDir, message => writeLine(colors.yellow(message))) : [];
+    this._buildResult = await builder.build(this.config.metadata, projectSuites, result, this._topLevelErrors, this._machines, this._options._coverage?.summary(), history);
   }
 
   async onExit() {
@@ -272,6 +282,7 @@ export async function showHTMLReport(reportFolder: string | undefined, host: str
   const server = (__PW_HMR__ && process.env.PW_HMR_STATIC !== '1')
     ? await serveHtmlReportWithHMR(folder)
     : serveFolder(folder);
+  await routeRebaselines(server, folder);
   await server.start({ port, host, preferredPort: port ? undefined : 9323 });
   let url = server.urlPrefix('human-readable');
   writeLine('');
@@ -325,6 +336,134 @@ async function serveHtmlReportWithHMR(folder: string): Promise<HttpServer> {
 }
 // HMR end
 
+// Baselines that can be accepted from the report served with `show-report`.
+// Kept next to the report, because the report itself has no access to the file system.
+type RebaselineEntry = {
+  snapshotPath?: string;
+  // Actual snapshot, relative to the report folder.
+  actual?: string;
+  content?: string;
+  // Snapshot is kept in the configured snapshot store.
+  store?: boolean;
+  location?: api.Location;
+  code?: string;
+};
+
+type RebaselinesData = {
+  configFile?: string;
+  // Snapshots may only be written inside these directories, and inline snapshots inside test directories.
+  snapshotDirs: string[];
+  testDirs: string[];
+  rebaselines: Record<string, RebaselineEntry>;
+};
+
+const rebaselinesFile = 'rebaselines.json';
+const rebaselineTokenHeader = 'x-playwright-rebaseline-token';
+
+async function routeRebaselines(server: HttpServer, folder: string) {
+  const data: RebaselinesData | undefined = await fs.promises.readFile(path.join(folder, rebaselinesFile), 'utf-8').then(JSON.parse, () => undefined);
+  if (!data)
+    return;
+  const statuses: Record<string, 'pending' | 'accepted' | 'rejected'> = {};
+  for (const id of Object.keys(data.rebaselines))
+    statuses[id] = 'pending';
+  // Other pages cannot read the token, so they cannot modify the files even if they can reach the server.
+  const token = createGuid();
+  let snapshotStorage: Promise<SnapshotStorage | undefined> | undefined;
+  server.routePath('/rebaselines', (request, response) => {
+    const sendStatuses = () => {
+      response.setHeader('Content-Type', 'application/json');
+      response.setHeader(rebaselineTokenHeader, token);
+      response.end(JSON.stringify(statuses));
+    };
+    if (request.method === 'GET') {
+      sendStatuses();
+      return true;
+    }
+    if (request.method !== 'POST')
+      return false;
+    if (!isSameOrigin(request) || request.headers[rebaselineTokenHeader] !== token) {
+      response.statusCode = 403;
+      response.end();
+      return true;
+    }
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', async () => {
+      try {
+        const { id, action } = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        const rebaseline = data.rebaselines[id];
+        if (!rebaseline || statuses[id] !== 'pending' || (action !== 'accept' && action !== 'reject'))
+          throw new Error(`Cannot ${action} snapshot ${id}`);
+        if (action === 'accept') {
+          if (rebaseline.store)
+            snapshotStorage ??= loadSnapshotStorage(data.configFile);
+          await acceptRebaseline(folder, data, rebaseline, rebaseline.store ? await snapshotStorage : undefined);
+        }
+        statuses[id] = action === 'accept' ? 'accepted' : 'rejected';
+        sendStatuses();
+      } catch (e) {
+        response.statusCode = 400;
+        response.end(e.message);
+      }
+    });
+    return true;
+  });
+}
+
+function isSameOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin)
+    return true;
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function loadSnapshotStorage(configFile: string | undefined): Promise<SnapshotStorage | undefined> {
+  const config = await configLoader.loadConfigFromFile(configFile);
+  return config.snapshotStore ? new SnapshotStorage(config.snapshotStore) : undefined;
+}
+
+async function acceptRebaseline(folder: string, data: RebaselinesData, rebaseline: RebaselineEntry, snapshotStorage: SnapshotStorage | undefined) {
+  if (rebaseline.location && rebaseline.code) {
+    const file = rebaseline.location.file;
+    if (!data.testDirs.some(dir => getContainedPath(dir, file)))
+      throw new Error(`Cannot update snapshot outside of the test directories: ${file}`);
+    const source = await fs.promises.readFile(file, 'utf-8');
+    const replacement = { location: rebaseline.location, code: rebaseline.code };
+    const { result, matched } = applyReplacements(file, source, [replacement]);
+    if (!matched.has(replacement))
+      throw new Error(`Cannot find the snapshot in ${path.relative(process.cwd(), file)}:${rebaseline.location.line}, the file has changed since the test run`);
+    await fs.promises.writeFile(file, result);
+    // Later snapshots in the same file move when the replacement spans a different number of lines.
+    const lineDelta = result.split('\n').length - source.split('\n').length;
+    for (const other of Object.values(data.rebaselines)) {
+      if (other.location?.file === file && other.location.line > rebaseline.location.line)
+        other.location.line += lineDelta;
+    }
+    writeLine(`  Updated snapshot in ${path.relative(process.cwd(), file)}:${rebaseline.location.line}`);
+    return;
+  }
+  const snapshotPath = rebaseline.snapshotPath!;
+  if (!data.snapshotDirs.some(dir => getContainedPath(dir, snapshotPath)))
+    throw new Error(`Cannot update snapshot outside of the snapshot directories: ${snapshotPath}`);
+  const actualPath = rebaseline.actual ? getContainedPath(folder, rebaseline.actual) : undefined;
+  if (rebaseline.actual && !actualPath)
+    throw new Error(`Cannot read snapshot outside of the report: ${rebaseline.actual}`);
+  const content = actualPath ? await fs.promises.readFile(actualPath) : Buffer.from(rebaseline.content!);
+  if (snapshotStorage) {
+    snapshotStorage.write(snapshotPath, content);
+    await snapshotStorage.upload();
+  } else {
+    await fs.promises.mkdir(path.dirname(snapshotPath), { recursive: true });
+    await fs.promises.writeFile(snapshotPath, content);
+  }
+  writeLine(`  Updated snapshot ${path.relative(process.cwd(), snapshotPath)}`);
+}
+
 type DataMap = Map<string, { testFile: TestFile, testFileSummary: TestFileSummary }>;
 
 class HtmlBuilder {
@@ -336,6 +475,9 @@ class HtmlBuilder {
   private _attachmentsBaseURL: string;
   private _options: HTMLReportOptions;
   private _doNotInlineAssets: boolean;
+  private _history: HistoryRun[] = [];
+  private _currentRun: Omit<TestHistoryEntry, 'outcome' | 'duration'> | undefined;
+  private _rebaselines = new Map<string, RebaselineEntry>();
 
   constructor(yazl: typeof import('yazl'), config: api.FullConfig, outputDir: string, attachmentsBaseURL: string, doNotInlineAssets: boolean, options: HTMLReportOptions) {
     this._dataZipFile = new yazl.ZipFile();
@@ -347,7 +489,9 @@ class HtmlBuilder {
     this._attachmentsBaseURL = attachmentsBaseURL;
   }
 
-  async build(metadata: Metadata, projectSuites: api.Suite[], result: api.FullResult, topLevelErrors: api.TestError[], machines: MachineData[]): Promise<{ ok: boolean, singleTestId: string | undefined }> {
+  async build(metadata: Metadata, projectSuites: api.Suite[], result: api.FullResult, topLevelErrors: api.TestError[], machines: MachineData[], coverage: CoverageSummary | undefined, history: HistoryRun[]): Promise<{ ok: boolean, singleTestId: string | undefined }> {
+    this._history = history;
+    this._currentRun = { startTime: result.startTime.getTime(), commit: commitFromMetadata(metadata) };
     const data: DataMap = new Map();
     for (const projectSuite of projectSuites) {
       const projectName = projectSuite.project()!.name;
@@ -367,9 +511,11 @@ class HtmlBuilder {
           ++stats.expected;
         if (test.outcome === 'skipped')
           ++stats.skipped;
-        if (test.outcome === 'unexpected')
+        if ((test.outcome === 'unexpected' || test.outcome === 'flaky') && isQuarantined(test))
+          ++stats.quarantined;
+        else if (test.outcome === 'unexpected')
           ++stats.unexpected;
-        if (test.outcome === 'flaky')
+        else if (test.outcome === 'flaky')
           ++stats.flaky;
         ++stats.total;
       }
@@ -401,6 +547,7 @@ class HtmlBuilder {
         tag: machine.config.tags,
         shardIndex: machine.config.shard?.current,
       })),
+      coverage,
     };
     htmlReport.files.sort((f1, f2) => {
       const w1 = f1.stats.unexpected * 1000 + f1.stats.flaky;
@@ -437,6 +584,15 @@ class HtmlBuilder {
     }
 
     await this._writeReportData(reportIndexFile);
+    if (this._rebaselines.size) {
+      const data: RebaselinesData = {
+        configFile: this._config.configFile,
+        snapshotDirs: [...new Set(this._config.projects.map(project => [project.snapshotDir, project.testDir]).flat())],
+        testDirs: [...new Set(this._config.projects.map(project => project.testDir))],
+        rebaselines: Object.fromEntries(this._rebaselines),
+      };
+      await fs.promises.writeFile(path.join(this._reportFolder, rebaselinesFile), JSON.stringify(data, undefined, 2));
+    }
 
     return { ok, singleTestId };
   }
@@ -530,6 +686,7 @@ class HtmlBuilder {
         results,
         repeatEachIndex: test.repeatEachIndex || undefined, // Do not include zero.
         ok: test.outcome() === 'expected' || test.outcome() === 'flaky',
+        history: this._createTestHistory(test, duration),
       },
       testCaseSummary: {
         testId: test.id,
@@ -554,12 +711,23 @@ class HtmlBuilder {
     };
   }
 
+  private _createTestHistory(test: api.TestCase, duration: number): TestHistoryEntry[] | undefined {
+    const history = this._history.map(run => historyEntryForRun(run, test)).filter(entry => !!entry);
+    if (!history.length)
+      return;
+    return [...history, { ...this._currentRun!, outcome: test.outcome(), duration }];
+  }
+
   private _serializeAttachments(attachments: JsonAttachment[]) {
     let lastAttachment: TestAttachment | undefined;
     return attachments.map(a => {
       if (a.name === 'trace')
         this._hasTraces = true;
 
+      // Performance metrics and aria snapshot diffs are shown in their own sections.
+      if (a.name === '_performance' || a.name === '_ariaSnapshotDiff')
+        return null;
+
       if ((a.name === 'stdout' || a.name === 'stderr') && a.contentType === 'text/plain') {
         if (lastAttachment &&
           lastAttachment.name === a.name &&
@@ -640,6 +808,10 @@ class HtmlBuilder {
   }
 
   private _createTestResult(test: api.TestCase, result: api.TestResult): TestResult {
+    const attachments = this._serializeAttachments([
+      ...result.attachments,
+      ...result.stdout.map(m => stdioAttachment(m, 'stdout')),
+      ...result.stderr.map(m => stdioAttachment(m, 'stderr'))]);
     return {
       duration: result.duration,
       startTime: result.startTime.toISOString(),
@@ -648,19 +820,56 @@ class HtmlBuilder {
       errors: formatResultFailure(internalScreen, test, result, '').map(error => {
         return {
           message: error.message,
-          codeframe: error.location ? createErrorCodeframe(error.message, error.location) : undefined
+          codeframe: error.location ? createErrorCodeframe(error.message, error.location) : undefined,
+          groups: error.groups?.map(group => ({ title: group.title, errors: group.errors.map(e => formatError(internalScreen, e).message) })),
         };
       }),
       status: result.status,
       annotations: this._serializeAnnotations(result.annotations),
-      attachments: this._serializeAttachments([
-        ...result.attachments,
-        ...result.stdout.map(m => stdioAttachment(m, 'stdout')),
-        ...result.stderr.map(m => stdioAttachment(m, 'stderr'))]),
+      attachments,
       workerIndex: result.workerIndex,
+      performance: performanceFromAttachments(result.attachments),
+      ariaSnapshotDiffs: ariaSnapshotDiffsFromAttachments(result.attachments),
+      screenshotMatrices: screenshotMatricesFromAttachments(result.attachments),
+      snapshotRebaselines: this._createSnapshotRebaselines(result.steps, attachments),
     };
   }
 
+  private _createSnapshotRebaselines(steps: api.TestStep[], attachments: TestAttachment[], rebaselines: SnapshotRebaseline[] = []): SnapshotRebaseline[] | undefined {
+    for (const step of steps) {
+      for (const attachment of step.attachments) {
+        if (attachment.name !== '_snapshotRebaseline' || !attachment.body)
+          continue;
+        const { name, snapshotPath, actual, content, store, code } = JSON.parse(attachment.body.toString('utf-8'));
+        let entry: RebaselineEntry;
+        let title: string;
+        if (code !== undefined) {
+          // Inline snapshots are updated in the source, at the assertion location.
+          if (!step.location)
+            continue;
+          const location = this._relativeLocation(step.location)!;
+          entry = { location: step.location, code };
+          title = `${location.file}:${location.line}`;
+        } else if (actual !== undefined) {
+          const actualAttachment = attachments.find(a => a.name === actual && a.path);
+          if (!actualAttachment)
+            continue;
+          entry = { snapshotPath, actual: path.join('data', path.basename(actualAttachment.path!)), store };
+          title = name;
+        } else {
+          entry = { snapshotPath, content };
+          title = name;
+        }
+        const id = calculateSha1(JSON.stringify(entry));
+        this._rebaselines.set(id, entry);
+        if (!rebaselines.some(r => r.id === id))
+          rebaselines.push({ id, title });
+      }
+      this._createSnapshotRebaselines(step.steps, attachments, rebaselines);
+    }
+    return rebaselines.length ? rebaselines : undefined;
+  }
+
   private _createTestStep(dedupedStep: DedupedStep, result: api.TestResult): TestStep {
     const { step, duration, count } = dedupedStep;
     const skipped = dedupedStep.step.annotations?.find(a => a.type === 'skip');
@@ -706,6 +915,7 @@ const emptyStats = (): Stats => {
     expected: 0,
     unexpected: 0,
     flaky: 0,
+    quarantined: 0,
     skipped: 0,
     ok: true,
   };
@@ -717,6 +927,7 @@ const addStats = (stats: Stats, delta: Stats): Stats => {
   stats.expected += delta.expected;
   stats.unexpected += delta.unexpected;
   stats.flaky += delta.flaky;
+  stats.quarantined += delta.quarantined;
   stats.ok = stats.ok && delta.ok;
   return stats;
 };
@@ -758,6 +969,23 @@ type JsonAttachment = {
   contentType: string;
 };
 
+function ariaSnapshotDiffsFromAttachments(attachments: api.TestResult['attachments']): AriaSnapshotDiff[] | undefined {
+  const diffs = attachments.filter(a => a.name === '_ariaSnapshotDiff' && a.body).map(a => JSON.parse(a.body!.toString('utf8')));
+  return diffs.length ? diffs : undefined;
+}
+
+function screenshotMatricesFromAttachments(attachments: api.TestResult['attachments']): ScreenshotMatrix[] | undefined {
+  const matrices = attachments.filter(a => a.name === '_screenshotMatrix' && a.body).map(a => JSON.parse(a.body!.toString('utf8')));
+  return matrices.length ? matrices : undefined;
+}
+
+function performanceFromAttachments(attachments: api.TestResult['attachments']): PerformanceMetrics[] | undefined {
+  const attachment = attachments.find(a => a.name === '_performance');
+  if (!attachment?.body)
+    return undefined;
+  return JSON.parse(attachment.body.toString('utf8'));
+}
+
 function stdioAttachment(chunk: Buffer | string, type: 'stdout' | 'stderr'): JsonAttachment {
   return {
     name: type,
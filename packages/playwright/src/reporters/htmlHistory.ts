@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { ZipFile } from '@utils/zipFile';
+
+import { computeTestCaseOutcome } from '../isomorphic/teleReceiver';
+
+import type { HistoryCommit, TestHistoryEntry } from '@html-reporter/types';
+import type { Metadata } from '../../types/test';
+import type { JSONReport, JSONReportSuite, TestCase, TestStatus } from '../../types/testReporter';
+import type { JsonEvent } from '../isomorphic/teleReceiver';
+import type { MetadataWithCommitInfo } from '../isomorphic/types';
+
+// Older runs are dropped to keep the report size bounded.
+const kMaxHistoryRuns = 30;
+
+export type HistoryRun = {
+  startTime: number;
+  commit?: HistoryCommit;
+  tests: Map<string, { outcome: TestHistoryEntry['outcome'], duration: number }>;
+};
+
+export async function loadHistory(historyDir: string, onWarning: (message: string) => void): Promise<HistoryRun[]> {
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(historyDir);
+  } catch {
+    onWarning(`HTML reporter history directory does not exist: ${historyDir}`);
+    return [];
+  }
+  const runs: HistoryRun[] = [];
+  for (const file of files.sort()) {
+    const filePath = path.join(historyDir, file);
+    try {
+      if (file.endsWith('.json'))
+        runs.push(await loadJsonReport(filePath));
+      else if (file.endsWith('.zip'))
+        runs.push(await loadBlobReport(filePath));
+    } catch (e) {
+      onWarning(`Failed to read HTML reporter history from ${filePath}: ${e.message}`);
+    }
+  }
+  runs.sort((a, b) => a.startTime - b.startTime);
+  return runs.slice(-kMaxHistoryRuns);
+}
+
+export function historyEntryForRun(run: HistoryRun, test: TestCase): TestHistoryEntry | undefined {
+  const entry = run.tests.get(test.id) ?? run.tests.get(historyKey(test.titlePath().slice(1)));
+  if (!entry)
+    return;
+  return { startTime: run.startTime, commit: run.commit, ...entry };
+}
+
+export function commitFromMetadata(metadata: Metadata): HistoryCommit | undefined {
+  const { gitCommit, ci } = metadata as MetadataWithCommitInfo;
+  const hash = gitCommit?.hash ?? ci?.commitHash;
+  if (!hash)
+    return;
+  return {
+    hash,
+    shortHash: gitCommit?.shortHash ?? hash.slice(0, 7),
+    subject: gitCommit?.subject,
+    href: ci?.commitHref,
+  };
+}
+
+async function loadJsonReport(filePath: string): Promise<HistoryRun> {
+  const report = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as JSONReport;
+  if (!report.stats?.startTime || !Array.isArray(report.suites))
+    throw new Error(`Not a JSON report`);
+  const run: HistoryRun = {
+    startTime: new Date(report.stats.startTime).getTime(),
+    commit: commitFromMetadata(report.config?.metadata ?? {}),
+    tests: new Map(),
+  };
+  // Specs from different projects are merged, and only the first project keeps its test id.
+  // Tests are matched by the project name and the title path instead.
+  const visit = (suites: JSONReportSuite[], titles: string[]) => {
+    for (const suite of suites) {
+      const suiteTitles = [...titles, suite.title];
+      for (const spec of suite.specs) {
+        for (const test of spec.tests) {
+          run.tests.set(historyKey([test.projectName, ...suiteTitles, spec.title]), {
+            outcome: test.status,
+            duration: test.results.reduce((a, r) => a + r.duration, 0),
+          });
+        }
+      }
+      visit(suite.suites || [], suiteTitles);
+    }
+  };
+  visit(report.suites, []);
+  return run;
+}
+
+function historyKey(titlePath: string[]) {
+  return titlePath.join('\x1e');
+}
+
+async function loadBlobReport(filePath: string): Promise<HistoryRun> {
+  const zipFile = new ZipFile(filePath);
+  const run: HistoryRun = { startTime: 0, tests: new Map() };
+  const results = new Map<string, { expectedStatus: TestStatus, results: { status: TestStatus }[], duration: number }>();
+  try {
+    for (const entryName of await zipFile.entries()) {
+      if (!entryName.endsWith('.jsonl'))
+        continue;
+      const content = await zipFile.read(entryName);
+      for (const line of content.toString('utf-8').split('\n')) {
+        if (!line)
+          continue;
+        const event = JSON.parse(line) as JsonEvent;
+        if (event.method === 'onConfigure') {
+          run.commit = commitFromMetadata(event.params.config.metadata);
+        } else if (event.method === 'onEnd') {
+          run.startTime = event.params.result.startTime;
+        } else if (event.method === 'onTestEnd') {
+          const { test, result } = event.params;
+          let entry = results.get(test.testId);
+          if (!entry) {
+            entry = { expectedStatus: test.expectedStatus, results: [], duration: 0 };
+            results.set(test.testId, entry);
+          }
+          entry.expectedStatus = test.expectedStatus;
+          entry.results.push({ status: result.status });
+          entry.duration += result.duration;
+        }
+      }
+    }
+  } finally {
+    zipFile.close();
+  }
+  if (!run.startTime)
+    throw new Error(`Blob report did not finish`);
+  for (const [testId, entry] of results)
+    run.tests.set(testId, { outcome: computeTestCaseOutcome(entry), duration: entry.duration });
+  return run;
+}
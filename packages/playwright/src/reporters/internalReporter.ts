@@ -26,6 +26,7 @@ import { wrapReporterAsV2 } from './reporterV2';
 
 import type { AnyReporter, ReporterPreprocessParams, ReporterV2 } from './reporterV2';
 import type { FullConfig, FullResult, TestCase, TestError, TestResult, TestStep, WorkerInfo } from '../../types/testReporter';
+import type { coverage } from '../common';
 
 export class InternalReporter implements ReporterV2 {
   private _reporter: Multiplexer;
@@ -84,6 +85,10 @@ export class InternalReporter implements ReporterV2 {
     this._reporter.onTestEnd?.(test, result);
   }
 
+  onCoverage(data: coverage.CoverageData) {
+    this._reporter.onCoverage?.(data);
+  }
+
   async onEnd(result: { status: FullResult['status'] }) {
     if (!this._didBegin) {
       // onBegin was not reported, emit it.
@@ -20,7 +20,7 @@ import path from 'path';
 import { getAsBooleanFromENV } from '@utils/env';
 
 import { CommonReporterOptions, formatFailure, nonTerminalScreen, resolveOutputFile } from './base';
-import { stripAnsiEscapes } from '../util';
+import { isQuarantined, stripAnsiEscapes } from '../util';
 
 import type { ReporterV2 } from './reporterV2';
 import type { JUnitReporterOptions } from '../../types/test';
@@ -121,6 +121,8 @@ class JUnitReporter implements ReporterV2 {
         ++errors;
       else if (classification === 'failure')
         ++failures;
+      else if (classification === 'quarantined')
+        ++skipped;
     }
 
     this.totalTests += tests;
@@ -146,7 +148,7 @@ class JUnitReporter implements ReporterV2 {
     return entry;
   }
 
-  private async _addTestCase(suiteName: string, namePrefix: string, test: TestCase, entries: XMLEntry[]): Promise<'failure' | 'error' | null> {
+  private async _addTestCase(suiteName: string, namePrefix: string, test: TestCase, entries: XMLEntry[]): Promise<'failure' | 'error' | 'quarantined' | null> {
     const entry: XMLEntry = {
       name: 'testcase',
       attributes: {
@@ -219,7 +221,16 @@ class JUnitReporter implements ReporterV2 {
     return this._addFailureEntry(test, classifyTestError(test), entry);
   }
 
-  private _addFailureEntry(test: TestCase, errorInfo: ErrorInfo | null, entry: XMLEntry): 'failure' | 'error' {
+  private _addFailureEntry(test: TestCase, errorInfo: ErrorInfo | null, entry: XMLEntry): 'failure' | 'error' | 'quarantined' {
+    // Quarantined failures do not block the run, so report them as skipped with failure details.
+    if (isQuarantined(test)) {
+      entry.children!.push({
+        name: 'skipped',
+        attributes: { message: `Quarantined test failed${errorInfo ? ': ' + errorInfo.message : ''}` },
+        text: stripAnsiEscapes(formatFailure(nonTerminalScreen, this.config, test, undefined, { omitTags: this.omitTags }))
+      });
+      return 'quarantined';
+    }
     if (errorInfo) {
       entry.children!.push({
         name: errorInfo.elementName,
@@ -18,7 +18,7 @@ import { serializeError } from '../util';
 
 import type { ReportConfigureParams, ReportEndParams, ReporterPreprocessParams, ReporterV2 } from './reporterV2';
 import type { FullConfig, FullResult, TestCase, TestError, TestResult, TestStep, WorkerInfo } from '../../types/testReporter';
-import type { test } from '../common';
+import type { coverage, test } from '../common';
 
 export class Multiplexer implements ReporterV2 {
   private _reporters: ReporterV2[];
@@ -80,6 +80,11 @@ export class Multiplexer implements ReporterV2 {
       this._wrap(() => reporter.onTestEnd?.(test, result));
   }
 
+  onCoverage(data: coverage.CoverageData) {
+    for (const reporter of this._reporters)
+      this._wrap(() => reporter.onCoverage?.(data));
+  }
+
   onReportConfigure(params: ReportConfigureParams): void {
     for (const reporter of this._reporters)
       this._wrap(() => reporter.onReportConfigure?.(params));
@@ -15,6 +15,7 @@
  */
 
 import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestError, TestResult, TestRun, TestStep, WorkerInfo } from '../../types/testReporter';
+import type { coverage } from '../common';
 
 export interface ReportConfigureParams {
   config: FullConfig;
@@ -41,6 +42,7 @@ export interface ReporterV2 {
   onStdErr?(chunk: string | Buffer, test?: TestCase, result?: TestResult): void;
   onTestPaused?(test: TestCase, result: TestResult): Promise<void>;
   onTestEnd?(test: TestCase, result: TestResult): void;
+  onCoverage?(data: coverage.CoverageData): void;
   onReportConfigure?(params: ReportConfigureParams): void;
   onReportEnd?(params: ReportEndParams): void;
   onEnd?(result: FullResult): Promise<{ status?: FullResult['status'] } | undefined | void> | void;
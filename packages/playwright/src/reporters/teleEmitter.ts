@@ -24,6 +24,7 @@ import type { ReporterV2 } from './reporterV2';
 import type * as reporterTypes from '../../types/testReporter';
 import type { TestAnnotation } from '../../types/test';
 import type * as teleReceiver from '../isomorphic/teleReceiver';
+import type { CoverageData } from '../common/coverage';
 
 export type TeleReporterEmitterOptions = {
   omitOutput?: boolean;
@@ -108,6 +109,13 @@ export class TeleReporterEmitter implements ReporterV2 {
     this._resultKnownErrorCounts.delete(resultId);
   }
 
+  onCoverage(coverage: CoverageData): void {
+    this._messageSink({
+      method: 'onCoverage',
+      params: { coverage }
+    });
+  }
+
   onStepBegin(test: reporterTypes.TestCase, result: reporterTypes.TestResult, step: reporterTypes.TestStep): void {
     (step as any)[this._idSymbol] = createGuid();
     this._messageSink({
@@ -0,0 +1,286 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'path';
+
+import colors from 'colors/safe';
+
+import { Dispatcher } from './dispatcher';
+import { buildTeardownToSetupsMap } from './projectUtils';
+import { createReportBeginTask, TestRun } from './tasks';
+import { createTestGroups } from './testGroups';
+import { suiteUtils } from '../common';
+import { InternalReporter } from '../reporters/internalReporter';
+
+import type { EnvByProjectId } from './dispatcher';
+import type { Task } from './taskRunner';
+import type { TestGroup } from './testGroups';
+import type { test as testNs, config as commonConfig } from '../common';
+import type { TestAnnotation } from '../../types/test';
+
+type ProjectGroups = { project: commonConfig.FullProjectInternal, testGroups: TestGroup[] };
+
+type BisectState = {
+  // Tests to run in the final replay, in the worker order, ending with the target.
+  sequence: testNs.TestCase[];
+  // Environment produced by the setup projects the target depends on.
+  extraEnvByProjectId: EnvByProjectId;
+  // Teardown projects of those setup projects.
+  teardownProjects: ProjectGroups[];
+};
+
+export function createBisectTasks(testId: string): Task<TestRun>[] {
+  const state: BisectState = { sequence: [], extraEnvByProjectId: new Map(), teardownProjects: [] };
+  return [
+    createBisectSearchTask(testId, state),
+    createReportBeginTask(),
+    createBisectReplayTask(state),
+  ];
+}
+
+function createBisectSearchTask(testId: string, state: BisectState): Task<TestRun> {
+  return {
+    title: 'bisect',
+    setup: async testRun => {
+      const target = testRun.rootSuite!.allTests().find(test => test.id === testId);
+      if (!target)
+        throw new Error(`Test with id "${testId}" not found, use "--list --reporter=json" to see test ids`);
+      const project = testRun.rootSuite!.suites.find(suite => suite._fullProject?.id === target._projectId)!._fullProject!;
+      const setups = projectGroups(testRun, setupProjects(project));
+      state.teardownProjects = projectGroups(testRun, teardownProjects(testRun, setups));
+      state.extraEnvByProjectId = await runProjects(testRun, setups, new Map());
+      const failedSetup = setups.find(({ testGroups }) => testGroups.some(group => group.tests.some(test => !test.ok())));
+      if (failedSetup)
+        throw new Error(`Setup project "${failedSetup.project.project.name}" failed, cannot bisect`);
+      // The target inherits the environment of its dependencies, same as in a regular run.
+      state.extraEnvByProjectId.set(project.id, inheritedEnv(testRun, project, state.extraEnvByProjectId));
+      state.sequence = await bisect(testRun, target, state.extraEnvByProjectId);
+      // Only the minimal sequence is reported, so that the failure is visible to the reporters.
+      const sequence = new Set(state.sequence);
+      suiteUtils.filterTestsRemoveEmptySuites(testRun.rootSuite!, test => sequence.has(test));
+      testRun.config.config.metadata.actualWorkers = 1;
+    },
+    teardown: async testRun => {
+      // Runs after the replay, and also when the setup projects failed.
+      await runProjects(testRun, state.teardownProjects, state.extraEnvByProjectId);
+    },
+  };
+}
+
+function createBisectReplayTask(state: BisectState): Task<TestRun> {
+  return {
+    title: 'bisect replay',
+    setup: async testRun => {
+      const dispatcher = new Dispatcher(testRun, { workers: 1 });
+      await dispatcher.run(groupsForTests(state.sequence), state.extraEnvByProjectId);
+      await dispatcher.stop();
+    },
+  };
+}
+
+async function bisect(testRun: TestRun, target: testNs.TestCase, extraEnvByProjectId: EnvByProjectId): Promise<testNs.TestCase[]> {
+  const candidates = precedingTests(testRun, target);
+  const bisector = new Bisector(testRun, target, extraEnvByProjectId);
+  const log = (message: string) => testRun.reporter.onStdOut?.(colors.dim('[Bisect] ') + message + '\n');
+  log(`Replaying ${candidates.length} test${candidates.length === 1 ? '' : 's'} that run before ${formatTest(testRun, target)} in the same worker`);
+
+  if (await bisector.fails([])) {
+    log(`Test fails on its own`);
+    return [target];
+  }
+  if (!await bisector.fails(candidates)) {
+    log(`Could not reproduce the failure after preceding tests`);
+    return [...candidates, target];
+  }
+
+  // Invariant: candidates[0..end) + required make the target fail.
+  const required: testNs.TestCase[] = [];
+  let end = candidates.length;
+  do {
+    // Nothing left to search: the failure depends on the timing rather than on the preceding tests.
+    if (!end) {
+      log(`No culprit found, the test might be flaky`);
+      return [...candidates, target];
+    }
+    // Find the shortest prefix that still makes the target fail, its last test is required.
+    let low = 1;
+    let high = end;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (await bisector.fails([...candidates.slice(0, mid), ...required]))
+        high = mid;
+      else
+        low = mid + 1;
+    }
+    required.unshift(candidates[low - 1]);
+    end = low - 1;
+    log(`Found ${formatTest(testRun, candidates[low - 1])} after ${bisector.attempts} runs`);
+  } while (!await bisector.fails(required));
+
+  log(`Test fails when run after:`);
+  for (const test of required)
+    log(`  ${formatTest(testRun, test)}`);
+  return [...required, target];
+}
+
+class Bisector {
+  private _testRun: TestRun;
+  private _target: testNs.TestCase;
+  private _extraEnvByProjectId: EnvByProjectId;
+  private _initialState = new Map<testNs.TestCase, { expectedStatus: testNs.TestCase['expectedStatus'], annotations: TestAnnotation[], retries: number }>();
+  attempts = 0;
+
+  constructor(testRun: TestRun, target: testNs.TestCase, extraEnvByProjectId: EnvByProjectId) {
+    this._testRun = testRun;
+    this._target = target;
+    this._extraEnvByProjectId = extraEnvByProjectId;
+  }
+
+  async fails(tests: testNs.TestCase[]): Promise<boolean> {
+    ++this.attempts;
+    const sequence = [...tests, this._target];
+    this._reset(sequence);
+    // Retries would hide the failure.
+    for (const test of sequence)
+      test.retries = 0;
+    const dispatcher = new Dispatcher(silentTestRun(this._testRun), { workers: 1, ignoreMaxFailures: true });
+    await dispatcher.run(groupsForTests(sequence), this._extraEnvByProjectId);
+    await dispatcher.stop();
+    const failed = this._target.outcome() === 'unexpected';
+    this._reset(sequence);
+    return failed;
+  }
+
+  private _reset(tests: testNs.TestCase[]) {
+    for (const test of tests) {
+      if (!this._initialState.has(test))
+        this._initialState.set(test, { expectedStatus: test.expectedStatus, annotations: test.annotations, retries: test.retries });
+      const { expectedStatus, annotations, retries } = this._initialState.get(test)!;
+      test.expectedStatus = expectedStatus;
+      test.annotations = annotations;
+      test.retries = retries;
+      test.results = [];
+    }
+  }
+}
+
+function silentTestRun(testRun: TestRun): TestRun {
+  // Bisect attempts and the setup projects they depend on are not reported.
+  const reporter = new InternalReporter([]);
+  reporter.onConfigure(testRun.config.config);
+  return new TestRun(testRun.config, reporter);
+}
+
+function setupProjects(project: commonConfig.FullProjectInternal): commonConfig.FullProjectInternal[] {
+  // Setup projects in the order they have to run: every project comes after its dependencies.
+  const result: commonConfig.FullProjectInternal[] = [];
+  const visit = (p: commonConfig.FullProjectInternal) => {
+    for (const dep of p.deps) {
+      if (!result.includes(dep)) {
+        visit(dep);
+        result.push(dep);
+      }
+    }
+  };
+  visit(project);
+  return result;
+}
+
+function teardownProjects(testRun: TestRun, setupProjects: ProjectGroups[]): commonConfig.FullProjectInternal[] {
+  const result: commonConfig.FullProjectInternal[] = [];
+  for (const [teardown, setups] of buildTeardownToSetupsMap(testRun.config.projects)) {
+    if (setupProjects.some(({ project }) => setups.includes(project)))
+      result.push(teardown);
+  }
+  return result;
+}
+
+function projectGroups(testRun: TestRun, projects: commonConfig.FullProjectInternal[]): ProjectGroups[] {
+  // Test groups are created upfront, the replay filters the tests out of the suites.
+  const result: ProjectGroups[] = [];
+  for (const project of projects) {
+    const projectSuite = testRun.rootSuite!.suites.find(suite => suite._fullProject === project);
+    if (projectSuite)
+      result.push({ project, testGroups: createTestGroups(projectSuite, testRun.config.config.workers) });
+  }
+  return result;
+}
+
+function inheritedEnv(testRun: TestRun, project: commonConfig.FullProjectInternal, extraEnvByProjectId: EnvByProjectId): Record<string, string | undefined> {
+  const setups = buildTeardownToSetupsMap(testRun.config.projects).get(project) || [];
+  let extraEnv: Record<string, string | undefined> = {};
+  for (const dep of [...project.deps, ...setups])
+    extraEnv = { ...extraEnv, ...extraEnvByProjectId.get(dep.id) };
+  return extraEnv;
+}
+
+async function runProjects(testRun: TestRun, projects: ProjectGroups[], extraEnvByProjectId: EnvByProjectId): Promise<EnvByProjectId> {
+  const result: EnvByProjectId = new Map(extraEnvByProjectId);
+  for (const { project, testGroups } of projects) {
+    result.set(project.id, inheritedEnv(testRun, project, result));
+    const dispatcher = new Dispatcher(silentTestRun(testRun), {});
+    await dispatcher.run(testGroups, result);
+    await dispatcher.stop();
+    for (const [projectId, envProduced] of dispatcher.producedEnvByProjectId())
+      result.set(projectId, { ...result.get(projectId), ...envProduced });
+  }
+  return result;
+}
+
+function precedingTests(testRun: TestRun, target: testNs.TestCase): testNs.TestCase[] {
+  // Tests with the same worker hash may share the worker, in the order of the test groups.
+  const projectSuite = testRun.rootSuite!.suites.find(suite => suite._fullProject?.id === target._projectId)!;
+  const result: testNs.TestCase[] = [];
+  for (const group of createTestGroups(projectSuite, 1)) {
+    if (group.workerHash !== target._workerHash)
+      continue;
+    for (const test of group.tests) {
+      if (test === target)
+        return result;
+      if (test.expectedStatus !== 'skipped')
+        result.push(test);
+    }
+  }
+  return result;
+}
+
+function groupsForTests(tests: testNs.TestCase[]): TestGroup[] {
+  // Consecutive tests from the same file run as a single group, to keep their order.
+  const groups: TestGroup[] = [];
+  for (const test of tests) {
+    const last = groups[groups.length - 1];
+    if (last && last.requireFile === test._requireFile) {
+      last.tests.push(test);
+      continue;
+    }
+    groups.push({
+      workerHash: test._workerHash,
+      requireFile: test._requireFile,
+      repeatEachIndex: test.repeatEachIndex,
+      projectId: test._projectId,
+      tests: [test],
+      locks: [],
+    });
+  }
+  return groups;
+}
+
+function formatTest(testRun: TestRun, test: testNs.TestCase) {
+  // root, project, file, ...describes, test
+  const [, projectName, , ...titles] = test.titlePath();
+  const location = `${path.relative(testRun.config.config.rootDir, test.location.file)}:${test.location.line}:${test.location.column}`;
+  return `${projectName ? `[${projectName}] › ` : ''}${location} › ${titles.join(' › ')}`;
+}
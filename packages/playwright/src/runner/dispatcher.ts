@@ -19,12 +19,14 @@ import { ManualPromise } from '@isomorphic/manualPromise';
 import { eventsHelper } from '@utils/eventsHelper';
 
 import { addSuggestedRebaseline } from './rebase';
+import { WorkerAutoscaler, replayLoadSampler } from './workerAutoscaler';
 import { WorkerHost } from './workerHost';
 import { ipc, test as testNs } from '../common';
 import { addLocationAndSnippetToError } from '../reporters/internalReporter';
-import { serializeError } from '../util';
+import { isQuarantined, serializeError, stripAnsiEscapes } from '../util';
 
 import type { RegisteredListener } from '@utils/eventsHelper';
+import type { config as commonConfig } from '../common';
 import type { ProcessExitData } from './processHost';
 import type { TestRun } from './tasks';
 import type { TestGroup } from './testGroups';
@@ -32,41 +34,65 @@ import type { TestError, TestResult, TestStep } from '../../types/testReporter';
 
 export type EnvByProjectId = Map<string, Record<string, string | undefined>>;
 
+type JobResult = {
+  remainingJob?: TestGroup;
+  isolatedRetriesJob?: TestGroup;
+  // Immediate retries that wait for the retry policy backoff, instead of running with the remaining tests.
+  delayedRetriesJob?: TestGroup;
+  retryDelay?: number;
+  didFail: boolean;
+};
+
+const kAutoscaleInterval = 1000;
+
 export class Dispatcher {
   // Worker slot is claimed when it has jobDispatcher assigned.
   private _workerSlots: { worker?: WorkerHost, jobDispatcher?: JobDispatcher }[] = [];
   private _queue: TestGroup[] = [];
   private _isolatedJobs = new Set<TestGroup>();
+  private _delayedJobTimers = new Map<TestGroup, NodeJS.Timeout>();
   private _workerLimitPerProjectId = new Map<string, number>();
   private _queuedOrRunningHashCount = new Map<string, number>();
   private _finished = new ManualPromise<void>();
   private _isStopped = true;
   // Teardown phases keep running after maxFailures, so that cleanup is not skipped.
   private _ignoreMaxFailures: boolean;
+  // Overrides config.workers, e.g. to replay tests in a single worker.
+  private _workers: number | undefined;
+  // With "workers: 'auto'", only the first autoscaler.workers() slots are used.
+  private _autoscaler: WorkerAutoscaler | undefined;
+  private _autoscaleTimer: NodeJS.Timeout | undefined;
 
   private _testRun: TestRun;
 
   private _extraEnvByProjectId: EnvByProjectId = new Map();
   private _producedEnvByProjectId: EnvByProjectId = new Map();
 
-  constructor(testRun: TestRun, options: { ignoreMaxFailures?: boolean } = {}) {
+  constructor(testRun: TestRun, options: { ignoreMaxFailures?: boolean, workers?: number } = {}) {
     this._testRun = testRun;
     this._ignoreMaxFailures = !!options.ignoreMaxFailures;
+    this._workers = options.workers;
     for (const project of testRun.config.projects) {
       if (project.workers)
         this._workerLimitPerProjectId.set(project.id, project.workers);
     }
   }
 
-  private _heldLocks(): Set<string> {
-    const heldLocks = new Set<string>();
+  private _heldLocks(): Map<string, number> {
+    const heldLocks = new Map<string, number>();
     for (const slot of this._workerSlots) {
       for (const lock of slot.jobDispatcher?.job.locks || [])
-        heldLocks.add(lock);
+        heldLocks.set(lock, (heldLocks.get(lock) ?? 0) + 1);
     }
     return heldLocks;
   }
 
+  private _isLockAvailable(heldLocks: Map<string, number>, lock: string): boolean {
+    // Locks without a configured capacity are held by a single job at a time.
+    const capacity = this._testRun.config.locks[lock] ?? 1;
+    return (heldLocks.get(lock) ?? 0) < capacity;
+  }
+
   private _findFirstJobToRun() {
     const heldLocks = this._heldLocks();
     // Always pick the first job that can be run while respecting the project worker limit.
@@ -75,7 +101,10 @@ export class Dispatcher {
       // Isolated retries only run one at a time, after all other jobs have finished.
       if (this._isolatedJobs.has(job) && this._workerSlots.some(w => !!w.jobDispatcher))
         continue;
-      if (job.locks.some(lock => heldLocks.has(lock)))
+      // Retries with a backoff wait until their delay has passed.
+      if (this._delayedJobTimers.has(job))
+        continue;
+      if (!job.locks.every(lock => this._isLockAvailable(heldLocks, lock)))
         continue;
       const projectIdWorkerLimit = this._workerLimitPerProjectId.get(job.projectId);
       if (!projectIdWorkerLimit)
@@ -87,6 +116,14 @@ export class Dispatcher {
     return -1;
   }
 
+  private _isSlotActive(index: number) {
+    return !this._autoscaler || index < this._autoscaler.workers();
+  }
+
+  private _isSlotFree(index: number) {
+    return this._isSlotActive(index) && !this._workerSlots[index].jobDispatcher;
+  }
+
   private _scheduleJobs() {
     // Finishing a job releases its locks, which may unblock multiple queued jobs.
     while (this._scheduleJob()) {}
@@ -96,7 +133,7 @@ export class Dispatcher {
     // NOTE: keep this method synchronous for easier reasoning.
 
     // 0. No more running jobs after stop, no scheduling without a free worker.
-    if (this._isStopped || !this._workerSlots.some(w => !w.jobDispatcher))
+    if (this._isStopped || !this._workerSlots.some((w, index) => this._isSlotFree(index)))
       return false;
 
     // 1. Find a job to run.
@@ -106,9 +143,9 @@ export class Dispatcher {
     const job = this._queue[jobIndex];
 
     // 2. Find a worker with the same hash, or just some free worker.
-    let workerIndex = this._workerSlots.findIndex(w => !w.jobDispatcher && w.worker && w.worker.hash() === job.workerHash && !w.worker.didSendStop());
+    let workerIndex = this._workerSlots.findIndex((w, index) => this._isSlotFree(index) && w.worker && w.worker.hash() === job.workerHash && !w.worker.didSendStop());
     if (workerIndex === -1)
-      workerIndex = this._workerSlots.findIndex(w => !w.jobDispatcher);
+      workerIndex = this._workerSlots.findIndex((w, index) => this._isSlotFree(index));
     if (workerIndex === -1) {
       // No workers available, bail out.
       return false;
@@ -168,14 +205,7 @@ export class Dispatcher {
     const result = await jobDispatcher.jobResult;
     this._updateCounterForWorkerHash(job.workerHash, -1);
 
-    // 4. When worker encounters error, we stop it and create a new one.
-    //    We also do not keep the worker alive if it cannot serve any more jobs.
-    if (result.didFail)
-      void worker.stop(true /* didFail */);
-    else if (this._isWorkerRedundant(worker))
-      void worker.stop();
-
-    // 5. Possibly queue new jobs with leftover tests and/or retries.
+    // 4. Possibly queue new jobs with leftover tests and/or retries.
     if (!this._isStopped) {
       if (result.remainingJob) {
         this._queue.unshift(result.remainingJob);
@@ -186,7 +216,30 @@ export class Dispatcher {
         this._queue.push(result.isolatedRetriesJob);
         this._updateCounterForWorkerHash(result.isolatedRetriesJob.workerHash, +1);
       }
+      if (result.delayedRetriesJob) {
+        this._queue.push(result.delayedRetriesJob);
+        this._updateCounterForWorkerHash(result.delayedRetriesJob.workerHash, +1);
+      }
+      for (const retriesJob of [result.isolatedRetriesJob, result.delayedRetriesJob]) {
+        if (retriesJob && result.retryDelay)
+          this._delayJob(retriesJob, result.retryDelay);
+      }
     }
+
+    // 5. When worker encounters error, we stop it and create a new one.
+    //    We also do not keep the worker alive if it cannot serve any more jobs, including the retries queued above.
+    //    Workers that were retired by the autoscaler are stopped as well.
+    if (result.didFail)
+      void worker.stop(true /* didFail */);
+    else if (this._isWorkerRedundant(worker) || !this._isSlotActive(index))
+      void worker.stop();
+  }
+
+  private _delayJob(job: TestGroup, delay: number) {
+    this._delayedJobTimers.set(job, setTimeout(() => {
+      this._delayedJobTimers.delete(job);
+      this._scheduleJobs();
+    }, delay));
   }
 
   private _checkFinished() {
@@ -201,9 +254,40 @@ export class Dispatcher {
     if (this._workerSlots.some(w => !!w.jobDispatcher))
       return;
 
+    this._stopAutoscaling();
     this._finished.resolve();
   }
 
+  private _startAutoscaling() {
+    const autoscale = this._testRun.config.autoscale;
+    if (!autoscale || this._workers !== undefined)
+      return;
+    const samples = process.env.PWTEST_AUTOSCALE_SAMPLES;
+    this._autoscaler = new WorkerAutoscaler(autoscale.minWorkers, autoscale.maxWorkers, samples ? replayLoadSampler(JSON.parse(samples)) : undefined);
+    this._autoscaleTimer = setInterval(() => this._autoscale(), kAutoscaleInterval);
+  }
+
+  private _stopAutoscaling() {
+    clearInterval(this._autoscaleTimer);
+    this._autoscaleTimer = undefined;
+  }
+
+  private _autoscale() {
+    if (!this._autoscaler || this._isStopped)
+      return;
+    const decision = this._autoscaler.update(this._queue.length > 0);
+    if (!decision)
+      return;
+    this._testRun.reporter.onStdOut?.(colors.dim('[Autoscale] ') + decision.message + '\n');
+    // Idle workers in the retired slots are stopped right away, busy ones after their current job.
+    for (let index = decision.workers; index < this._workerSlots.length; index++) {
+      const slot = this._workerSlots[index];
+      if (!slot.jobDispatcher && slot.worker && !slot.worker.didSendStop())
+        void slot.worker.stop();
+    }
+    this._scheduleJobs();
+  }
+
   private _isWorkerRedundant(worker: WorkerHost) {
     let workersWithSameHash = 0;
     for (const slot of this._workerSlots) {
@@ -227,9 +311,10 @@ export class Dispatcher {
     // 0. Stop right away if we have reached max failures.
     if (!this._ignoreMaxFailures && this._testRun.hasReachedMaxFailures())
       void this.stop();
-    // 1. Allocate workers.
-    for (let i = 0; i < this._testRun.config.config.workers; i++)
+    // 1. Allocate workers. With autoscaling, this is the upper bound.
+    for (let i = 0; i < (this._workers ?? this._testRun.config.config.workers); i++)
       this._workerSlots.push({});
+    this._startAutoscaling();
     // 2. Schedule enough jobs.
     this._scheduleJobs();
     this._checkFinished();
@@ -302,13 +387,17 @@ export class Dispatcher {
     if (this._isStopped)
       return;
     this._isStopped = true;
+    this._stopAutoscaling();
+    for (const timer of this._delayedJobTimers.values())
+      clearTimeout(timer);
+    this._delayedJobTimers.clear();
     await Promise.all(this._workerSlots.map(({ worker }) => worker?.stop()));
     this._checkFinished();
   }
 }
 
 class JobDispatcher {
-  jobResult = new ManualPromise<{ remainingJob?: TestGroup, isolatedRetriesJob?: TestGroup, didFail: boolean }>();
+  jobResult = new ManualPromise<JobResult>();
 
   readonly job: TestGroup;
   private _testRun: TestRun;
@@ -322,12 +411,15 @@ class JobDispatcher {
   private _parallelIndex = 0;
   private _workerIndex = 0;
   private _currentlyRunning: { test: testNs.TestCase, result: TestResult } | undefined;
+  private _retryPolicy: commonConfig.FullProjectInternal['retryPolicy'];
+  private _retryDelays = new Map<testNs.TestCase, number>();
 
   constructor(job: TestGroup, testRun: TestRun, onMaxFailuresReached?: () => void) {
     this.job = job;
     this._testRun = testRun;
     this._onMaxFailuresReached = onMaxFailuresReached;
     this._remainingByTestId = new Map(this.job.tests.map(e => [e.id, e]));
+    this._retryPolicy = testRun.config.projects.find(p => p.id === job.projectId)?.retryPolicy;
   }
 
   private _isStoppedByMaxFailures() {
@@ -461,6 +553,10 @@ class JobDispatcher {
     }
   }
 
+  private _onCoverage(params: ipc.CoveragePayload) {
+    this._testRun.reporter.onCoverage?.(params.coverage);
+  }
+
   private _failTestWithErrors(test: testNs.TestCase, errors: TestError[]) {
     const runData = this._dataByTestId.get(test.id);
     // There might be a single test that has started but has not finished yet.
@@ -571,20 +667,63 @@ class JobDispatcher {
 
     const remaining = [...this._remainingByTestId.values()];
     const isolatedRetries: testNs.TestCase[] = [];
+    const delayedRetries: testNs.TestCase[] = [];
+    let retryDelay = 0;
     for (const test of retryCandidates) {
       if (test.results.length < test.retries + 1) {
-        // Immediate retries run together with the remaining tests, in a single job.
-        if (this._testRun.config.retryStrategy === 'immediate')
-          remaining.push(test);
-        else
+        const delay = this._retryDelays.get(test) ?? 0;
+        retryDelay = Math.max(retryDelay, delay);
+        // Immediate retries run together with the remaining tests, in a single job, unless they have to wait.
+        if (this._testRun.config.retryStrategy === 'isolated')
           isolatedRetries.push(test);
+        else if (delay)
+          delayedRetries.push(test);
+        else
+          remaining.push(test);
       }
     }
 
-    // This job is over, we will schedule new jobs for the remaining tests and isolated retries.
+    // This job is over, we will schedule new jobs for the remaining tests and retries.
     const remainingJob = remaining.length ? { ...this.job, tests: remaining } : undefined;
     const isolatedRetriesJob = isolatedRetries.length ? { ...this.job, tests: isolatedRetries } : undefined;
-    this._finished({ didFail: true, remainingJob, isolatedRetriesJob });
+    const delayedRetriesJob = delayedRetries.length ? { ...this.job, tests: delayedRetries } : undefined;
+    // Workers that are kept after test failures by the retry policy do not need a restart.
+    const didFail = !(this._retryPolicy?.worker === 'same' && params.canReuseWorker);
+    this._finished({ didFail, remainingJob, isolatedRetriesJob, delayedRetriesJob, retryDelay });
+  }
+
+  private _applyRetryPolicy(test: testNs.TestCase, result: TestResult): boolean {
+    test._retryAnnotation = undefined;
+    const policy = this._retryPolicy;
+    if (!policy || test.results.length > test.retries)
+      return true;
+
+    const details: string[] = [];
+    if (policy.errors) {
+      const pattern = policy.errors.find(pattern => result.errors.some(error => matchesErrorPattern(error, pattern)));
+      if (pattern === undefined)
+        return false;
+      details.push(`error matched ${typeof pattern === 'string' ? JSON.stringify(pattern) : String(pattern)}`);
+    }
+
+    if (policy.budget !== undefined) {
+      const used = this._testRun.retriesByProjectId.get(this.job.projectId) ?? 0;
+      if (used >= policy.budget)
+        return false;
+      this._testRun.retriesByProjectId.set(this.job.projectId, used + 1);
+    }
+
+    if (policy.backoff) {
+      const { delay, factor = 2, maxDelay = Infinity } = policy.backoff;
+      const retryDelay = Math.min(maxDelay, delay * Math.pow(factor, test.results.length - 1));
+      this._retryDelays.set(test, retryDelay);
+      details.push(`after ${retryDelay}ms backoff`);
+    }
+    details.push(policy.worker === 'same' ? 'in the same worker' : 'in a fresh worker');
+    if (policy.budget !== undefined)
+      details.push(`${this._testRun.retriesByProjectId.get(this.job.projectId)} of ${policy.budget} retries used`);
+    test._retryAnnotation = { type: 'retry', description: `Retry #${test.results.length}: ${details.join(', ')}` };
+    return true;
   }
 
   onExit(data: ProcessExitData) {
@@ -594,7 +733,7 @@ class JobDispatcher {
     this._onDone({ skipTestsDueToSetupFailure: [], fatalErrors: [], unexpectedExitError });
   }
 
-  private _finished(result: { remainingJob?: TestGroup, isolatedRetriesJob?: TestGroup, didFail: boolean }) {
+  private _finished(result: JobResult) {
     eventsHelper.removeEventListeners(this._listeners);
     this.jobResult.resolve(result);
   }
@@ -606,7 +745,8 @@ class JobDispatcher {
     const runPayload: ipc.RunPayload = {
       file: this.job.requireFile,
       entries: this.job.tests.map(test => {
-        return { testId: test.id, retry: test.results.length, planAnnotations: test._planAnnotations };
+        const planAnnotations = test._retryAnnotation ? [...test._planAnnotations, test._retryAnnotation] : test._planAnnotations;
+        return { testId: test.id, retry: test.results.length, planAnnotations };
       }),
     };
     worker.runTestGroup(runPayload);
@@ -617,6 +757,7 @@ class JobDispatcher {
       eventsHelper.addEventListener(worker, 'stepBegin', this._onStepBegin.bind(this)),
       eventsHelper.addEventListener(worker, 'stepEnd', this._onStepEnd.bind(this)),
       eventsHelper.addEventListener(worker, 'attach', this._onAttach.bind(this)),
+      eventsHelper.addEventListener(worker, 'coverage', this._onCoverage.bind(this)),
       eventsHelper.addEventListener(worker, 'testPaused', this._onTestPaused.bind(this, worker)),
       eventsHelper.addEventListener(worker, 'done', this._onDone.bind(this)),
       eventsHelper.addEventListener(worker, 'exit', this.onExit.bind(this)),
@@ -683,10 +824,14 @@ class JobDispatcher {
   }
 
   private _reportTestEnd(test: testNs.TestCase, result: TestResult) {
+    const isFailure = result.status !== 'skipped' && result.status !== test.expectedStatus;
+    if (isFailure && !this._isStoppedByMaxFailures() && !this._failedWithNonRetriableError.has(test) && !this._applyRetryPolicy(test, result))
+      this._addNonretriableTestAndSerialModeParents(test);
     this._testRun.reporter.onTestEnd?.(test, result);
     const hadMaxFailures = this._isStoppedByMaxFailures();
-    // Test is considered failing after the last retry.
-    if (test.outcome() === 'unexpected' && test.results.length > test.retries)
+    // Test is considered failing after the last retry, or when it cannot be retried.
+    const isLastRun = test.results.length > test.retries || this._failedWithNonRetriableError.has(test);
+    if (test.outcome() === 'unexpected' && isLastRun && !isQuarantined(test))
       ++this._testRun.failedTestCount;
     if (!hadMaxFailures && this._isStoppedByMaxFailures()) {
       this._onMaxFailuresReached?.();
@@ -695,6 +840,13 @@ class JobDispatcher {
   }
 }
 
+function matchesErrorPattern(error: TestError, pattern: string | RegExp): boolean {
+  const message = stripAnsiEscapes(error.message ?? error.value ?? '');
+  if (typeof pattern === 'string')
+    return message.includes(pattern);
+  return pattern.test(message);
+}
+
 function chunkFromParams(params: ipc.TestOutputPayload): string | Buffer {
   if (typeof params.text === 'string')
     return params.text;
@@ -20,10 +20,17 @@ import path from 'path';
 import type { FullResult, Suite, TestCase } from '../../types/testReporter';
 import type { config as commonConfig } from '../common';
 import type { ReporterV2 } from '../reporters/reporterV2';
+import type { TestRun } from './tasks';
 
-type LastRunInfo = {
+export type TestOutcome = ReturnType<TestCase['outcome']>;
+
+export type LastRunInfo = {
   status: FullResult['status'];
   failedTests: string[];
+  // Total duration of all results per test id, used for balancing shards.
+  testDurations?: { [testId: string]: number };
+  // Outcomes of the most recent runs per test id, oldest first.
+  testHistory?: { [testId: string]: TestOutcome[] };
 };
 
 function didNotRun(test: TestCase): boolean {
@@ -38,9 +45,14 @@ export class LastRunReporter implements ReporterV2 {
   private _lastRunFile: string | undefined;
   private _suite: Suite | undefined;
   private _listMode: boolean;
+  private _historySize: number;
+  private _previousRun: LastRunInfo | undefined;
+  private _lastRun: LastRunInfo | undefined;
+  private _testRun: TestRun | undefined;
 
-  constructor(filteredProjects: commonConfig.FullProjectInternal[], listMode?: boolean, lastFailedFileOverride?: string) {
+  constructor(filteredProjects: commonConfig.FullProjectInternal[], listMode?: boolean, lastFailedFileOverride?: string, historySize?: number) {
     this._listMode = !!listMode;
+    this._historySize = historySize ?? 0;
     const override = lastFailedFileOverride ?? process.env.PLAYWRIGHT_LAST_RUN_OUTPUT_FILE;
     if (override) {
       this._lastRunFile = path.resolve(process.cwd(), override);
@@ -51,17 +63,29 @@ export class LastRunReporter implements ReporterV2 {
     }
   }
 
-  async filterLastFailed(): Promise<string[] | undefined> {
+  // Must be called before the output directory is cleared.
+  async loadPreviousRun(): Promise<void> {
     if (!this._lastRunFile)
-      return undefined;
+      return;
     try {
-      const lastRunInfo = JSON.parse(await fs.promises.readFile(this._lastRunFile, 'utf8')) as LastRunInfo;
-      return lastRunInfo.failedTests;
+      this._previousRun = JSON.parse(await fs.promises.readFile(this._lastRunFile, 'utf8')) as LastRunInfo;
     } catch {
-      return undefined;
+      this._previousRun = undefined;
     }
   }
 
+  filterLastFailed(): string[] | undefined {
+    return this._previousRun?.failedTests;
+  }
+
+  setTestRun(testRun: TestRun) {
+    this._testRun = testRun;
+  }
+
+  lastRun(): LastRunInfo | undefined {
+    return this._lastRun;
+  }
+
   version(): 'v2' {
     return 'v2';
   }
@@ -77,11 +101,56 @@ export class LastRunReporter implements ReporterV2 {
   async onEnd(result: FullResult) {
     if (!this._lastRunFile || this._listMode)
       return;
+    const tests = this._suite?.allTests() ?? [];
     const lastRunInfo: LastRunInfo = {
       status: result.status,
-      failedTests: this._suite?.allTests().filter(t => !t.ok() || didNotRun(t)).map(t => t.id) || [],
+      failedTests: tests.filter(t => !t.ok() || didNotRun(t)).map(t => t.id),
+      testDurations: this._collectTestDurations(tests),
     };
+    if (this._historySize)
+      lastRunInfo.testHistory = this._collectTestHistory(tests);
+    this._lastRun = lastRunInfo;
     await fs.promises.mkdir(path.dirname(this._lastRunFile), { recursive: true });
     await fs.promises.writeFile(this._lastRunFile, JSON.stringify(lastRunInfo, undefined, 2));
   }
+
+  private _collectTestDurations(tests: TestCase[]): LastRunInfo['testDurations'] {
+    // Keep durations of the tests that did not run this time, e.g. when sharding or filtering,
+    // but drop the tests that were removed or renamed.
+    const isStale = this._staleTestMatcher();
+    const testDurations: NonNullable<LastRunInfo['testDurations']> = {};
+    for (const [testId, duration] of Object.entries(this._previousRun?.testDurations ?? {})) {
+      if (!isStale(testId))
+        testDurations[testId] = duration;
+    }
+    for (const test of tests) {
+      if (didNotRun(test))
+        continue;
+      testDurations[test.id] = test.results.reduce((total, result) => total + result.duration, 0);
+    }
+    return testDurations;
+  }
+
+  private _staleTestMatcher(): (testId: string) => boolean {
+    const testRun = this._testRun;
+    // Test ids do not tell the project apart, so only prune when all projects were loaded.
+    if (!testRun?.rootSuite || testRun.filteredProjects.length !== testRun.config.projects.length)
+      return () => false;
+    // Test ids start with the id of their file. Tests from the files that were not loaded
+    // are only known to be removed when no file filters were applied.
+    const fileId = (testId: string) => testId.split('-')[0];
+    const loadedFileIds = new Set([...testRun.loadedTestIds].map(fileId));
+    const loadedAllFiles = !testRun.loadFileFilters.length;
+    return testId => loadedFileIds.has(fileId(testId)) ? !testRun.loadedTestIds.has(testId) : loadedAllFiles;
+  }
+
+  private _collectTestHistory(tests: TestCase[]): LastRunInfo['testHistory'] {
+    const testHistory = { ...this._previousRun?.testHistory };
+    for (const test of tests) {
+      if (didNotRun(test))
+        continue;
+      testHistory[test.id] = [...testHistory[test.id] ?? [], test.outcome()].slice(-this._historySize);
+    }
+    return testHistory;
+  }
 }
@@ -123,12 +123,15 @@ export async function createRootSuite(testRun: TestRun, errors: TestError[], sho
   const rootSuite = new testNs.Suite('', 'root');
   const projectSuites = new Map<commonConfig.FullProjectInternal, testNs.Suite>();
   const filteredProjectSuites = new Map<commonConfig.FullProjectInternal, testNs.Suite>();
+  const loadedTestIds = new Set<string>();
 
   // Filter all the projects using grep, testId, file names, etc.
   {
     for (const [project, fileSuites] of testRun.projectSuites) {
       const projectSuite = createProjectSuite(project, fileSuites);
       projectSuites.set(project, projectSuite);
+      for (const test of projectSuite.allTests())
+        loadedTestIds.add(test.id);
 
       const filteredProjectSuite = filterProjectSuite(projectSuite, testRun.preOnlyTestFilters);
       filteredProjectSuites.set(project, filteredProjectSuite);
@@ -199,7 +202,7 @@ export async function createRootSuite(testRun: TestRun, errors: TestError[], sho
     }
 
     // Shard test groups.
-    const testGroupsInThisShard = filterForShard(config.config.shard, testRun.options.shardWeights, testGroups);
+    const testGroupsInThisShard = filterForShard(config.config.shard, testRun.options.shardWeights, testGroups, testRun.options.shardTimings);
     const testsInThisShard = new Set<testNs.TestCase>();
     for (const group of testGroupsInThisShard) {
       for (const test of group.tests)
@@ -230,6 +233,7 @@ export async function createRootSuite(testRun: TestRun, errors: TestError[], sho
   rootSuite._entries.sort((a, b) => config.projects.indexOf((a as testNs.Suite)._fullProject!) - config.projects.indexOf((b as testNs.Suite)._fullProject!));
 
   testRun.rootSuite = rootSuite;
+  testRun.loadedTestIds = loadedTestIds;
   testRun.topLevelProjects = topLevelProjects;
 }
 
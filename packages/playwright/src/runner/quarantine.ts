@@ -0,0 +1,100 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { FullConfigInternal, test as testNs } from '../common';
+import type { LastRunInfo } from './lastRun';
+
+type QuarantineManifest = {
+  tests: { id: string, title: string }[];
+};
+
+export type QuarantineUpdate = {
+  added: string[];
+  removed: string[];
+};
+
+async function readManifest(file: string): Promise<QuarantineManifest> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, 'utf8');
+  } catch {
+    // Missing manifest means nothing is quarantined yet.
+    return { tests: [] };
+  }
+  let manifest: QuarantineManifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Quarantine manifest "${file}" is not a valid JSON file: ${e.message}`);
+  }
+  if (!manifest || !Array.isArray(manifest.tests))
+    throw new Error(`Quarantine manifest "${file}" must contain a "tests" array`);
+  return manifest;
+}
+
+export async function loadQuarantinedTestIds(config: FullConfigInternal): Promise<Set<string> | undefined> {
+  if (!config.quarantine)
+    return undefined;
+  const manifest = await readManifest(config.quarantine.file);
+  return new Set(manifest.tests.map(test => test.id));
+}
+
+export function applyQuarantine(config: FullConfigInternal, rootSuite: testNs.Suite, quarantinedTestIds: Set<string>) {
+  const description = `Listed in ${path.relative(config.configDir, config.quarantine!.file)}`;
+  for (const test of rootSuite.allTests()) {
+    if (quarantinedTestIds.has(test.id))
+      test._applyPlanAnnotation({ type: 'quarantine', description });
+  }
+}
+
+export async function updateQuarantineManifest(config: FullConfigInternal, rootSuite: testNs.Suite | undefined, lastRun: LastRunInfo | undefined): Promise<QuarantineUpdate> {
+  const { file, flakyRuns, lastRuns } = config.quarantine!;
+  const manifest = await readManifest(file);
+  const testHistory = lastRun?.testHistory ?? {};
+  const update: QuarantineUpdate = { added: [], removed: [] };
+
+  const tests = new Map<string, { id: string, title: string }>();
+  for (const entry of manifest.tests) {
+    const history = testHistory[entry.id] ?? [];
+    // Release the test once it was stable in all of the recent runs.
+    if (history.length >= lastRuns && history.every(outcome => outcome === 'expected' || outcome === 'skipped')) {
+      update.removed.push(entry.title);
+      continue;
+    }
+    tests.set(entry.id, entry);
+  }
+
+  for (const test of rootSuite?.allTests() ?? []) {
+    if (tests.has(test.id))
+      continue;
+    const history = testHistory[test.id] ?? [];
+    if (history.filter(outcome => outcome === 'flaky').length < flakyRuns)
+      continue;
+    const entry = { id: test.id, title: test.titlePath().filter(Boolean).join(' › ') };
+    tests.set(test.id, entry);
+    update.added.push(entry.title);
+  }
+
+  if (update.added.length || update.removed.length) {
+    const result: QuarantineManifest = { tests: [...tests.values()] };
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(result, undefined, 2) + '\n');
+  }
+  return update;
+}
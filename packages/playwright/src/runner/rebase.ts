@@ -34,7 +34,7 @@ type Location = {
   column: number;
 };
 
-type Replacement = {
+export type Replacement = {
   // Points to the call expression.
   location: Location;
   code: string;
@@ -67,47 +67,7 @@ export async function applySuggestedRebaselines(config: FullConfigInternal, repo
 
   for (const fileName of [...suggestedRebaselines.keys()].sort()) {
     const source = await fs.promises.readFile(fileName, 'utf8');
-    const lines = source.split('\n');
-    const replacements = suggestedRebaselines.get(fileName);
-    const fileNode = babel.babelParse(source, fileName, true);
-    const ranges: { start: number, end: number, oldText: string, newText: string }[] = [];
-
-    babel.traverse(fileNode, {
-      CallExpression: path => {
-        const node = path.node;
-        if (node.arguments.length < 1)
-          return;
-        if (!t.isMemberExpression(node.callee))
-          return;
-        const argument = node.arguments[0];
-        if (!t.isStringLiteral(argument) && !t.isTemplateLiteral(argument))
-          return;
-        const prop = node.callee.property;
-        if (!prop.loc || !argument.start || !argument.end)
-          return;
-        // Replacements are anchored by the location of the call expression.
-        // However, replacement text is meant to only replace the first argument.
-        for (const replacement of replacements) {
-          // In Babel, rows are 1-based, columns are 0-based.
-          if (prop.loc.start.line !== replacement.location.line)
-            continue;
-          if (prop.loc.start.column + 1 !== replacement.location.column)
-            continue;
-          const indent = lines[prop.loc.start.line - 1].match(/^\s*/)![0];
-          const newText = replacement.code.replace(/\{indent\}/g, indent);
-          ranges.push({ start: argument.start, end: argument.end, oldText: source.substring(argument.start, argument.end), newText });
-          // We can have multiple, hopefully equal, replacements for the same location,
-          // for example when a single test runs multiple times because of projects or retries.
-          // Do not apply multiple replacements for the same assertion.
-          break;
-        }
-      }
-    });
-
-    ranges.sort((a, b) => b.start - a.start);
-    let result = source;
-    for (const range of ranges)
-      result = result.substring(0, range.start) + range.newText + result.substring(range.end);
+    const { result } = applyReplacements(fileName, source, suggestedRebaselines.get(fileName));
 
     const relativeName = path.relative(process.cwd(), fileName);
     files.push(relativeName);
@@ -132,6 +92,53 @@ export async function applySuggestedRebaselines(config: FullConfigInternal, repo
   }
 }
 
+// Replacements that do not match any call expression, for example because the file has changed, are not applied.
+export function applyReplacements(fileName: string, source: string, replacements: Replacement[]): { result: string, matched: Set<Replacement> } {
+  const lines = source.split('\n');
+  const fileNode = babel.babelParse(source, fileName, true);
+  const ranges: { start: number, end: number, oldText: string, newText: string }[] = [];
+  const matched = new Set<Replacement>();
+
+  babel.traverse(fileNode, {
+    CallExpression: path => {
+      const node = path.node;
+      if (node.arguments.length < 1)
+        return;
+      if (!t.isMemberExpression(node.callee))
+        return;
+      const argument = node.arguments[0];
+      if (!t.isStringLiteral(argument) && !t.isTemplateLiteral(argument))
+        return;
+      const prop = node.callee.property;
+      if (!prop.loc || !argument.start || !argument.end)
+        return;
+      // Replacements are anchored by the location of the call expression.
+      // However, replacement text is meant to only replace the first argument.
+      for (const replacement of replacements) {
+        // In Babel, rows are 1-based, columns are 0-based.
+        if (prop.loc.start.line !== replacement.location.line)
+          continue;
+        if (prop.loc.start.column + 1 !== replacement.location.column)
+          continue;
+        const indent = lines[prop.loc.start.line - 1].match(/^\s*/)![0];
+        const newText = replacement.code.replace(/\{indent\}/g, indent);
+        ranges.push({ start: argument.start, end: argument.end, oldText: source.substring(argument.start, argument.end), newText });
+        matched.add(replacement);
+        // We can have multiple, hopefully equal, replacements for the same location,
+        // for example when a single test runs multiple times because of projects or retries.
+        // Do not apply multiple replacements for the same assertion.
+        break;
+      }
+    }
+  });
+
+  ranges.sort((a, b) => b.start - a.start);
+  let result = source;
+  for (const range of ranges)
+    result = result.substring(0, range.start) + range.newText + result.substring(range.end);
+  return { result, matched };
+}
+
 function createPatch(fileName: string, before: string, after: string) {
   const file = fileName.replace(/\\/g, '/');
   const text = diff.createPatch(file, before, after, undefined, undefined, { context: 3 });
@@ -19,6 +19,7 @@ import { calculateSha1 } from '@utils/crypto';
 import { loadReporter } from './loadUtils';
 import { formatError } from '../reporters/base';
 import { BlobReporter } from '../reporters/blob';
+import { CoverageReporter } from '../reporters/coverage';
 import DotReporter from '../reporters/dot';
 import EmptyReporter from '../reporters/empty';
 import GitHubReporter from '../reporters/github';
@@ -51,7 +52,8 @@ export async function createReporters(config: FullConfigInternal, mode: 'list' |
   };
   const reporters: ReporterV2[] = [];
   descriptions ??= config.config.reporter;
-  const reportOptions = reporterCommandOptions(config, mode, runOptions);
+  const coverageReporter = config.coverage && mode !== 'list' ? new CoverageReporter(config.coverage, config.configDir) : undefined;
+  const reportOptions = reporterCommandOptions(config, mode, runOptions, coverageReporter);
   for (const r of descriptions) {
     const [name, arg] = r;
     const options = { ...reportOptions, ...arg };
@@ -81,6 +83,8 @@ export async function createReporters(config: FullConfigInternal, mode: 'list' |
     else if (mode !== 'merge')
       reporters.unshift(!process.env.CI ? new LineReporter() : new DotReporter());
   }
+  if (coverageReporter)
+    reporters.push(coverageReporter);
   return reporters;
 }
 
@@ -100,11 +104,12 @@ export function createErrorCollectingReporter(screen: Screen): ErrorCollectingRe
   };
 }
 
-function reporterCommandOptions(config: FullConfigInternal, mode: 'list' | 'test' | 'merge', runOptions?: TestRunOptions): CommonReporterOptions {
+function reporterCommandOptions(config: FullConfigInternal, mode: 'list' | 'test' | 'merge', runOptions?: TestRunOptions, coverageReporter?: CoverageReporter): CommonReporterOptions {
   return {
     configDir: config.configDir,
     _mode: mode,
     _commandHash: computeCommandHash(config, runOptions),
+    _coverage: coverageReporter,
   };
 }
 
@@ -0,0 +1,69 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { ZipFile } from '@utils/zipFile';
+
+import type { LastRunInfo } from './lastRun';
+import type { JsonEvent } from '../isomorphic/teleReceiver';
+
+// Reads per-test durations either from a ".last-run.json" file or from a blob report,
+// possibly produced by "merge-reports --reporter blob".
+export async function loadShardTimings(file: string): Promise<Map<string, number>> {
+  if (!fs.existsSync(file))
+    throw new Error(`--shard-timings "${file}" does not exist`);
+  if (file.endsWith('.zip'))
+    return await loadTimingsFromBlob(file);
+  return await loadTimingsFromLastRun(file);
+}
+
+async function loadTimingsFromLastRun(file: string): Promise<Map<string, number>> {
+  let lastRunInfo: LastRunInfo;
+  try {
+    lastRunInfo = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  } catch (e) {
+    throw new Error(`--shard-timings "${file}" is not a valid JSON file: ${e.message}`);
+  }
+  if (!lastRunInfo.testDurations || typeof lastRunInfo.testDurations !== 'object')
+    throw new Error(`--shard-timings "${file}" does not contain test durations`);
+  return new Map(Object.entries(lastRunInfo.testDurations));
+}
+
+async function loadTimingsFromBlob(file: string): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  const zipFile = new ZipFile(file);
+  try {
+    for (const entryName of await zipFile.entries()) {
+      if (!entryName.endsWith('.jsonl'))
+        continue;
+      const content = (await zipFile.read(entryName)).toString('utf8');
+      for (const line of content.split('\n')) {
+        // Quick filter to avoid parsing every event.
+        if (!line.includes('"onTestEnd"'))
+          continue;
+        const event = JSON.parse(line) as JsonEvent;
+        if (event.method !== 'onTestEnd')
+          continue;
+        const testId = event.params.test.testId;
+        result.set(testId, (result.get(testId) ?? 0) + event.params.result.duration);
+      }
+    }
+  } finally {
+    zipFile.close();
+  }
+  return result;
+}
@@ -22,16 +22,19 @@ import debug from 'debug';
 import { ManualPromise } from '@isomorphic/manualPromise';
 import { monotonicTime } from '@isomorphic/time';
 import { removeFolders } from '@utils/fileUtils';
+import { SnapshotStorage } from '@utils/snapshotStore';
 
 import { Dispatcher  } from './dispatcher';
 import { collectProjectsAndTestFiles, createRootSuite, loadFileSuites, loadGlobalHook, loadTestList } from './loadUtils';
 import { buildDependentProjects, buildTeardownToSetupsMap, filterProjects } from './projectUtils';
+import { applyQuarantine } from './quarantine';
 import { applySuggestedRebaselines, clearSuggestedRebaselines } from './rebase';
 import { TaskRunner } from './taskRunner';
-import { detectChangedTestFiles } from './vcs';
+import { findImpactedTests, loadImpactMap } from './testImpact';
+import { detectChangedFiles } from './vcs';
 import { cc, config as commonConfig, FullConfigInternal, suiteUtils, test as testNs } from '../common';
 import { createTestGroups } from '../runner/testGroups';
-import { createTitleMatcher, forceRegExp, removeDirAndLogToConsole } from '../util';
+import { applyTestFilePathTemplate, createTitleMatcher, forceRegExp, isQuarantined, kAriaSnapshotPathTemplate, kLegacySnapshotPathTemplate, removeDirAndLogToConsole } from '../util';
 
 import type { TestGroup } from '../runner/testGroups';
 import type { EnvByProjectId } from './dispatcher';
@@ -71,6 +74,11 @@ export type TestRunOptions = {
   onTestPaused?: (params: TestPausedParams) => void;
   preserveOutputDir?: boolean;
   shardWeights?: number[];
+  shardTimingsFile?: string;
+  shardTimings?: Map<string, number>;
+  quarantinedTestIds?: Set<string>;
+  updateQuarantine?: boolean;
+  bisect?: string;
 };
 
 export type TestPausedParams = {
@@ -83,6 +91,8 @@ export class TestRun {
   readonly options: TestRunOptions;
   readonly reporter: InternalReporter;
   rootSuite: testNs.Suite | undefined = undefined;
+  // Ids of all tests in the loaded files, before any test filters and sharding.
+  loadedTestIds = new Set<string>();
   readonly phases: Phase[] = [];
   readonly filteredProjects: commonConfig.FullProjectInternal[];
   projectFiles: Map<commonConfig.FullProjectInternal, string[]> = new Map();
@@ -90,6 +100,8 @@ export class TestRun {
   topLevelProjects: commonConfig.FullProjectInternal[] = [];
   hasWorkerErrors = false;
   failedTestCount = 0;
+  // Retries spent by each project, counted against the retry policy budget.
+  readonly retriesByProjectId = new Map<string, number>();
   readonly loadFileFilters: Matcher[] = [];
   readonly preOnlyTestFilters: TestCaseFilter[] = [];
   readonly postShardTestFilters: TestCaseFilter[] = [];
@@ -111,8 +123,9 @@ export class TestRun {
   }
 
   result(): 'failed' | 'passed' {
-    const hasFailedTests = this.rootSuite?.allTests().some(test => !test.ok());
-    const hasFlakyTests = this.rootSuite?.allTests().some(test => test.outcome() === 'flaky');
+    // Failures of quarantined tests are reported, but do not fail the run.
+    const hasFailedTests = this.rootSuite?.allTests().some(test => !test.ok() && !isQuarantined(test));
+    const hasFlakyTests = this.rootSuite?.allTests().some(test => test.outcome() === 'flaky' && !isQuarantined(test));
     return this.hasWorkerErrors || this.reporter.hasReporterErrors() || this.hasReachedMaxFailures() || hasFailedTests || (this.config.config.failOnFlakyTests && hasFlakyTests) ? 'failed' : 'passed';
   }
 }
@@ -162,6 +175,7 @@ export function createGlobalSetupTasks(config: FullConfigInternal) {
 export function createRunTestsTasks(config: FullConfigInternal) {
   return [
     createPhasesTask(),
+    createSnapshotStoreTask(),
     createReportBeginTask(),
     createRunTestsTask(),
   ];
@@ -327,11 +341,15 @@ export function createLoadTask(mode: 'out-of-process' | 'in-process', options: {
       await loadFileSuites(testRun, mode, options.failOnLoadErrors ? errors : softErrors);
 
       if (testRun.options.onlyChanged) {
-        const changedFiles = await detectChangedTestFiles(testRun.options.onlyChanged, testRun.config.configDir);
-        testRun.preOnlyTestFilters.push(test => changedFiles.has(test.location.file));
+        const changedFiles = await detectChangedFiles(testRun.options.onlyChanged, testRun.config.configDir);
+        const changedTestFiles = new Set(cc.affectedTestFiles(changedFiles));
+        const impactedTestIds = testRun.config.impactMap ? findImpactedTests(await loadImpactMap(testRun.config.impactMap), testRun.config.impactMap, changedFiles) : new Set<string>();
+        testRun.preOnlyTestFilters.push(test => changedTestFiles.has(test.location.file) || impactedTestIds.has(test.id));
       }
 
       await createRootSuite(testRun, options.failOnLoadErrors ? errors : softErrors, !!options.filterOnly);
+      if (testRun.options.quarantinedTestIds)
+        applyQuarantine(testRun.config, testRun.rootSuite!, testRun.options.quarantinedTestIds);
       // Fail when no tests.
       if (options.failOnLoadErrors && !testRun.rootSuite?.allTests().length
           && !testRun.options.passWithNoTests
@@ -420,6 +438,45 @@ function createPhasesTask(): Task<TestRun> {
   };
 }
 
+function createSnapshotStoreTask(): Task<TestRun> {
+  return {
+    title: 'snapshot store',
+    setup: async testRun => {
+      if (!testRun.config.snapshotStore)
+        return;
+      // Workers read baselines synchronously, so they must be in the local cache before tests start.
+      const directories = new Set<string>();
+      for (const projectSuite of testRun.rootSuite!.suites) {
+        for (const fileSuite of projectSuite.suites) {
+          for (const directory of snapshotDirectories(testRun.config, projectSuite._fullProject!, fileSuite.location!.file))
+            directories.add(directory);
+        }
+      }
+      await new SnapshotStorage(testRun.config.snapshotStore).download([...directories]);
+    },
+    teardown: async testRun => {
+      // Workers only put new baselines into the local cache, upload them all at once.
+      if (testRun.config.snapshotStore)
+        await new SnapshotStorage(testRun.config.snapshotStore).upload();
+    },
+  };
+}
+
+// Directories that hold snapshots of the test file: path templates are cut at the first
+// test-dependent token, anything below the resulting directory may be a snapshot.
+function snapshotDirectories(config: FullConfigInternal, project: commonConfig.FullProjectInternal, testFile: string): string[] {
+  const templates = [
+    project.expect?.toHaveScreenshot?.pathTemplate || project.snapshotPathTemplate || kLegacySnapshotPathTemplate,
+    project.expect?.toMatchAriaSnapshot?.pathTemplate || project.snapshotPathTemplate || kAriaSnapshotPathTemplate,
+    project.snapshotPathTemplate || kLegacySnapshotPathTemplate,
+  ];
+  return [...new Set(templates)].map(template => {
+    const prefix = applyTestFilePathTemplate(template.split(/\{.?(?:testName|arg|ext|snapshotSuffix)\}/)[0], project.project, testFile);
+    const resolved = path.resolve(config.configDir, prefix);
+    return /[\\/]$/.test(prefix) ? resolved : path.dirname(resolved);
+  });
+}
+
 function createRunTestsTask(): Task<TestRun> {
   return {
     title: 'test suite',
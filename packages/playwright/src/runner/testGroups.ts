@@ -141,11 +141,14 @@ export function createTestGroups(projectSuite: test.Suite, expectedParallelism:
   return result;
 }
 
-export function filterForShard(shard: { total: number, current: number }, weights: number[] | undefined, testGroups: TestGroup[]): Set<TestGroup> {
+export function filterForShard(shard: { total: number, current: number }, weights: number[] | undefined, testGroups: TestGroup[], testDurations?: Map<string, number>): Set<TestGroup> {
   weights ??= Array.from({ length: shard.total }, () => 1);
   if (weights.length !== shard.total)
     throw new Error(`PWTEST_SHARD_WEIGHTS number of weights must match the shard total of ${shard.total}`);
 
+  if (testDurations?.size)
+    return filterForShardByDuration(shard, weights, testGroups, testDurations);
+
   const totalWeight = weights.reduce((a, b) => a + b, 0);
   // Note that sharding works based on test groups.
   // This means parallel files will be sharded by single tests,
@@ -182,3 +185,57 @@ export function filterForShard(shard: { total: number, current: number }, weight
   }
   return result;
 }
+
+function filterForShardByDuration(shard: { total: number, current: number }, weights: number[], testGroups: TestGroup[], testDurations: Map<string, number>): Set<TestGroup> {
+  // Tests that have no recorded duration, for example newly added ones,
+  // are assumed to take an average amount of time.
+  let knownTotal = 0;
+  let knownCount = 0;
+  for (const group of testGroups) {
+    for (const test of group.tests) {
+      const duration = testDurations.get(test.id);
+      if (duration !== undefined) {
+        knownTotal += duration;
+        knownCount++;
+      }
+    }
+  }
+  const averageDuration = knownCount ? knownTotal / knownCount : 0;
+
+  // Every test costs at least a millisecond, so that instant tests are still spread out.
+  const groupDurations = testGroups.map(group => group.tests.reduce((total, test) => total + Math.max(testDurations.get(test.id) ?? averageDuration, 1), 0));
+
+  // Greedy bin-packing: place the longest groups first, each into the shard
+  // that would finish earliest relative to its weight. This is deterministic,
+  // so every shard computes the same assignment.
+  const order = testGroups.map((_, index) => index);
+  order.sort((a, b) => (groupDurations[b] - groupDurations[a]) || (a - b));
+
+  const loads = weights.map(() => 0);
+  const assignment: number[] = [];
+  for (const index of order) {
+    let bestShard = -1;
+    let bestLoad = Infinity;
+    for (let i = 0; i < weights.length; i++) {
+      if (!weights[i])
+        continue;
+      const load = (loads[i] + groupDurations[index]) / weights[i];
+      if (load < bestLoad) {
+        bestShard = i;
+        bestLoad = load;
+      }
+    }
+    if (bestShard === -1)
+      continue;
+    loads[bestShard] += groupDurations[index];
+    assignment[index] = bestShard;
+  }
+
+  // Keep the natural order of groups within the shard.
+  const result = new Set<TestGroup>();
+  for (let i = 0; i < testGroups.length; i++) {
+    if (assignment[i] === shard.current - 1)
+      result.add(testGroups[i]);
+  }
+  return result;
+}
@@ -0,0 +1,101 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { TestCase, TestResult } from '../../types/testReporter';
+import type { ReporterV2 } from '../reporters/reporterV2';
+
+export type ImpactMap = {
+  version: 1;
+  // Source files executed by each test, relative to the impact map and resolved through the source maps.
+  tests: { [testId: string]: { title: string, sources: string[] } };
+};
+
+export async function loadImpactMap(file: string): Promise<ImpactMap> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, 'utf8');
+  } catch {
+    // Impact map has not been recorded yet.
+    return { version: 1, tests: {} };
+  }
+  let impactMap: ImpactMap;
+  try {
+    impactMap = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Impact map "${file}" is not a valid JSON file: ${e.message}`);
+  }
+  if (!impactMap || typeof impactMap.tests !== 'object')
+    throw new Error(`Impact map "${file}" must contain a "tests" object`);
+  return impactMap;
+}
+
+export function findImpactedTests(impactMap: ImpactMap, impactMapFile: string, changedFiles: string[]): Set<string> {
+  const changedPaths = new Set(changedFiles.map(file => path.resolve(file)));
+  const result = new Set<string>();
+  for (const [testId, { sources }] of Object.entries(impactMap.tests)) {
+    if (sources.some(source => changedPaths.has(path.resolve(path.dirname(impactMapFile), source))))
+      result.add(testId);
+  }
+  return result;
+}
+
+export class ImpactReporter implements ReporterV2 {
+  private _impactMapFile: string;
+  private _tests = new Map<string, { title: string, sources: Set<string> }>();
+
+  constructor(impactMapFile: string) {
+    this._impactMapFile = impactMapFile;
+  }
+
+  version(): 'v2' {
+    return 'v2';
+  }
+
+  printsToStdio() {
+    return false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    const attachment = result.attachments.find(a => a.name === '_impact');
+    if (!attachment?.body)
+      return;
+    // Absolute paths of the sources, stored relative to the impact map to be shared between machines.
+    const { sources } = JSON.parse(attachment.body.toString('utf8')) as { sources: string[] };
+    const impactMapDir = path.dirname(this._impactMapFile);
+    // Retries might execute different code paths, so record all of them.
+    let entry = this._tests.get(test.id);
+    if (!entry) {
+      entry = { title: test.titlePath().filter(Boolean).join(' › '), sources: new Set() };
+      this._tests.set(test.id, entry);
+    }
+    for (const source of sources)
+      entry.sources.add(path.relative(impactMapDir, source).split(path.sep).join('/'));
+  }
+
+  async onEnd() {
+    if (!this._tests.size)
+      return;
+    // Keep the tests that did not run this time, e.g. when sharding or filtering.
+    const impactMap = await loadImpactMap(this._impactMapFile);
+    for (const [testId, { title, sources }] of this._tests)
+      impactMap.tests[testId] = { title, sources: [...sources].sort() };
+    await fs.promises.mkdir(path.dirname(this._impactMapFile), { recursive: true });
+    await fs.promises.writeFile(this._impactMapFile, JSON.stringify(impactMap, undefined, 2));
+  }
+}
@@ -27,19 +27,23 @@ import { FSWatcher } from './fsWatcher';
 import { baseFullConfig } from '../isomorphic/teleReceiver';
 import { addGitCommitInfoPlugin } from '../plugins/gitCommitInfoPlugin';
 import { webServerPluginsForConfig } from '../plugins/webServerPlugin';
-import { internalScreen } from '../reporters/base';
+import { internalScreen, terminalScreen } from '../reporters/base';
 import { InternalReporter } from '../reporters/internalReporter';
 import { serializeError } from '../util';
 import { createErrorCollectingReporter, createReporters } from './reporters';
+import { createBisectTasks } from './bisect';
 import { TestRun, createApplyRebaselinesTask, createClearCacheTask, createGlobalSetupTasks, createListFilesTask, createLoadTask, createPluginSetupTasks, createReportBeginTask, createRunTestsTasks, runTasks, runTasksDeferCleanup } from './tasks';
 import { LastRunReporter } from './lastRun';
+import { loadQuarantinedTestIds, updateQuarantineManifest } from './quarantine';
+import { loadShardTimings } from './shardTimings';
+import { ImpactReporter } from './testImpact';
 import { filterProjects } from './projectUtils';
 
 import type { TestPausedParams, TestRunOptions } from './tasks';
 import type * as reporterTypes from '../../types/testReporter';
 import type { ConfigLocation } from '../common';
 import type { TestRunnerPluginRegistration } from '../plugins';
-import type { AnyReporter } from '../reporters/reporterV2';
+import type { AnyReporter, ReporterV2 } from '../reporters/reporterV2';
 
 export const TestRunnerEvent = {
   TestFilesChanged: 'testFilesChanged',
@@ -426,17 +430,35 @@ export async function runAllTestsWithConfig(config: FullConfigInternal, options:
 
   const filteredProjects = filterProjects(config.projects, options.projectFilter);
   const reporters = await createReporters(config, options.listMode ? 'list' : 'test', undefined, options);
-  const lastRun = new LastRunReporter(filteredProjects, options.listMode, options.lastFailedFile);
+  const lastRun = new LastRunReporter(filteredProjects, options.listMode, options.lastFailedFile, config.quarantine?.lastRuns);
+  await lastRun.loadPreviousRun();
   if (options.lastFailed) {
-    const lastFailedTestIds = await lastRun.filterLastFailed();
+    const lastFailedTestIds = lastRun.filterLastFailed();
     if (lastFailedTestIds)
       options = { ...options, lastFailedTestIds };
   }
-
-  const reporter = new InternalReporter([...reporters, lastRun]);
+  if (options.shardTimingsFile)
+    options = { ...options, shardTimings: await loadShardTimings(options.shardTimingsFile) };
+  if (options.updateQuarantine && !config.quarantine)
+    throw new Error(`--update-quarantine requires the "quarantine" option in the config`);
+  const quarantinedTestIds = await loadQuarantinedTestIds(config);
+  if (quarantinedTestIds)
+    options = { ...options, quarantinedTestIds };
+
+  if (config.configCLIOverrides.recordImpact && !config.impactMap)
+    throw new Error(`--record-impact requires the "impactMap" option in the config`);
+
+  const internalReporters: ReporterV2[] = [lastRun];
+  if (config.configCLIOverrides.recordImpact && !options.listMode)
+    internalReporters.push(new ImpactReporter(config.impactMap!));
+  const reporter = new InternalReporter([...reporters, ...internalReporters]);
   const tasks = options.listMode ? [
     createLoadTask('in-process', { failOnLoadErrors: true, filterOnly: false }),
     createReportBeginTask(),
+  ] : options.bisect ? [
+    ...createGlobalSetupTasks(config),
+    createLoadTask('in-process', { filterOnly: true, failOnLoadErrors: true }),
+    ...createBisectTasks(options.bisect),
   ] : [
     createApplyRebaselinesTask(),
     ...createGlobalSetupTasks(config),
@@ -445,8 +467,15 @@ export async function runAllTestsWithConfig(config: FullConfigInternal, options:
   ];
 
   const testRun = new TestRun(config, reporter, { ...options, pauseAtEnd: config.configCLIOverrides.pause, pauseOnError: config.configCLIOverrides.pause });
+  lastRun.setTestRun(testRun);
   const status = await runTasks(testRun, tasks, config.config.globalTimeout);
 
+  if (options.updateQuarantine && !options.listMode) {
+    const { added, removed } = await updateQuarantineManifest(config, testRun.rootSuite, lastRun.lastRun());
+    // Keep stdout clean for reporters that print their report there.
+    terminalScreen.stderr.write(`Quarantine updated: ${added.length} added, ${removed.length} removed\n`);
+  }
+
   // Calling process.exit() might truncate large stdout/stderr output.
   // See https://github.com/nodejs/node/issues/6456.
   // See https://github.com/nodejs/node/issues/12921
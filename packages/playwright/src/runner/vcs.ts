@@ -17,9 +17,7 @@
 import childProcess from 'child_process';
 import path from 'path';
 
-import { cc } from '../common';
-
-export async function detectChangedTestFiles(baseCommit: string, configDir: string): Promise<Set<string>> {
+export async function detectChangedFiles(baseCommit: string, configDir: string): Promise<string[]> {
   function gitFileList(args: string[]) {
     try {
       return childProcess.execFileSync(
@@ -54,5 +52,5 @@ export async function detectChangedTestFiles(baseCommit: string, configDir: stri
   const [gitRoot] = gitFileList(['rev-parse', '--show-toplevel']);
   const trackedFilesWithChanges = gitFileList(['diff', baseCommit, '--name-only']).map(file => path.join(gitRoot, file));
 
-  return new Set(cc.affectedTestFiles([...untrackedFiles, ...trackedFilesWithChanges]));
+  return [...untrackedFiles, ...trackedFilesWithChanges];
 }
@@ -0,0 +1,100 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import os from 'os';
+
+export type LoadSample = {
+  // Fraction of the total CPU time spent busy since the previous sample.
+  cpuLoad: number;
+  // Fraction of the total memory that is free.
+  freeMemory: number;
+};
+
+export type LoadSampler = () => LoadSample;
+
+export type ScalingDecision = {
+  workers: number;
+  message: string;
+};
+
+const kScaleUpMaxCpuLoad = 0.75;
+const kScaleUpMinFreeMemory = 0.2;
+const kScaleDownCpuLoad = 0.9;
+const kScaleDownFreeMemory = 0.1;
+
+export class WorkerAutoscaler {
+  readonly minWorkers: number;
+  readonly maxWorkers: number;
+  private _workers: number;
+  private _sampler: LoadSampler;
+
+  constructor(minWorkers: number, maxWorkers: number, sampler: LoadSampler = systemLoadSampler()) {
+    this.minWorkers = minWorkers;
+    this.maxWorkers = maxWorkers;
+    this._workers = minWorkers;
+    this._sampler = sampler;
+  }
+
+  workers() {
+    return this._workers;
+  }
+
+  update(hasQueuedJobs: boolean): ScalingDecision | undefined {
+    const sample = this._sampler();
+    const load = `cpu load ${formatPercent(sample.cpuLoad)}, free memory ${formatPercent(sample.freeMemory)}`;
+    // Retire workers one at a time, so that a single spike does not serialize the run.
+    if (this._workers > this.minWorkers && (sample.cpuLoad > kScaleDownCpuLoad || sample.freeMemory < kScaleDownFreeMemory))
+      return this._scaleTo(this._workers - 1, load);
+    if (this._workers < this.maxWorkers && hasQueuedJobs && sample.cpuLoad < kScaleUpMaxCpuLoad && sample.freeMemory > kScaleUpMinFreeMemory)
+      return this._scaleTo(this._workers + 1, load);
+  }
+
+  private _scaleTo(workers: number, load: string): ScalingDecision {
+    const verb = workers > this._workers ? 'up' : 'down';
+    this._workers = workers;
+    return { workers, message: `Scaling ${verb} to ${workers} worker${workers === 1 ? '' : 's'}: ${load}` };
+  }
+}
+
+export function systemLoadSampler(): LoadSampler {
+  let previous = cpuTimes();
+  return () => {
+    const times = cpuTimes();
+    const busy = times.busy - previous.busy;
+    const total = busy + times.idle - previous.idle;
+    previous = times;
+    return { cpuLoad: total ? busy / total : 0, freeMemory: os.freemem() / os.totalmem() };
+  };
+}
+
+// Replays the given samples and then keeps returning the last one.
+export function replayLoadSampler(samples: LoadSample[]): LoadSampler {
+  return () => samples.length > 1 ? samples.shift()! : samples[0];
+}
+
+function cpuTimes() {
+  let busy = 0;
+  let idle = 0;
+  for (const cpu of os.cpus()) {
+    busy += cpu.times.user + cpu.times.nice + cpu.times.sys + cpu.times.irq;
+    idle += cpu.times.idle;
+  }
+  return { busy, idle };
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
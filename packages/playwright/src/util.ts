@@ -28,7 +28,7 @@ import { stringifyStackFrames, filteredStackTrace } from '@utils/stackTrace';
 import { ansiRegex, isString, stripAnsiEscapes } from '@isomorphic/stringUtils';
 
 import type { Location } from './../types/testReporter';
-import type { TestInfoError } from './../types/test';
+import type { TestAnnotation, TestInfoError } from './../types/test';
 import type { TestCase } from './common/test';
 
 export function filterStackTrace(e: Error): TestInfoError {
@@ -170,6 +170,27 @@ export function sanitizeFilePathBeforeExtension(filePath: string, ext?: string):
   return sanitizeForFilePath(base) + ext;
 }
 
+export const kLegacySnapshotPathTemplate = '{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{-projectName}{-snapshotSuffix}{ext}';
+export const kAriaSnapshotPathTemplate = '{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{ext}';
+
+/**
+ * Substitutes tokens of the snapshot path template that only depend on the project and the test file.
+ */
+export function applyTestFilePathTemplate(template: string, project: { testDir: string, snapshotDir: string, name: string }, testFile: string): string {
+  const relativeTestFilePath = path.relative(project.testDir, testFile);
+  const parsedRelativeTestFilePath = path.parse(relativeTestFilePath);
+  const projectNamePathSegment = sanitizeForFilePath(project.name);
+  return template
+      .replace(/\{(.)?testDir\}/g, '$1' + project.testDir)
+      .replace(/\{(.)?snapshotDir\}/g, '$1' + project.snapshotDir)
+      .replace(/\{(.)?testFileDir\}/g, '$1' + parsedRelativeTestFilePath.dir)
+      .replace(/\{(.)?platform\}/g, '$1' + process.platform)
+      .replace(/\{(.)?projectName\}/g, projectNamePathSegment ? '$1' + projectNamePathSegment : '')
+      .replace(/\{(.)?testFileBaseName\}/g, '$1' + parsedRelativeTestFilePath.name)
+      .replace(/\{(.)?testFileName\}/g, '$1' + parsedRelativeTestFilePath.base)
+      .replace(/\{(.)?testFilePath\}/g, '$1' + relativeTestFilePath);
+}
+
 /**
  * Returns absolute path contained within parent directory.
  */
@@ -375,6 +396,10 @@ export async function removeDirAndLogToConsole(dir: string) {
   }
 }
 
+export function isQuarantined(test: { annotations: TestAnnotation[] }): boolean {
+  return test.annotations.some(annotation => annotation.type === 'quarantine');
+}
+
 export function takeFirst<T>(...args: (T | undefined)[]): T {
   for (const arg of args) {
     if (arg !== undefined)
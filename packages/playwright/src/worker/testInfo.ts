@@ -26,15 +26,15 @@ import { sanitizeForFilePath, trimLongString } from '@utils/fileUtils';
 import { currentZone } from '@utils/zones';
 
 import { TimeoutManager, TimeoutManagerError } from './timeoutManager';
-import { addSuffixToFilePath, getContainedPath, normalizeAndSaveAttachment, sanitizeFilePathBeforeExtension, windowsFilesystemFriendlyLength } from '../util';
+import { addSuffixToFilePath, applyTestFilePathTemplate, getContainedPath, kAriaSnapshotPathTemplate, kLegacySnapshotPathTemplate, normalizeAndSaveAttachment, sanitizeFilePathBeforeExtension, windowsFilesystemFriendlyLength } from '../util';
 import { TestTracing } from './testTracing';
-import { testInfoError } from './util';
+import { softErrorGroupError, testInfoError } from './util';
 import { ipc, transform } from '../common';
 
 import type { RunnableDescription } from './timeoutManager';
 import type { FullProject, TestInfo, TestInfoError, TestStatus, TestStepInfo, TestAnnotation } from '../../types/test';
 import type { FullConfig, Location } from '../../types/testReporter';
-import type { config as commonConfig, FullConfigInternal, test as testNs } from '../common';
+import type { config as commonConfig, coverage, FullConfigInternal, test as testNs } from '../common';
 import type { StackFrame } from '@utils/stackTrace';
 
 export type TestStepCategory = 'expect' | 'fixture' | 'hook' | 'pw:api' | 'test.step' | 'test.attach';
@@ -50,8 +50,19 @@ interface TestStepData {
   // steps with any defined group are hidden from the report
   // 'internal' steps are hidden from the trace
   group?: string;
+  // soft steps collect the failures of their body instead of failing the test right away
+  soft?: boolean;
 }
 
+export type SoftErrorGroup = {
+  stepId: string;
+  title: string;
+  errors: unknown[];
+  groups: SoftErrorGroup[];
+  parent?: SoftErrorGroup;
+  completed?: boolean;
+};
+
 export interface TestStepInternal extends TestStepData {
   complete(result: { error?: Error | unknown, softError?: Error | unknown, shouldNotRetryTest?: boolean, suggestedRebaseline?: string, attachments?: TestInfo['attachments'] }): void;
   info: TestStepInfoImpl;
@@ -62,6 +73,7 @@ export interface TestStepInternal extends TestStepData {
   endWallTime?: number;
   error?: TestInfoError;
   infectParentStepsWithError?: boolean;
+  softErrorGroup?: SoftErrorGroup;
 }
 
 type SnapshotNames = {
@@ -73,6 +85,7 @@ type TestInfoCallbacks = {
   onStepBegin: (payload: ipc.StepBeginPayload) => void;
   onStepEnd: (payload: ipc.StepEndPayload) => void;
   onAttach: (payload: ipc.AttachmentPayload) => void;
+  onCoverage: (payload: ipc.CoveragePayload) => void;
   onTestPaused: (payload: ipc.TestPausedPayload) => Promise<ipc.ResumePayload>;
 };
 
@@ -80,6 +93,7 @@ export const emtpyTestInfoCallbacks: TestInfoCallbacks = {
   onStepBegin: () => {},
   onStepEnd: () => {},
   onAttach: () => {},
+  onCoverage: () => {},
   onTestPaused: () => Promise.reject(new Error('TestInfoImpl not initialized')),
 };
 
@@ -87,6 +101,7 @@ export class TestInfoImpl implements TestInfo {
   private _callbacks: TestInfoCallbacks;
   private _snapshotNames: SnapshotNames = { lastAnonymousSnapshotIndex: 0, lastNamedSnapshotIndex: {} };
   private _ariaSnapshotNames: SnapshotNames = { lastAnonymousSnapshotIndex: 0, lastNamedSnapshotIndex: {} };
+  private _performanceByNavigationId = new Map<string, TestInfo['performance'][number]>();
   readonly _timeoutManager: TimeoutManager;
   readonly _startTime: number;
   readonly _startWallTime: number;
@@ -101,6 +116,7 @@ export class TestInfoImpl implements TestInfo {
   private readonly _steps: TestStepInternal[] = [];
   private readonly _stepMap = new Map<string, TestStepInternal>();
   _onDidFinishTestFunctionCallbacks = new Set<() => Promise<void>>();
+  private readonly _softErrorGroups: SoftErrorGroup[] = [];
   _onCustomMessageCallback?: (data: any) => Promise<any>;
   _onUserStepBegin?: (title: string) => Promise<void>;
   _onUserStepEnd?: () => Promise<void>;
@@ -133,6 +149,7 @@ export class TestInfoImpl implements TestInfo {
   duration: number = 0;
   readonly annotations: TestAnnotation[] = [];
   readonly attachments: TestInfo['attachments'] = [];
+  readonly performance: TestInfo['performance'] = [];
   status: TestStatus = 'passed';
   snapshotSuffix: string = '';
   readonly outputDir: string;
@@ -269,6 +286,10 @@ export class TestInfoImpl implements TestInfo {
     }
   }
 
+  _isSkipError(error: unknown) {
+    return error instanceof TestSkipError;
+  }
+
   private _findLastPredefinedStep(steps: TestStepInternal[]): TestStepInternal | undefined {
     // Find the deepest predefined step that has not finished yet.
     for (let i = steps.length - 1; i >= 0; i--) {
@@ -303,12 +324,22 @@ export class TestInfoImpl implements TestInfo {
     }
     location ??= filteredStackTrace(captureRawStack())[0];
 
+    let softErrorGroup = parentStep?.softErrorGroup;
+    if (data.soft) {
+      softErrorGroup = { stepId, title: data.title, errors: [], groups: [], parent: softErrorGroup };
+      if (softErrorGroup.parent)
+        softErrorGroup.parent.groups.push(softErrorGroup);
+      else
+        this._softErrorGroups.push(softErrorGroup);
+    }
+
     const step: TestStepInternal = {
       ...data,
       stepId,
       group: parentStep?.group ?? data.group,
       boxedStack,
       location,
+      softErrorGroup,
       steps: [],
       attachmentIndices: [],
       info: new TestStepInfoImpl(this, stepId, data.title, parentStep?.info),
@@ -331,7 +362,20 @@ export class TestInfoImpl implements TestInfo {
         }
         if (result.softError) {
           step.infectParentStepsWithError = true;
-          this._failWithError(result.softError);
+          if (softErrorGroup && !softErrorGroup.completed)
+            softErrorGroup.errors.push(result.softError);
+          else
+            this._failWithError(result.softError);
+        }
+        if (softErrorGroup?.stepId === stepId && !softErrorGroup.completed) {
+          softErrorGroup.completed = true;
+          const error = softErrorGroupError(softErrorGroup, step.location);
+          if (error) {
+            step.error = testInfoError(error);
+            step.infectParentStepsWithError = true;
+            if (!softErrorGroup.parent || softErrorGroup.parent.completed)
+              this._failWithError(error);
+          }
         }
         if (result.shouldNotRetryTest)
           this._hasNonRetriableError = true;
@@ -412,6 +456,22 @@ export class TestInfoImpl implements TestInfo {
       this.status = 'interrupted';
   }
 
+  // Groups that did not complete, for example because of a timeout, still report their failures.
+  _flushSoftErrorGroups() {
+    const complete = (group: SoftErrorGroup) => {
+      group.completed = true;
+      group.groups.forEach(complete);
+    };
+    for (const group of this._softErrorGroups) {
+      if (group.completed)
+        continue;
+      complete(group);
+      const error = softErrorGroupError(group, this._stepMap.get(group.stepId)?.location);
+      if (error)
+        this._failWithError(error);
+    }
+  }
+
   _failWithError(root: Error | unknown) {
     if (this.status === 'passed' || this.status === 'skipped')
       this.status = root instanceof TimeoutManagerError ? 'timedOut' : 'failed';
@@ -514,12 +574,23 @@ export class TestInfoImpl implements TestInfo {
   }
 
   _attach(attachment: TestInfo['attachments'][0], stepId: string | undefined) {
-    const index = this._attachmentsPush(attachment) - 1;
-
     let step = stepId ? this._stepMap.get(stepId) : undefined;
     if (!!step?.group)
       step = undefined;
 
+    // Data for the reporters only, not a part of the test attachments.
+    if (kReporterAttachments.has(attachment.name)) {
+      this._callbacks.onAttach({
+        testId: this.testId,
+        name: attachment.name,
+        contentType: attachment.contentType,
+        body: attachment.body?.toString('base64'),
+        stepId: step?.stepId,
+      });
+      return;
+    }
+
+    const index = this._attachmentsPush(attachment) - 1;
     if (step) {
       step.attachmentIndices.push(index);
     } else {
@@ -538,6 +609,10 @@ export class TestInfoImpl implements TestInfo {
     });
   }
 
+  _addCoverage(data: coverage.CoverageData) {
+    this._callbacks.onCoverage({ testId: this.testId, coverage: data });
+  }
+
   outputPath(...pathSegments: string[]){
     const outputPath = this._getOutputPath(...pathSegments);
     fs.mkdirSync(this.outputDir, { recursive: true });
@@ -552,6 +627,17 @@ export class TestInfoImpl implements TestInfo {
     throw new Error(`The outputPath is not allowed outside of the parent directory. Please fix the defined path.\n\n\toutputPath: ${joinedPath}`);
   }
 
+  _recordPerformance(navigationId: string, metrics: TestInfo['performance'][number]) {
+    // Repeated measurements of the same navigation replace the earlier ones.
+    const existing = this._performanceByNavigationId.get(navigationId);
+    if (existing) {
+      Object.assign(existing, metrics);
+      return;
+    }
+    this._performanceByNavigationId.set(navigationId, metrics);
+    this.performance.push(metrics);
+  }
+
   _fsSanitizedTestName() {
     const fullTitleWithoutSpec = this.titlePath.slice(1).join(' ');
     return sanitizeForFilePath(trimLongString(fullTitleWithoutSpec));
@@ -603,16 +689,13 @@ export class TestInfoImpl implements TestInfo {
         relativeOutputPath = addSuffixToFilePath(relativeOutputPath, `-${index - 1}`);
     }
 
-    const legacyTemplate = '{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{-projectName}{-snapshotSuffix}{ext}';
     let template: string;
-    if (kind === 'screenshot') {
-      template = this._projectInternal.expect?.toHaveScreenshot?.pathTemplate || this._projectInternal.snapshotPathTemplate || legacyTemplate;
-    } else if (kind === 'aria') {
-      const ariaDefaultTemplate = '{snapshotDir}/{testFileDir}/{testFileName}-snapshots/{arg}{ext}';
-      template = this._projectInternal.expect?.toMatchAriaSnapshot?.pathTemplate || this._projectInternal.snapshotPathTemplate || ariaDefaultTemplate;
-    } else {
-      template = this._projectInternal.snapshotPathTemplate || legacyTemplate;
-    }
+    if (kind === 'screenshot')
+      template = this._projectInternal.expect?.toHaveScreenshot?.pathTemplate || this._projectInternal.snapshotPathTemplate || kLegacySnapshotPathTemplate;
+    else if (kind === 'aria')
+      template = this._projectInternal.expect?.toMatchAriaSnapshot?.pathTemplate || this._projectInternal.snapshotPathTemplate || kAriaSnapshotPathTemplate;
+    else
+      template = this._projectInternal.snapshotPathTemplate || kLegacySnapshotPathTemplate;
 
     const nameArgument = path.join(path.dirname(subPath), path.basename(subPath, ext));
     const absoluteSnapshotPath = this._applyPathTemplate(template, nameArgument, ext);
@@ -620,27 +703,21 @@ export class TestInfoImpl implements TestInfo {
   }
 
   _applyPathTemplate(template: string, nameArgument: string, ext: string) {
-    const relativeTestFilePath = path.relative(this.project.testDir, this._requireFile);
-    const parsedRelativeTestFilePath = path.parse(relativeTestFilePath);
-    const projectNamePathSegment = sanitizeForFilePath(this.project.name);
-
-    const snapshotPath = template
-        .replace(/\{(.)?testDir\}/g, '$1' + this.project.testDir)
-        .replace(/\{(.)?snapshotDir\}/g, '$1' + this.project.snapshotDir)
+    const snapshotPath = applyTestFilePathTemplate(template, this.project, this._requireFile)
         .replace(/\{(.)?snapshotSuffix\}/g, this.snapshotSuffix ? '$1' + this.snapshotSuffix : '')
-        .replace(/\{(.)?testFileDir\}/g, '$1' + parsedRelativeTestFilePath.dir)
-        .replace(/\{(.)?platform\}/g, '$1' + process.platform)
-        .replace(/\{(.)?projectName\}/g, projectNamePathSegment ? '$1' + projectNamePathSegment : '')
         .replace(/\{(.)?testName\}/g, '$1' + this._fsSanitizedTestName())
-        .replace(/\{(.)?testFileBaseName\}/g, '$1' + parsedRelativeTestFilePath.name)
-        .replace(/\{(.)?testFileName\}/g, '$1' + parsedRelativeTestFilePath.base)
-        .replace(/\{(.)?testFilePath\}/g, '$1' + relativeTestFilePath)
         .replace(/\{(.)?arg\}/g, '$1' + nameArgument)
         .replace(/\{(.)?ext\}/g, ext ? '$1' + ext : '');
 
     return path.normalize(path.resolve(this._configInternal.configDir, snapshotPath));
   }
 
+  _networkRecordingPath(index: number) {
+    const template = this._projectInternal.snapshotPathTemplate || kLegacySnapshotPathTemplate;
+    const name = this._fsSanitizedTestName() + (index ? `-${index}` : '');
+    return this._applyPathTemplate(template, name, '.har');
+  }
+
   snapshotPath(...name: string[]): string;
   snapshotPath(name: string, options: { kind: 'snapshot' | 'screenshot' | 'aria' }): string;
   snapshotPath(...args: any[]) {
@@ -730,3 +807,4 @@ export class StepSkipError extends Error {
 }
 
 const stepSymbol = Symbol('step');
+const kReporterAttachments = new Set(['_snapshotRebaseline', '_ariaSnapshotDiff']);
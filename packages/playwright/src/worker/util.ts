@@ -14,9 +14,13 @@
  * limitations under the License.
  */
 
+import { stringifyStackFrames } from '@utils/stackTrace';
+
 import { serializeError } from '../util';
 
+import type { SoftErrorGroup } from './testInfo';
 import type { TestInfoError } from '../../types/test';
+import type { Location } from '../../types/testReporter';
 import type { MatcherResultProperty } from '../matchers/matcherHint';
 
 export function testInfoError(error: Error | any): TestInfoError {
@@ -24,5 +28,42 @@ export function testInfoError(error: Error | any): TestInfoError {
   const matcherResult = (error instanceof Error ? (error as any).matcherResult : undefined) as MatcherResultProperty | undefined;
   if (matcherResult?.ariaSnapshot !== undefined)
     result.errorContext = matcherResult.ariaSnapshot;
+  if (error instanceof SoftErrorGroupError)
+    result.groups = error.groups;
   return result;
 }
+
+class SoftErrorGroupError extends Error {
+  readonly groups: NonNullable<TestInfoError['groups']>;
+
+  constructor(message: string, groups: NonNullable<TestInfoError['groups']>) {
+    super(message);
+    this.groups = groups;
+  }
+}
+
+export function softErrorGroupError(group: SoftErrorGroup, location: Location | undefined): Error | undefined {
+  const groups: NonNullable<TestInfoError['groups']> = [];
+  const visit = (group: SoftErrorGroup, titlePath: string[]) => {
+    titlePath = [...titlePath, group.title];
+    if (group.errors.length)
+      groups.push({ title: titlePath.join(' › '), errors: group.errors.map(testInfoError) });
+    for (const child of group.groups)
+      visit(child, titlePath);
+  };
+  visit(group, []);
+  if (!groups.length)
+    return;
+
+  const count = groups.reduce((sum, group) => sum + group.errors.length, 0);
+  const lines = [`${count} ${count === 1 ? 'failure' : 'failures'} in soft group "${group.title}"`];
+  for (const { title, errors } of groups) {
+    lines.push('', `${title} (${errors.length})`);
+    for (const error of errors)
+      lines.push('', (error.message || error.value || '').replace(/^(?=.)/gm, '  '));
+  }
+  const error = new SoftErrorGroupError(lines.join('\n'), groups);
+  // Point to the group itself, stacks of the individual failures are not useful here.
+  error.stack = [error.message, ...stringifyStackFrames(location ? [location] : [])].join('\n');
+  return error;
+}
@@ -18,9 +18,10 @@ import colors from 'colors/safe';
 import { ManualPromise } from '@isomorphic/manualPromise';
 import { removeFolders } from '@utils/fileUtils';
 import { gracefullyCloseAll } from '@utils/processLauncher';
+import { SnapshotStorage } from '@utils/snapshotStore';
 import { filteredStackTrace } from '@utils/stackTrace';
 
-import { configLoader, fixtures, ipc, poolBuilder, ProcessRunner, suiteUtils, testLoader } from '../common';
+import { configLoader, fixtures, ipc, poolBuilder, ProcessRunner, suiteUtils, testLoader, transform } from '../common';
 import * as globals from '../globals';
 import { setExpectConfig } from '../matchers/expect';
 import { debugTest, relativeFilePath } from '../util';
@@ -32,12 +33,15 @@ import type { TimeSlot } from './timeoutManager';
 import type { Location } from '../../types/testReporter';
 import type { config as commonConfig, FullConfigInternal, test as testNs } from '../common';
 import type { TestAnnotation, TestInfoError } from '../../types/test';
+import type { CustomComparator } from '@utils/comparators';
 
 export class WorkerMain extends ProcessRunner {
   private _params: ipc.WorkerInitParams;
   private _config!: FullConfigInternal;
   private _project!: commonConfig.FullProjectInternal;
   private _poolBuilder!: poolBuilder.PoolBuilder;
+  private _comparators = new Map<string, CustomComparator>();
+  private _snapshotStorage: SnapshotStorage | undefined;
   private _fixtureRunner: FixtureRunner;
 
   // Accumulated fatal errors that cannot be attributed to a test.
@@ -209,6 +213,16 @@ export class WorkerMain extends ProcessRunner {
     this._project = project;
     this._poolBuilder = poolBuilder.PoolBuilder.createForWorker(this._project);
     this._fixtureRunner.workerFixtureTimeout = this._project.project.timeout;
+    if (config.snapshotStore)
+      this._snapshotStorage = new SnapshotStorage(config.snapshotStore);
+    for (const [name, file] of Object.entries(this._project.expect?.comparators ?? {})) {
+      let comparator = await transform.requireOrImport(file);
+      if (comparator && typeof comparator === 'object' && ('default' in comparator))
+        comparator = comparator['default'];
+      if (typeof comparator !== 'function')
+        throw new Error(`Comparator "${name}" in ${file} must export a single function.`);
+      this._comparators.set(name, comparator);
+    }
   }
 
   async runTestGroup(runPayload: ipc.RunPayload) {
@@ -262,6 +276,7 @@ export class WorkerMain extends ProcessRunner {
         skipTestsDueToSetupFailure: [],
         fatalUnknownTestIds,
         stoppedDueToUnhandledErrorInTestFail: this._stoppedDueToUnhandledErrorInTestFail,
+        canReuseWorker: !this._isStopped,
       };
       for (const test of this._skipRemainingTestsInSuite?.allTests() || []) {
         if (entries.has(test.id))
@@ -294,6 +309,7 @@ export class WorkerMain extends ProcessRunner {
       onStepBegin: payload => this.dispatchEvent('stepBegin', payload),
       onStepEnd: payload => this.dispatchEvent('stepEnd', payload),
       onAttach: payload => this.dispatchEvent('attach', payload),
+      onCoverage: payload => this.dispatchEvent('coverage', payload),
       onTestPaused: payload => {
         this._resumePromise = new ManualPromise();
         this.dispatchEvent('testPaused', payload);
@@ -343,6 +359,8 @@ export class WorkerMain extends ProcessRunner {
       ignoreSnapshots: testInfo._projectInternal.project.ignoreSnapshots,
       updateSnapshots: testInfo.config.updateSnapshots,
       timeout: testInfo._projectInternal.expect?.timeout,
+      comparators: this._comparators,
+      snapshotStorage: this._snapshotStorage,
       toHaveScreenshot: testInfo._projectInternal.expect?.toHaveScreenshot,
       toMatchSnapshot: testInfo._projectInternal.expect?.toMatchSnapshot,
       toMatchAriaSnapshot: testInfo._projectInternal.expect?.toMatchAriaSnapshot,
@@ -422,6 +440,7 @@ export class WorkerMain extends ProcessRunner {
         await fn(testFunctionParams, testInfo);
       });
     })().catch(() => {});  // Ignore the top-level error, it is already inside TestInfo.errors.
+    testInfo._flushSoftErrorGroups();
 
     // Update duration, so it is available in fixture teardown and afterEach hooks.
     testInfo.duration = testInfo._timeoutManager.defaultSlot().elapsed | 0;
@@ -477,7 +496,7 @@ export class WorkerMain extends ProcessRunner {
         throw firstAfterHooksError;
     }).catch(() => {});  // Ignore the top-level error, it is already inside TestInfo.errors.
 
-    if (testInfo._isFailure())
+    if (testInfo._isFailure() && !this._canContinueAfterFailure(test))
       this._isStopped = true;
 
     if (this._isStopped) {
@@ -522,6 +541,7 @@ export class WorkerMain extends ProcessRunner {
       await testInfo._tracing.stopIfNeeded();
     }).catch(() => {});  // Ignore the top-level error, it is already inside TestInfo.errors.
 
+    testInfo._flushSoftErrorGroups();
     testInfo.duration = (testInfo._timeoutManager.defaultSlot().elapsed + afterHooksSlot.elapsed) | 0;
 
     this._currentTest = null;
@@ -607,6 +627,13 @@ export class WorkerMain extends ProcessRunner {
       throw firstError;
   }
 
+  private _canContinueAfterFailure(test: testNs.TestCase) {
+    if (this._project.retryPolicy?.worker !== 'same' || this._skipRemainingTestsInSuite)
+      return false;
+    // Serial mode relies on the worker restart to skip the rest of the tests.
+    return !getSuites(test).some(suite => suite._parallelMode === 'serial');
+  }
+
   private async _runAfterAllHooksForSuite(suite: testNs.Suite, testInfo: TestInfoImpl) {
     if (!this._activeSuites.has(suite))
       return;
@@ -36,6 +36,7 @@ export type HtmlReporterOptions = {
   noCopyPrompt?: boolean;
   doNotInlineAssets?: boolean;
   mergeFiles?: boolean;
+  historyDir?: string;
 };
 
 export type ReporterDescription = Readonly<
@@ -187,12 +188,24 @@ interface TestProject<TestArgs = {}, WorkerArgs = {}> {
      */
     timeout?: number;
 
+    /**
+     * Custom image comparators, mapping a comparator name to a module path. Paths are resolved relative to the
+     * configuration file. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparators?: { [key: string]: string; };
+
     /**
      * Configuration for the
      * [expect(page).toHaveScreenshot(name[, options])](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-have-screenshot-1)
      * method.
      */
     toHaveScreenshot?: {
+      /**
+       * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a name from
+       * `comparators`. Defaults to `"pixelmatch"`.
+       */
+      comparator?: string;
+
       /**
        * an acceptable perceived color difference between the same pixel in compared images, ranging from `0` (strict) and
        * `1` (lax). `"pixelmatch"` comparator computes color difference in
@@ -277,6 +290,12 @@ interface TestProject<TestArgs = {}, WorkerArgs = {}> {
      * method.
      */
     toMatchSnapshot?: {
+      /**
+       * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a name from
+       * `comparators`. Defaults to `"pixelmatch"`.
+       */
+      comparator?: string;
+
       /**
        * an acceptable perceived color difference between the same pixel in compared images, ranging from `0` (strict) and
        * `1` (lax). `"pixelmatch"` comparator computes color difference in
@@ -447,6 +466,56 @@ interface TestProject<TestArgs = {}, WorkerArgs = {}> {
    */
   retries?: number;
 
+  /**
+   * Controls which failed tests are retried and how, on top of the number of
+   * [testProject.retries](https://playwright.dev/docs/api/class-testproject#test-project-retries). The retry budget is
+   * tracked separately for each project.
+   *
+   * Use [testConfig.retryPolicy](https://playwright.dev/docs/api/class-testconfig#test-config-retry-policy) to change
+   * this option for all projects.
+   */
+  retryPolicy?: {
+    /**
+     * Only retry failures with an error that matches one of these patterns. A string pattern matches when the error
+     * message contains it, for example `'TimeoutError'` or `'net::ERR_'`. By default, all failures are retried.
+     */
+    errors?: Array<string|RegExp>;
+
+    /**
+     * Wait before running each retry.
+     */
+    backoff?: {
+      /**
+       * Delay before the first retry in milliseconds.
+       */
+      delay: number;
+
+      /**
+       * Multiplier applied to the delay for every subsequent retry. Defaults to `2`.
+       */
+      factor?: number;
+
+      /**
+       * Maximum delay between retries in milliseconds. Unset by default.
+       */
+      maxDelay?: number;
+    };
+
+    /**
+     * Whether a failed test restarts the worker process, so that the retry runs in a `'fresh'` worker, or the worker is
+     * kept and reused for the retry and the rest of the tests with `'same'`. Tests in
+     * [serial mode](https://playwright.dev/docs/test-retries#serial-mode) and failures in `beforeAll` hooks always restart the worker. Defaults
+     * to `'fresh'`.
+     */
+    worker?: "fresh"|"same";
+
+    /**
+     * Maximum total number of retries in the project during the test run. Once the budget is spent, failed tests are not
+     * retried anymore. Unset by default.
+     */
+    budget?: number;
+  };
+
   /**
    * The base directory, relative to the config file, for snapshot files created with `toMatchSnapshot`. Defaults to
    * [testProject.testDir](https://playwright.dev/docs/api/class-testproject#test-project-test-dir).
@@ -1045,6 +1114,43 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    *
    */
   webServer?: TestConfigWebServer | TestConfigWebServer[];
+  /**
+   * Bounds for the number of worker processes when
+   * [testConfig.workers](https://playwright.dev/docs/api/class-testconfig#test-config-workers) is set to `'auto'`.
+   *
+   * The test run starts with `minWorkers` workers. Every second, Playwright samples the CPU load and free memory of the
+   * machine. It starts another worker while there are tests waiting and the machine has spare capacity, and retires a
+   * worker once it is overloaded or runs low on memory. Retired workers finish their current tests first. Every scaling
+   * decision is printed to the reporter output.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   workers: 'auto',
+   *   autoscale: {
+   *     minWorkers: 2,
+   *     maxWorkers: '75%',
+   *   },
+   * });
+   * ```
+   *
+   */
+  autoscale?: {
+    /**
+     * Minimum number of concurrent worker processes, or a percentage of logical CPU cores. Defaults to `1`.
+     */
+    minWorkers?: number|string;
+
+    /**
+     * Maximum number of concurrent worker processes, or a percentage of logical CPU cores. Defaults to `'100%'`.
+     */
+    maxWorkers?: number|string;
+  };
+
   /**
    * Playwright transpiler configuration.
    *
@@ -1108,6 +1214,64 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
     diff?: boolean;
   };
 
+  /**
+   * Collect code coverage from every page in the tests. Coverage is collected with the
+   * [Coverage](https://playwright.dev/docs/api/class-coverage) API and is only available in Chromium.
+   *
+   * Coverage is merged across all workers and written to the `outputDir` at the end of the test run. When running
+   * sharded tests, coverage is stored in the blob reports and merged by the `merge-reports` command, given that the
+   * merge config also specifies the `coverage` option. Both inline and external source maps are applied, so coverage is
+   * reported for the original source files. The HTML reporter shows the coverage summary in the "Coverage" tab.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   coverage: {
+   *     include: '**\/src/**',
+   *     formats: ['lcov'],
+   *   },
+   * });
+   * ```
+   *
+   */
+  coverage?: {
+    /**
+     * Whether to collect JavaScript coverage. Defaults to `true`.
+     */
+    js?: boolean;
+
+    /**
+     * Whether to collect CSS coverage. Defaults to `false`.
+     */
+    css?: boolean;
+
+    /**
+     * Only report source files matching one of these patterns. Glob patterns and regular expressions are matched against
+     * the source URL.
+     */
+    include?: string|RegExp|Array<string|RegExp>;
+
+    /**
+     * Do not report source files matching one of these patterns. Defaults to `**\/node_modules/**`.
+     */
+    exclude?: string|RegExp|Array<string|RegExp>;
+
+    /**
+     * Directory for the coverage output, relative to the config file. Defaults to `coverage`.
+     */
+    outputDir?: string;
+
+    /**
+     * Output formats: `lcov` writes `lcov.info`, `json` writes istanbul-compatible `coverage-final.json`. Defaults to
+     * both.
+     */
+    formats?: Array<"lcov"|"json">;
+  };
+
   /**
    * Configuration for the `expect` assertion library. Learn more about [various timeouts](https://playwright.dev/docs/test-timeouts).
    *
@@ -1134,12 +1298,24 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
      */
     timeout?: number;
 
+    /**
+     * Custom image comparators, mapping a comparator name to a module path. Paths are resolved relative to the
+     * configuration file. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparators?: { [key: string]: string; };
+
     /**
      * Configuration for the
      * [expect(page).toHaveScreenshot(name[, options])](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-have-screenshot-1)
      * method.
      */
     toHaveScreenshot?: {
+      /**
+       * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a name from
+       * `comparators`. Defaults to `"pixelmatch"`.
+       */
+      comparator?: string;
+
       /**
        * See [`animations`](https://playwright.dev/docs/api/class-page#page-screenshot-option-animations) in
        * [page.screenshot([options])](https://playwright.dev/docs/api/class-page#page-screenshot). Defaults to `"disabled"`.
@@ -1217,6 +1393,12 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
      * method.
      */
     toMatchSnapshot?: {
+      /**
+       * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a name from
+       * `comparators`. Defaults to `"pixelmatch"`.
+       */
+      comparator?: string;
+
       /**
        * An acceptable amount of pixels that could be different, unset by default.
        */
@@ -1436,6 +1618,53 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   ignoreSnapshots?: boolean;
 
+  /**
+   * Path to the test impact map, relative to the config file. The impact map lists application source files that every
+   * test has executed in the browser.
+   *
+   * Run tests with `--record-impact` to record the impact map. Only Chromium pages are recorded, using the JavaScript
+   * [Coverage](https://playwright.dev/docs/api/class-coverage) API. Scripts are resolved to the source files through
+   * their source maps. A source is recorded when it maps to a file on disk: a `file:` URL, an absolute path, or a path
+   * relative to the config file, as served by most development servers. Other sources are ignored.
+   *
+   * When the impact map is configured, `--only-changed` also runs tests that executed any of the changed source files,
+   * in addition to tests affected by the changed test files and their imports.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   impactMap: './test-impact.json',
+   * });
+   * ```
+   *
+   */
+  impactMap?: string;
+
+  /**
+   * Maximum number of tests that can hold each named lock at the same time. Locks that are not listed here allow a
+   * single test at a time. See [test locks](https://playwright.dev/docs/test-parallel#test-locks) for more details.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   locks: {
+   *     // At most three tests use the device pool at the same time.
+   *     'device-pool': 3,
+   *   },
+   * });
+   * ```
+   *
+   */
+  locks?: { [key: string]: number; };
+
   /**
    * The maximum number of test failures for the whole test suite run. After reaching this number, testing will stop and
    * exit with an error. Setting to zero (default) disables this behavior.
@@ -1553,6 +1782,46 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   preserveOutput?: "always"|"never"|"failures-only";
 
+  /**
+   * Known flaky tests listed in the quarantine manifest still run, but their failures do not fail the test run.
+   * Reporters show such tests as quarantined.
+   *
+   * Run with `--update-quarantine` to update the manifest based on the recent run history. Tests that were flaky in at
+   * least `flakyRuns` of the `lastRuns` most recent runs are added to the manifest, while quarantined tests that passed
+   * without retries in all of the `lastRuns` most recent runs are removed.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   retries: 2,
+   *   quarantine: {
+   *     file: './quarantine.json',
+   *   },
+   * });
+   * ```
+   *
+   */
+  quarantine?: {
+    /**
+     * Path to the quarantine manifest, relative to the config file.
+     */
+    file: string;
+
+    /**
+     * Number of flaky runs after which `--update-quarantine` quarantines a test. Defaults to `2`.
+     */
+    flakyRuns?: number;
+
+    /**
+     * Number of most recent runs to consider when updating the manifest. Defaults to `10`.
+     */
+    lastRuns?: number;
+  };
+
   /**
    * Whether to suppress stdio and stderr output from the tests.
    *
@@ -1644,6 +1913,75 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   retries?: number;
 
+  /**
+   * Controls which failed tests are retried and how, on top of the number of
+   * [testConfig.retries](https://playwright.dev/docs/api/class-testconfig#test-config-retries). Each retry allowed by
+   * the policy adds a `retry` annotation to the test result that describes the policy decision.
+   *
+   * Use [testProject.retryPolicy](https://playwright.dev/docs/api/class-testproject#test-project-retry-policy) to
+   * change this option for a specific project.
+   *
+   * Learn more about [test retries](https://playwright.dev/docs/test-retries#retry-policy).
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   retries: 3,
+   *   retryPolicy: {
+   *     errors: ['TimeoutError', /net::ERR_/],
+   *     backoff: { delay: 1000, factor: 2 },
+   *     budget: 10,
+   *   },
+   * });
+   * ```
+   *
+   */
+  retryPolicy?: {
+    /**
+     * Only retry failures with an error that matches one of these patterns. A string pattern matches when the error
+     * message contains it, for example `'TimeoutError'` or `'net::ERR_'`. By default, all failures are retried.
+     */
+    errors?: Array<string|RegExp>;
+
+    /**
+     * Wait before running each retry.
+     */
+    backoff?: {
+      /**
+       * Delay before the first retry in milliseconds.
+       */
+      delay: number;
+
+      /**
+       * Multiplier applied to the delay for every subsequent retry. Defaults to `2`.
+       */
+      factor?: number;
+
+      /**
+       * Maximum delay between retries in milliseconds. Unset by default.
+       */
+      maxDelay?: number;
+    };
+
+    /**
+     * Whether a failed test restarts the worker process, so that the retry runs in a `'fresh'` worker, or the worker is
+     * kept and reused for the retry and the rest of the tests with `'same'`. Tests in
+     * [serial mode](https://playwright.dev/docs/test-retries#serial-mode) and failures in `beforeAll` hooks always restart the worker. Defaults
+     * to `'fresh'`.
+     */
+    worker?: "fresh"|"same";
+
+    /**
+     * Maximum total number of retries in the project during the test run. Once the budget is spent, failed tests are not
+     * retried anymore. Unset by default.
+     */
+    budget?: number;
+  };
+
   /**
    * Controls when failed tests are retried. Defaults to `'immediate'`.
    * - `'immediate'` - A failed test is retried as soon as a worker is available, interleaved with the rest of the
@@ -1845,6 +2183,85 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    */
   snapshotPathTemplate?: string;
 
+  /**
+   * Content-addressed store for binary snapshot baselines of
+   * [expect(page).toHaveScreenshot(name[, options])](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-have-screenshot-1)
+   * and
+   * [expect(value).toMatchSnapshot(name[, options])](https://playwright.dev/docs/api/class-snapshotassertions#snapshot-assertions-to-match-snapshot-1).
+   * When configured, snapshot files only contain a small pointer with the SHA-256 hash of the baseline, while the
+   * baseline itself lives in the store. Text snapshots are still stored as is.
+   *
+   * Baselines written with `--update-snapshots` go to the store, and the snapshot file is replaced with a pointer.
+   * Existing snapshot files that are not pointers keep working, so baselines can be migrated one by one.
+   *
+   * The `"fs"` store keeps baselines in a local directory, for example one shared between checkouts. The `"http"` store
+   * downloads baselines referenced by the snapshot files before running tests and uploads new baselines after all tests
+   * have finished, caching them in a temporary directory. The `"custom"` store works like the `"http"` one, but talks
+   * to the remote storage through the `get` and `put` functions, for example to use a cloud storage SDK.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   snapshotStore: {
+   *     type: 'http',
+   *     url: 'https://snapshots.example.com/my-project',
+   *     headers: { authorization: `Bearer ${process.env.SNAPSHOT_STORE_TOKEN}` },
+   *   },
+   * });
+   * ```
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   * import { bucket } from './snapshot-bucket';
+   *
+   * export default defineConfig({
+   *   snapshotStore: {
+   *     type: 'custom',
+   *     get: hash => bucket.download(hash),
+   *     put: (hash, content) => bucket.upload(hash, content),
+   *   },
+   * });
+   * ```
+   *
+   */
+  snapshotStore?: {
+    /**
+     * Kind of the store.
+     */
+    type: "fs"|"http"|"custom";
+
+    /**
+     * Directory of the `"fs"` store, relative to the config file.
+     */
+    directory?: string;
+
+    /**
+     * Base URL of the `"http"` store. Snapshots are downloaded with `GET <url>/<hash>` and uploaded with `PUT
+     * <url>/<hash>`.
+     */
+    url?: string;
+
+    /**
+     * Additional HTTP headers sent to the `"http"` store, for example an authorization header.
+     */
+    headers?: { [key: string]: string; };
+
+    /**
+     * Returns the content of the `"custom"` store for the given hash, or `undefined` when it is missing.
+     */
+    get?: ((string: string) => Promise<void|Buffer>);
+
+    /**
+     * Saves the content to the `"custom"` store under the given hash.
+     */
+    put?: ((string: string, buffer: Buffer) => Promise<void>);
+  };
+
   /**
    * Tag or tags prepended to each test in the report. Useful for tagging your test run to differentiate between
    * [CI environments](https://playwright.dev/docs/test-sharding#merging-reports-from-multiple-environments).
@@ -2002,6 +2419,9 @@ interface TestConfig<TestArgs = {}, WorkerArgs = {}> {
    * The maximum number of concurrent worker processes to use for parallelizing tests. Can also be set as percentage of
    * logical CPU cores, e.g. `'50%'.`
    *
+   * Set to `'auto'` to adjust the number of workers to the machine load during the test run, within the
+   * [testConfig.autoscale](https://playwright.dev/docs/api/class-testconfig#test-config-autoscale) bounds.
+   *
    * Playwright Test uses worker processes to run tests. There is always at least one worker process, but more can be
    * used to speed up test execution.
    *
@@ -2579,18 +2999,52 @@ export interface TestInfo {
   parallelIndex: number;
 
   /**
-   * Processed project configuration from the [configuration file](https://playwright.dev/docs/test-configuration).
+   * Performance metrics of the pages in the test, one entry per page navigation. Metrics are measured when the page
+   * fires the `load` event, and
+   * [expect(page).toMeetPerformanceBudget(budget)](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-meet-performance-budget)
+   * measures the current navigation again and updates its entry. Metrics that the browser does not report are omitted.
+   * The HTML reporter shows these metrics in the test results.
    */
-  project: FullProject;
+  performance: Array<{
+    /**
+     * URL of the measured page.
+     */
+    url: string;
 
-  /**
-   * Specifies a unique repeat index when running in "repeat each" mode. This mode is enabled by passing `--repeat-each`
-   * to the [command line](https://playwright.dev/docs/test-cli).
-   */
-  repeatEachIndex: number;
+    /**
+     * Largest Contentful Paint, in milliseconds.
+     */
+    LCP?: number;
 
-  /**
-   * Specifies the retry number when the test is retried after a failure. The first test run has
+    /**
+     * Cumulative Layout Shift score.
+     */
+    CLS?: number;
+
+    /**
+     * Total Blocking Time after the first contentful paint, in milliseconds.
+     */
+    TBT?: number;
+
+    /**
+     * Number of bytes transferred for the page and its resources.
+     */
+    transferSize?: number;
+  }>;
+
+  /**
+   * Processed project configuration from the [configuration file](https://playwright.dev/docs/test-configuration).
+   */
+  project: FullProject;
+
+  /**
+   * Specifies a unique repeat index when running in "repeat each" mode. This mode is enabled by passing `--repeat-each`
+   * to the [command line](https://playwright.dev/docs/test-cli).
+   */
+  repeatEachIndex: number;
+
+  /**
+   * Specifies the retry number when the test is retried after a failure. The first test run has
    * [testInfo.retry](https://playwright.dev/docs/api/class-testinfo#test-info-retry) equal to zero, the first retry has
    * it equal to one, and so on. Learn more about [retries](https://playwright.dev/docs/test-retries#retries).
    *
@@ -5965,6 +6419,36 @@ export interface TestType<TestArgs extends {}, WorkerArgs extends {}> {
    * @param timeout Timeout in milliseconds.
    */
   setTimeout(timeout: number): void;
+  /**
+   * Declares named locks for all tests in a single test file or a
+   * [test.describe([title, details, callback])](https://playwright.dev/docs/api/class-test#test-describe) group. Tests
+   * that share a lock name never run concurrently, while all other tests continue to run in parallel. This is the same
+   * as providing the `lock` in the test details, but applies to every test in the scope. Learn more about
+   * [test locks](https://playwright.dev/docs/test-parallel#test-locks).
+   *
+   * **Usage**
+   *
+   * ```js
+   * import { test, expect } from '@playwright/test';
+   *
+   * test.lock('user-settings');
+   *
+   * test('update user settings', async ({ page }) => {
+   *   // Never runs at the same time as other tests holding the 'user-settings' lock.
+   * });
+   * ```
+   *
+   * **Details**
+   *
+   * `test.lock` can be called either in the global scope or inside `test.describe`. It is an error to call it within a
+   * test or a hook.
+   *
+   * By default, only a single test can hold a lock at a time. Use
+   * [testConfig.locks](https://playwright.dev/docs/api/class-testconfig#test-config-locks) to allow several tests to
+   * share the lock, for example when tests use a pool of devices.
+   * @param lock Lock name or a list of lock names.
+   */
+  lock(lock: string | string[]): void;
   /**
    * Declares a `beforeEach` hook that is executed before each test.
    *
@@ -6754,6 +7238,38 @@ export interface TestType<TestArgs extends {}, WorkerArgs extends {}> {
      * @param options
      */
     skip(title: string, body: (step: TestStepInfo) => any | Promise<any>, options?: { box?: boolean, location?: Location, timeout?: number }): Promise<void>;
+    /**
+     * Declares a soft test step. Unlike
+     * [test.step(title, body[, options])](https://playwright.dev/docs/api/class-test#test-step), failures inside a soft
+     * step do not stop the test. All soft assertions that fail inside the step, along with an error thrown from its body,
+     * are collected and reported as a single error that lists the failures by group. Nested soft steps are reported as
+     * separate groups of the outermost one.
+     *
+     * Returns the value of the step body, or `undefined` when the body has thrown.
+     *
+     * `expect.group(title, body)` is an alias that reads better next to assertions.
+     *
+     * **Usage**
+     *
+     * ```js
+     * import { test, expect } from '@playwright/test';
+     *
+     * test('my test', async ({ page }) => {
+     *   await test.step.soft('header', async () => {
+     *     await expect.soft(page.getByRole('banner')).toBeVisible();
+     *     await expect.soft(page.getByRole('navigation')).toContainText('Docs');
+     *   });
+     *   await expect.group('footer', async () => {
+     *     await expect.soft(page.getByRole('contentinfo')).toContainText('Copyright');
+     *   });
+     * });
+     * ```
+     *
+     * @param title Step name.
+     * @param body Step body.
+     * @param options
+     */
+    soft<T>(title: string, body: (step: TestStepInfo) => T | Promise<T>, options?: { box?: boolean, location?: Location, timeout?: number }): Promise<T | undefined>;
   }
   /**
    * `expect` function can be used to create test assertions. Read more about [test assertions](https://playwright.dev/docs/test-assertions).
@@ -7079,6 +7595,36 @@ export interface PlaywrightWorkerOptions {
    * [testOptions.channel](https://playwright.dev/docs/api/class-testoptions#test-options-channel) are ignored.
    */
   connectOptions: ConnectOptions | undefined;
+  /**
+   * Whether to record network traffic of each test into a HAR file and replay it in later runs. Defaults to `'off'`.
+   * - `'off'`: Do not record or replay network traffic.
+   * - `'record'`: Record network traffic of every run and save it when the test passes.
+   * - `'replay'`: Serve requests from the saved recording. Requests that are not in the recording are aborted. The
+   *   test fails when the recording does not exist.
+   * - `'auto'`: Serve requests from the saved recording when it exists, otherwise record it. Running with
+   *   `--update-snapshots=all` re-records all recordings.
+   *
+   * Recordings are stored next to other test snapshots, in a HAR file named after the test title, the project name and
+   * the platform, like screenshots. Each test gets its own recording, so tests can run in parallel workers. Failed
+   * runs, including failed retries, never overwrite the recording. When a test creates more than one context with the
+   * [fixtures.context](https://playwright.dev/docs/api/class-fixtures#fixtures-context) fixture, each context is
+   * recorded into a separate file.
+   *
+   * **Usage**
+   *
+   * ```js
+   * // playwright.config.ts
+   * import { defineConfig } from '@playwright/test';
+   *
+   * export default defineConfig({
+   *   use: {
+   *     recordNetwork: { mode: 'auto', url: '**\/api/**' },
+   *   },
+   * });
+   * ```
+   *
+   */
+  recordNetwork: RecordNetworkMode | { mode: RecordNetworkMode, url?: string | RegExp };
   /**
    * **NOTE** This option trades test isolation for speed and is intended for component tests that drive a story gallery. Leave
    * it unset for end-to-end tests - a fresh browser context per test is one of the core guarantees of Playwright Test.
@@ -7103,7 +7649,9 @@ export interface PlaywrightWorkerOptions {
    *
    * Additional restrictions:
    * - The option is ignored when
-   *   [testOptions.video](https://playwright.dev/docs/api/class-testoptions#test-options-video) recording is enabled.
+   *   [testOptions.video](https://playwright.dev/docs/api/class-testoptions#test-options-video) or
+   *   [testOptions.recordNetwork](https://playwright.dev/docs/api/class-testoptions#test-options-record-network)
+   *   recording is enabled.
    * - Only a few context options may differ between consecutive tests: `colorScheme`, `forcedColors`,
    *   `reducedMotion`, `contrast`, `screen`, `userAgent`, `viewport` and `testIdAttribute`. Changing any other option
    *   in [test.use(options)](https://playwright.dev/docs/api/class-test#test-use), for example `locale` or
@@ -7236,6 +7784,7 @@ export interface PlaywrightWorkerOptions {
   video: VideoMode | /** deprecated */ 'retry-with-video' | { mode: VideoMode, size?: ViewportSize, show?: { actions?: { duration?: number, position?: 'top-left' | 'top' | 'top-right' | 'bottom-left' | 'bottom' | 'bottom-right', fontSize?: number, cursor?: 'none' | 'pointer' }, test?: { level?: 'file' | 'title' | 'step', position?: 'top-left' | 'top' | 'top-right' | 'bottom-left' | 'bottom' | 'bottom-right', fontSize?: number } } };
 }
 
+export type RecordNetworkMode = 'off' | 'record' | 'replay' | 'auto';
 export type ScreenshotMode = 'off' | 'on' | 'only-on-failure' | 'on-first-failure';
 export type TraceMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry' | 'on-all-retries' | 'retain-on-first-failure' | 'retain-on-failure-and-retries';
 export type VideoMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry' | 'on-all-retries' | 'retain-on-first-failure' | 'retain-on-failure-and-retries';
@@ -8845,6 +9394,7 @@ type SpecificMatchers<R, T> =
   T extends Page ? PageAssertions & AllowedGenericMatchers<R, T> :
   T extends Locator ? LocatorAssertions & AllowedGenericMatchers<R, T> :
   T extends APIResponse ? APIResponseAssertions & AllowedGenericMatchers<R, T> :
+  T extends () => Promise<APIResponse> ? APIResponseAssertions & BaseMatchers<R, T> & FunctionAssertions :
   BaseMatchers<R, T> & (T extends Function ? FunctionAssertions : {});
 type AllMatchers<R, T> = PageAssertions & LocatorAssertions & APIResponseAssertions & FunctionAssertions & BaseMatchers<R, T>;
 
@@ -8934,6 +9484,7 @@ export type Expect<ExtendedMatchers = {}> = {
   <T = unknown>(actual: T, messageOrOptions?: string | { message?: string }): MakeMatchers<void, T, ExtendedMatchers>;
   soft: Expect<ExtendedMatchers>;
   poll: <T = unknown>(actual: () => T | Promise<T>, messageOrOptions?: string | { message?: string, timeout?: number, intervals?: number[] }) => PollMatchers<Promise<void>, T, ExtendedMatchers>;
+  group: <T>(title: string, body: () => T | Promise<T>) => Promise<T | undefined>;
   extend<MoreMatchers extends Record<string, (this: ExpectMatcherState, receiver: any, ...args: any[]) => MatcherReturnType | Promise<MatcherReturnType>>>(matchers: MoreMatchers): Expect<ExtendedMatchers & MoreMatchers>;
   configure: (configuration: {
     message?: string,
@@ -9014,14 +9565,164 @@ interface APIResponseAssertions {
   /**
    * Ensures the response status code is within `200..299` range.
    *
+   * In JavaScript, the assertion can also be called with a function that sends the request. The request is then sent
+   * again until the response is successful or the timeout is reached.
+   *
    * **Usage**
    *
    * ```js
    * await expect(response).toBeOK();
    * ```
    *
+   * @param options
+   */
+  toBeOK(options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the response has a header with the given value. Header names are case-insensitive.
+   *
+   * Like other API response assertions, this assertion can be called with a function that sends the request instead of
+   * an [APIResponse](https://playwright.dev/docs/api/class-apiresponse). The request is then sent again until the
+   * assertion passes or the timeout is reached.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await expect(response).toHaveHeader('content-type', /application\/json/);
+   * await expect(() => request.get('/api/job/42')).toHaveHeader('x-job-state', 'done');
+   * ```
+   *
+   * @param name Header name.
+   * @param value Expected header value.
+   * @param options
+   */
+  toHaveHeader(name: string, value: string|RegExp, options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the response has a header with the given name. Header names are case-insensitive.
+   *
+   * ```js
+   * await expect(response).toHaveHeader('etag');
+   * await expect(response).not.toHaveHeader('set-cookie');
+   * ```
+   *
+   * @param name Header name.
+   * @param options
    */
-  toBeOK(): Promise<void>;
+  toHaveHeader(name: string, options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the response status code is equal to the given code, or is within the given inclusive range.
+   *
+   * When called with a function that sends the request, the request is sent again until the status matches or the
+   * timeout is reached.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await expect(response).toHaveStatus(201);
+   * await expect(response).toHaveStatus({ min: 400, max: 499 });
+   * // Wait for the resource to become available.
+   * await expect(() => request.get('/api/report/42')).toHaveStatus(200, { timeout: 30_000 });
+   * ```
+   *
+   * @param status Expected status code or range.
+   * @param options
+   */
+  toHaveStatus(status: number|{
+    /**
+     * Minimal status code, inclusive.
+     */
+    min: number;
+
+    /**
+     * Maximal status code, inclusive.
+     */
+    max: number;
+  }, options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the response body is JSON that matches a subset of the properties of the expected value, the same way as
+   * [expect(value).toMatchObject(expected)](https://playwright.dev/docs/api/class-genericassertions#generic-assertions-to-match-object)
+   * does. Asymmetric matchers like `expect.any(Number)` can be used for values that change between runs.
+   *
+   * When called with a function that sends the request, the request is sent again until the body matches or the timeout
+   * is reached.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await expect(response).toMatchJson({
+   *   id: expect.any(Number),
+   *   name: 'Playwright',
+   *   tags: ['testing'],
+   * });
+   * ```
+   *
+   * @param expected Expected subset of the response JSON.
+   * @param options
+   */
+  toMatchJson(expected: Object|ReadonlyArray<any>, options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the response body is JSON that conforms to the given schema. Every violation is reported with the path to
+   * the offending value, for example `$.items[2].id: expected integer, got string`.
+   *
+   * The following subset of [JSON Schema](https://json-schema.org/) keywords is supported: `type` (`"object"`,
+   * `"array"`, `"string"`, `"number"`, `"integer"`, `"boolean"` and `"null"`), `properties`, `required`,
+   * `additionalProperties`, `items`, `oneOf`, `enum` and `pattern`.
+   *
+   * When called with a function that sends the request, the request is sent again until the body conforms or the
+   * timeout is reached.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await expect(response).toMatchJsonSchema({
+   *   type: 'object',
+   *   required: ['id', 'name'],
+   *   properties: {
+   *     id: { type: 'integer' },
+   *     name: { type: 'string' },
+   *     status: { enum: ['active', 'archived'] },
+   *   },
+   * });
+   * ```
+   *
+   * @param schema JSON schema of the response body.
+   * @param options
+   */
+  toMatchJsonSchema(schema: Object, options?: {
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
 
   /**
    * Makes the assertion check for the opposite condition.
@@ -9898,6 +10599,20 @@ interface LocatorAssertions {
      */
     caret?: "hide"|"initial";
 
+    /**
+     * Color schemes to take the screenshot in. The page emulates each of the color schemes in turn, and each screenshot
+     * is compared with its own expectation, named with a `-{colorScheme}` suffix. The original color scheme is restored
+     * afterwards.
+     */
+    colorSchemes?: Array<"light"|"dark"|"no-preference">;
+
+    /**
+     * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a custom comparator
+     * registered in `TestConfig.expect.comparators`. Default is configurable with `TestConfig.expect`. Defaults to
+     * `"pixelmatch"`. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparator?: string;
+
     /**
      * Specify locators that should be masked when the screenshot is taken. Masked elements will be overlaid with a pink
      * box `#FF00FF` (customized by
@@ -9931,6 +10646,53 @@ interface LocatorAssertions {
      */
     omitBackground?: boolean;
 
+    /**
+     * Parts of the screenshot that are compared with their own tolerance, or ignored. Each region specifies either a
+     * `locator` or a `rect`. Pixels inside a region only count towards that region's limits, and the stored expectation
+     * is left unchanged. When regions overlap, the last one wins. The diff image outlines compared regions in blue and
+     * ignored regions in cyan.
+     */
+    regions?: Array<{
+      /**
+       * Elements whose bounding boxes form the region.
+       */
+      locator?: Locator;
+
+      /**
+       * Region relative to the top-left corner of the screenshot, in CSS pixels.
+       */
+      rect?: {
+        x: number;
+
+        y: number;
+
+        width: number;
+
+        height: number;
+      };
+
+      /**
+       * Perceived color difference allowed in this region, same as
+       * [`threshold`](https://playwright.dev/docs/api/class-locatorassertions#locator-assertions-to-have-screenshot-1-option-threshold).
+       */
+      threshold?: number;
+
+      /**
+       * An acceptable amount of pixels that could be different in this region. Defaults to `0`.
+       */
+      maxDiffPixels?: number;
+
+      /**
+       * An acceptable ratio of pixels that are different to the region area, between `0` and `1`.
+       */
+      maxDiffPixelRatio?: number;
+
+      /**
+       * Whether to skip comparing this region altogether.
+       */
+      ignore?: boolean;
+    }>;
+
     /**
      * When set to `"css"`, screenshot will have a single pixel per each css pixel on the page. For high-dpi devices, this
      * will keep screenshots small. Using `"device"` option will produce a single pixel per each device pixel, so
@@ -9947,6 +10709,33 @@ interface LocatorAssertions {
      */
     signal?: AbortSignal;
 
+    /**
+     * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+     * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+     * log.
+     */
+    stable?: {
+      /**
+       * Wait until there are no network requests in flight for this many milliseconds.
+       */
+      networkIdle?: number;
+
+      /**
+       * Wait until all fonts in the document are loaded.
+       */
+      fonts?: boolean;
+
+      /**
+       * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+       */
+      images?: boolean;
+
+      /**
+       * Function or expression evaluated in the page, waits until it returns a truthy value.
+       */
+      predicate?: Function|string;
+    };
+
     /**
      * File name containing the stylesheet to apply while making the screenshot. This is where you can hide dynamic
      * elements, make elements invisible or change their properties to help you creating repeatable screenshots. This
@@ -9965,6 +10754,25 @@ interface LocatorAssertions {
      * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
      */
     timeout?: number;
+
+    /**
+     * Viewport sizes to take the screenshot at. The page is resized to each of the viewports in turn, and each screenshot
+     * is compared with its own expectation, named with a `-{width}x{height}` suffix. The original viewport is restored
+     * afterwards. Can be combined with
+     * [`colorSchemes`](https://playwright.dev/docs/api/class-locatorassertions#locator-assertions-to-have-screenshot-1-option-color-schemes),
+     * in which case every combination is compared.
+     */
+    viewports?: Array<{
+      /**
+       * Page width in pixels.
+       */
+      width: number;
+
+      /**
+       * Page height in pixels.
+       */
+      height: number;
+    }>;
   }): Promise<void>;
 
   /**
@@ -10001,6 +10809,20 @@ interface LocatorAssertions {
      */
     caret?: "hide"|"initial";
 
+    /**
+     * Color schemes to take the screenshot in. The page emulates each of the color schemes in turn, and each screenshot
+     * is compared with its own expectation, named with a `-{colorScheme}` suffix. The original color scheme is restored
+     * afterwards.
+     */
+    colorSchemes?: Array<"light"|"dark"|"no-preference">;
+
+    /**
+     * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a custom comparator
+     * registered in `TestConfig.expect.comparators`. Default is configurable with `TestConfig.expect`. Defaults to
+     * `"pixelmatch"`. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparator?: string;
+
     /**
      * Specify locators that should be masked when the screenshot is taken. Masked elements will be overlaid with a pink
      * box `#FF00FF` (customized by
@@ -10034,6 +10856,53 @@ interface LocatorAssertions {
      */
     omitBackground?: boolean;
 
+    /**
+     * Parts of the screenshot that are compared with their own tolerance, or ignored. Each region specifies either a
+     * `locator` or a `rect`. Pixels inside a region only count towards that region's limits, and the stored expectation
+     * is left unchanged. When regions overlap, the last one wins. The diff image outlines compared regions in blue and
+     * ignored regions in cyan.
+     */
+    regions?: Array<{
+      /**
+       * Elements whose bounding boxes form the region.
+       */
+      locator?: Locator;
+
+      /**
+       * Region relative to the top-left corner of the screenshot, in CSS pixels.
+       */
+      rect?: {
+        x: number;
+
+        y: number;
+
+        width: number;
+
+        height: number;
+      };
+
+      /**
+       * Perceived color difference allowed in this region, same as
+       * [`threshold`](https://playwright.dev/docs/api/class-locatorassertions#locator-assertions-to-have-screenshot-2-option-threshold).
+       */
+      threshold?: number;
+
+      /**
+       * An acceptable amount of pixels that could be different in this region. Defaults to `0`.
+       */
+      maxDiffPixels?: number;
+
+      /**
+       * An acceptable ratio of pixels that are different to the region area, between `0` and `1`.
+       */
+      maxDiffPixelRatio?: number;
+
+      /**
+       * Whether to skip comparing this region altogether.
+       */
+      ignore?: boolean;
+    }>;
+
     /**
      * When set to `"css"`, screenshot will have a single pixel per each css pixel on the page. For high-dpi devices, this
      * will keep screenshots small. Using `"device"` option will produce a single pixel per each device pixel, so
@@ -10050,6 +10919,33 @@ interface LocatorAssertions {
      */
     signal?: AbortSignal;
 
+    /**
+     * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+     * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+     * log.
+     */
+    stable?: {
+      /**
+       * Wait until there are no network requests in flight for this many milliseconds.
+       */
+      networkIdle?: number;
+
+      /**
+       * Wait until all fonts in the document are loaded.
+       */
+      fonts?: boolean;
+
+      /**
+       * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+       */
+      images?: boolean;
+
+      /**
+       * Function or expression evaluated in the page, waits until it returns a truthy value.
+       */
+      predicate?: Function|string;
+    };
+
     /**
      * File name containing the stylesheet to apply while making the screenshot. This is where you can hide dynamic
      * elements, make elements invisible or change their properties to help you creating repeatable screenshots. This
@@ -10068,6 +10964,25 @@ interface LocatorAssertions {
      * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
      */
     timeout?: number;
+
+    /**
+     * Viewport sizes to take the screenshot at. The page is resized to each of the viewports in turn, and each screenshot
+     * is compared with its own expectation, named with a `-{width}x{height}` suffix. The original viewport is restored
+     * afterwards. Can be combined with
+     * [`colorSchemes`](https://playwright.dev/docs/api/class-locatorassertions#locator-assertions-to-have-screenshot-2-option-color-schemes),
+     * in which case every combination is compared.
+     */
+    viewports?: Array<{
+      /**
+       * Page width in pixels.
+       */
+      width: number;
+
+      /**
+       * Page height in pixels.
+       */
+      height: number;
+    }>;
   }): Promise<void>;
 
   /**
@@ -10492,6 +11407,95 @@ interface PageAssertions {
     timeout?: number;
   }): Promise<void>;
 
+  /**
+   * Ensures that the current page navigation meets the performance budget. Metrics are collected from the browser's
+   * [PerformanceObserver](https://developer.mozilla.org/en-US/docs/Web/API/PerformanceObserver) entries and recorded in
+   * `testInfo.performance`.
+   *
+   * Only the metrics listed in the budget are checked. A metric that the browser does not report, for example Largest
+   * Contentful Paint in WebKit, does not meet the budget.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await page.goto('https://playwright.dev');
+   * await expect(page).toMeetPerformanceBudget({ LCP: 2500, CLS: 0.1, TBT: 200, transferSize: 1_000_000 });
+   * ```
+   *
+   * @param budget Upper bounds for the performance metrics.
+   */
+  toMeetPerformanceBudget(budget: {
+    /**
+     * Maximum Largest Contentful Paint, in milliseconds.
+     */
+    LCP?: number;
+
+    /**
+     * Maximum Cumulative Layout Shift score.
+     */
+    CLS?: number;
+
+    /**
+     * Maximum Total Blocking Time after the first contentful paint, in milliseconds.
+     */
+    TBT?: number;
+
+    /**
+     * Maximum number of bytes transferred for the page and its resources.
+     */
+    transferSize?: number;
+  }): Promise<void>;
+
+  /**
+   * Ensures the page passes a built-in set of accessibility checks. The assertion is retried until the page has no
+   * violations or the timeout is reached. Each violation is reported with a locator for the offending element.
+   *
+   * The following rules are checked:
+   * - `'accessible-name'` - interactive elements, for example buttons, links and text boxes, have an accessible name.
+   * - `'duplicate-id-aria'` - ids referenced by `aria-labelledby`, `aria-describedby` and other ARIA attributes are
+   *   unique.
+   * - `'aria-allowed-attr'` - role-specific ARIA attributes like `aria-checked` or `aria-pressed` are only used on
+   *   roles that support them.
+   * - `'color-contrast'` - text has a contrast ratio of at least 4.5:1 against its background, or 3:1 for large text.
+   *   Text over background images is not checked.
+   *
+   * **Usage**
+   *
+   * ```js
+   * await page.goto('https://playwright.dev');
+   * await expect(page).toPassAccessibilityAudit();
+   * await expect(page).toPassAccessibilityAudit({
+   *   rules: ['accessible-name', 'color-contrast'],
+   *   exclude: [page.locator('#third-party-widget')],
+   * });
+   * ```
+   *
+   * @param options
+   */
+  toPassAccessibilityAudit(options?: {
+    /**
+     * Elements to skip, together with their descendants.
+     */
+    exclude?: Array<Locator>;
+
+    /**
+     * Rules to check, defaults to all rules.
+     */
+    rules?: Array<string>;
+
+    /**
+     * An optional [`AbortSignal`](https://developer.mozilla.org/en-US/docs/Web/API/AbortSignal) that can cancel the
+     * assertion. Aborting the signal fails the assertion like a timeout: if the signal is aborted while the assertion is
+     * retrying, or is already aborted before the assertion starts, the assertion fails without retrying further.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
+     */
+    timeout?: number;
+  }): Promise<void>;
+
   /**
    * Makes the assertion check for the opposite condition.
    *
@@ -10550,6 +11554,13 @@ interface SnapshotAssertions {
    * @param options
    */
   toMatchSnapshot(name: string|ReadonlyArray<string>, options?: {
+    /**
+     * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a custom comparator
+     * registered in `TestConfig.expect.comparators`. Default is configurable with `TestConfig.expect`. Defaults to
+     * `"pixelmatch"`. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparator?: string;
+
     /**
      * An acceptable ratio of pixels that are different to the total amount of pixels, between `0` and `1`. Default is
      * configurable with `TestConfig.expect`. Unset by default.
@@ -10602,6 +11613,13 @@ interface SnapshotAssertions {
    * @param options
    */
   toMatchSnapshot(options?: {
+    /**
+     * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a custom comparator
+     * registered in `TestConfig.expect.comparators`. Default is configurable with `TestConfig.expect`. Defaults to
+     * `"pixelmatch"`. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+     */
+    comparator?: string;
+
     /**
      * An acceptable ratio of pixels that are different to the total amount of pixels, between `0` and `1`. Default is
      * configurable with `TestConfig.expect`. Unset by default.
@@ -10665,6 +11683,24 @@ export interface TestInfoError {
    */
   errorContext?: string;
 
+  /**
+   * Failures collected by
+   * [test.step.soft(title, body[, options])](https://playwright.dev/docs/api/class-test#test-step-soft) or
+   * `expect.group()`, by group. Set on the single error that is reported for the outermost group, nested groups are
+   * listed separately.
+   */
+  groups?: Array<{
+    /**
+     * Title path of the group, for example `"checkout › totals"`.
+     */
+    title: string;
+
+    /**
+     * Failures collected in this group.
+     */
+    errors: Array<TestInfoError>;
+  }>;
+
   /**
    * Error message. Set when [Error] (or its subclass) has been thrown.
    */
@@ -10893,6 +11929,20 @@ export interface PageAssertionsToHaveScreenshotOptions {
     height: number;
   };
 
+  /**
+   * Color schemes to take the screenshot in. The page emulates each of the color schemes in turn, and each screenshot
+   * is compared with its own expectation, named with a `-{colorScheme}` suffix. The original color scheme is restored
+   * afterwards.
+   */
+  colorSchemes?: Array<"light"|"dark"|"no-preference">;
+
+  /**
+   * Image comparator, one of `"pixelmatch"`, `"ssim-cie94"`, `"phash"`, `"shift-tolerant"` or a custom comparator
+   * registered in `TestConfig.expect.comparators`. Default is configurable with `TestConfig.expect`. Defaults to
+   * `"pixelmatch"`. See [comparators](https://playwright.dev/docs/test-snapshots#comparator) for details.
+   */
+  comparator?: string;
+
   /**
    * When true, takes a screenshot of the full scrollable page, instead of the currently visible viewport. Defaults to
    * `false`.
@@ -10932,6 +11982,53 @@ export interface PageAssertionsToHaveScreenshotOptions {
    */
   omitBackground?: boolean;
 
+  /**
+   * Parts of the screenshot that are compared with their own tolerance, or ignored. Each region specifies either a
+   * `locator` or a `rect`. Pixels inside a region only count towards that region's limits, and the stored expectation
+   * is left unchanged. When regions overlap, the last one wins. The diff image outlines compared regions in blue and
+   * ignored regions in cyan.
+   */
+  regions?: Array<{
+    /**
+     * Elements whose bounding boxes form the region.
+     */
+    locator?: Locator;
+
+    /**
+     * Region relative to the top-left corner of the screenshot, in CSS pixels.
+     */
+    rect?: {
+      x: number;
+
+      y: number;
+
+      width: number;
+
+      height: number;
+    };
+
+    /**
+     * Perceived color difference allowed in this region, same as
+     * [`threshold`](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-have-screenshot-1-option-threshold).
+     */
+    threshold?: number;
+
+    /**
+     * An acceptable amount of pixels that could be different in this region. Defaults to `0`.
+     */
+    maxDiffPixels?: number;
+
+    /**
+     * An acceptable ratio of pixels that are different to the region area, between `0` and `1`.
+     */
+    maxDiffPixelRatio?: number;
+
+    /**
+     * Whether to skip comparing this region altogether.
+     */
+    ignore?: boolean;
+  }>;
+
   /**
    * When set to `"css"`, screenshot will have a single pixel per each css pixel on the page. For high-dpi devices, this
    * will keep screenshots small. Using `"device"` option will produce a single pixel per each device pixel, so
@@ -10948,6 +12045,33 @@ export interface PageAssertionsToHaveScreenshotOptions {
    */
   signal?: AbortSignal;
 
+  /**
+   * Conditions to wait for before taking the screenshot, in addition to the page being ready for it. Use it to wait for
+   * the page to settle when it fetches data or runs JavaScript-driven animations. Each wait is reported in the call
+   * log.
+   */
+  stable?: {
+    /**
+     * Wait until there are no network requests in flight for this many milliseconds.
+     */
+    networkIdle?: number;
+
+    /**
+     * Wait until all fonts in the document are loaded.
+     */
+    fonts?: boolean;
+
+    /**
+     * Wait until all images in the document are decoded. Lazy images that did not start loading are skipped.
+     */
+    images?: boolean;
+
+    /**
+     * Function or expression evaluated in the page, waits until it returns a truthy value.
+     */
+    predicate?: Function|string;
+  };
+
   /**
    * File name containing the stylesheet to apply while making the screenshot. This is where you can hide dynamic
    * elements, make elements invisible or change their properties to help you creating repeatable screenshots. This
@@ -10966,6 +12090,25 @@ export interface PageAssertionsToHaveScreenshotOptions {
    * Time to retry the assertion for in milliseconds. Defaults to `timeout` in `TestConfig.expect`.
    */
   timeout?: number;
+
+  /**
+   * Viewport sizes to take the screenshot at. The page is resized to each of the viewports in turn, and each screenshot
+   * is compared with its own expectation, named with a `-{width}x{height}` suffix. The original viewport is restored
+   * afterwards. Can be combined with
+   * [`colorSchemes`](https://playwright.dev/docs/api/class-pageassertions#page-assertions-to-have-screenshot-1-option-color-schemes),
+   * in which case every combination is compared.
+   */
+  viewports?: Array<{
+    /**
+     * Page width in pixels.
+     */
+    width: number;
+
+    /**
+     * Page height in pixels.
+     */
+    height: number;
+  }>;
 }
 
 interface TestConfigWebServer {
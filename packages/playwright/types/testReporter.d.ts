@@ -591,6 +591,24 @@ export interface TestError {
    */
   cause?: TestError;
 
+  /**
+   * Failures collected by
+   * [test.step.soft(title, body[, options])](https://playwright.dev/docs/api/class-test#test-step-soft) or
+   * `expect.group()`, by group. Set on the single error that is reported for the outermost group, nested groups are
+   * listed separately.
+   */
+  groups?: Array<{
+    /**
+     * Title path of the group, for example `"checkout › totals"`.
+     */
+    title: string;
+
+    /**
+     * Failures collected in this group.
+     */
+    errors: Array<TestError>;
+  }>;
+
   /**
    * Error location in the source code.
    */
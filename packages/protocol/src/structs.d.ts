@@ -353,3 +353,9 @@ export type NameValue = {
   value: string,
 };
 
+export type HarLookupCandidate = {
+  url: string,
+  method: string,
+  mismatches: ('url' | 'method' | 'postData' | 'headers')[],
+};
+
@@ -820,6 +820,15 @@ scheme.BrowserContextSetOfflineParams = tObject({
   offline: tBoolean,
 });
 scheme.BrowserContextSetOfflineResult = tOptional(tObject({}));
+scheme.BrowserContextSetNetworkConditionsParams = tObject({
+  conditions: tOptional(tObject({
+    latency: tOptional(tFloat),
+    downloadThroughput: tOptional(tFloat),
+    uploadThroughput: tOptional(tFloat),
+    packetLoss: tOptional(tFloat),
+  })),
+});
+scheme.BrowserContextSetNetworkConditionsResult = tOptional(tObject({}));
 scheme.BrowserContextStorageStateParams = tObject({
   indexedDB: tOptional(tBoolean),
   credentials: tOptional(tBoolean),
@@ -1830,6 +1839,15 @@ scheme.ElementHandleScreenshotParams = tObject({
   }))),
   maskColor: tOptional(tString),
   style: tOptional(tString),
+  stable: tOptional(tObject({
+    networkIdle: tOptional(tFloat),
+    fonts: tOptional(tBoolean),
+    images: tOptional(tBoolean),
+    predicate: tOptional(tObject({
+      expression: tString,
+      isFunction: tOptional(tBoolean),
+    })),
+  })),
 });
 scheme.ElementHandleScreenshotResult = tObject({
   binary: tBinary,
@@ -1932,11 +1950,26 @@ scheme.LocalUtilsZipParams = tObject({
 scheme.LocalUtilsZipResult = tOptional(tObject({}));
 scheme.LocalUtilsHarOpenParams = tObject({
   file: tString,
+  ignoreQuery: tOptional(tBoolean),
+  ignoreQueryParams: tOptional(tArray(tString)),
+  ignorePostDataFields: tOptional(tArray(tString)),
+  roundRobin: tOptional(tBoolean),
 });
 scheme.LocalUtilsHarOpenResult = tObject({
   harId: tOptional(tString),
   error: tOptional(tString),
 });
+scheme.LocalUtilsHarEntriesParams = tObject({
+  harId: tString,
+});
+scheme.LocalUtilsHarEntriesResult = tObject({
+  entries: tArray(tObject({
+    url: tString,
+    method: tString,
+    headers: tArray(tType('NameValue')),
+    postData: tOptional(tBinary),
+  })),
+});
 scheme.LocalUtilsHarLookupParams = tObject({
   harId: tString,
   url: tString,
@@ -1944,6 +1977,7 @@ scheme.LocalUtilsHarLookupParams = tObject({
   headers: tArray(tType('NameValue')),
   postData: tOptional(tBinary),
   isNavigationRequest: tBoolean,
+  candidates: tOptional(tArray(tInt)),
 });
 scheme.LocalUtilsHarLookupResult = tObject({
   action: tEnum(['error', 'redirect', 'fulfill', 'noentry']),
@@ -1952,11 +1986,46 @@ scheme.LocalUtilsHarLookupResult = tObject({
   status: tOptional(tInt),
   headers: tOptional(tArray(tType('NameValue'))),
   body: tOptional(tBinary),
+  closest: tOptional(tArray(tType('HarLookupCandidate'))),
 });
 scheme.LocalUtilsHarCloseParams = tObject({
   harId: tString,
 });
 scheme.LocalUtilsHarCloseResult = tOptional(tObject({}));
+scheme.LocalUtilsOpenAPIOpenParams = tObject({
+  file: tString,
+  baseURL: tOptional(tString),
+  overrides: tOptional(tArray(tObject({
+    operationId: tString,
+    status: tOptional(tInt),
+    headers: tOptional(tArray(tType('NameValue'))),
+    json: tOptional(tAny),
+    example: tOptional(tString),
+  }))),
+});
+scheme.LocalUtilsOpenAPIOpenResult = tObject({
+  openAPIId: tOptional(tString),
+  error: tOptional(tString),
+});
+scheme.LocalUtilsOpenAPILookupParams = tObject({
+  openAPIId: tString,
+  url: tString,
+  method: tString,
+  headers: tArray(tType('NameValue')),
+  postData: tOptional(tBinary),
+});
+scheme.LocalUtilsOpenAPILookupResult = tObject({
+  action: tEnum(['fulfill', 'violation', 'noentry']),
+  operationId: tOptional(tString),
+  message: tOptional(tString),
+  status: tOptional(tInt),
+  headers: tOptional(tArray(tType('NameValue'))),
+  body: tOptional(tBinary),
+});
+scheme.LocalUtilsOpenAPICloseParams = tObject({
+  openAPIId: tString,
+});
+scheme.LocalUtilsOpenAPICloseResult = tOptional(tObject({}));
 scheme.LocalUtilsHarUnzipParams = tObject({
   zipFile: tString,
   harFile: tString,
@@ -2055,6 +2124,13 @@ scheme.RouteRedirectNavigationRequestParams = tObject({
   url: tString,
 });
 scheme.RouteRedirectNavigationRequestResult = tOptional(tObject({}));
+scheme.RouteReportHarLookupParams = tObject({
+  har: tString,
+  outcome: tEnum(['notFound', 'error']),
+  message: tOptional(tString),
+  closest: tOptional(tArray(tType('HarLookupCandidate'))),
+});
+scheme.RouteReportHarLookupResult = tOptional(tObject({}));
 scheme.RouteAbortParams = tObject({
   errorCode: tOptional(tString),
 });
@@ -2349,6 +2425,15 @@ scheme.PageExpectScreenshotParams = tObject({
   maxDiffPixels: tOptional(tInt),
   maxDiffPixelRatio: tOptional(tFloat),
   threshold: tOptional(tFloat),
+  regions: tOptional(tArray(tObject({
+    frame: tOptional(tChannel(['Frame'])),
+    selector: tOptional(tString),
+    rect: tOptional(tType('Rect')),
+    threshold: tOptional(tFloat),
+    maxDiffPixels: tOptional(tInt),
+    maxDiffPixelRatio: tOptional(tFloat),
+    ignore: tOptional(tBoolean),
+  }))),
   fullPage: tOptional(tBoolean),
   clip: tOptional(tType('Rect')),
   type: tOptional(tEnum(['png', 'webp'])),
@@ -2362,6 +2447,15 @@ scheme.PageExpectScreenshotParams = tObject({
   }))),
   maskColor: tOptional(tString),
   style: tOptional(tString),
+  stable: tOptional(tObject({
+    networkIdle: tOptional(tFloat),
+    fonts: tOptional(tBoolean),
+    images: tOptional(tBoolean),
+    predicate: tOptional(tObject({
+      expression: tString,
+      isFunction: tOptional(tBoolean),
+    })),
+  })),
 });
 scheme.PageExpectScreenshotResult = tObject({
   actual: tOptional(tBinary),
@@ -2389,6 +2483,15 @@ scheme.PageScreenshotParams = tObject({
   }))),
   maskColor: tOptional(tString),
   style: tOptional(tString),
+  stable: tOptional(tObject({
+    networkIdle: tOptional(tFloat),
+    fonts: tOptional(tBoolean),
+    images: tOptional(tBoolean),
+    predicate: tOptional(tObject({
+      expression: tString,
+      isFunction: tOptional(tBoolean),
+    })),
+  })),
 });
 scheme.PageScreenshotResult = tObject({
   binary: tBinary,
@@ -3034,6 +3137,11 @@ scheme.NameValue = tObject({
   name: tString,
   value: tString,
 });
+scheme.HarLookupCandidate = tObject({
+  url: tString,
+  method: tString,
+  mismatches: tArray(tEnum(['url', 'method', 'postData', 'headers'])),
+});
 scheme.TracingInitializer = tOptional(tObject({}));
 scheme.TracingTracingStartParams = tObject({
   name: tOptional(tString),
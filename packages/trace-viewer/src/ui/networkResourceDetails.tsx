@@ -178,8 +178,23 @@ const HeadersTab: React.FunctionComponent<{
     }).map(([name, value]) => ({ name, value })),
   [resource, startTimeOffset]);
 
+  const harLookupData = React.useMemo(() => {
+    const harLookup = resource._harLookup;
+    if (!harLookup)
+      return undefined;
+    return [
+      { name: 'HAR', value: harLookup.har },
+      { name: 'Outcome', value: harLookup.outcome === 'error' ? harLookup.message ?? 'error' : 'no matching entry' },
+      ...(harLookup.closest ?? []).map(candidate => ({
+        name: `${candidate.method} ${candidate.url}`,
+        value: candidate.mismatches.length ? `differs in ${candidate.mismatches.join(', ')}` : 'matches',
+      })),
+    ];
+  }, [resource]);
+
   return <div className='vbox network-request-details-tab'>
     <ExpandableSection title='General' data={generalData} />
+    {harLookupData && <ExpandableSection title='HAR Lookup' data={harLookupData} />}
     <ExpandableSection title='Request Headers' showCount data={resource.request.headers} />
     <ExpandableSection title='Response Headers' showCount data={resource.response.headers} />
   </div>;
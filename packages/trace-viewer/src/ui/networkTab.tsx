@@ -269,6 +269,8 @@ function resourceTimeRange(resource: ResourceEntry): Boundaries | undefined {
 }
 
 function formatRouteStatus(request: ResourceEntry): string {
+  if (request._harLookup)
+    return 'HAR miss';
   if (request._wasAborted)
     return 'aborted';
   if (request._wasContinued)
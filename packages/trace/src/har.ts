@@ -74,6 +74,18 @@ export type Entry = {
   _apiRequest?: boolean;
   _resourceType?: string;
   _webSocketMessages?: WebSocketMessage[];
+  _harLookup?: HarLookup;
+};
+
+export type HarLookup = {
+  har: string;
+  outcome: 'notFound' | 'error';
+  message?: string;
+  closest?: {
+    url: string;
+    method: string;
+    mismatches: ('url' | 'method' | 'postData' | 'headers')[];
+  }[];
 };
 
 export type WebSocketMessage = {
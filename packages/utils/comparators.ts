@@ -22,14 +22,20 @@ import { PNG } from 'pngjs';
 import { padImageToSize } from '@isomorphic/imageUtils';
 // @ts-ignore
 import pixelmatch from './third_party/pixelmatch';
-import { compare } from './image_tools/compare';
+import { compare, drawRectOutline } from './image_tools/compare';
+import { perceptualHashCompare } from './image_tools/phash';
+import { detectShift, shiftImage } from './image_tools/shift';
 import { decodeWebp } from './webp/webp';
 
 import type { ImageData } from '@isomorphic/imageUtils';
 
 export type ImageComparatorOptions = { threshold?: number, maxDiffPixels?: number, maxDiffPixelRatio?: number, comparator?: string };
+// Region of the image in pixels, compared with its own tolerance or ignored altogether.
+export type ImageRegion = { x: number, y: number, width: number, height: number, threshold?: number, maxDiffPixels?: number, maxDiffPixelRatio?: number, ignore?: boolean };
 export type ComparatorResult = { diff?: Buffer; errorMessage: string; } | null;
 export type Comparator = (actualBuffer: Buffer | string, expectedBuffer: Buffer, options?: any) => ComparatorResult;
+// Image comparator registered by the user in the config.
+export type CustomComparator = (actualBuffer: Buffer, expectedBuffer: Buffer, options: ImageComparatorOptions & { mimeType: string }) => ComparatorResult;
 
 export function getComparator(mimeType: string): Comparator {
   if (mimeType === 'image/png')
@@ -55,7 +61,7 @@ export function compareBuffersOrStrings(actualBuffer: Buffer | string, expectedB
   return null;
 }
 
-function compareImages(mimeType: string, actualBuffer: Buffer | string, expectedBuffer: Buffer, options: ImageComparatorOptions = {}): ComparatorResult {
+function compareImages(mimeType: string, actualBuffer: Buffer | string, expectedBuffer: Buffer, options: ImageComparatorOptions & { regions?: ImageRegion[] } = {}): ComparatorResult {
   if (!actualBuffer || !(actualBuffer instanceof Buffer))
     return { errorMessage: 'Actual result should be a Buffer.' };
   validateBuffer(expectedBuffer, mimeType);
@@ -76,34 +82,123 @@ function compareImages(mimeType: string, actualBuffer: Buffer | string, expected
     actual = padImageToSize(actual, size);
     expected = padImageToSize(expected, size);
   }
+  let layoutShiftError: string | undefined;
+  if (options.comparator === 'shift-tolerant') {
+    // Compare against the shifted expectation, so that moved content does not show up as different pixels.
+    const shift = detectShift(expected, actual);
+    if (shift) {
+      layoutShiftError = `Layout shift detected: content moved ${formatShift(shift)}.`;
+      expected = shiftImage(expected, actual, shift);
+    }
+  }
+  const regions = (options.regions ?? []).map(region => trimRegionToSize(region, size)).filter(region => region.width > 0 && region.height > 0);
+  // Ignored regions take the expected pixels, so they never differ.
+  for (const region of regions.filter(region => region.ignore))
+    copyImageRect(expected, actual, region, region);
+
   const diff = new PNG({ width: size.width, height: size.height });
-  let count;
+  let count = compareImageData(expected, actual, diff, options);
+  const pixelsMismatchErrors: string[] = [];
+  if (regions.length) {
+    for (const region of regions) {
+      if (region.ignore || region.threshold === undefined || region.threshold === options.threshold)
+        continue;
+      // Re-compare the region with its own threshold and replace its part of the diff.
+      const regionDiff = new PNG({ width: region.width, height: region.height });
+      compareImageData(cropImage(expected, region), cropImage(actual, region), regionDiff, { ...options, threshold: region.threshold });
+      copyImageRect(regionDiff, diff, { x: 0, y: 0, width: region.width, height: region.height }, region);
+    }
+    // Every different pixel counts towards the last region that contains it, or the whole image.
+    const regionCounts = regions.map(() => 0);
+    count = 0;
+    for (let y = 0; y < size.height; ++y) {
+      for (let x = 0; x < size.width; ++x) {
+        const idx = (y * size.width + x) * 4;
+        if (diff.data[idx] !== 255 || diff.data[idx + 1] !== 0 || diff.data[idx + 2] !== 0)
+          continue;
+        const index = regions.findLastIndex(region => x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height);
+        if (index === -1)
+          ++count;
+        else
+          ++regionCounts[index];
+      }
+    }
+    regions.forEach((region, index) => {
+      const area = region.width * region.height;
+      if (!region.ignore && regionCounts[index] > maxDiffPixels(region, area))
+        pixelsMismatchErrors.push(`${regionCounts[index]} pixels (ratio ${formatRatio(regionCounts[index], area)} of region pixels) are different in region ${region.x},${region.y} ${region.width}x${region.height}.`);
+      drawRectOutline(size.width, size.height, diff.data, region, region.ignore ? [0, 255, 255] : [0, 0, 255]);
+    });
+  }
+
+  const area = expected.width * expected.height;
+  if (count > maxDiffPixels(options, area))
+    pixelsMismatchErrors.unshift(`${count} pixels (ratio ${formatRatio(count, area)} of all image pixels) are different.`);
+  if (layoutShiftError)
+    pixelsMismatchErrors.unshift(layoutShiftError);
+  if (pixelsMismatchErrors.length || sizesMismatchError)
+    return { errorMessage: sizesMismatchError + pixelsMismatchErrors.join(' '), diff: PNG.sync.write(diff) };
+  return null;
+}
+
+function compareImageData(expected: ImageData, actual: ImageData, diff: ImageData, options: ImageComparatorOptions): number {
   if (options.comparator === 'ssim-cie94') {
-    count = compare(expected.data, actual.data, diff.data, size.width, size.height, {
+    return compare(expected.data, actual.data, diff.data, diff.width, diff.height, {
       // All ΔE* formulae are originally designed to have the difference of 1.0 stand for a "just noticeable difference" (JND).
       // See https://en.wikipedia.org/wiki/Color_difference#CIELAB_%CE%94E*
       maxColorDeltaE94: 1.0,
     });
-  } else if ((options.comparator ?? 'pixelmatch') === 'pixelmatch') {
-    count = pixelmatch(expected.data, actual.data, diff.data, size.width, size.height, {
+  }
+  if (options.comparator === 'phash')
+    return perceptualHashCompare(actual.data, expected.data, diff.data, diff.width, diff.height, { threshold: options.threshold });
+  if ((options.comparator ?? 'pixelmatch') === 'pixelmatch' || options.comparator === 'shift-tolerant') {
+    return pixelmatch(expected.data, actual.data, diff.data, diff.width, diff.height, {
       threshold: options.threshold ?? 0.2,
     });
-  } else {
-    throw new Error(`Configuration specifies unknown comparator "${options.comparator}"`);
   }
+  throw new Error(`Configuration specifies unknown comparator "${options.comparator}"`);
+}
 
+function maxDiffPixels(options: { maxDiffPixels?: number, maxDiffPixelRatio?: number }, area: number): number {
   const maxDiffPixels1 = options.maxDiffPixels;
-  const maxDiffPixels2 = options.maxDiffPixelRatio !== undefined ? expected.width * expected.height * options.maxDiffPixelRatio : undefined;
-  let maxDiffPixels;
+  const maxDiffPixels2 = options.maxDiffPixelRatio !== undefined ? area * options.maxDiffPixelRatio : undefined;
   if (maxDiffPixels1 !== undefined && maxDiffPixels2 !== undefined)
-    maxDiffPixels = Math.min(maxDiffPixels1, maxDiffPixels2);
-  else
-    maxDiffPixels = maxDiffPixels1 ?? maxDiffPixels2 ?? 0;
-  const ratio = Math.ceil(count / (expected.width * expected.height) * 100) / 100;
-  const pixelsMismatchError = count > maxDiffPixels ? `${count} pixels (ratio ${ratio.toFixed(2)} of all image pixels) are different.` : '';
-  if (pixelsMismatchError || sizesMismatchError)
-    return { errorMessage: sizesMismatchError + pixelsMismatchError, diff: PNG.sync.write(diff) };
-  return null;
+    return Math.min(maxDiffPixels1, maxDiffPixels2);
+  return maxDiffPixels1 ?? maxDiffPixels2 ?? 0;
+}
+
+function formatShift({ dx, dy }: { dx: number, dy: number }): string {
+  const parts = [];
+  if (dx)
+    parts.push(`${Math.abs(dx)}px ${dx < 0 ? 'left' : 'right'}`);
+  if (dy)
+    parts.push(`${Math.abs(dy)}px ${dy < 0 ? 'up' : 'down'}`);
+  return parts.join(' and ');
+}
+
+function formatRatio(count: number, area: number): string {
+  return (Math.ceil(count / area * 100) / 100).toFixed(2);
+}
+
+function trimRegionToSize(region: ImageRegion, size: { width: number, height: number }): ImageRegion {
+  const x = Math.max(0, Math.min(Math.floor(region.x), size.width));
+  const y = Math.max(0, Math.min(Math.floor(region.y), size.height));
+  const width = Math.max(0, Math.min(Math.ceil(region.x + region.width), size.width) - x);
+  const height = Math.max(0, Math.min(Math.ceil(region.y + region.height), size.height) - y);
+  return { ...region, x, y, width, height };
+}
+
+function cropImage(image: ImageData, rect: ImageRegion): ImageData {
+  const result = { width: rect.width, height: rect.height, data: Buffer.alloc(rect.width * rect.height * 4) };
+  copyImageRect(image, result, rect, { x: 0, y: 0 });
+  return result;
+}
+
+function copyImageRect(from: ImageData, to: ImageData, rect: { x: number, y: number, width: number, height: number }, position: { x: number, y: number }) {
+  for (let y = 0; y < rect.height; ++y) {
+    const start = ((rect.y + y) * from.width + rect.x) * 4;
+    from.data.copy(to.data, ((position.y + y) * to.width + position.x) * 4, start, start + rect.width * 4);
+  }
 }
 
 function validateBuffer(buffer: Buffer, mimeType: string): void {
@@ -21,7 +21,7 @@ import { FastStats, ssim } from './stats';
 const SSIM_WINDOW_RADIUS = 15;
 const VARIANCE_WINDOW_RADIUS = 1;
 
-function drawPixel(width: number, data: Buffer, x: number, y: number, r: number, g: number, b: number) {
+export function drawPixel(width: number, data: Buffer, x: number, y: number, r: number, g: number, b: number) {
   const idx = (y * width + x) * 4;
   data[idx + 0] = r;
   data[idx + 1] = g;
@@ -29,6 +29,21 @@ function drawPixel(width: number, data: Buffer, x: number, y: number, r: number,
   data[idx + 3] = 255;
 }
 
+export function drawRectOutline(width: number, height: number, data: Buffer, rect: { x: number, y: number, width: number, height: number }, [r, g, b]: [number, number, number]) {
+  const x1 = Math.max(0, rect.x);
+  const y1 = Math.max(0, rect.y);
+  const x2 = Math.min(width, rect.x + rect.width) - 1;
+  const y2 = Math.min(height, rect.y + rect.height) - 1;
+  for (let x = x1; x <= x2; ++x) {
+    drawPixel(width, data, x, y1, r, g, b);
+    drawPixel(width, data, x, y2, r, g, b);
+  }
+  for (let y = y1; y <= y2; ++y) {
+    drawPixel(width, data, x1, y, r, g, b);
+    drawPixel(width, data, x2, y, r, g, b);
+  }
+}
+
 type CompareOptions = {
   maxColorDeltaE94?: number;
 };
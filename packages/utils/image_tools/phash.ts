@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { blendWithWhite, rgb2gray } from './colorUtils';
+import { drawPixel } from './compare';
+
+// Images are compared block by block, so that a local change is not averaged out by the rest of the image.
+const BLOCK_SIZE = 32;
+// Low frequencies that make up the hash, 8x8 without the DC coefficient gives a 63-bit hash.
+const HASH_SIZE = 8;
+// Hashes ignore the average brightness, so it is compared separately.
+const MAX_MEAN_DELTA = 8;
+// Blocks with less detail than a few fully contrasting pixels are considered flat, their hash is just noise.
+const MIN_DETAIL = 4 * 255;
+
+type PerceptualHashOptions = {
+  // Ratio of hash bits that may differ in a block, between 0 and 1.
+  threshold?: number;
+};
+
+const cosines = computeCosines();
+
+export function perceptualHashCompare(actual: Buffer, expected: Buffer, diff: Buffer | null, width: number, height: number, options: PerceptualHashOptions = {}) {
+  const maxHashDistance = Math.round((options.threshold ?? 0.1) * (HASH_SIZE * HASH_SIZE - 1));
+  let diffCount = 0;
+  for (let blockY = 0; blockY < height; blockY += BLOCK_SIZE) {
+    for (let blockX = 0; blockX < width; blockX += BLOCK_SIZE) {
+      const block = { x: blockX, y: blockY, width: Math.min(BLOCK_SIZE, width - blockX), height: Math.min(BLOCK_SIZE, height - blockY) };
+      const hash1 = blockHash(actual, width, block);
+      const hash2 = blockHash(expected, width, block);
+      // Pixels only count as different in the blocks that look different.
+      const isDifferent = Math.abs(hash1.mean - hash2.mean) > MAX_MEAN_DELTA || hash1.isFlat !== hash2.isFlat || (!hash1.isFlat && hammingDistance(hash1.bits, hash2.bits) > maxHashDistance);
+      for (let y = block.y; y < block.y + block.height; ++y) {
+        for (let x = block.x; x < block.x + block.width; ++x) {
+          const idx = (y * width + x) * 4;
+          const isSamePixel = actual[idx] === expected[idx] && actual[idx + 1] === expected[idx + 1] && actual[idx + 2] === expected[idx + 2] && actual[idx + 3] === expected[idx + 3];
+          if (isDifferent && !isSamePixel) {
+            ++diffCount;
+            if (diff)
+              drawPixel(width, diff, x, y, 255, 0, 0);
+          } else if (diff) {
+            const value = blendWithWhite(rgb2gray(actual[idx], actual[idx + 1], actual[idx + 2]), 0.1);
+            drawPixel(width, diff, x, y, value, value, value);
+          }
+        }
+      }
+    }
+  }
+  return diffCount;
+}
+
+function blockHash(data: Buffer, width: number, block: { x: number, y: number, width: number, height: number }): { mean: number, isFlat: boolean, bits: boolean[] } {
+  // Sample the block into a BLOCK_SIZE x BLOCK_SIZE grayscale square.
+  const pixels = new Float64Array(BLOCK_SIZE * BLOCK_SIZE);
+  let mean = 0;
+  for (let y = 0; y < BLOCK_SIZE; ++y) {
+    for (let x = 0; x < BLOCK_SIZE; ++x) {
+      const sourceX = block.x + Math.floor(x * block.width / BLOCK_SIZE);
+      const sourceY = block.y + Math.floor(y * block.height / BLOCK_SIZE);
+      const idx = (sourceY * width + sourceX) * 4;
+      const gray = blendWithWhite(rgb2gray(data[idx], data[idx + 1], data[idx + 2]), data[idx + 3] / 255);
+      pixels[y * BLOCK_SIZE + x] = gray;
+      mean += gray;
+    }
+  }
+  mean /= BLOCK_SIZE * BLOCK_SIZE;
+
+  // Separable DCT-II, only the lowest HASH_SIZE frequencies are needed.
+  const rows = new Float64Array(BLOCK_SIZE * HASH_SIZE);
+  for (let y = 0; y < BLOCK_SIZE; ++y) {
+    for (let u = 0; u < HASH_SIZE; ++u) {
+      let sum = 0;
+      for (let x = 0; x < BLOCK_SIZE; ++x)
+        sum += pixels[y * BLOCK_SIZE + x] * cosines[u * BLOCK_SIZE + x];
+      rows[y * HASH_SIZE + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; ++v) {
+    for (let u = 0; u < HASH_SIZE; ++u) {
+      let sum = 0;
+      for (let y = 0; y < BLOCK_SIZE; ++y)
+        sum += rows[y * HASH_SIZE + u] * cosines[v * BLOCK_SIZE + y];
+      coefficients.push(sum);
+    }
+  }
+  // The DC coefficient is the average brightness, it is excluded from the hash.
+  const ac = coefficients.slice(1);
+  const isFlat = ac.every(c => Math.abs(c) < MIN_DETAIL);
+  const median = [...ac].sort((a, b) => a - b)[Math.floor(ac.length / 2)];
+  return { mean, isFlat, bits: ac.map(c => c > median) };
+}
+
+function hammingDistance(bits1: boolean[], bits2: boolean[]): number {
+  let distance = 0;
+  for (let i = 0; i < bits1.length; ++i) {
+    if (bits1[i] !== bits2[i])
+      ++distance;
+  }
+  return distance;
+}
+
+function computeCosines(): Float64Array {
+  const result = new Float64Array(HASH_SIZE * BLOCK_SIZE);
+  for (let u = 0; u < HASH_SIZE; ++u) {
+    for (let x = 0; x < BLOCK_SIZE; ++x)
+      result[u * BLOCK_SIZE + x] = Math.cos((2 * x + 1) * u * Math.PI / (2 * BLOCK_SIZE));
+  }
+  return result;
+}
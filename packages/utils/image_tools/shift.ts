@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { rgb2gray } from './colorUtils';
+
+import type { ImageData } from '@isomorphic/imageUtils';
+
+// Layout shifts are looked for within this many pixels in each direction.
+const MAX_SHIFT = 16;
+
+export type Shift = { dx: number, dy: number };
+
+// Finds the offset by which the content of the expected image moved in the actual one.
+export function detectShift(expected: ImageData, actual: ImageData): Shift | undefined {
+  const expectedRows = profile(expected, 'rows');
+  const actualRows = profile(actual, 'rows');
+  const expectedColumns = profile(expected, 'columns');
+  const actualColumns = profile(actual, 'columns');
+  const shift = { dx: bestOffset(expectedColumns, actualColumns), dy: bestOffset(expectedRows, actualRows) };
+  if (!shift.dx && !shift.dy)
+    return;
+  // Profiles are a cheap estimate, only accept the shift when it explains most of the difference.
+  const shiftedCount = countDifferentPixels(shiftImage(expected, actual, shift), actual);
+  const count = countDifferentPixels(expected, actual);
+  if (shiftedCount * 2 >= count)
+    return;
+  return shift;
+}
+
+// Moves the expected content by the shift, the uncovered area is taken from the actual image.
+export function shiftImage(expected: ImageData, actual: ImageData, { dx, dy }: Shift): ImageData {
+  const { width, height } = expected;
+  const data = Buffer.from(actual.data);
+  for (let y = Math.max(0, dy); y < Math.min(height, height + dy); ++y) {
+    const start = (y * width + Math.max(0, dx)) * 4;
+    const sourceStart = ((y - dy) * width + Math.max(0, -dx)) * 4;
+    expected.data.copy(data, start, sourceStart, sourceStart + (width - Math.abs(dx)) * 4);
+  }
+  return { width, height, data };
+}
+
+function profile(image: ImageData, direction: 'rows' | 'columns'): Float64Array {
+  const result = new Float64Array(direction === 'rows' ? image.height : image.width);
+  for (let y = 0; y < image.height; ++y) {
+    for (let x = 0; x < image.width; ++x) {
+      const idx = (y * image.width + x) * 4;
+      result[direction === 'rows' ? y : x] += rgb2gray(image.data[idx], image.data[idx + 1], image.data[idx + 2]);
+    }
+  }
+  return result;
+}
+
+function bestOffset(expected: Float64Array, actual: Float64Array): number {
+  let best = 0;
+  let bestError = Infinity;
+  const maxShift = Math.min(MAX_SHIFT, expected.length - 1);
+  // Prefer smaller offsets when errors are equal.
+  for (const offset of [0, ...Array.from({ length: maxShift }, (_, i) => [i + 1, -i - 1]).flat()]) {
+    let error = 0;
+    for (let i = Math.max(0, offset); i < Math.min(actual.length, expected.length + offset); ++i)
+      error += Math.abs(actual[i] - expected[i - offset]);
+    error /= expected.length - Math.abs(offset);
+    if (error < bestError) {
+      best = offset;
+      bestError = error;
+    }
+  }
+  return best;
+}
+
+function countDifferentPixels(image1: ImageData, image2: ImageData): number {
+  let count = 0;
+  for (let idx = 0; idx < image1.data.length; idx += 4) {
+    if (image1.data[idx] !== image2.data[idx] || image1.data[idx + 1] !== image2.data[idx + 1] || image1.data[idx + 2] !== image2.data[idx + 2] || image1.data[idx + 3] !== image2.data[idx + 3])
+      ++count;
+  }
+  return count;
+}
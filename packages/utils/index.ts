@@ -30,6 +30,7 @@ export * from './network';
 export * from './processLauncher';
 export * from './profiler';
 export * from './serializedFS';
+export * from './snapshotStore';
 export * from './socksProxy';
 export * from './spawnAsync';
 export * from './stackTrace';
@@ -0,0 +1,276 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { Semaphore } from '@isomorphic/semaphore';
+
+import { calculateSha1 } from './crypto';
+import { httpRequest, NET_DEFAULT_TIMEOUT } from './network';
+
+export interface SnapshotStore {
+  get(hash: string): Promise<Buffer | undefined>;
+  put(hash: string, content: Buffer): Promise<void>;
+}
+
+export type SnapshotStoreOptions = {
+  type: 'fs',
+  directory: string,
+} | {
+  type: 'http',
+  url: string,
+  headers?: { [name: string]: string },
+} | {
+  type: 'custom',
+  store: SnapshotStore,
+  // Identifies the store between runs, keys the local cache.
+  id: string,
+};
+
+const kPointerVersion = 'version playwright-snapshot/1';
+// Pointer files are tiny, anything larger is a regular snapshot.
+const kMaxPointerSize = 1024;
+const kTransferConcurrency = 8;
+
+export class FileSnapshotStore implements SnapshotStore {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(hash: string): Promise<Buffer | undefined> {
+    return this.getSync(hash);
+  }
+
+  async put(hash: string, content: Buffer): Promise<void> {
+    this.putSync(hash, content);
+  }
+
+  has(hash: string): boolean {
+    return fs.existsSync(this._path(hash));
+  }
+
+  getSync(hash: string): Buffer | undefined {
+    const file = this._path(hash);
+    return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+  }
+
+  putSync(hash: string, content: Buffer) {
+    const file = this._path(hash);
+    if (fs.existsSync(file))
+      return;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Workers may store the same content concurrently, rename makes the write atomic.
+    const tempFile = file + '.' + process.pid + '.tmp';
+    fs.writeFileSync(tempFile, content);
+    fs.renameSync(tempFile, file);
+  }
+
+  private _path(hash: string): string {
+    return path.join(this.directory, hash.substring(0, 2), hash.substring(2));
+  }
+}
+
+export class HttpSnapshotStore implements SnapshotStore {
+  private _url: string;
+  private _headers: { [name: string]: string };
+
+  constructor(url: string, headers: { [name: string]: string } = {}) {
+    this._url = url.replace(/\/+$/, '');
+    this._headers = headers;
+  }
+
+  async get(hash: string): Promise<Buffer | undefined> {
+    const url = `${this._url}/${hash}`;
+    return await new Promise<Buffer | undefined>((resolve, reject) => {
+      httpRequest({ url, headers: this._headers, socketTimeout: NET_DEFAULT_TIMEOUT }, response => {
+        if (response.statusCode === 404) {
+          response.resume();
+          resolve(undefined);
+          return;
+        }
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(new Error(`Failed to download snapshot ${hash} from ${url}: ${response.statusCode} ${response.statusMessage}`));
+          return;
+        }
+        const chunks: Buffer[] = [];
+        response.on('data', chunk => chunks.push(chunk));
+        response.on('end', () => resolve(Buffer.concat(chunks)));
+        response.on('error', reject);
+      }, reject);
+    });
+  }
+
+  async put(hash: string, content: Buffer): Promise<void> {
+    const url = `${this._url}/${hash}`;
+    await new Promise<void>((resolve, reject) => {
+      httpRequest({
+        url,
+        method: 'PUT',
+        headers: { ...this._headers, 'content-type': 'application/octet-stream', 'content-length': String(content.length) },
+        data: content,
+        socketTimeout: NET_DEFAULT_TIMEOUT,
+      }, response => {
+        response.resume();
+        const statusCode = response.statusCode ?? 0;
+        if (statusCode >= 200 && statusCode < 300)
+          resolve();
+        else
+          reject(new Error(`Failed to upload snapshot ${hash} to ${url}: ${statusCode} ${response.statusMessage}`));
+      }, reject);
+    });
+  }
+}
+
+// Resolves snapshot files that are pointers into the store. Content is always
+// available in a local content-addressed cache, so that it can be read synchronously.
+// Content written by any process is marked as pending in the cache and is uploaded
+// to the remote store in one go by the runner.
+export class SnapshotStorage {
+  private _cache: FileSnapshotStore;
+  private _remote: SnapshotStore | undefined;
+
+  constructor(options: SnapshotStoreOptions) {
+    if (options.type === 'fs') {
+      this._cache = new FileSnapshotStore(options.directory);
+    } else if (options.type === 'http') {
+      this._cache = new FileSnapshotStore(remoteCacheDirectory(options.url));
+      this._remote = new HttpSnapshotStore(options.url, options.headers);
+    } else {
+      this._cache = new FileSnapshotStore(remoteCacheDirectory(options.id));
+      this._remote = options.store;
+    }
+  }
+
+  readSync(file: string): Buffer {
+    const content = fs.readFileSync(file);
+    const hash = parseSnapshotPointer(content);
+    if (!hash)
+      return content;
+    const stored = this._cache.getSync(hash);
+    if (!stored)
+      throw new Error(`Snapshot ${file} refers to ${hash} that is missing from the snapshot store.`);
+    return stored;
+  }
+
+  async read(file: string): Promise<Buffer> {
+    const content = await fs.promises.readFile(file);
+    const hash = parseSnapshotPointer(content);
+    if (hash && !this._cache.has(hash))
+      await this._download(hash);
+    return this.readSync(file);
+  }
+
+  write(file: string, content: Buffer) {
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    this._cache.putSync(hash, content);
+    if (this._remote) {
+      fs.mkdirSync(this._pendingDirectory(), { recursive: true });
+      fs.writeFileSync(path.join(this._pendingDirectory(), hash), '');
+    }
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, formatSnapshotPointer(hash, content.length));
+  }
+
+  // Fetches content for all pointer files in the directories that is not in the cache yet.
+  async download(directories: string[]) {
+    if (!this._remote)
+      return;
+    const hashes = new Set<string>();
+    for (const directory of directories)
+      await collectPointers(directory, hashes);
+    await runWithConcurrency([...hashes].filter(hash => !this._cache.has(hash)), hash => this._download(hash));
+  }
+
+  // Uploads content written since the last upload, including content written by other processes.
+  async upload() {
+    if (!this._remote)
+      return;
+    const pending = await fs.promises.readdir(this._pendingDirectory()).catch(() => []);
+    await runWithConcurrency(pending, async hash => {
+      const content = this._cache.getSync(hash);
+      if (content)
+        await this._remote!.put(hash, content);
+      await fs.promises.unlink(path.join(this._pendingDirectory(), hash)).catch(() => {});
+    });
+  }
+
+  private async _download(hash: string) {
+    const content = await this._remote?.get(hash);
+    if (!content)
+      return;
+    if (crypto.createHash('sha256').update(content).digest('hex') !== hash)
+      throw new Error(`Snapshot store returned content that does not match ${hash}.`);
+    this._cache.putSync(hash, content);
+  }
+
+  private _pendingDirectory() {
+    return path.join(this._cache.directory, 'pending');
+  }
+}
+
+export function parseSnapshotPointer(content: Buffer): string | undefined {
+  if (content.length > kMaxPointerSize)
+    return;
+  const lines = content.toString('utf8').split('\n');
+  if (lines[0] !== kPointerVersion)
+    return;
+  const match = lines.find(line => line.startsWith('oid sha256:'))?.match(/^oid sha256:([0-9a-f]{64})$/);
+  return match?.[1];
+}
+
+function formatSnapshotPointer(hash: string, size: number): string {
+  return [kPointerVersion, `oid sha256:${hash}`, `size ${size}`, ''].join('\n');
+}
+
+function remoteCacheDirectory(id: string) {
+  return path.join(os.tmpdir(), 'playwright-snapshot-store', calculateSha1(id));
+}
+
+async function runWithConcurrency<T>(items: T[], callback: (item: T) => Promise<void>) {
+  const semaphore = new Semaphore(kTransferConcurrency);
+  await Promise.all(items.map(async item => {
+    await semaphore.acquire();
+    try {
+      await callback(item);
+    } finally {
+      semaphore.release();
+    }
+  }));
+}
+
+async function collectPointers(directory: string, hashes: Set<string>) {
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules')
+      continue;
+    const file = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      await collectPointers(file, hashes);
+      continue;
+    }
+    if (!entry.isFile() || (await fs.promises.stat(file)).size > kMaxPointerSize)
+      continue;
+    const hash = parseSnapshotPointer(await fs.promises.readFile(file));
+    if (hash)
+      hashes.add(hash);
+  }
+}
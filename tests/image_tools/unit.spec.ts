@@ -14,7 +14,8 @@
  * limitations under the License.
  */
 
-import { test } from '../playwright-test/stable-test-runner';
+import { test, expect } from '../playwright-test/stable-test-runner';
+import { PNG } from 'playwright-core/lib/utilsBundle';
 import { utils } from '../../packages/playwright-core/lib/coreBundle';
 
 import referenceSSIM from 'ssim.js';
@@ -88,6 +89,31 @@ test('ssim + fastStats should match "weber" algorithm from ssim.js', async () =>
   }
 });
 
+test('phash comparator should draw the actual image in the diff background', async () => {
+  const createPNG = (blackPixels: { x: number, y: number }[]) => {
+    const png = new PNG({ width: 64, height: 32 });
+    png.data.fill(255);
+    for (const { x, y } of blackPixels)
+      png.data.fill(0, (y * 64 + x) * 4, (y * 64 + x) * 4 + 3);
+    return PNG.sync.write(png);
+  };
+  const blackRect: { x: number, y: number }[] = [];
+  for (let y = 0; y < 20; ++y) {
+    for (let x = 0; x < 20; ++x)
+      blackRect.push({ x, y });
+  }
+  // The left block is different, the single pixel in the right block is not enough to differ.
+  const actual = createPNG([...blackRect, { x: 40, y: 10 }]);
+  const expected = createPNG([]);
+  const result = utils.getComparator('image/png')(actual, expected, { comparator: 'phash' });
+  const diff = PNG.sync.read(result!.diff!);
+  const pixel = (x: number, y: number) => [...diff.data.subarray((y * 64 + x) * 4, (y * 64 + x) * 4 + 3)];
+  expect(pixel(0, 0)).toEqual([255, 0, 0]);
+  // Unchanged blocks show the actual image, faded towards white.
+  expect(pixel(40, 10)[0]).toBeLessThan(255);
+  expect(pixel(50, 10)).toEqual([255, 255, 255]);
+});
+
 function computeMean(c: ImageChannel, x1: number, y1: number, x2: number, y2: number) {
   let result = 0;
   const N = (x2 - x1 + 1) * (y2 - y1 + 1);
@@ -610,3 +610,127 @@ it('should ignore aborted requests', async ({ contextFactory, server }) => {
     expect(result).toBe('timeout');
   }
 });
+
+it('should ignore query params when matching', async ({ contextFactory, server }, testInfo) => {
+  server.setRoute('/data', (req, res) => {
+    res.end(new URL(req.url!, server.PREFIX).searchParams.get('id'));
+  });
+
+  const harPath = testInfo.outputPath('har.zip');
+  const context1 = await contextFactory({ recordHar: { mode: 'minimal', path: harPath } });
+  const page1 = await context1.newPage();
+  await page1.goto(server.EMPTY_PAGE);
+  const fetchFunction = async (query: string) => {
+    const response = await fetch('/data?' + query);
+    return await response.text();
+  };
+  expect(await page1.evaluate(fetchFunction, 'id=1&ts=100')).toBe('1');
+  expect(await page1.evaluate(fetchFunction, 'id=2&ts=200')).toBe('2');
+  await context1.close();
+
+  server.reset();
+  const context2 = await contextFactory();
+  await context2.routeFromHAR(harPath, { ignoreQueryParams: ['ts'] });
+  const page2 = await context2.newPage();
+  await page2.goto(server.EMPTY_PAGE);
+  expect(await page2.evaluate(fetchFunction, 'ts=300&id=2')).toBe('2');
+  expect(await page2.evaluate(fetchFunction, 'id=1&ts=400')).toBe('1');
+  expect(await page2.evaluate(fetchFunction, 'id=3&ts=500').catch(e => e)).toBeTruthy();
+
+  const context3 = await contextFactory();
+  await context3.routeFromHAR(harPath, { ignoreQueryParams: true });
+  const page3 = await context3.newPage();
+  await page3.goto(server.EMPTY_PAGE);
+  expect(await page3.evaluate(fetchFunction, 'id=3')).toBe('1');
+});
+
+it('should ignore post data fields when matching', async ({ contextFactory, server }, testInfo) => {
+  server.setRoute('/echo', async (req, res) => {
+    const body = await req.postBody;
+    res.end(String(JSON.parse(body.toString()).query.value));
+  });
+
+  const harPath = testInfo.outputPath('har.zip');
+  const context1 = await contextFactory({ recordHar: { mode: 'minimal', path: harPath } });
+  const page1 = await context1.newPage();
+  await page1.goto(server.EMPTY_PAGE);
+  const fetchFunction = async (body: string) => {
+    const response = await fetch('/echo', { method: 'POST', body });
+    return await response.text();
+  };
+  expect(await page1.evaluate(fetchFunction, JSON.stringify({ requestId: 'a', query: { value: 1, nonce: 'x' } }))).toBe('1');
+  expect(await page1.evaluate(fetchFunction, JSON.stringify({ requestId: 'b', query: { value: 2, nonce: 'y' } }))).toBe('2');
+  await context1.close();
+
+  server.reset();
+  const context2 = await contextFactory();
+  await context2.routeFromHAR(harPath, { ignorePostDataFields: ['requestId', 'nonce'] });
+  const page2 = await context2.newPage();
+  await page2.goto(server.EMPTY_PAGE);
+  expect(await page2.evaluate(fetchFunction, JSON.stringify({ query: { nonce: 'z', value: 2 }, requestId: 'c' }))).toBe('2');
+  expect(await page2.evaluate(fetchFunction, JSON.stringify({ requestId: 'd', query: { value: 1 } }))).toBe('1');
+  expect(await page2.evaluate(fetchFunction, JSON.stringify({ requestId: 'e', query: { value: 3 } })).catch(e => e)).toBeTruthy();
+});
+
+it('should serve matching entries in round-robin order', async ({ contextFactory, server }, testInfo) => {
+  let counter = 0;
+  server.setRoute('/poll', (req, res) => {
+    res.end(String(++counter));
+  });
+
+  const harPath = testInfo.outputPath('har.zip');
+  const context1 = await contextFactory({ recordHar: { mode: 'minimal', path: harPath } });
+  const page1 = await context1.newPage();
+  await page1.goto(server.EMPTY_PAGE);
+  const fetchFunction = async () => {
+    const response = await fetch('/poll');
+    return await response.text();
+  };
+  expect(await page1.evaluate(fetchFunction)).toBe('1');
+  expect(await page1.evaluate(fetchFunction)).toBe('2');
+  expect(await page1.evaluate(fetchFunction)).toBe('3');
+  await context1.close();
+
+  server.reset();
+  const context2 = await contextFactory();
+  await context2.routeFromHAR(harPath, { roundRobin: true });
+  const page2 = await context2.newPage();
+  await page2.goto(server.EMPTY_PAGE);
+  expect(await page2.evaluate(fetchFunction)).toBe('1');
+  expect(await page2.evaluate(fetchFunction)).toBe('2');
+  expect(await page2.evaluate(fetchFunction)).toBe('3');
+  expect(await page2.evaluate(fetchFunction)).toBe('1');
+});
+
+it('should use custom matcher', async ({ contextFactory, server }, testInfo) => {
+  server.setRoute('/v1/user', (req, res) => res.end('v1'));
+  server.setRoute('/v2/user', (req, res) => res.end('v2'));
+
+  const harPath = testInfo.outputPath('har.zip');
+  const context1 = await contextFactory({ recordHar: { mode: 'minimal', path: harPath } });
+  const page1 = await context1.newPage();
+  await page1.goto(server.EMPTY_PAGE);
+  const fetchFunction = async (path: string) => {
+    const response = await fetch(path);
+    return await response.text();
+  };
+  expect(await page1.evaluate(fetchFunction, '/v1/user')).toBe('v1');
+  expect(await page1.evaluate(fetchFunction, '/v2/user')).toBe('v2');
+  await context1.close();
+
+  server.reset();
+  const context2 = await contextFactory();
+  const entries: string[] = [];
+  await context2.routeFromHAR(harPath, {
+    url: '**/user',
+    matcher: (request, entry) => {
+      entries.push(entry.url);
+      return entry.url.endsWith('/v2/user') && request.url().endsWith('/latest/user');
+    },
+  });
+  const page2 = await context2.newPage();
+  await page2.goto(server.EMPTY_PAGE);
+  expect(await page2.evaluate(fetchFunction, '/latest/user')).toBe('v2');
+  expect(entries).toContain(server.PREFIX + '/v1/user');
+  expect(await page2.evaluate(fetchFunction, '/v1/user').catch(e => e)).toBeTruthy();
+});
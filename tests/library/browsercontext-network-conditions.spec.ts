@@ -0,0 +1,114 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { browserTest as it, expect } from '../config/browserTest';
+
+const timedFetch = async (url: string) => {
+  const start = performance.now();
+  try {
+    const text = await fetch(url, { cache: 'no-store' }).then(r => r.text());
+    return { length: text.length, time: performance.now() - start };
+  } catch {
+    return { error: true, time: performance.now() - start };
+  }
+};
+
+it('should emulate latency', async ({ context, page, server }) => {
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ latency: 500 });
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/title.html');
+  expect(result.error).toBeFalsy();
+  expect(result.time).toBeGreaterThanOrEqual(450);
+});
+
+it('should emulate download throughput', async ({ context, page, server }) => {
+  server.setRoute('/large', (req, res) => {
+    res.setHeader('Content-Type', 'text/plain');
+    res.end('a'.repeat(50 * 1024));
+  });
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ downloadThroughput: 100 * 1024 });
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/large');
+  expect(result.length).toBe(50 * 1024);
+  expect(result.time).toBeGreaterThanOrEqual(400);
+});
+
+it('should stop throttling', async ({ context, page, server }) => {
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ latency: 5000 });
+  await context.setNetworkConditions(null);
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/title.html');
+  expect(result.error).toBeFalsy();
+  expect(result.time).toBeLessThan(4000);
+});
+
+it('should apply to pages created later', async ({ context, server }) => {
+  await context.setNetworkConditions('Slow 3G');
+  const page = await context.newPage();
+  await page.goto(server.EMPTY_PAGE);
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/title.html');
+  expect(result.time).toBeGreaterThanOrEqual(1900);
+});
+
+it('should fail requests with packet loss', async ({ context, page, server }) => {
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ packetLoss: 100 });
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/title.html');
+  expect(result.error).toBe(true);
+});
+
+it('should not follow redirects when throttled', async ({ context, page, server }) => {
+  server.setRedirect('/redirect', '/title.html');
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ latency: 100, downloadThroughput: 100 * 1024 });
+  const response = await page.goto(server.PREFIX + '/redirect');
+  expect(response!.url()).toBe(server.PREFIX + '/title.html');
+  expect(response!.request().redirectedFrom()!.url()).toBe(server.PREFIX + '/redirect');
+});
+
+it('should fail throttled requests when the server drops the connection', async ({ context, page, server }) => {
+  server.setRoute('/dropped', (req, res) => req.socket.destroy());
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ downloadThroughput: 100 * 1024 });
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/dropped');
+  expect(result.error).toBe(true);
+});
+
+it('should set response cookies once when throttled', async ({ context, page, server }) => {
+  server.setRoute('/cookie', (req, res) => {
+    res.setHeader('Set-Cookie', 'name=value; HttpOnly');
+    res.end('cookie');
+  });
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ downloadThroughput: 100 * 1024 });
+  await page.evaluate(timedFetch, server.PREFIX + '/cookie');
+  expect((await context.cookies()).map(c => `${c.name}=${c.value}`)).toEqual(['name=value']);
+});
+
+it('should let routes fulfill throttled requests', async ({ context, page, server }) => {
+  await page.goto(server.EMPTY_PAGE);
+  await context.setNetworkConditions({ packetLoss: 100 });
+  await context.route('**/mocked', route => route.fulfill({ body: 'mocked' }));
+  const result = await page.evaluate(timedFetch, server.PREFIX + '/mocked');
+  expect(result).toEqual({ length: 6, time: expect.any(Number) });
+});
+
+it('should throw for unknown presets and invalid packet loss', async ({ context }) => {
+  const presetError = await context.setNetworkConditions('Slow 5G' as any).catch(e => e);
+  expect(presetError.message).toContain('Unknown network conditions preset "Slow 5G", expected one of "Slow 3G", "Fast 3G", "Slow 4G"');
+  const packetLossError = await context.setNetworkConditions({ packetLoss: 150 }).catch(e => e);
+  expect(packetLossError.message).toContain('packetLoss must be between 0 and 100, got 150');
+});
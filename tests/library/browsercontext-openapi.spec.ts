@@ -0,0 +1,167 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { browserTest as it, expect } from '../config/browserTest';
+import fs from 'fs';
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+servers:
+  - url: /api
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      parameters:
+        - name: limit
+          in: query
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: Pets
+          content:
+            application/json:
+              examples:
+                two:
+                  value: [{ id: 1, name: Rex }, { id: 2, name: Tom }]
+                empty:
+                  value: []
+    post:
+      operationId: createPet
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/NewPet'
+      responses:
+        '201':
+          description: Created
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+  /pets/{id}:
+    get:
+      operationId: getPet
+      parameters:
+        - name: id
+          in: path
+          required: true
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: Pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+        '404':
+          description: Not found
+components:
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+        tag:
+          type: string
+          nullable: true
+    Pet:
+      allOf:
+        - type: object
+          required: [id]
+          properties:
+            id:
+              type: integer
+              example: 7
+        - $ref: '#/components/schemas/NewPet'
+`;
+
+it.beforeEach(async ({}, testInfo) => {
+  await fs.promises.writeFile(testInfo.outputPath('openapi.yaml'), spec);
+});
+
+const fetchFunction = async ({ path, method, body }: { path: string, method?: string, body?: any }) => {
+  const response = await fetch(path, { method, body: body === undefined ? undefined : JSON.stringify(body), headers: { 'content-type': 'application/json' } });
+  return { status: response.status, text: await response.text() };
+};
+
+it('should fulfill from examples and schemas', async ({ context, page, server }, testInfo) => {
+  await context.routeFromOpenAPI(testInfo.outputPath('openapi.yaml'));
+  await page.goto(server.EMPTY_PAGE);
+
+  const list = await page.evaluate(fetchFunction, { path: '/api/pets?limit=2' });
+  expect(list.status).toBe(200);
+  expect(JSON.parse(list.text)).toEqual([{ id: 1, name: 'Rex' }, { id: 2, name: 'Tom' }]);
+
+  const pet = await page.evaluate(fetchFunction, { path: '/api/pets/1' });
+  expect(pet.status).toBe(200);
+  expect(JSON.parse(pet.text)).toEqual({ id: 7, name: 'string', tag: 'string' });
+
+  const created = await page.evaluate(fetchFunction, { path: '/api/pets', method: 'POST', body: { name: 'Rex', tag: null } });
+  expect(created.status).toBe(201);
+});
+
+it('should apply overrides', async ({ context, page, server }, testInfo) => {
+  await context.routeFromOpenAPI(testInfo.outputPath('openapi.yaml'), {
+    overrides: [
+      { operationId: 'listPets', example: 'empty' },
+      { operationId: 'getPet', status: 404, headers: { 'x-reason': 'gone' } },
+      { operationId: 'createPet', json: { id: 42, name: 'Rex' } },
+    ],
+  });
+  await page.goto(server.EMPTY_PAGE);
+
+  expect(await page.evaluate(fetchFunction, { path: '/api/pets' })).toEqual({ status: 200, text: '[]' });
+  const [response] = await Promise.all([
+    page.waitForResponse('**/api/pets/1'),
+    page.evaluate(fetchFunction, { path: '/api/pets/1' }),
+  ]);
+  expect(response.status()).toBe(404);
+  expect(response.headers()['x-reason']).toBe('gone');
+  expect(await page.evaluate(fetchFunction, { path: '/api/pets', method: 'POST', body: { name: 'Rex' } })).toEqual({ status: 201, text: '{"id":42,"name":"Rex"}' });
+});
+
+it('should fall back for requests outside of the api', async ({ context, page, server }, testInfo) => {
+  await context.routeFromOpenAPI(testInfo.outputPath('openapi.yaml'));
+  await page.goto(server.EMPTY_PAGE);
+  expect(await page.evaluate(() => document.location.href)).toBe(server.EMPTY_PAGE);
+});
+
+it('should fall back for paths the spec does not describe', async ({ context, page, server }, testInfo) => {
+  await fs.promises.writeFile(testInfo.outputPath('no-servers.yaml'), spec.replace('servers:\n  - url: /api\n', '').replace(/\/pets/g, '/api/pets'));
+  await context.routeFromOpenAPI(testInfo.outputPath('no-servers.yaml'));
+  server.setRoute('/api/other', (req, res) => res.end('other'));
+  await page.goto(server.EMPTY_PAGE);
+  expect(await page.evaluate(() => document.location.href)).toBe(server.EMPTY_PAGE);
+  expect(await page.evaluate(fetchFunction, { path: '/api/other' })).toEqual({ status: 200, text: 'other' });
+  expect((await page.evaluate(fetchFunction, { path: '/api/pets/1' })).status).toBe(200);
+});
+
+it('should throw for unknown operations in overrides', async ({ context }, testInfo) => {
+  const error = await context.routeFromOpenAPI(testInfo.outputPath('openapi.yaml'), {
+    overrides: [{ operationId: 'deletePet', status: 204 }],
+  }).catch(e => e);
+  expect(error.message).toContain('Operation "deletePet" is not defined in the spec');
+});
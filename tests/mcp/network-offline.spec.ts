@@ -97,3 +97,23 @@ test('network requests succeed after restoring online', async ({ client, server
     isError: undefined,
   });
 });
+
+test('browser_network_state_set throttles network', async ({ client }) => {
+  expect(await client.callTool({
+    name: 'browser_network_state_set',
+    arguments: { state: 'online', throttling: 'Slow 3G' },
+  })).toHaveResponse({
+    result: 'Network is now online\nNetwork is throttled to Slow 3G',
+    code: `await page.context().setOffline(false);
+await page.context().setNetworkConditions('Slow 3G');`,
+  });
+
+  expect(await client.callTool({
+    name: 'browser_network_state_set',
+    arguments: { state: 'online', throttling: 'none' },
+  })).toHaveResponse({
+    result: 'Network is now online\nNetwork is not throttled',
+    code: `await page.context().setOffline(false);
+await page.context().setNetworkConditions(null);`,
+  });
+});
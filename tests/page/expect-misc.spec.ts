@@ -421,6 +421,125 @@ Timeout:  10000ms
   });
 });
 
+test.describe('toMeetPerformanceBudget', () => {
+  test('pass', async ({ page, server }) => {
+    await page.goto(server.EMPTY_PAGE);
+    await expect(page).toMeetPerformanceBudget({ transferSize: 1_000_000 });
+    expect(test.info().performance).toEqual([expect.objectContaining({ url: server.EMPTY_PAGE })]);
+  });
+
+  test('fail', async ({ page, server }) => {
+    await page.goto(server.EMPTY_PAGE);
+    const error = await expect(page).toMeetPerformanceBudget({ transferSize: -1 }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`expect(page).toMeetPerformanceBudget(budget) failed
+
+Expected: "transferSize <= -1 bytes"
+Received: "transferSize `);
+  });
+
+  test('should measure largest contentful paint', async ({ page, server, browserName }) => {
+    test.skip(browserName !== 'chromium', 'Largest Contentful Paint is only reported in Chromium');
+    await page.goto(server.EMPTY_PAGE);
+    await page.setContent('<h1>Hello world</h1>');
+    await expect(page).toMeetPerformanceBudget({ LCP: 60_000, CLS: 1, TBT: 60_000 });
+    expect(test.info().performance[0].LCP).toBeGreaterThan(0);
+  });
+
+  test('should record each navigation once', async ({ page, server }) => {
+    await page.goto(server.EMPTY_PAGE);
+    await expect(page).toMeetPerformanceBudget({ transferSize: 1_000_000 });
+    await expect(page).toMeetPerformanceBudget({ transferSize: 1_000_000 });
+    await page.goto(server.PREFIX + '/title.html');
+    await expect(page).toMeetPerformanceBudget({ transferSize: 1_000_000 });
+    expect(test.info().performance.map(entry => entry.url)).toEqual([server.EMPTY_PAGE, server.PREFIX + '/title.html']);
+  });
+
+  test('should record navigations without the matcher', async ({ page, server }) => {
+    await page.goto(server.EMPTY_PAGE);
+    await page.goto(server.PREFIX + '/title.html');
+    await expect.poll(() => test.info().performance.map(entry => entry.url)).toEqual([server.EMPTY_PAGE, server.PREFIX + '/title.html']);
+  });
+});
+
+test.describe('toPassAccessibilityAudit', () => {
+  test('pass', async ({ page }) => {
+    await page.setContent(`
+      <button>Submit</button>
+      <label for=name>Name</label><input id=name>
+      <a href="#">Home</a>
+    `);
+    await expect(page).toPassAccessibilityAudit();
+  });
+
+  test('should report missing accessible names', async ({ page }) => {
+    await page.setContent(`
+      <button></button>
+      <input type=checkbox>
+      <button aria-label="Close">x</button>
+    `);
+    const error = await expect(page).toPassAccessibilityAudit({ timeout: 1000 }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`expect(page).toPassAccessibilityAudit(options) failed
+
+Expected: no accessibility violations
+Received: 2 violations
+  - [accessible-name] button has no accessible name: `);
+    expect(stripAnsi(error.message)).toContain(`  - [accessible-name] checkbox has no accessible name: getByRole('checkbox')`);
+  });
+
+  test('should report duplicate ids referenced by aria attributes', async ({ page }) => {
+    await page.setContent(`
+      <span id=label>First</span>
+      <span id=label>Second</span>
+      <div role=dialog aria-labelledby=label></div>
+    `);
+    const error = await expect(page).toPassAccessibilityAudit({ rules: ['duplicate-id-aria'], timeout: 1000 }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`[duplicate-id-aria] aria-labelledby references id "label" that is used by 2 elements: getByRole('dialog')`);
+  });
+
+  test('should report unsupported aria attributes', async ({ page }) => {
+    await page.setContent(`
+      <button aria-checked=true>Toggle</button>
+      <div role=checkbox aria-checked=true aria-label=Agree></div>
+    `);
+    const error = await expect(page).toPassAccessibilityAudit({ rules: ['aria-allowed-attr'], timeout: 1000 }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`Received: 1 violation
+  - [aria-allowed-attr] aria-checked is not supported on role "button": getByRole('button', { name: 'Toggle' })`);
+  });
+
+  test('should report low contrast text', async ({ page }) => {
+    await page.setContent(`
+      <div style="background: white">
+        <p style="color: #aaa">Light</p>
+        <p style="color: #333">Dark</p>
+        <p style="color: #949494; font-size: 32px">Large</p>
+      </div>
+    `);
+    const error = await expect(page).toPassAccessibilityAudit({ rules: ['color-contrast'], timeout: 1000 }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`Received: 1 violation
+  - [color-contrast] text contrast ratio 2.32:1 is below 4.5:1 (#aaaaaa on #ffffff): getByText('Light')`);
+  });
+
+  test('should exclude elements', async ({ page }) => {
+    await page.setContent(`
+      <div id=widget><button></button></div>
+      <button>Submit</button>
+    `);
+    await expect(page).toPassAccessibilityAudit({ exclude: [page.locator('#widget')] });
+  });
+
+  test('should wait for violations to be fixed', async ({ page }) => {
+    await page.setContent(`<button></button>`);
+    await page.evaluate(() => setTimeout(() => document.querySelector('button').textContent = 'Submit', 500));
+    await expect(page).toPassAccessibilityAudit();
+  });
+
+  test('should throw for unknown rules', async ({ page }) => {
+    await page.setContent(`<button>Submit</button>`);
+    const error = await expect(page).toPassAccessibilityAudit({ rules: ['unknown'] }).catch(e => e);
+    expect(stripAnsi(error.message)).toContain(`Unknown accessibility rule "unknown", expected one of: accessible-name, duplicate-id-aria, aria-allowed-attr, color-contrast`);
+  });
+});
+
 test.describe('toHaveAttribute', () => {
   test('pass', async ({ page }) => {
     await page.setContent('<div id=node>Text content</div>');
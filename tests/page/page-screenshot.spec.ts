@@ -667,6 +667,42 @@ it.describe('page screenshot', () => {
   });
 });
 
+it.describe('page screenshot stable', () => {
+  it('should wait for stable predicate', async ({ page }) => {
+    await page.setContent(`<div style="width:50px;height:50px;background:red"></div>`);
+    await page.evaluate(() => setTimeout(() => {
+      document.querySelector('div').style.background = 'green';
+      (window as any).__ready = true;
+    }, 500));
+    const screenshot = await page.screenshot({ stable: { predicate: () => (window as any).__ready } });
+    expect(screenshot).toEqual(await page.screenshot());
+  });
+
+  it('should wait for network idle', async ({ page, server }) => {
+    server.setRoute('/slow', (req, res) => setTimeout(() => res.end('done'), 500));
+    await page.goto(server.EMPTY_PAGE);
+    await page.evaluate(() => {
+      void fetch('/slow').then(response => response.text()).then(text => document.body.textContent = text);
+    });
+    await page.screenshot({ stable: { networkIdle: 100 } });
+    expect(await page.textContent('body')).toBe('done');
+  });
+
+  it('should wait for images to decode', async ({ page, server }) => {
+    await page.goto(server.EMPTY_PAGE);
+    await page.setContent(`<img src="${server.PREFIX}/pptr.png">`);
+    await page.locator('img').screenshot({ stable: { images: true, fonts: true } });
+    expect(await page.evaluate(() => document.images[0].complete)).toBe(true);
+  });
+
+  it('should report stable waits in the call log', async ({ page }) => {
+    await page.setContent(`<div>hello</div>`);
+    const error = await page.screenshot({ stable: { networkIdle: 0, predicate: '!!window.__never' }, timeout: 1000 }).catch(e => e);
+    expect(error.message).toContain('network is idle');
+    expect(error.message).toContain('waiting for stable predicate to return truthy value');
+  });
+});
+
 declare global {
   interface Window {
     animation?: Animation;
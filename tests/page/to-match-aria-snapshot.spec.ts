@@ -510,10 +510,38 @@ Timeout: 1ms
 +   - textbox "What needs to be done?"
 +   - button "Time 15:30"
 
+Changes:
+  ~ banner > textbox "What needs to be done?" name: "Wrong text" → "What needs to be done?"
+
 Call log:
 `);
 });
 
+test('should report semantic changes', async ({ page }) => {
+  await page.setContent(`
+    <main>
+      <ul>
+        <li>Two</li>
+        <li>One</li>
+        <li>Four</li>
+      </ul>
+      <button aria-pressed="false">Bold</button>
+    </main>`);
+  const error = await expect(page).toMatchAriaSnapshot(`
+    - list:
+      - listitem: One
+      - listitem: Two
+      - listitem: Three
+    - button "Bold" [pressed]
+  `, { timeout: 1 }).catch(e => e);
+
+  expect(stripAnsi(error.message)).toContain(`Changes:
+  ~ main > list > listitem moved
+  ~ main > list > listitem > text: Three → Four
+  ~ main > button "Bold" pressed: true → false
+`);
+});
+
 test('should unpack escaped names', async ({ page }) => {
   {
     await page.setContent(`
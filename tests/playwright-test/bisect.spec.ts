@@ -0,0 +1,224 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './playwright-test-fixtures';
+
+import type { JSONReportSuite } from '../../packages/playwright/types/testReporter';
+
+test.slow();
+
+function findTestId(suites: JSONReportSuite[], title: string): string | undefined {
+  for (const suite of suites) {
+    const spec = suite.specs.find(spec => spec.title === title);
+    if (spec)
+      return spec.id;
+    const id = findTestId(suite.suites || [], title);
+    if (id)
+      return id;
+  }
+}
+
+const pollutedFiles = {
+  'a.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    test('one', () => {});
+    test('polluter', () => {
+      globalThis.polluted = true;
+    });
+    test('three', () => {});
+  `,
+  'b.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    test('four', () => {});
+    test('target', () => {
+      expect(globalThis.polluted).toBeUndefined();
+    });
+    test('six', () => {});
+  `,
+};
+
+test('should find the test that makes the target fail', async ({ runInlineTest }) => {
+  const listResult = await runInlineTest(pollutedFiles, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('[Bisect] Replaying 4 tests that run before b.spec.ts:4:9 › target in the same worker');
+  expect(result.output).toContain('[Bisect] Test fails when run after:\n[Bisect]   a.spec.ts:4:9 › polluter\n');
+  // The minimal sequence is replayed with the configured reporter.
+  expect(result.passed).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(result.output).toContain('a.spec.ts:4:9 › polluter');
+  expect(result.output).not.toContain('a.spec.ts:3:9 › one');
+  expect(result.output).not.toContain('b.spec.ts:7:9 › six');
+});
+
+test('should find all tests that are required for the failure', async ({ runInlineTest }) => {
+  const files = {
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+      test('set x', () => {
+        globalThis.x = true;
+      });
+      test('three', () => {});
+      test('set y', () => {
+        globalThis.y = true;
+      });
+      test('five', () => {});
+      test('target', () => {
+        expect(globalThis.x && globalThis.y).toBeFalsy();
+      });
+    `,
+  };
+  const listResult = await runInlineTest(files, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('[Bisect] Test fails when run after:\n[Bisect]   a.spec.ts:4:11 › set x\n[Bisect]   a.spec.ts:8:11 › set y\n');
+  expect(result.passed).toBe(2);
+  expect(result.failed).toBe(1);
+});
+
+test('should report a test that fails on its own', async ({ runInlineTest }) => {
+  const files = {
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+      test('target', () => {
+        expect(1).toBe(2);
+      });
+    `,
+  };
+  const listResult = await runInlineTest(files, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('[Bisect] Test fails on its own');
+  expect(result.passed).toBe(0);
+  expect(result.failed).toBe(1);
+});
+
+test('should report when the failure does not reproduce', async ({ runInlineTest }) => {
+  const files = {
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+      test('target', () => {});
+    `,
+  };
+  const listResult = await runInlineTest(files, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.exitCode).toBe(0);
+  expect(result.output).toContain('[Bisect] Could not reproduce the failure after preceding tests');
+  expect(result.passed).toBe(2);
+});
+
+test('should throw for unknown test id', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+    `,
+  }, { bisect: 'unknown' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Test with id "unknown" not found, use "--list --reporter=json" to see test ids');
+});
+
+test('should run setup and teardown projects the target depends on', async ({ runInlineTest }, testInfo) => {
+  const files = {
+    'playwright.config.ts': `
+      module.exports = {
+        projects: [
+          { name: 'setup', testMatch: /setup\\.ts/, teardown: 'teardown' },
+          { name: 'teardown', testMatch: /teardown\\.ts/ },
+          { name: 'main', testMatch: /.*\\.spec\\.ts/, dependencies: ['setup'] },
+        ],
+      };
+    `,
+    'setup.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      test('setup', () => {
+        fs.writeFileSync(${JSON.stringify(testInfo.outputPath('state.txt'))}, 'state');
+      });
+    `,
+    'teardown.ts': `
+      import { test } from '@playwright/test';
+      import fs from 'fs';
+      test('teardown', () => {
+        fs.unlinkSync(${JSON.stringify(testInfo.outputPath('state.txt'))});
+      });
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import fs from 'fs';
+      test('polluter', () => {
+        globalThis.polluted = true;
+      });
+      test('target', () => {
+        expect(fs.existsSync(${JSON.stringify(testInfo.outputPath('state.txt'))})).toBe(true);
+        expect(globalThis.polluted).toBeUndefined();
+      });
+    `,
+  };
+  const listResult = await runInlineTest(files, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('[Bisect] Test fails when run after:\n[Bisect]   [main] › a.spec.ts:4:11 › polluter\n');
+  expect(fs.existsSync(testInfo.outputPath('state.txt'))).toBe(false);
+});
+
+test('should report no culprit when the failure is flaky', async ({ runInlineTest }, testInfo) => {
+  const files = {
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      import fs from 'fs';
+      test('one', () => {});
+      test('target', () => {
+        const file = ${JSON.stringify(testInfo.outputPath('runs.txt'))};
+        const runs = fs.existsSync(file) ? +fs.readFileSync(file, 'utf8') + 1 : 1;
+        fs.writeFileSync(file, String(runs));
+        // Only fails in the second attempt, that replays all preceding tests.
+        expect(runs).not.toBe(2);
+      });
+    `,
+  };
+  const listResult = await runInlineTest(files, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list' });
+  expect(result.output).toContain('[Bisect] No culprit found, the test might be flaky');
+  expect(result.output).not.toContain('Test fails when run after');
+});
+
+test('should keep the configured retries for the replay', async ({ runInlineTest }) => {
+  const listResult = await runInlineTest(pollutedFiles, { list: true, reporter: 'json' });
+  const testId = findTestId(listResult.report.suites, 'target');
+
+  const result = await runInlineTest({}, { bisect: testId, reporter: 'list', retries: 1 });
+  expect(result.output).toContain('[Bisect] Test fails when run after:\n[Bisect]   a.spec.ts:4:9 › polluter\n');
+  // The retry runs in a new worker, without the polluter.
+  expect(result.flaky).toBe(1);
+});
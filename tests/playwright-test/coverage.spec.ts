@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './playwright-test-fixtures';
+
+function addCoverage(lines: { [line: number]: number }, fnCount: number) {
+  return `(test.info() as any)._addCoverage({
+    'http://localhost:3000/src/app.js': {
+      lines: ${JSON.stringify(lines)},
+      functions: { 'render:1': { name: 'render', line: 1, count: ${fnCount} } },
+    },
+  });`;
+}
+
+test('should collect js coverage from pages', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      export default { coverage: { formats: ['lcov'] } };
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('page', async ({ page }) => {
+        await page.route('**/*', route => {
+          if (route.request().url().endsWith('.js'))
+            return route.fulfill({ contentType: 'text/javascript', body: 'function used() {}\\nfunction unused() {}\\nused();\\n' });
+          return route.fulfill({ contentType: 'text/html', body: '<script src="app.js"></script>' });
+        });
+        await page.goto('http://localhost/index.html');
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain('SF:http://localhost/app.js');
+  expect(lcov).toContain('FNDA:1,used');
+  expect(lcov).toContain('FNDA:0,unused');
+  expect(lcov).toContain('DA:2,0');
+  expect(lcov).toContain('DA:3,1');
+});
+
+test('should merge coverage across tests', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      export default { coverage: {} };
+    `,
+    'src/app.js': `
+      function render() {}
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {
+        ${addCoverage({ 1: 1, 2: 0, 3: 0 }, 1)}
+      });
+      test('two', () => {
+        ${addCoverage({ 1: 2, 2: 1, 3: 0 }, 2)}
+      });
+    `,
+  }, { workers: 2 });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(2);
+
+  const appPath = test.info().outputPath('src', 'app.js');
+  const lcov = fs.readFileSync(test.info().outputPath('coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toBe([
+    'TN:',
+    `SF:${appPath}`,
+    'FN:1,render',
+    'FNDA:3,render',
+    'FNF:1',
+    'FNH:1',
+    'DA:1,3',
+    'DA:2,1',
+    'DA:3,0',
+    'LF:3',
+    'LH:2',
+    'end_of_record',
+    '',
+  ].join('\n'));
+
+  const istanbul = JSON.parse(fs.readFileSync(test.info().outputPath('coverage', 'coverage-final.json'), 'utf8'));
+  expect(istanbul[appPath]).toEqual(expect.objectContaining({
+    path: appPath,
+    s: { 0: 3, 1: 1, 2: 0 },
+    f: { 0: 3 },
+  }));
+});
+
+test('should respect coverage outputDir and formats', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      export default { coverage: { outputDir: 'out/cov', formats: ['json'] } };
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {
+        ${addCoverage({ 1: 1 }, 1)}
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(fs.readdirSync(test.info().outputPath('out', 'cov'))).toEqual(['coverage-final.json']);
+});
+
+test('should not write coverage without data', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      export default { coverage: {} };
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(fs.existsSync(test.info().outputPath('coverage'))).toBe(false);
+});
+
+test('should merge coverage from blob reports', async ({ runInlineTest, mergeReports }) => {
+  const files = {
+    'playwright.config.ts': `
+      export default { reporter: 'blob', coverage: {} };
+    `,
+    'merge.config.ts': `
+      export default { coverage: { outputDir: 'merged-coverage', formats: ['lcov'] } };
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {
+        ${addCoverage({ 1: 1, 2: 0 }, 1)}
+      });
+      test('two', () => {
+        ${addCoverage({ 1: 1, 2: 1 }, 0)}
+      });
+    `,
+  };
+  await runInlineTest(files, { shard: '1/2' });
+  await runInlineTest(files, { shard: '2/2' }, { PWTEST_BLOB_DO_NOT_REMOVE: '1' });
+
+  const { exitCode } = await mergeReports(test.info().outputPath('blob-report'), undefined, { additionalArgs: ['--config', 'merge.config.ts'] });
+  expect(exitCode).toBe(0);
+  const lcov = fs.readFileSync(test.info().outputPath('merged-coverage', 'lcov.info'), 'utf8');
+  expect(lcov).toContain('FNDA:1,render');
+  expect(lcov).toContain('DA:1,2');
+  expect(lcov).toContain('DA:2,1');
+});
+
+test('should validate coverage config', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      export default { coverage: { formats: ['html'] } };
+    `,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('one', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`config.coverage.formats must be an array of "lcov" or "json"`);
+});
@@ -79,3 +79,134 @@ test('testInfo should contain all soft expect errors', async ({ runInlineTest })
   expect(result.output).toContain('Error: two times two');
   expect(result.output).not.toContain('Error: must be exactly two errors');
 });
+
+test('expect.group should report soft errors by group', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should work', async ({}, testInfo) => {
+        await expect.group('outer', async () => {
+          expect.soft(1+1, 'one plus one').toBe(3);
+          await expect.group('inner', async () => {
+            expect.soft(2*2, 'two times two').toBe(5);
+            expect.soft(6-4, 'six minus four').toBe(3);
+          });
+          await expect.group('passing', async () => {
+            expect.soft(1).toBe(1);
+          });
+        });
+        expect.soft(3/3, 'three div three').toBe(7);
+        console.log('%% ' + JSON.stringify(testInfo.errors.map(e => e.groups?.map(g => g.title + ': ' + g.errors.length))));
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.outputLines).toEqual([JSON.stringify([['outer: 1', 'outer › inner: 2'], null])]);
+  expect(result.output).toContain('3 failures in soft group "outer"');
+  expect(result.output).toContain('outer › inner (2)');
+  expect(result.output).toContain('Error: six minus four');
+  expect(result.output).toContain('Error: three div three');
+});
+
+test('test.step.soft should collect thrown errors and continue', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should work', async ({}, testInfo) => {
+        const value = await test.step.soft('passing', async () => 42);
+        const failed = await test.step.soft('failing', async () => {
+          expect(1, 'hard failure').toBe(2);
+          console.log('%% unreachable');
+          return 1;
+        });
+        console.log('%% ' + value + ' ' + failed + ' ' + testInfo.errors.length);
+      });
+    `
+  }, { reporter: 'list' });
+  expect(result.exitCode).toBe(1);
+  expect(result.outputLines).toEqual(['42 undefined 1']);
+  expect(result.output).toContain('1 failure in soft group "failing"');
+  expect(result.output).toContain('Error: hard failure');
+});
+
+test('soft groups should report their errors when the test times out', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should work', async ({}) => {
+        await expect.group('outer', async () => {
+          expect.soft(1, 'one').toBe(2);
+          await test.step.soft('inner', async () => {
+            expect.soft(2, 'two').toBe(3);
+            await new Promise(() => {});
+          });
+        });
+      });
+    `
+  }, { reporter: 'list', timeout: 1000 });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Test timeout of 1000ms exceeded.');
+  expect(result.output).toContain('2 failures in soft group "outer"');
+  expect(result.output).toContain('outer › inner (1)');
+  expect(result.output).toContain('Error: one');
+  expect(result.output).toContain('Error: two');
+});
+
+test('soft groups should skip the test', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('skip in group', async ({}) => {
+        await expect.group('group', async () => {
+          test.skip(true, 'not today');
+        });
+        console.log('%% unreachable');
+      });
+      test('fixme in step', async ({}) => {
+        await test.step.soft('step', async () => {
+          test.fixme();
+        });
+        console.log('%% unreachable');
+      });
+    `
+  }, { reporter: 'list' });
+  expect(result.exitCode).toBe(0);
+  expect(result.skipped).toBe(2);
+  expect(result.outputLines).toEqual([]);
+  expect(result.output).not.toContain('soft group');
+});
+
+test('expect.group should be reported as a step', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'reporter.ts': `
+      export default class Reporter {
+        onStepBegin(test, result, step) {
+          if (step.category === 'test.step')
+            console.log('%% ' + step.title + ' ' + step.location.line);
+        }
+      }
+    `,
+    'playwright.config.ts': `module.exports = { reporter: './reporter' };`,
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should work', async ({}) => {
+        await expect.group('group', async () => {});
+      });
+    `
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.outputLines).toEqual(['group 4']);
+});
+
+test('soft groups should compile', async ({ runTSC }) => {
+  const result = await runTSC({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('should work', async () => {
+        const a: number | undefined = await expect.group('group', async () => 1);
+        const b: string | undefined = await test.step.soft('step', async step => 'b', { timeout: 1000 });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(0);
+});
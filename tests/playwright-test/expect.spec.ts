@@ -351,6 +351,12 @@ test('should propose only the relevant matchers when custom expect matcher class
       // APIResponse-specific assertions apply to APIResponse.
       const res = await page.request.get('http://i-do-definitely-not-exist.com');
       await test.expect(res).toBeOK();
+      await test.expect(res).toHaveStatus({ min: 200, max: 299 });
+      await test.expect(res).toHaveHeader('content-type', /json/);
+      // Request factories are retried.
+      await test.expect(() => page.request.get('http://i-do-definitely-not-exist.com')).toHaveStatus(200);
+      // @ts-expect-error
+      await test.expect(() => 123).toHaveStatus(200);
       // Some generic assertions also apply to APIResponse.
       test.expect(res).toBe(true);
       // Page-specific and most generic assertions do not apply to APIResponse.
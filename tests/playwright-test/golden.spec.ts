@@ -15,8 +15,10 @@
  */
 
 import colors from 'colors/safe';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { PNG } from 'playwright-core/lib/utilsBundle';
 import { test, expect, createWebpImage, createWhiteImage, paintBlackPixels } from './playwright-test-fixtures';
 
 const files = {
@@ -897,6 +899,137 @@ test('should respect comparator in config', async ({ runInlineTest }) => {
   expect(result.report.suites[0].specs[0].tests[1].status).toBe('unexpected');
 });
 
+test('should support custom comparators from config', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': `
+      module.exports = {
+        expect: {
+          comparators: { 'size-only': './size-only.js' },
+          toMatchSnapshot: { comparator: 'size-only' },
+        },
+      };
+    `,
+    'size-only.js': `
+      module.exports = (actual, expected, options) => {
+        // PNG width and height are stored in the header.
+        if (actual.readUInt32BE(16) === expected.readUInt32BE(16) && actual.readUInt32BE(20) === expected.readUInt32BE(20))
+          return null;
+        return { errorMessage: 'Sizes differ for ' + options.mimeType + ' with threshold ' + options.threshold };
+      };
+    `,
+    'a.spec.js-snapshots/snapshot.png': createWhiteImage(50, 50),
+    'a.spec.js-snapshots/snapshot.txt': 'Hello world',
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('should pass', ({}) => {
+        expect(Buffer.from('${paintBlackPixels(createWhiteImage(50, 50), 10).toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png', { threshold: 0.5 });
+      });
+      test('should fail', ({}) => {
+        expect(Buffer.from('${createWhiteImage(40, 40).toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png', { threshold: 0.5 });
+      });
+      test('should not apply to text', ({}) => {
+        expect('Hello world!').toMatchSnapshot('snapshot.txt');
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.passed).toBe(1);
+  expect(result.failed).toBe(2);
+  expect(result.output).toContain('Sizes differ for image/png with threshold 0.5');
+});
+
+test('should fail to load invalid custom comparator', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': `
+      module.exports = {
+        expect: { comparators: { 'broken': './broken.js' } },
+      };
+    `,
+    'broken.js': `
+      module.exports = { compare: () => null };
+    `,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {});
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Comparator "broken" in');
+  expect(result.output).toContain('must export a single function.');
+});
+
+test('should report missing custom comparator', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': `
+      module.exports = {
+        expect: { comparators: { 'missing': './missing.js' } },
+      };
+    `,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {});
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Comparator "missing" not found: cannot resolve "./missing.js"');
+});
+
+test('should report layout shift with shift-tolerant comparator', async ({ runInlineTest }) => {
+  const paintBlackRect = (x: number, y: number) => {
+    const png = PNG.sync.read(createWhiteImage(100, 100));
+    for (let j = y; j < y + 20; ++j) {
+      for (let i = x; i < x + 40; ++i)
+        png.data.fill(0, (j * 100 + i) * 4, (j * 100 + i) * 4 + 3);
+    }
+    return PNG.sync.write(png);
+  };
+  const result = await runInlineTest({
+    ...files,
+    'a.spec.js-snapshots/snapshot.png': paintBlackRect(20, 20),
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {
+        expect(Buffer.from('${paintBlackRect(23, 28).toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png', {
+          comparator: 'shift-tolerant',
+        });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Layout shift detected: content moved 3px right and 8px down.');
+  expect(result.output).not.toContain('pixels (ratio');
+});
+
+test('should tolerate small differences with phash comparator', async ({ runInlineTest }) => {
+  const expected = fs.readFileSync(path.join(__dirname, '../image_tools/fixtures/should-match/tiny-antialiasing-sample/tiny-expected.png'));
+  const actual = fs.readFileSync(path.join(__dirname, '../image_tools/fixtures/should-match/tiny-antialiasing-sample/tiny-actual.png'));
+  const result = await runInlineTest({
+    ...files,
+    'a.spec.js-snapshots/snapshot.png': expected,
+    'a.spec.js-snapshots/different.png': createWhiteImage(50, 50),
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('should pass', ({}) => {
+        expect(Buffer.from('${actual.toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png', {
+          comparator: 'phash',
+        });
+      });
+      test('should fail', ({}) => {
+        expect(Buffer.from('${paintBlackPixels(createWhiteImage(50, 50), 500).toString('base64')}', 'base64')).toMatchSnapshot('different.png', {
+          comparator: 'phash',
+        });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.report.suites[0].specs[0].ok).toBe(true);
+  expect(result.report.suites[0].specs[1].ok).toBe(false);
+  expect(result.output).toContain('500 pixels (ratio 0.20 of all image pixels) are different.');
+});
+
 test('should sanitize snapshot name when passed as string', async ({ runInlineTest }) => {
   const result = await runInlineTest({
     ...files,
@@ -1266,3 +1399,113 @@ test('should respect update snapshot option from config', async ({ runInlineTest
   const data = fs.readFileSync(snapshotOutputPath);
   expect(data.toString()).toBe(ACTUAL_SNAPSHOT);
 });
+
+test('should keep baselines in the fs snapshot store', async ({ runInlineTest }, testInfo) => {
+  const image = createWhiteImage(50, 50);
+  const hash = crypto.createHash('sha256').update(image).digest('hex');
+  const config = `
+    module.exports = { snapshotStore: { type: 'fs', directory: './snapshot-store' } };
+  `;
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': config,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {
+        expect(Buffer.from('${image.toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png');
+        expect('Hello world').toMatchSnapshot('snapshot.txt');
+      });
+    `
+  }, { 'update-snapshots': true });
+  expect(result.exitCode).toBe(0);
+  expect(fs.readFileSync(testInfo.outputPath('a.spec.js-snapshots/snapshot.png'), 'utf8')).toBe(`version playwright-snapshot/1\noid sha256:${hash}\nsize ${image.length}\n`);
+  expect(fs.readFileSync(testInfo.outputPath('snapshot-store', hash.substring(0, 2), hash.substring(2)))).toEqual(image);
+  expect(fs.readFileSync(testInfo.outputPath('a.spec.js-snapshots/snapshot.txt'), 'utf8')).toBe('Hello world');
+
+  const result2 = await runInlineTest({
+    ...files,
+    'playwright.config.ts': config,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('should pass', ({}) => {
+        expect(Buffer.from('${image.toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png');
+      });
+      test('should fail', ({}) => {
+        expect(Buffer.from('${paintBlackPixels(image, 100).toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png');
+      });
+    `
+  });
+  expect(result2.exitCode).toBe(1);
+  expect(result2.passed).toBe(1);
+  expect(result2.failed).toBe(1);
+  expect(fs.readFileSync(testInfo.outputPath('test-results', 'a-should-fail', 'snapshot-expected.png'))).toEqual(image);
+});
+
+test('should download and upload baselines through the http snapshot store', async ({ runInlineTest, server }) => {
+  const image = createWhiteImage(50, 50);
+  const hash = crypto.createHash('sha256').update(image).digest('hex');
+  const newImage = paintBlackPixels(createWhiteImage(50, 50), 100);
+  const newHash = crypto.createHash('sha256').update(newImage).digest('hex');
+  server.setRoute(`/store/${hash}`, (req, res) => {
+    expect(req.headers['authorization']).toBe('Bearer secret');
+    res.end(image);
+  });
+  const uploadPromise = server.waitForRequest(`/store/${newHash}`);
+  server.setRoute(`/store/${newHash}`, (req, res) => {
+    res.statusCode = req.method === 'PUT' ? 201 : 404;
+    res.end();
+  });
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': `
+      module.exports = { snapshotStore: { type: 'http', url: '${server.PREFIX}/store/', headers: { authorization: 'Bearer secret' } } };
+    `,
+    'a.spec.js-snapshots/existing.png': `version playwright-snapshot/1\noid sha256:${hash}\nsize ${image.length}\n`,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {
+        expect(Buffer.from('${image.toString('base64')}', 'base64')).toMatchSnapshot('existing.png');
+        expect(Buffer.from('${newImage.toString('base64')}', 'base64')).toMatchSnapshot('new.png');
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).not.toContain('missing from the snapshot store');
+  expect(result.output).toContain('new.png, writing actual.');
+  const upload = await uploadPromise;
+  expect(upload.method).toBe('PUT');
+  expect(await upload.postBody).toEqual(newImage);
+});
+
+test('should download and upload baselines through the custom snapshot store', async ({ runInlineTest }, testInfo) => {
+  const image = createWhiteImage(50, 50);
+  const hash = crypto.createHash('sha256').update(image).digest('hex');
+  const newImage = paintBlackPixels(createWhiteImage(50, 50), 100);
+  const newHash = crypto.createHash('sha256').update(newImage).digest('hex');
+  const result = await runInlineTest({
+    ...files,
+    'playwright.config.ts': `
+      const fs = require('fs');
+      const path = require('path');
+      const remote = path.join(__dirname, 'remote');
+      module.exports = { snapshotStore: {
+        type: 'custom',
+        get: async hash => fs.existsSync(path.join(remote, hash)) ? fs.readFileSync(path.join(remote, hash)) : undefined,
+        put: async (hash, content) => fs.writeFileSync(path.join(remote, hash), content),
+      } };
+    `,
+    [`remote/${hash}`]: image,
+    'a.spec.js-snapshots/existing.png': `version playwright-snapshot/1\noid sha256:${hash}\nsize ${image.length}\n`,
+    'a.spec.js': `
+      const { test, expect } = require('./helper');
+      test('is a test', ({}) => {
+        expect(Buffer.from('${image.toString('base64')}', 'base64')).toMatchSnapshot('existing.png');
+        expect(Buffer.from('${newImage.toString('base64')}', 'base64')).toMatchSnapshot('new.png');
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).not.toContain('missing from the snapshot store');
+  expect(result.output).toContain('new.png, writing actual.');
+  expect(fs.readFileSync(testInfo.outputPath('remote', newHash))).toEqual(newImage);
+});
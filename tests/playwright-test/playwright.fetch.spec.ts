@@ -109,3 +109,120 @@ test('should hint unrouteAll if failed in the handler', async ({ runInlineTest,
   expect(result.failed).toBe(1);
   expect(result.output).toContain('Consider awaiting `await page.unrouteAll({ behavior: \'ignoreErrors\' })`');
 });
+
+test('should assert on API response status, headers and json', async ({ runInlineTest, server }) => {
+  server.setRoute('/user.json', (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('X-Request-Id', 'abc-123');
+    res.end(JSON.stringify({ id: 42, name: 'Alice', roles: ['admin'], address: { city: 'Paris', zip: '75001' } }));
+  });
+  const result = await runInlineTest({
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('pass', async ({ request }) => {
+        const response = await request.get('${server.PREFIX}/user.json');
+        await expect(response).toHaveStatus(200);
+        await expect(response).toHaveStatus({ min: 200, max: 299 });
+        await expect(response).not.toHaveStatus(404);
+        await expect(response).toHaveHeader('x-request-id');
+        await expect(response).toHaveHeader('X-Request-Id', 'abc-123');
+        await expect(response).toHaveHeader('content-type', /json/);
+        await expect(response).not.toHaveHeader('set-cookie');
+        await expect(response).toMatchJson({ name: 'Alice', address: { city: 'Paris' } });
+        await expect(response).toMatchJson({ id: expect.any(Number), roles: ['admin'] });
+        await expect(response).not.toMatchJson({ name: 'Bob' });
+        await expect(response).toMatchJsonSchema({
+          type: 'object',
+          required: ['id', 'name'],
+          properties: {
+            id: { type: 'integer' },
+            name: { type: 'string' },
+            roles: { type: 'array', items: { enum: ['admin', 'user'] } },
+          },
+        });
+      });
+
+      test('status', async ({ request }) => {
+        const response = await request.get('${server.PREFIX}/missing');
+        await expect(response).toHaveStatus({ min: 200, max: 299 });
+      });
+
+      test('header', async ({ request }) => {
+        const response = await request.get('${server.PREFIX}/user.json');
+        await expect(response).toHaveHeader('x-request-id', 'abc-456');
+      });
+
+      test('json', async ({ request }) => {
+        const response = await request.get('${server.PREFIX}/user.json');
+        await expect(response).toMatchJson({ name: 'Alice', address: { city: 'Lyon' } });
+      });
+
+      test('schema', async ({ request }) => {
+        const response = await request.get('${server.PREFIX}/user.json');
+        await expect(response).toMatchJsonSchema({
+          type: 'object',
+          required: ['email'],
+          properties: {
+            id: { type: 'string' },
+            address: { type: 'object', additionalProperties: false, properties: { city: { type: 'string' } } },
+          },
+        });
+      });
+    `,
+  }, { workers: 1 });
+
+  expect(result.exitCode).toBe(1);
+  expect(result.passed).toBe(1);
+  expect(result.failed).toBe(4);
+  expect(result.output).toContain('expect(response).toHaveStatus(expected) failed');
+  expect(result.output).toContain('Expected: 200..299');
+  expect(result.output).toContain('Received: 404 Not Found');
+  expect(result.output).toContain('Expected: header "x-request-id" with value "abc-456"');
+  expect(result.output).toContain('Received: "abc-123"');
+  expect(result.output).toContain('-     "city": "Lyon",');
+  expect(result.output).toContain('+     "city": "Paris",');
+  expect(result.output).not.toContain('"zip"');
+  expect(result.output).toContain('Received: 3 violations');
+  expect(result.output).toContain('- $.email: required');
+  expect(result.output).toContain('- $.id: expected string, got number');
+  expect(result.output).toContain('- $.address.zip: unexpected property');
+});
+
+test('should retry API response assertions with a request factory', async ({ runInlineTest, server }) => {
+  let counter = 0;
+  server.setRoute('/job', (req, res) => {
+    ++counter;
+    res.setHeader('Content-Type', 'application/json');
+    if (counter < 3) {
+      res.statusCode = 202;
+      res.end(JSON.stringify({ state: 'running' }));
+    } else {
+      res.end(JSON.stringify({ state: 'done' }));
+    }
+  });
+  server.setRoute('/unavailable', (req, res) => {
+    res.statusCode = 503;
+    res.end();
+  });
+  const result = await runInlineTest({
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('pass', async ({ request }) => {
+        await expect(() => request.get('${server.PREFIX}/job')).toHaveStatus(200);
+        await expect(() => request.get('${server.PREFIX}/job')).toMatchJson({ state: 'done' });
+      });
+
+      test('timeout', async ({ request }) => {
+        await expect(() => request.get('${server.PREFIX}/unavailable')).toBeOK({ timeout: 1000 });
+      });
+    `,
+  }, { workers: 1 });
+
+  expect(result.exitCode).toBe(1);
+  expect(result.passed).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(counter).toBe(4);
+  expect(result.output).toContain(`expect(response).toBeOK() failed`);
+  expect(result.output).toContain(`Timeout: 1000ms`);
+  expect(result.output).toContain(`← 503 Service Unavailable`);
+});
@@ -63,6 +63,30 @@ test('should reuse context', async ({ runInlineTest }) => {
   expect(result.passed).toBe(5);
 });
 
+test('should not accumulate performance listeners in reused context', async ({ runInlineTest, server }) => {
+  const result = await runInlineTest(withReuseContext({
+    'src/reuse.test.ts': `
+      import { test, expect } from '@playwright/test';
+      let listenerCounts;
+
+      test('one', async ({ context, page }) => {
+        await page.goto('${server.EMPTY_PAGE}');
+        listenerCounts = [context.listenerCount('page'), page.listenerCount('load')];
+        await expect.poll(() => test.info().performance.length).toBe(1);
+      });
+
+      test('two', async ({ context, page }) => {
+        expect([context.listenerCount('page'), page.listenerCount('load')]).toEqual(listenerCounts);
+        await page.goto('${server.PREFIX}/title.html');
+        await expect.poll(() => test.info().performance.map(entry => entry.url)).toEqual(['${server.PREFIX}/title.html']);
+      });
+    `,
+  }), { workers: 1 });
+
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(2);
+});
+
 test('should not reuse context with video if mode=when-possible', async ({ runInlineTest }, testInfo) => {
   const result = await runInlineTest(withReuseContext({
     'playwright.config.ts': `
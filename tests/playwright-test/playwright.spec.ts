@@ -1092,3 +1092,191 @@ test('should support pierceFrames option', async ({ runInlineTest }) => {
   expect(result.exitCode).toBe(0);
   expect(result.passed).toBe(1);
 });
+
+test('should attach har report when har replay misses', async ({ runInlineTest }) => {
+  const entry = (url: string, text: string) => ({
+    startedDateTime: new Date().toISOString(),
+    time: 0,
+    request: { method: 'GET', url, httpVersion: 'HTTP/1.1', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: -1 },
+    response: { status: 200, statusText: 'OK', httpVersion: 'HTTP/1.1', cookies: [], headers: [{ name: 'Content-Type', value: 'text/html' }], content: { size: -1, mimeType: 'text/html', text }, redirectURL: '', headersSize: -1, bodySize: -1 },
+    cache: {},
+    timings: { send: 0, wait: 0, receive: 0 },
+  });
+  const result = await runInlineTest({
+    'example.har': JSON.stringify({
+      log: {
+        version: '1.2',
+        creator: { name: 'Playwright', version: '1.0' },
+        entries: [
+          entry('http://playwright.test/', '<div>hello</div>'),
+          entry('http://playwright.test/api?id=1', 'data'),
+        ],
+      },
+    }),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('hit', async ({ page }) => {
+        await page.routeFromHAR(test.info().config.rootDir + '/example.har');
+        await page.goto('http://playwright.test/');
+      });
+      test('miss', async ({ page }) => {
+        await page.routeFromHAR(test.info().config.rootDir + '/example.har');
+        await page.goto('http://playwright.test/');
+        await page.evaluate(() => fetch('/api?id=2').catch(() => {}));
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(2);
+
+  const [hit, miss] = result.report.suites[0].specs.map(spec => spec.tests[0].results[0].attachments.filter(a => a.name === 'har-report'));
+  expect(hit).toEqual([]);
+  expect(miss).toHaveLength(1);
+  const reports = JSON.parse(Buffer.from(miss[0].body!, 'base64').toString());
+  expect(reports).toEqual([{
+    har: expect.stringContaining('example.har'),
+    lookups: [
+      {
+        url: 'http://playwright.test/api?id=2',
+        method: 'GET',
+        outcome: 'notFound',
+        closest: [
+          { url: 'http://playwright.test/api?id=1', method: 'GET', mismatches: ['url'] },
+          { url: 'http://playwright.test/', method: 'GET', mismatches: ['url'] },
+        ],
+      },
+    ],
+  }]);
+});
+
+test('should fail the test on requests that do not match the OpenAPI spec', async ({ runInlineTest, server }) => {
+  const result = await runInlineTest({
+    'openapi.json': JSON.stringify({
+      openapi: '3.0.3',
+      servers: [{ url: '/api' }],
+      paths: {
+        '/pets': {
+          post: {
+            operationId: 'createPet',
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { type: 'object', required: ['name'], properties: { name: { type: 'string' } } } } },
+            },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+    }),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('violation', async ({ context, page }) => {
+        await context.routeFromOpenAPI(test.info().config.rootDir + '/openapi.json');
+        await page.goto('${server.EMPTY_PAGE}');
+        const status = await page.evaluate(async () => {
+          const response = await fetch('/api/pets', { method: 'POST', body: JSON.stringify({ name: 1 }), headers: { 'content-type': 'application/json' } });
+          return response.status;
+        });
+        expect(status).toBe(400);
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(result.output).toContain('Request does not match the OpenAPI spec: POST /pets does not match operation "createPet":');
+  expect(result.output).toContain('- body.name: expected string, got number');
+});
+
+test('should fail the test on request paths with malformed percent-encoding', async ({ runInlineTest, server }) => {
+  const result = await runInlineTest({
+    'openapi.json': JSON.stringify({
+      openapi: '3.0.3',
+      servers: [{ url: '/api' }],
+      paths: {
+        '/items/{id}': {
+          get: {
+            operationId: 'getItem',
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    }),
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('violation', async ({ context, page }) => {
+        await context.routeFromOpenAPI(test.info().config.rootDir + '/openapi.json');
+        await page.goto('${server.EMPTY_PAGE}');
+        const status = await page.evaluate(async () => {
+          const response = await fetch('/api/items/%E0%A4%A');
+          return response.status;
+        });
+        expect(status).toBe(400);
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(result.output).toContain('Request does not match the OpenAPI spec: GET /items/%E0%A4%A does not match operation "getItem":');
+  expect(result.output).toContain('- path.id: malformed percent-encoding "%E0%A4%A"');
+});
+
+test('should record and replay network with recordNetwork', async ({ runInlineTest, server }, testInfo) => {
+  let counter = 0;
+  server.setRoute('/data', (req, res) => res.end(`data-${++counter}`));
+  const files = {
+    'playwright.config.ts': `module.exports = { projects: [{ name: 'p1' }], use: { recordNetwork: 'auto' } };`,
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('fetches data', async ({ page }) => {
+        await page.goto('${server.EMPTY_PAGE}');
+        const text = await page.evaluate(() => fetch('/data').then(r => r.text()));
+        expect(text).toBe('data-1');
+      });
+    `,
+  };
+
+  const result1 = await runInlineTest(files, { workers: 1 });
+  expect(result1.exitCode).toBe(0);
+  expect(result1.passed).toBe(1);
+  expect(fs.existsSync(testInfo.outputPath('a.test.ts-snapshots', `fetches-data-p1-${process.platform}.har`))).toBe(true);
+
+  const result2 = await runInlineTest(files, { workers: 1 });
+  expect(result2.exitCode).toBe(0);
+  expect(result2.passed).toBe(1);
+  expect(counter).toBe(1);
+});
+
+test('should only save network recordings of passing runs', async ({ runInlineTest, server }, testInfo) => {
+  let counter = 0;
+  server.setRoute('/data', (req, res) => res.end(`data-${++counter}`));
+  const result = await runInlineTest({
+    'playwright.config.ts': `module.exports = { retries: 1, use: { recordNetwork: 'record' } };`,
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('fetches data', async ({ page }) => {
+        await page.goto('${server.EMPTY_PAGE}');
+        const text = await page.evaluate(() => fetch('/data').then(r => r.text()));
+        expect(text).toBe('data-2');
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(0);
+  expect(result.flaky).toBe(1);
+  const har = fs.readFileSync(testInfo.outputPath('a.test.ts-snapshots', `fetches-data-${process.platform}.har`), 'utf8');
+  expect(har).toContain('data-2');
+  expect(har).not.toContain('data-1');
+});
+
+test('should fail when network recording is missing in replay mode', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `module.exports = { use: { recordNetwork: 'replay' } };`,
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('fetches data', async ({ page }) => {
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.failed).toBe(1);
+  expect(result.output).toContain(`fetches-data-${process.platform}.har does not exist, run the test with recordNetwork set to 'record' or 'auto' to create it.`);
+});
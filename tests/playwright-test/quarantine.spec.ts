@@ -0,0 +1,159 @@
+/**
+ * Copyright Microsoft Corporation. All rights reserved.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './playwright-test-fixtures';
+
+const config = (options: string) => `
+  module.exports = { retries: 1, quarantine: { file: 'quarantine.json', ${options} } };
+`;
+
+const flakyTest = `
+  import { test, expect } from '@playwright/test';
+  test('flaky', async ({}, testInfo) => {
+    expect(testInfo.retry).toBe(1);
+  });
+  test('stable', async ({}) => {
+  });
+`;
+
+const failingTest = `
+  import { test, expect } from '@playwright/test';
+  test('flaky', async ({}) => {
+    expect(1).toBe(2);
+  });
+  test('stable', async ({}) => {
+  });
+`;
+
+function readManifest() {
+  return JSON.parse(fs.readFileSync(test.info().outputPath('quarantine.json'), 'utf8'));
+}
+
+test('should add flaky tests to the quarantine', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': config(`flakyRuns: 1`),
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+  expect(result.exitCode).toBe(0);
+  expect(result.flaky).toBe(1);
+  expect(result.output).toContain('Quarantine updated: 1 added, 0 removed');
+  expect(readManifest().tests).toEqual([{ id: expect.any(String), title: 'a.test.ts › flaky' }]);
+});
+
+test('should not print the quarantine update to stdout', async ({ runCLICommand }) => {
+  const result = await runCLICommand({
+    'playwright.config.ts': config(`flakyRuns: 1`),
+    'a.test.ts': flakyTest,
+  }, 'test', ['--update-quarantine', '--reporter=json']);
+  expect(result.exitCode).toBe(0);
+  expect(JSON.parse(result.stdout).stats.flaky).toBe(1);
+  expect(result.stderr).toContain('Quarantine updated: 1 added, 0 removed');
+});
+
+test('should add tests that were flaky in enough runs', async ({ runInlineTest }) => {
+  const files = {
+    'playwright.config.ts': config(`flakyRuns: 2, lastRuns: 3`),
+    'a.test.ts': flakyTest,
+  };
+  const result1 = await runInlineTest(files, { 'update-quarantine': true });
+  expect(result1.output).toContain('Quarantine updated: 0 added, 0 removed');
+  expect(fs.existsSync(test.info().outputPath('quarantine.json'))).toBe(false);
+
+  const result2 = await runInlineTest(files, { 'update-quarantine': true });
+  expect(result2.output).toContain('Quarantine updated: 1 added, 0 removed');
+  expect(readManifest().tests).toEqual([{ id: expect.any(String), title: 'a.test.ts › flaky' }]);
+});
+
+test('should not fail the run because of quarantined tests', async ({ runInlineTest }) => {
+  await runInlineTest({
+    'playwright.config.ts': config(`flakyRuns: 1`),
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+
+  const result = await runInlineTest({
+    'a.test.ts': failingTest,
+  });
+  expect(result.exitCode).toBe(0);
+  expect(result.failed).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(result.output).toContain('1 quarantined');
+  expect(result.report.suites[0].specs[0].tests[0].annotations).toEqual([
+    { type: 'quarantine', description: 'Listed in quarantine.json' },
+  ]);
+});
+
+test('should not count quarantined failures towards max failures', async ({ runInlineTest }) => {
+  await runInlineTest({
+    'playwright.config.ts': config(`flakyRuns: 1`),
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+
+  const result = await runInlineTest({
+    'a.test.ts': failingTest,
+  }, { 'max-failures': 1, 'workers': 1 });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(result.output).not.toContain('Testing stopped early');
+});
+
+test('should remove stable tests from the quarantine', async ({ runInlineTest }) => {
+  await runInlineTest({
+    'playwright.config.ts': config(`flakyRuns: 1, lastRuns: 2`),
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+  expect(readManifest().tests).toHaveLength(1);
+
+  const files = {
+    'a.test.ts': `
+      import { test, expect } from '@playwright/test';
+      test('flaky', async ({}) => {
+      });
+      test('stable', async ({}) => {
+      });
+    `,
+  };
+  const result1 = await runInlineTest(files, { 'update-quarantine': true });
+  expect(result1.output).toContain('Quarantine updated: 0 added, 0 removed');
+  expect(readManifest().tests).toHaveLength(1);
+
+  const result2 = await runInlineTest(files, { 'update-quarantine': true });
+  expect(result2.output).toContain('Quarantine updated: 0 added, 1 removed');
+  expect(readManifest().tests).toEqual([]);
+});
+
+test('should report quarantined failures as skipped in junit', async ({ runInlineTest }) => {
+  await runInlineTest({
+    'playwright.config.ts': config(`flakyRuns: 1`),
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+
+  const result = await runInlineTest({
+    'a.test.ts': failingTest,
+  }, { reporter: 'junit' });
+  expect(result.exitCode).toBe(0);
+  expect(result.output).toContain(`failures="0" skipped="1"`);
+  expect(result.output).toContain(`<skipped message="Quarantined test failed`);
+});
+
+test('should require quarantine config for --update-quarantine', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.test.ts': flakyTest,
+  }, { 'update-quarantine': true });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`--update-quarantine requires the "quarantine" option in the config`);
+});
@@ -14,6 +14,7 @@
  * limitations under the License.
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import url from 'url';
@@ -21,6 +22,9 @@ import * as yazl from 'yazl';
 import { test as baseTest, expect as baseExpect, cliEntrypoint, createImage } from './playwright-test-fixtures';
 import { iso, utils } from '../../packages/playwright-core/lib/coreBundle';
 
+import type { CommonFixtures } from '../config/commonFixtures';
+import type { TestInfo } from './stable-test-runner';
+
 type HttpServer = utils.HttpServer;
 
 const { msToString } = iso;
@@ -522,6 +526,115 @@ for (const useIntermediateMergeReport of [true, false] as const) {
       await expect(page.locator('.attachment-body').nth(1)).toHaveText('Third line');
     });
 
+    test('should show performance metrics', async ({ runInlineTest, page, showReport, server }) => {
+      const result = await runInlineTest({
+        'a.test.js': `
+          import { test, expect } from '@playwright/test';
+          test('measures', async ({ page }) => {
+            await page.goto('${server.EMPTY_PAGE}');
+            await expect(page).toMeetPerformanceBudget({ transferSize: 1_000_000 });
+          });
+        `,
+      }, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+      expect(result.exitCode).toBe(0);
+
+      await showReport();
+      await page.getByRole('link', { name: 'measures' }).click();
+      await expect(page.getByTestId('performance').getByRole('row')).toHaveCount(2);
+      await expect(page.getByTestId('performance')).toContainText(server.EMPTY_PAGE);
+      await expect(page.getByTestId('attachments')).toBeHidden();
+    });
+
+    test('should show aria snapshot diff', async ({ runInlineTest, page, showReport }) => {
+      const result = await runInlineTest({
+        'a.test.js': `
+          import { test, expect } from '@playwright/test';
+          test('fails', async ({ page }) => {
+            await page.setContent('<ul><li>One</li><li>Three</li></ul>');
+            await expect(page).toMatchAriaSnapshot(\`
+              - list:
+                - listitem: One
+                - listitem: Two
+            \`, { timeout: 1000 });
+          });
+        `,
+      }, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+      expect(result.exitCode).toBe(1);
+
+      await showReport();
+      await page.getByRole('link', { name: 'fails' }).click();
+      const diff = page.getByTestId('test-results-aria-diff');
+      await expect(diff.getByTestId('aria-diff-node')).toHaveText([
+        'list',
+        'listitem',
+        'text: One',
+        'listitem',
+        'changedtext: Threetext: Two → Three',
+      ]);
+      await expect(page.getByTestId('attachments')).toBeHidden();
+    });
+
+    test('should show test history', async ({ runInlineTest, page, showReport }, testInfo) => {
+      const files = {
+        'a.test.js': `
+          import { test, expect } from '@playwright/test';
+          test('passes', async ({}) => {});
+          test('regresses', async ({}) => {
+            expect(process.env.REGRESSION).toBeFalsy();
+          });
+        `,
+      };
+      const historyDir = testInfo.outputPath('history');
+      for (let i = 0; i < 2; ++i) {
+        const result = await runInlineTest(files, { reporter: 'dot,json' }, { PLAYWRIGHT_JSON_OUTPUT_FILE: path.join(historyDir, `run-${i}.json`) });
+        expect(result.exitCode).toBe(0);
+      }
+      const result = await runInlineTest(files, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never', PLAYWRIGHT_HTML_HISTORY_DIR: historyDir, REGRESSION: '1' });
+      expect(result.exitCode).toBe(1);
+
+      await showReport();
+      await page.getByRole('link', { name: 'regresses' }).click();
+      await expect(page.getByTestId('test-history-outcome')).toHaveCount(3);
+      await expect(page.getByTestId('test-history-first-failed')).toBeVisible();
+
+      await page.goBack();
+      await page.getByRole('link', { name: 'passes' }).click();
+      await expect(page.getByTestId('test-history-outcome')).toHaveCount(3);
+      await expect(page.getByTestId('test-history-first-failed')).toBeHidden();
+    });
+
+    test('should show test history for each project', async ({ runInlineTest, page, showReport }, testInfo) => {
+      const files = {
+        'playwright.config.ts': `
+          module.exports = { projects: [{ name: 'first' }, { name: 'second' }] };
+        `,
+        'a.test.js': `
+          import { test, expect } from '@playwright/test';
+          test('regresses', async ({}, testInfo) => {
+            if (testInfo.project.name === 'second')
+              expect(process.env.REGRESSION).toBeFalsy();
+          });
+        `,
+      };
+      const historyDir = testInfo.outputPath('history');
+      const first = await runInlineTest(files, { reporter: 'dot,json' }, { PLAYWRIGHT_JSON_OUTPUT_FILE: path.join(historyDir, 'run-0.json'), REGRESSION: '1' });
+      expect(first.exitCode).toBe(1);
+      const second = await runInlineTest(files, { reporter: 'dot,json' }, { PLAYWRIGHT_JSON_OUTPUT_FILE: path.join(historyDir, 'run-1.json') });
+      expect(second.exitCode).toBe(0);
+      const result = await runInlineTest(files, { reporter: 'dot,html' }, { PLAYWRIGHT_HTML_OPEN: 'never', PLAYWRIGHT_HTML_HISTORY_DIR: historyDir });
+      expect(result.exitCode).toBe(0);
+
+      await showReport();
+      await page.locator('.test-file-test').filter({ hasText: 'first' }).getByRole('link', { name: 'regresses' }).click();
+      await expect(page.getByTestId('test-history-outcome')).toHaveCount(3);
+      await expect(page.getByTestId('test-history-outcome').first()).toHaveClass(/history-outcome-expected/);
+
+      await page.goBack();
+      await page.locator('.test-file-test').filter({ hasText: 'second' }).getByRole('link', { name: 'regresses' }).click();
+      await expect(page.getByTestId('test-history-outcome')).toHaveCount(3);
+      await expect(page.getByTestId('test-history-outcome').first()).toHaveClass(/history-outcome-unexpected/);
+    });
+
     test('should include stdout/stderr in copy prompt', async ({ runInlineTest, page, showReport }) => {
       const result = await runInlineTest({
         'a.test.js': `
@@ -3664,6 +3777,247 @@ test.describe('show-report .zip support', () => {
   });
 });
 
+test.describe('rebaselines', () => {
+  const readRebaselines = (testInfo: TestInfo) => JSON.parse(fs.readFileSync(testInfo.outputPath('playwright-report', 'rebaselines.json'), 'utf-8'));
+
+  const serveRebaselines = async (childProcess: CommonFixtures['childProcess'], port: number, testInfo: TestInfo) => {
+    const proc = childProcess({
+      command: ['node', cliEntrypoint, 'show-report', `--port=${port}`],
+      cwd: testInfo.outputPath(),
+      env: { ...process.env, PLAYWRIGHT_HTML_OPEN: 'never' },
+    });
+    await proc.waitForOutput('Serving HTML report at');
+    const url = `http://localhost:${port}/rebaselines`;
+    const response = await fetch(url);
+    const token = response.headers.get('x-playwright-rebaseline-token')!;
+    return {
+      url,
+      statuses: await response.json(),
+      post: (id: string, action: string, headers: Record<string, string> = { 'x-playwright-rebaseline-token': token }) => fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify({ id, action }) }),
+    };
+  };
+
+  test('should accept and reject snapshots from the served report', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'playwright.config.ts': `
+        module.exports = { snapshotPathTemplate: '{testDir}/__snapshots__/{arg}{ext}' };
+      `,
+      '__snapshots__/accepted.txt': 'old',
+      '__snapshots__/rejected.txt': 'old',
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({}) => {
+          expect.soft('new').toMatchSnapshot('accepted.txt');
+          expect.soft('new').toMatchSnapshot('rejected.txt');
+        });
+      `,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const idFor = (name: string) => Object.keys(rebaselines).find(id => rebaselines[id].snapshotPath === testInfo.outputPath('__snapshots__', name))!;
+    const acceptedId = idFor('accepted.txt');
+    const rejectedId = idFor('rejected.txt');
+
+    const { statuses, post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect(statuses).toEqual({ [acceptedId]: 'pending', [rejectedId]: 'pending' });
+
+    await post(acceptedId, 'accept');
+    expect(await post(rejectedId, 'reject').then(r => r.json())).toEqual({ [acceptedId]: 'accepted', [rejectedId]: 'rejected' });
+    expect(fs.readFileSync(testInfo.outputPath('__snapshots__', 'accepted.txt'), 'utf-8')).toBe('new');
+    expect(fs.readFileSync(testInfo.outputPath('__snapshots__', 'rejected.txt'), 'utf-8')).toBe('old');
+    expect((await post(acceptedId, 'accept')).status).toBe(400);
+  });
+
+  test('should reject updates without the token, from other origins and outside of the snapshot directories', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    await runInlineTest({
+      'playwright.config.ts': `
+        module.exports = { snapshotPathTemplate: '{testDir}/__snapshots__/{arg}{ext}' };
+      `,
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({}) => {
+          expect('new').toMatchSnapshot('snapshot.txt');
+        });
+      `,
+      '__snapshots__/snapshot.txt': 'old',
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+
+    const data = readRebaselines(testInfo);
+    const [id] = Object.keys(data.rebaselines);
+    // Tampered report must not be able to write outside of the project.
+    const outsideId = 'outside';
+    data.rebaselines[outsideId] = { snapshotPath: path.join(testInfo.outputPath(), '..', 'outside.txt'), content: 'new' };
+    fs.writeFileSync(testInfo.outputPath('playwright-report', 'rebaselines.json'), JSON.stringify(data));
+
+    const { url, post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect((await post(id, 'accept', {})).status).toBe(403);
+    expect((await post(id, 'accept', { 'x-playwright-rebaseline-token': 'wrong' })).status).toBe(403);
+    const token = (await fetch(url)).headers.get('x-playwright-rebaseline-token')!;
+    expect((await post(id, 'accept', { 'x-playwright-rebaseline-token': token, 'origin': 'http://evil.com' })).status).toBe(403);
+
+    const outside = await post(outsideId, 'accept');
+    expect(outside.status).toBe(400);
+    expect(await outside.text()).toContain('Cannot update snapshot outside of the snapshot directories');
+    expect(fs.existsSync(path.join(testInfo.outputPath(), '..', 'outside.txt'))).toBe(false);
+    expect(fs.readFileSync(testInfo.outputPath('__snapshots__', 'snapshot.txt'), 'utf-8')).toBe('old');
+  });
+
+  test('should accept screenshots from the served report', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'playwright.config.ts': `
+        module.exports = { snapshotPathTemplate: '{testDir}/__screenshots__/{arg}{ext}' };
+      `,
+      '__screenshots__/page.png': createImage(100, 100, 255, 0, 0),
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({ page }) => {
+          await page.setViewportSize({ width: 100, height: 100 });
+          await page.setContent('<style>html { background: blue; }</style>');
+          await expect(page).toHaveScreenshot('page.png', { timeout: 1000 });
+        });
+      `,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const [id] = Object.keys(rebaselines);
+    const actual = fs.readFileSync(testInfo.outputPath('playwright-report', rebaselines[id].actual));
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect((await post(id, 'accept')).status).toBe(200);
+    expect(fs.readFileSync(testInfo.outputPath('__screenshots__', 'page.png'))).toEqual(actual);
+  });
+
+  test('should accept binary snapshots into the snapshot store', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const image = createImage(10, 10, 255, 0, 0);
+    const newImage = createImage(10, 10, 0, 0, 255);
+    const newHash = crypto.createHash('sha256').update(newImage).digest('hex');
+    const result = await runInlineTest({
+      'playwright.config.ts': `
+        module.exports = {
+          snapshotPathTemplate: '{testDir}/__snapshots__/{arg}{ext}',
+          snapshotStore: { type: 'fs', directory: './snapshot-store' },
+        };
+      `,
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({}) => {
+          expect(Buffer.from('${newImage.toString('base64')}', 'base64')).toMatchSnapshot('snapshot.png');
+        });
+      `,
+      '__snapshots__/snapshot.png': image,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const [id] = Object.keys(rebaselines);
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect((await post(id, 'accept')).status).toBe(200);
+    expect(fs.readFileSync(testInfo.outputPath('__snapshots__', 'snapshot.png'), 'utf-8')).toBe(`version playwright-snapshot/1\noid sha256:${newHash}\nsize ${newImage.length}\n`);
+    expect(fs.readFileSync(testInfo.outputPath('snapshot-store', newHash.substring(0, 2), newHash.substring(2)))).toEqual(newImage);
+  });
+
+  test('should accept aria snapshots from the served report', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({ page }) => {
+          await page.setContent('<h1>New title</h1>');
+          await expect(page.locator('body')).toMatchAriaSnapshot({ name: 'body.aria.yml', timeout: 1000 });
+        });
+      `,
+      'a.test.js-snapshots/body.aria.yml': '- heading "Old title" [level=1]',
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const [id] = Object.keys(rebaselines);
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect((await post(id, 'accept')).status).toBe(200);
+    expect(fs.readFileSync(testInfo.outputPath('a.test.js-snapshots', 'body.aria.yml'), 'utf-8')).toContain('- heading "New title" [level=1]');
+  });
+
+  test('should accept inline aria snapshots from the served report', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({ page }) => {
+          await page.setContent('<h1>New title</h1>');
+          await expect(page.locator('body')).toMatchAriaSnapshot(\`
+            - heading "Old title"
+          \`, { timeout: 1000 });
+        });
+      `,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const [id] = Object.keys(rebaselines);
+    expect(rebaselines[id].location.file).toBe(testInfo.outputPath('a.test.js'));
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    expect((await post(id, 'accept')).status).toBe(200);
+    const source = fs.readFileSync(testInfo.outputPath('a.test.js'), 'utf-8');
+    expect(source).toContain('- heading "New title" [level=1]');
+    expect(source).not.toContain('Old title');
+  });
+
+  test('should accept several inline aria snapshots in one file', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({ page }) => {
+          await page.setContent('<h1>New title</h1><p>New text</p>');
+          await expect.soft(page.locator('body')).toMatchAriaSnapshot(\`
+            - heading "Old title"
+          \`, { timeout: 1000 });
+          await page.setContent('<h2>New subtitle</h2>');
+          await expect.soft(page.locator('body')).toMatchAriaSnapshot(\`
+            - heading "Old subtitle"
+          \`, { timeout: 1000 });
+        });
+      `,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const ids = Object.keys(rebaselines).sort((a, b) => rebaselines[a].location.line - rebaselines[b].location.line);
+    expect(ids).toHaveLength(2);
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    // The first update adds a line, which moves the second snapshot.
+    expect((await post(ids[0], 'accept')).status).toBe(200);
+    expect((await post(ids[1], 'accept')).status).toBe(200);
+    const source = fs.readFileSync(testInfo.outputPath('a.test.js'), 'utf-8');
+    expect(source).toContain('- paragraph: New text');
+    expect(source).toContain('- heading "New subtitle" [level=2]');
+    expect(source).not.toContain('Old');
+  });
+
+  test('should not accept inline snapshots that are no longer in the file', async ({ runInlineTest, childProcess, findFreePort }, testInfo) => {
+    const result = await runInlineTest({
+      'a.test.js': `
+        import { test, expect } from '@playwright/test';
+        test('fails', async ({ page }) => {
+          await page.setContent('<h1>New title</h1>');
+          await expect(page.locator('body')).toMatchAriaSnapshot(\`
+            - heading "Old title"
+          \`, { timeout: 1000 });
+        });
+      `,
+    }, { reporter: 'html' }, { PLAYWRIGHT_HTML_OPEN: 'never' });
+    expect(result.failed).toBe(1);
+
+    const { rebaselines } = readRebaselines(testInfo);
+    const [id] = Object.keys(rebaselines);
+    const edited = '// Edited after the run.\n' + fs.readFileSync(testInfo.outputPath('a.test.js'), 'utf-8');
+    fs.writeFileSync(testInfo.outputPath('a.test.js'), edited);
+    const { post } = await serveRebaselines(childProcess, await findFreePort(), testInfo);
+    const response = await post(id, 'accept');
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain('the file has changed since the test run');
+    expect(fs.readFileSync(testInfo.outputPath('a.test.js'), 'utf-8')).toBe(edited);
+  });
+});
+
 async function zipDirectory(sourceDir: string, zipPath: string): Promise<void> {
   const zipFile = new yazl.ZipFile();
   const finished = new Promise<void>((resolve, reject) => {
@@ -367,3 +367,175 @@ test('should not defer remaining tests with isolated retries', async ({ runInlin
     'b1-1',
   ]);
 });
+
+test('should only retry errors matching the retry policy', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { retries: 2, retryPolicy: { errors: ['TimeoutError', /net::ERR_/] } };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test('timeout', ({}, testInfo) => {
+        const error = new Error('waiting for locator');
+        error.name = 'TimeoutError';
+        if (testInfo.retry < 2)
+          throw error;
+      });
+      test('network', () => {
+        throw new Error('net::ERR_CONNECTION_REFUSED');
+      });
+      test('assertion', () => {
+        expect(1).toBe(2);
+      });
+    `,
+  }, { workers: 1, reporter: 'json' });
+  expect(result.exitCode).toBe(1);
+  expect(result.flaky).toBe(1);
+  expect(result.failed).toBe(2);
+  const [timeout, network, assertion] = result.report.suites[0].specs.map(spec => spec.tests[0]);
+  expect(timeout.results.length).toBe(3);
+  expect(network.results.length).toBe(3);
+  expect(assertion.results.length).toBe(1);
+  expect(timeout.results[1].annotations).toEqual([
+    { type: 'retry', description: 'Retry #1: error matched "TimeoutError", in a fresh worker' },
+  ]);
+  expect(network.results[2].annotations).toEqual([
+    { type: 'retry', description: 'Retry #2: error matched /net::ERR_/, in a fresh worker' },
+  ]);
+});
+
+test('should wait for the retry policy backoff', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { retries: 2, retryPolicy: { backoff: { delay: 500, factor: 3 } } };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test('a', ({}, testInfo) => {
+        console.log('\\n%%' + Date.now());
+        expect(testInfo.retry).toBe(2);
+      });
+    `,
+    'b.test.js': `
+      import { test, expect } from '@playwright/test';
+      test('b', () => {
+        console.log('\\n%%b');
+      });
+    `,
+  }, { workers: 1, reporter: 'json' });
+  expect(result.exitCode).toBe(0);
+  expect(result.flaky).toBe(1);
+  expect(result.passed).toBe(1);
+  const [first, second, third] = result.outputLines.filter(line => line !== 'b').map(Number);
+  expect(second - first).toBeGreaterThanOrEqual(500);
+  expect(third - second).toBeGreaterThanOrEqual(1500);
+  // Other tests do not wait for the backoff.
+  expect(result.outputLines.indexOf('b')).toBe(1);
+  const test = result.report.suites.find(suite => suite.file === 'a.test.js')!.specs[0].tests[0];
+  expect(test.results[2].annotations).toEqual([
+    { type: 'retry', description: 'Retry #2: after 1500ms backoff, in a fresh worker' },
+  ]);
+});
+
+test('should retry in the same worker', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { retries: 1, retryPolicy: { worker: 'same' } };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test.afterAll(() => {
+        console.log('\\n%%afterAll');
+      });
+      test('a', ({}, testInfo) => {
+        console.log('\\n%%a-' + testInfo.retry + '/' + testInfo.workerIndex);
+        expect(testInfo.retry).toBe(1);
+      });
+      test('b', ({}, testInfo) => {
+        console.log('\\n%%b-' + testInfo.retry + '/' + testInfo.workerIndex);
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(0);
+  expect(result.flaky).toBe(1);
+  expect(result.passed).toBe(1);
+  expect(result.outputLines).toEqual([
+    'a-0/0',
+    'afterAll',
+    'b-0/0',
+    'afterAll',
+    'a-1/0',
+    'afterAll',
+  ]);
+});
+
+test('should restart the worker for serial mode with the same worker retry policy', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { retries: 1, retryPolicy: { worker: 'same' } };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test.describe.configure({ mode: 'serial' });
+      test('a', ({}, testInfo) => {
+        console.log('\\n%%a-' + testInfo.retry + '/' + testInfo.workerIndex);
+        expect(testInfo.retry).toBe(1);
+      });
+      test('b', ({}, testInfo) => {
+        console.log('\\n%%b-' + testInfo.retry + '/' + testInfo.workerIndex);
+      });
+    `,
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(0);
+  expect(result.outputLines).toEqual([
+    'a-0/0',
+    'a-1/1',
+    'b-1/1',
+  ]);
+});
+
+test('should respect the retry policy budget', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = {
+        retries: 2,
+        projects: [
+          { name: 'limited', retryPolicy: { budget: 3 } },
+          { name: 'unlimited' },
+        ],
+      };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test('a', () => expect(1).toBe(2));
+      test('b', () => expect(1).toBe(2));
+      test('c', () => expect(1).toBe(2));
+    `,
+  }, { workers: 1, reporter: 'json' });
+  expect(result.exitCode).toBe(1);
+  expect(result.failed).toBe(6);
+  const results = result.report.suites[0].specs.flatMap(spec => spec.tests);
+  const limited = results.filter(test => test.projectName === 'limited');
+  const unlimited = results.filter(test => test.projectName === 'unlimited');
+  expect(limited.reduce((sum, test) => sum + test.results.length, 0)).toBe(6);
+  expect(unlimited.reduce((sum, test) => sum + test.results.length, 0)).toBe(9);
+  expect(limited.flatMap(test => test.results.flatMap(result => result.annotations.map(a => a.description)))).toEqual([
+    'Retry #1: in a fresh worker, 1 of 3 retries used',
+    'Retry #2: in a fresh worker, 2 of 3 retries used',
+    'Retry #1: in a fresh worker, 3 of 3 retries used',
+  ]);
+});
+
+test('should validate retry policy', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.js': `
+      module.exports = { retryPolicy: { worker: 'new' } };
+    `,
+    'a.test.js': `
+      import { test, expect } from '@playwright/test';
+      test('a', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('config.retryPolicy.worker must be one of "fresh" or "same"');
+});
@@ -14,6 +14,8 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
+
 import { test, expect } from './playwright-test-fixtures';
 
 test.describe.configure({ mode: 'parallel' });
@@ -357,3 +359,79 @@ test('should respect custom shard weights', async ({ runInlineTest }) => {
     ]);
   });
 });
+
+const timedTests = {
+  'playwright.config.ts': `
+    module.exports = { fullyParallel: true };
+  `,
+  'a.spec.ts': `
+    import { test } from '@playwright/test';
+    test('slow', async () => {
+      await new Promise(f => setTimeout(f, 1000));
+      console.log('\\n%%slow-done');
+    });
+    test('fast1', async () => {
+      console.log('\\n%%fast1-done');
+    });
+    test('fast2', async () => {
+      console.log('\\n%%fast2-done');
+    });
+    test('fast3', async () => {
+      console.log('\\n%%fast3-done');
+    });
+  `,
+};
+
+test('should balance shards by durations from the last run', async ({ runInlineTest }) => {
+  const result = await runInlineTest(timedTests, { workers: 1 });
+  expect(result.exitCode).toBe(0);
+  const lastRunInfo = JSON.parse(fs.readFileSync(test.info().outputPath('test-results', '.last-run.json'), 'utf8'));
+  expect(Object.keys(lastRunInfo.testDurations)).toHaveLength(4);
+  // Every shard run clears the output dir, so keep the timings elsewhere.
+  fs.copyFileSync(test.info().outputPath('test-results', '.last-run.json'), test.info().outputPath('timings.json'));
+
+  await test.step('shard 1', async () => {
+    const result = await runInlineTest(timedTests, { 'shard': '1/2', 'workers': 1, 'shard-timings': 'timings.json' });
+    expect.soft(result.exitCode).toBe(0);
+    expect.soft(result.outputLines).toEqual(['slow-done']);
+  });
+  await test.step('shard 2', async () => {
+    const result = await runInlineTest(timedTests, { 'shard': '2/2', 'workers': 1, 'shard-timings': 'timings.json' });
+    expect.soft(result.exitCode).toBe(0);
+    expect.soft(result.outputLines).toEqual(['fast1-done', 'fast2-done', 'fast3-done']);
+  });
+});
+
+test('should drop durations of removed tests from the last run', async ({ runInlineTest }) => {
+  const result1 = await runInlineTest(timedTests, { workers: 1 });
+  expect(result1.exitCode).toBe(0);
+  const lastRunFile = test.info().outputPath('test-results', '.last-run.json');
+  const testIds = Object.keys(JSON.parse(fs.readFileSync(lastRunFile, 'utf8')).testDurations);
+  expect(testIds).toHaveLength(4);
+
+  const result2 = await runInlineTest({
+    'a.spec.ts': timedTests['a.spec.ts'].replace(`test('fast3'`, `test('fast4'`),
+  }, { workers: 1, grep: 'fast4' });
+  expect(result2.exitCode).toBe(0);
+  const testDurations = JSON.parse(fs.readFileSync(lastRunFile, 'utf8')).testDurations;
+  // Filtered out tests keep their durations, the renamed test is replaced.
+  expect(Object.keys(testDurations)).toHaveLength(4);
+  expect(Object.keys(testDurations).filter(id => testIds.includes(id))).toHaveLength(3);
+});
+
+test('should balance shards by durations from a blob report', async ({ runInlineTest }) => {
+  const result = await runInlineTest(timedTests, { workers: 1, reporter: 'blob' });
+  expect(result.exitCode).toBe(0);
+  fs.copyFileSync(test.info().outputPath('blob-report', 'report.zip'), test.info().outputPath('timings.zip'));
+
+  const shard1 = await runInlineTest(timedTests, { 'shard': '1/2', 'workers': 1, 'shard-timings': 'timings.zip' });
+  expect(shard1.exitCode).toBe(0);
+  expect(shard1.outputLines).toEqual(['slow-done']);
+});
+
+test('should report missing shard timings file', async ({ runInlineTest }) => {
+  const result = await runInlineTest(timedTests, { 'shard': '1/2', 'shard-timings': 'missing.json' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('--shard-timings');
+  expect(result.output).toContain('does not exist');
+});
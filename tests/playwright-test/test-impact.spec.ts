@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+
+import { test, expect } from './playwright-test-fixtures';
+
+test.slow();
+
+// Recording the coverage requires a browser, so tests emulate it with the internal attachment.
+const testFiles = {
+  'playwright.config.ts': `
+    export default { impactMap: 'test-impact.json' };
+  `,
+  'src/app.js': `export const app = 1;`,
+  'src/other.js': `export const other = 1;`,
+  'a.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    import path from 'path';
+    test('uses app', () => {
+      test.info().attachments.push({ name: '_impact', contentType: 'application/json', body: Buffer.from(JSON.stringify({ sources: [path.join(__dirname, 'src', 'app.js')] })) });
+    });
+  `,
+  'b.spec.ts': `
+    import { test, expect } from '@playwright/test';
+    import path from 'path';
+    test('uses other', () => {
+      test.info().attachments.push({ name: '_impact', contentType: 'application/json', body: Buffer.from(JSON.stringify({ sources: [path.join(__dirname, 'src', 'other.js')] })) });
+    });
+  `,
+};
+
+test('should record impact map', async ({ runInlineTest }) => {
+  const result = await runInlineTest(testFiles, { 'record-impact': true });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(2);
+
+  const impactMap = JSON.parse(fs.readFileSync(test.info().outputPath('test-impact.json'), 'utf8'));
+  expect(impactMap.version).toBe(1);
+  expect(Object.values(impactMap.tests)).toEqual(expect.arrayContaining([
+    { title: 'a.spec.ts › uses app', sources: ['src/app.js'] },
+    { title: 'b.spec.ts › uses other', sources: ['src/other.js'] },
+  ]));
+});
+
+test('should run tests impacted by changed sources', async ({ runInlineTest, git, writeFiles }) => {
+  const recordResult = await runInlineTest(testFiles, { 'record-impact': true });
+  expect(recordResult.exitCode).toBe(0);
+
+  git(`add .`);
+  git(`commit -m init`);
+
+  await writeFiles({ 'src/app.js': `export const app = 2;` });
+  const result = await runInlineTest({}, { 'only-changed': true, 'reporter': 'list' });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(1);
+  expect(result.output).toContain('a.spec.ts:4:9 › uses app');
+  expect(result.output).not.toContain('uses other');
+});
+
+test('should not run tests for sources with the same path suffix', async ({ runInlineTest, git, writeFiles }) => {
+  const recordResult = await runInlineTest(testFiles, { 'record-impact': true });
+  expect(recordResult.exitCode).toBe(0);
+
+  git(`add .`);
+  git(`commit -m init`);
+
+  await writeFiles({ 'vendor/src/app.js': `export const app = 2;` });
+  const result = await runInlineTest({}, { 'only-changed': true, 'reporter': 'list' });
+  expect(result.output).not.toContain('uses app');
+  expect(result.output).not.toContain('uses other');
+});
+
+test('should keep tests that did not run in the impact map', async ({ runInlineTest }) => {
+  await runInlineTest(testFiles, { 'record-impact': true });
+  const result = await runInlineTest({}, { 'record-impact': true }, {}, { additionalArgs: ['a.spec.ts'] });
+  expect(result.passed).toBe(1);
+
+  const impactMap = JSON.parse(fs.readFileSync(test.info().outputPath('test-impact.json'), 'utf8'));
+  expect(Object.keys(impactMap.tests)).toHaveLength(2);
+});
+
+test('should require impactMap when recording', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.spec.ts': `
+      import { test, expect } from '@playwright/test';
+      test('pass', () => {});
+    `,
+  }, { 'record-impact': true });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain(`--record-impact requires the "impactMap" option in the config`);
+});
@@ -236,3 +236,78 @@ test('should validate lock in test details', async ({ runInlineTest }) => {
   expect(result.exitCode).toBe(1);
   expect(result.output).toContain('details.lock');
 });
+
+test('should support test.lock()', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { fullyParallel: true };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test.lock('shared');
+      ${lockedTest('test1', 1000)}
+    `,
+    'b.test.ts': `
+      import { test } from '@playwright/test';
+      test.describe('suite', () => {
+        test.lock(['shared', 'other']);
+        ${lockedTest('test2', 1000)}
+      });
+      ${lockedTest('test3', 1000)}
+    `,
+  }, { workers: 3 });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(3);
+  expect(conflictingOverlaps(result.outputLines, [['test1', 'test2']])).toEqual([]);
+});
+
+test('should allow as many tests as the lock capacity', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { fullyParallel: true, locks: { 'pool': 2 } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      ${lockedTest('test1', 1000, 'pool')}
+      ${lockedTest('test2', 1000, 'pool')}
+      ${lockedTest('test3', 1000, 'pool')}
+    `,
+  }, { workers: 3 });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(3);
+  let running = 0;
+  let maxRunning = 0;
+  for (const line of result.outputLines) {
+    if (line.startsWith('begin:'))
+      maxRunning = Math.max(maxRunning, ++running);
+    else if (line.startsWith('end:'))
+      --running;
+  }
+  expect(maxRunning).toBe(2);
+});
+
+test('should validate test.lock() argument', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test.lock(42);
+      test('test1', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('test.lock() expects a lock name or an array of lock names');
+});
+
+test('should validate locks in config', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { locks: { 'pool': 0 } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('test1', async () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('config.locks["pool"] must be a positive integer');
+});
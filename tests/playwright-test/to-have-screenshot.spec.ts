@@ -1337,6 +1337,127 @@ test('should throw for invalid maxDiffPixelRatio values', async ({ runInlineTest
 });
 
 
+test('should respect regions option', async ({ runInlineTest }, testInfo) => {
+  const BAD_PIXELS = 120;
+  const EXPECTED_SNAPSHOT = paintBlackPixels(whiteImage, BAD_PIXELS);
+  const runWithRegions = (regions: string) => runInlineTest({
+    ...playwrightConfig({
+      snapshotPathTemplate: '__screenshots__/{testFilePath}/{arg}{ext}',
+    }),
+    '__screenshots__/a.spec.js/snapshot.png': EXPECTED_SNAPSHOT,
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('is a test', async ({ page }) => {
+        await page.setContent('<div style="position: absolute; left: 0; top: 0; width: 200px; height: 10px"></div>');
+        await expect(page).toHaveScreenshot('snapshot.png', { timeout: 2000, regions: ${regions} });
+      });
+    `
+  });
+
+  const tolerated = await runWithRegions(`[{ rect: { x: 0, y: 0, width: ${BAD_PIXELS}, height: 1 }, maxDiffPixels: ${BAD_PIXELS} }]`);
+  expect(tolerated.exitCode, 'make sure region maxDiffPixels is respected').toBe(0);
+
+  const exceeded = await runWithRegions(`[{ rect: { x: 0, y: 0, width: ${BAD_PIXELS}, height: 1 }, maxDiffPixels: 10 }]`);
+  expect(exceeded.exitCode, 'make sure region maxDiffPixels is enforced').toBe(1);
+  expect(exceeded.output).toContain(`${BAD_PIXELS} pixels (ratio 1.00 of region pixels) are different in region 0,0 ${BAD_PIXELS}x1.`);
+
+  const ignored = await runWithRegions(`[{ locator: page.locator('div'), ignore: true }]`);
+  expect(ignored.exitCode, 'make sure ignored locator region is respected').toBe(0);
+  expect(fs.readFileSync(testInfo.outputPath('__screenshots__', 'a.spec.js', 'snapshot.png')).equals(EXPECTED_SNAPSHOT)).toBe(true);
+});
+
+test('should throw for invalid regions values', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...playwrightConfig({}),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('is a test', async ({ page }) => {
+        await expect(page).toHaveScreenshot({
+          regions: [{ maxDiffPixels: 10 }],
+        });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Each of `regions` must specify either `locator` or `rect`');
+});
+
+test('should compare a screenshot per viewport and color scheme', async ({ runInlineTest }, testInfo) => {
+  const files = {
+    ...playwrightConfig({
+      snapshotPathTemplate: '__screenshots__/{testFilePath}/{arg}{ext}',
+    }),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('is a test', async ({ page }) => {
+        await page.setContent('<style>@media (prefers-color-scheme: dark) { body { background: black; } }</style>');
+        await expect(page).toHaveScreenshot('snapshot.png', {
+          viewports: [{ width: 100, height: 50 }, { width: 200, height: 80 }],
+          colorSchemes: ['light', 'dark'],
+        });
+        console.log('## ' + JSON.stringify(page.viewportSize()) + ' ' + await page.evaluate(() => matchMedia('(prefers-color-scheme: dark)').matches));
+      });
+    `
+  };
+  const result = await runInlineTest(files, { 'update-snapshots': 'missing' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('4 of 4 screenshots missing');
+  expect(result.output).toContain('## {"width":1280,"height":720} false');
+  for (const name of ['snapshot-100x50-light.png', 'snapshot-100x50-dark.png', 'snapshot-200x80-light.png', 'snapshot-200x80-dark.png'])
+    expect(fs.existsSync(testInfo.outputPath('__screenshots__', 'a.spec.js', name)), name).toBe(true);
+  const darkImage = PNG.sync.read(fs.readFileSync(testInfo.outputPath('__screenshots__', 'a.spec.js', 'snapshot-200x80-dark.png')));
+  expect([darkImage.width, darkImage.height, darkImage.data[0]]).toEqual([200, 80, 0]);
+
+  const rerun = await runInlineTest(files);
+  expect(rerun.exitCode).toBe(0);
+});
+
+test('should report failed combinations of viewports and color schemes', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...playwrightConfig({
+      snapshotPathTemplate: '__screenshots__/{testFilePath}/{arg}{ext}',
+    }),
+    '__screenshots__/a.spec.js/snapshot-100x50-light.png': createImage(100, 50, 255, 255, 255),
+    '__screenshots__/a.spec.js/snapshot-100x50-dark.png': createImage(100, 50, 255, 255, 255),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test.afterEach(async ({}, testInfo) => {
+        console.log('## ' + JSON.stringify(testInfo.attachments.map(a => a.name)));
+      });
+      test('is a test', async ({ page }) => {
+        await page.setContent('<style>@media (prefers-color-scheme: dark) { body { background: black; } }</style>');
+        await expect(page).toHaveScreenshot('snapshot.png', {
+          timeout: 2000,
+          viewports: [{ width: 100, height: 50 }],
+          colorSchemes: ['light', 'dark'],
+        });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('1 of 2 screenshots failed');
+  expect(result.output).toContain('✓ 100x50, light');
+  expect(result.output).toContain('✘ 100x50, dark');
+  expect(result.output).toContain('Snapshot: snapshot-100x50-dark.png');
+  const attachments = JSON.parse(result.output.split('\n').find(line => line.startsWith('## '))!.substring(3));
+  expect(attachments).toEqual(expect.arrayContaining(['snapshot-100x50-dark-actual.png', 'snapshot-100x50-dark-diff.png', '_screenshotMatrix']));
+  expect(attachments).not.toContain('snapshot-100x50-light-actual.png');
+});
+
+test('should throw for invalid color schemes', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...playwrightConfig({}),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('is a test', async ({ page }) => {
+        await expect(page).toHaveScreenshot({ colorSchemes: ['sepia'] });
+      });
+    `
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Unsupported color scheme "sepia", must be one of "light", "dark" or "no-preference"');
+});
+
 test('should attach expected/actual/diff when sizes are different', async ({ runInlineTest }, testInfo) => {
   const result = await runInlineTest({
     ...playwrightConfig({
@@ -1498,6 +1619,40 @@ test('should respect comparator in config', async ({ runInlineTest }) => {
   expect(result.report.suites[0].specs[0].tests[1].status).toBe('unexpected');
 });
 
+test('should fail negated matcher with custom comparator when screenshots match', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...playwrightConfig({
+      snapshotPathTemplate: '__screenshots__/{testFilePath}/{arg}{ext}',
+      expect: {
+        comparators: { 'size-only': './size-only.js' },
+        toHaveScreenshot: { comparator: 'size-only' },
+      },
+    }),
+    'size-only.js': `
+      module.exports = (actual, expected) => {
+        if (actual.readUInt32BE(16) === expected.readUInt32BE(16) && actual.readUInt32BE(20) === expected.readUInt32BE(20))
+          return null;
+        return { errorMessage: 'Sizes differ' };
+      };
+    `,
+    '__screenshots__/a.spec.js/same.png': blueImage,
+    '__screenshots__/a.spec.js/different.png': createImage(10, 10, 0, 0, 255),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('same', async ({ page }) => {
+        await expect(page).not.toHaveScreenshot('same.png', { timeout: 2000 });
+      });
+      test('different', async ({ page }) => {
+        await expect(page).not.toHaveScreenshot('different.png', { timeout: 2000 });
+      });
+    `
+  }, { workers: 1 });
+  expect(result.exitCode).toBe(1);
+  expect(result.report.suites[0].specs[0].tests[0].status).toBe('unexpected');
+  expect(result.output).toContain('Expected result should be different from the actual one.');
+  expect(result.report.suites[0].specs[1].tests[0].status).toBe('expected');
+});
+
 test('should throw pretty error if expected PNG file is not a PNG', async ({ runInlineTest }) => {
   const result = await runInlineTest({
     ...playwrightConfig({
@@ -1605,6 +1760,29 @@ test('should support stylePath option in config', async ({ runInlineTest }) => {
   expect(result.exitCode).toBe(0);
 });
 
+test('should support stable option', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    ...playwrightConfig({
+      snapshotPathTemplate: '__screenshots__/{testFilePath}/{arg}{ext}',
+    }),
+    '__screenshots__/a.spec.js/snapshot.png': createImage(IMG_WIDTH, IMG_HEIGHT, 0, 255, 0),
+    'a.spec.js': `
+      const { test, expect } = require('@playwright/test');
+      test('png', async ({ page }) => {
+        await page.setContent('<style> html,body { padding: 0; margin: 0; background: red; }</style>');
+        await page.evaluate(() => setTimeout(() => {
+          document.body.style.background = '#00FF00';
+          window.__ready = true;
+        }, 500));
+        await expect(page).toHaveScreenshot('snapshot.png', {
+          stable: { fonts: true, images: true, predicate: () => window.__ready },
+        });
+      });
+    `,
+  });
+  expect(result.exitCode).toBe(0);
+});
+
 function playwrightConfig(obj: any) {
   return {
     'playwright.config.js': `
@@ -0,0 +1,142 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { test, expect } from './playwright-test-fixtures';
+import { WorkerAutoscaler } from '../../packages/playwright/src/runner/workerAutoscaler';
+
+import type { LoadSample } from '../../packages/playwright/src/runner/workerAutoscaler';
+
+function createAutoscaler(minWorkers: number, maxWorkers: number, samples: LoadSample[]) {
+  return new WorkerAutoscaler(minWorkers, maxWorkers, () => samples.shift()!);
+}
+
+test('should scale up workers when the machine is idle', () => {
+  const autoscaler = createAutoscaler(1, 2, [
+    { cpuLoad: 0.1, freeMemory: 0.8 },
+    { cpuLoad: 0.1, freeMemory: 0.8 },
+  ]);
+  expect(autoscaler.update(true)).toEqual({ workers: 2, message: 'Scaling up to 2 workers: cpu load 10%, free memory 80%' });
+  expect(autoscaler.update(true)).toBeUndefined();
+  expect(autoscaler.workers()).toBe(2);
+});
+
+test('should not scale up workers when the machine is busy', () => {
+  const autoscaler = createAutoscaler(1, 3, [
+    { cpuLoad: 0.8, freeMemory: 0.8 },
+    { cpuLoad: 0.1, freeMemory: 0.15 },
+  ]);
+  expect(autoscaler.update(true)).toBeUndefined();
+  expect(autoscaler.update(true)).toBeUndefined();
+  expect(autoscaler.workers()).toBe(1);
+});
+
+test('should not scale up workers without queued jobs', () => {
+  const autoscaler = createAutoscaler(1, 3, [{ cpuLoad: 0.1, freeMemory: 0.8 }]);
+  expect(autoscaler.update(false)).toBeUndefined();
+  expect(autoscaler.workers()).toBe(1);
+});
+
+test('should retire workers when the machine runs low on memory', () => {
+  const autoscaler = createAutoscaler(1, 3, [
+    { cpuLoad: 0.1, freeMemory: 0.8 },
+    { cpuLoad: 0.1, freeMemory: 0.8 },
+    { cpuLoad: 0.1, freeMemory: 0.05 },
+    { cpuLoad: 0.95, freeMemory: 0.8 },
+    { cpuLoad: 0.95, freeMemory: 0.8 },
+  ]);
+  autoscaler.update(true);
+  autoscaler.update(true);
+  expect(autoscaler.update(true)).toEqual({ workers: 2, message: 'Scaling down to 2 workers: cpu load 10%, free memory 5%' });
+  expect(autoscaler.update(true)).toEqual({ workers: 1, message: 'Scaling down to 1 worker: cpu load 95%, free memory 80%' });
+  // Never below the minimum.
+  expect(autoscaler.update(true)).toBeUndefined();
+});
+
+test('should start and retire workers with autoscale', async ({ runInlineTest }) => {
+  const idle = { cpuLoad: 0.1, freeMemory: 0.8 };
+  const busy = { cpuLoad: 0.95, freeMemory: 0.8 };
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { fullyParallel: true, autoscale: { minWorkers: 1, maxWorkers: 3 } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      for (let i = 0; i < 12; i++) {
+        test('test' + i, async ({}, testInfo) => {
+          console.log('\\n%%worker=' + testInfo.workerIndex + ' parallel=' + testInfo.parallelIndex);
+          await new Promise(f => setTimeout(f, 1000));
+        });
+      }
+    `,
+  }, { workers: 'auto', reporter: 'line' }, { PWTEST_AUTOSCALE_SAMPLES: JSON.stringify([idle, idle, busy, busy]) });
+  expect(result.exitCode).toBe(0);
+  expect(result.passed).toBe(12);
+  const autoscaleLines = result.output.split('\n').filter(line => line.startsWith('[Autoscale]'));
+  expect(autoscaleLines).toEqual([
+    '[Autoscale] Scaling up to 2 workers: cpu load 10%, free memory 80%',
+    '[Autoscale] Scaling up to 3 workers: cpu load 10%, free memory 80%',
+    '[Autoscale] Scaling down to 2 workers: cpu load 95%, free memory 80%',
+    '[Autoscale] Scaling down to 1 worker: cpu load 95%, free memory 80%',
+  ]);
+  const runs = result.outputLines.map(line => line.match(/worker=(\d+) parallel=(\d+)/)!).map(m => ({ workerIndex: +m[1], parallelIndex: +m[2] }));
+  expect(runs).toHaveLength(12);
+  expect(new Set(runs.map(r => r.parallelIndex))).toEqual(new Set([0, 1, 2]));
+  expect(new Set(runs.map(r => r.workerIndex)).size).toBe(3);
+  // Once the extra workers are retired, the remaining tests run in the first worker.
+  expect(runs.slice(-3)).toEqual([runs[0], runs[0], runs[0]]);
+});
+
+test('should validate autoscale bounds', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { workers: 'auto', autoscale: { minWorkers: 4, maxWorkers: 2 } };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('test', () => {});
+    `,
+  }, { workers: 'auto' });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('Autoscale minWorkers 4 must not exceed maxWorkers 2.');
+});
+
+test('should not allow auto workers in projects', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { projects: [{ workers: 'auto' }] };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('test', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('config.projects[0].workers cannot be "auto", it is only supported in the top-level config');
+});
+
+test('should validate top-level workers', async ({ runInlineTest }) => {
+  const result = await runInlineTest({
+    'playwright.config.ts': `
+      module.exports = { workers: 'many' };
+    `,
+    'a.test.ts': `
+      import { test } from '@playwright/test';
+      test('test', () => {});
+    `,
+  });
+  expect(result.exitCode).toBe(1);
+  expect(result.output).toContain('config.workers must be a number or percentage');
+});